@@ -23,6 +23,10 @@ export class RestApiGateway extends BaseConstruct {
     props: {
       apiFunction: lambda.IFunction
       options?: RestApiSimplePatternProps
+      /**
+       * Require the API key, disabled when the function authenticates bearer tokens
+       */
+      apiKeyRequired?: boolean
     },
   ) {
     super(scope, id)
@@ -52,6 +56,7 @@ export class RestApiGateway extends BaseConstruct {
     reservations.addMethod(
       "ANY",
       new apigateway.LambdaIntegration(props.apiFunction),
+      { apiKeyRequired: props.apiKeyRequired ?? true },
     )
   }
 
@@ -5,15 +5,87 @@ import {
   NodeJsFunctionSimplePattern,
 } from "@tomassabol/cdk-template"
 import * as cdk from "aws-cdk-lib"
+import type * as dynamodb from "aws-cdk-lib/aws-dynamodb"
 import * as iam from "aws-cdk-lib/aws-iam"
 import type * as lambda from "aws-cdk-lib/aws-lambda"
 
 import { defaultNodeJsFunctionSimplePatternArgs } from "../../defaults/default-lambda-function-props"
 
+const TOOL_ENVIRONMENT_VARIABLES = [
+  "AWS_ACCOUNTS",
+  "AWS_ALLOWED_ROLE_ARNS",
+  "AWS_ASSUME_ROLE_NAME",
+  "AWS_ASSUME_ROLE_EXTERNAL_ID",
+  "AWS_ASSUME_ROLE_SESSION_NAME",
+  "MCP_TOOLS",
+  "MCP_TOOL_PROFILES",
+  "MCP_API_KEY_PROFILES",
+  "MCP_MAX_RESPONSE_TOKENS",
+  "MCP_REDACT_KEYS",
+  "MCP_REDACT_ALLOW_KEYS",
+  "MCP_UNREDACTED_OUTPUT",
+  "MCP_AUDIT_RETENTION_DAYS",
+  "MCP_AUTH_ISSUER",
+  "MCP_AUTH_RESOURCE",
+  "MCP_AUTH_AUDIENCE",
+  "MCP_AUTH_JWKS_URL",
+  "MCP_AUTH_SCOPES",
+  "MCP_AUTHORIZATION_POLICY",
+  "MCP_RATE_LIMIT_PER_MINUTE",
+  "MCP_RATE_LIMIT_BURST",
+  "MCP_TOOL_RATE_LIMITS",
+  "MCP_DAILY_COST_EXPLORER_REQUESTS",
+  "MCP_DAILY_LOGS_INSIGHTS_GB",
+  "AWS_RETRY_MODE",
+  "AWS_MAX_ATTEMPTS",
+  "AWS_REGION_CONCURRENCY",
+  "AWS_REGIONS_CACHE_TTL_SECONDS",
+]
+
+/**
+ * Variables of AWS clients named by service or setting, e.g. `AWS_CE_MAX_ATTEMPTS`,
+ * `AWS_ENDPOINT_URL_S3` or `AWS_HTTP_REQUEST_TIMEOUT_MS`
+ */
+const TOOL_ENVIRONMENT_VARIABLE_PATTERNS = [
+  /^AWS_[A-Z0-9]+_(RETRY_MODE|MAX_ATTEMPTS)$/,
+  /^AWS_ENDPOINT_URL(_[A-Z0-9_]+)?$/,
+  /^AWS_HTTP_[A-Z_]+$/,
+]
+
+const isToolEnvironmentVariable = (name: string) =>
+  TOOL_ENVIRONMENT_VARIABLES.includes(name) ||
+  TOOL_ENVIRONMENT_VARIABLE_PATTERNS.some((pattern) => pattern.test(name))
+
+/**
+ * Roles tools may assume: registry roles, allowed role ARNs and the role of account IDs
+ */
+const getAssumableRoleArns = () => [
+  ...Object.values(
+    JSON.parse(process.env.AWS_ACCOUNTS ?? "{}") as Record<
+      string,
+      { roleArn: string }
+    >,
+  ).map((account) => account.roleArn),
+  ...(process.env.AWS_ALLOWED_ROLE_ARNS ?? "")
+    .split(",")
+    .map((roleArn) => roleArn.trim())
+    .filter(Boolean),
+  ...(process.env.AWS_ASSUME_ROLE_NAME
+    ? [`arn:aws:iam::*:role/${process.env.AWS_ASSUME_ROLE_NAME}`]
+    : []),
+]
+
 export class ApiFunction extends BaseConstruct {
   public function: lambda.Function
 
-  constructor(scope: IBaseConstruct, id: string) {
+  constructor(
+    scope: IBaseConstruct,
+    id: string,
+    props: {
+      auditLogTable: dynamodb.ITable
+      rateLimitTable: dynamodb.ITable
+    },
+  ) {
     super(scope, id)
 
     const { lambdaFunction } = new NodeJsFunctionSimplePattern(
@@ -21,14 +93,38 @@ export class ApiFunction extends BaseConstruct {
         description: "API",
         entry: "src/functions/api/api-function.ts",
         timeout: cdk.Duration.minutes(1),
+        environment: {
+          DEFAULT_AWS_REGION: cdk.Stack.of(this).region,
+          MCP_AUDIT_TABLE_NAME: props.auditLogTable.tableName,
+          MCP_RATE_LIMIT_TABLE_NAME: props.rateLimitTable.tableName,
+          // Tools of the stage are selected by the environment of the deployment
+          ...Object.fromEntries(
+            Object.entries(process.env).filter(
+              ([name, value]) => value && isToolEnvironmentVariable(name),
+            ),
+          ),
+        },
       }),
     )
     this.function = lambdaFunction
 
     grantAppConfigAccess(this.function)
+    props.auditLogTable.grantWriteData(this.function)
+    props.rateLimitTable.grantReadWriteData(this.function)
 
     this.function.role?.addManagedPolicy(
       iam.ManagedPolicy.fromAwsManagedPolicyName("ReadOnlyAccess"),
     )
+
+    // Cross-account tool calls, limited to the roles configured for the stage
+    const assumableRoleArns = getAssumableRoleArns()
+    if (assumableRoleArns.length) {
+      this.function.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: ["sts:AssumeRole"],
+          resources: assumableRoleArns,
+        }),
+      )
+    }
   }
 }
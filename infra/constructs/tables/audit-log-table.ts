@@ -0,0 +1,30 @@
+import { BaseConstruct, type IBaseConstruct } from "@tomassabol/cdk-template"
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb"
+
+import { defaultDynamoDbTableArgs } from "../defaults/default-dynamodb-table-props"
+
+/**
+ * Audit records of tool calls, see `createDynamoDbAuditSink`
+ */
+export class AuditLogTable extends BaseConstruct {
+  public table: dynamodb.Table
+
+  constructor(scope: IBaseConstruct, id: string) {
+    super(scope, id)
+
+    this.table = new dynamodb.Table(
+      ...defaultDynamoDbTableArgs(this, id, {
+        partitionKey: { name: "caller", type: dynamodb.AttributeType.STRING },
+        sortKey: { name: "id", type: dynamodb.AttributeType.STRING },
+        timeToLiveAttribute: "expiresAt",
+      }),
+    )
+
+    // Who queried the data of an account
+    this.table.addGlobalSecondaryIndex({
+      indexName: "account-index",
+      partitionKey: { name: "account", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "id", type: dynamodb.AttributeType.STRING },
+    })
+  }
+}
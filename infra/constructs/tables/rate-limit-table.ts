@@ -0,0 +1,22 @@
+import { BaseConstruct, type IBaseConstruct } from "@tomassabol/cdk-template"
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb"
+
+import { defaultDynamoDbTableArgs } from "../defaults/default-dynamodb-table-props"
+
+/**
+ * Rate limit buckets and daily quota counters of callers, see `createDynamoDbRateLimitStore`
+ */
+export class RateLimitTable extends BaseConstruct {
+  public table: dynamodb.Table
+
+  constructor(scope: IBaseConstruct, id: string) {
+    super(scope, id)
+
+    this.table = new dynamodb.Table(
+      ...defaultDynamoDbTableArgs(this, id, {
+        partitionKey: { name: "key", type: dynamodb.AttributeType.STRING },
+        timeToLiveAttribute: "expiresAt",
+      }),
+    )
+  }
+}
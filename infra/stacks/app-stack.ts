@@ -6,6 +6,8 @@ import {
 
 import { RestApiGateway } from "../constructs/api-getways/rest-api-gateway"
 import { ApiFunction } from "../constructs/functions/api/api-function"
+import { AuditLogTable } from "../constructs/tables/audit-log-table"
+import { RateLimitTable } from "../constructs/tables/rate-limit-table"
 
 export class AppStack extends BaseStack {
   constructor(appContext: AppContext, stackConfig: StackConfig) {
@@ -13,12 +15,31 @@ export class AppStack extends BaseStack {
       description: `AWS CloudControl MCP Server - [${appContext.stageName}]`,
     })
 
+    /**
+     * Audit log
+     */
+
+    const { table: auditLogTable } = new AuditLogTable(this, "audit-log")
+
+    /**
+     * Rate limits
+     */
+
+    const { table: rateLimitTable } = new RateLimitTable(this, "rate-limit")
+
     /**
      * API Gateway
      */
 
-    const { function: apiFunction } = new ApiFunction(this, "api-function")
+    const { function: apiFunction } = new ApiFunction(this, "api-function", {
+      auditLogTable,
+      rateLimitTable,
+    })
 
-    new RestApiGateway(this, "api-gateway", { apiFunction })
+    // Clients authenticate with OAuth tokens instead of the shared API key when an issuer is set
+    new RestApiGateway(this, "api-gateway", {
+      apiFunction,
+      apiKeyRequired: !process.env.MCP_AUTH_ISSUER,
+    })
   }
 }
@@ -1,10 +1,14 @@
 import { type API } from "@tomassabol/lambda-api"
 
-import { mcpHandler } from "../app/mcp/mcp"
+import { mcpHandler, protectedResourceMetadataHandler } from "../app/mcp/mcp"
+import { PROTECTED_RESOURCE_METADATA_PATH } from "../utils/bearer-auth"
 
 /**
  * API routes for MCP server
  *
+ * Streamable HTTP transport - https://modelcontextprotocol.io/specification/2025-06-18/basic/transports#streamable-http
+ * Protected resource metadata - https://modelcontextprotocol.io/specification/2025-06-18/basic/authorization
+ *
  * @example
  * ```typescript
  * const api = createAPI()
@@ -14,4 +18,7 @@ import { mcpHandler } from "../app/mcp/mcp"
 
 export const mcpRoutes = (api: API) => {
   api.post("/mcp", mcpHandler)
+  api.get("/mcp", mcpHandler)
+  api.delete("/mcp", mcpHandler)
+  api.get(PROTECTED_RESOURCE_METADATA_PATH, protectedResourceMetadataHandler)
 }
@@ -25,5 +25,10 @@ export type SuccessApiResponse = {
   message: string
 }
 
-export type MCPRequest = JSONRPCRequest | JSONRPCNotification
-export type MCPResponse = JSONRPCResponse | null
+export type MCPMessage = JSONRPCRequest | JSONRPCNotification
+
+/**
+ * Single message or JSON-RPC batch
+ */
+export type MCPRequest = MCPMessage | MCPMessage[]
+export type MCPResponse = JSONRPCResponse | JSONRPCResponse[] | null
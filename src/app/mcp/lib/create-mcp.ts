@@ -1,127 +1,1240 @@
 import {
   CallToolRequestSchema,
   type CallToolResult,
+  CancelledNotificationSchema,
+  CompleteRequestSchema,
+  type CompleteResult,
+  type EmptyResult,
+  GetPromptRequestSchema,
+  type GetPromptResult,
   InitializeRequestSchema,
   type InitializeResult,
-  isJSONRPCNotification,
+  type JSONRPCError,
   type JSONRPCNotification,
   type JSONRPCRequest,
   type JSONRPCResponse,
+  ListPromptsRequestSchema,
+  type ListPromptsResult,
+  ListResourcesRequestSchema,
+  type ListResourcesResult,
+  ListResourceTemplatesRequestSchema,
+  type ListResourceTemplatesResult,
   ListToolsRequestSchema,
   type ListToolsResult,
+  type ProgressNotification,
+  ReadResourceRequestSchema,
+  type ReadResourceResult,
+  type ResourceUpdatedNotification,
+  SubscribeRequestSchema,
+  type ToolListChangedNotification,
+  UnsubscribeRequestSchema,
   // eslint-disable-next-line import/no-unresolved
 } from "@modelcontextprotocol/sdk/types.js"
+import { createId } from "@paralleldrive/cuid2"
 import { z } from "zod"
-import { type JsonSchema7ObjectType, zodToJsonSchema } from "zod-to-json-schema"
+import {
+  type JsonSchema7ObjectType,
+  type JsonSchema7Type,
+  zodToJsonSchema,
+} from "zod-to-json-schema"
 
-import { PROTOCOL_VERSION } from "~/utils/protocol-version"
+import { type AuditSink } from "~/utils/audit-log"
+import {
+  AccessDeniedError,
+  type Authorizer,
+} from "~/utils/authorization-policy"
+import { getDefaultAwsRegion } from "~/utils/aws-region"
+import { type AuthPrincipal, getCallerKey } from "~/utils/bearer-auth"
+import { completeValues, type Completer } from "~/utils/completion"
+import {
+  InternalError,
+  InvalidParamsError,
+  InvalidRequestError,
+  JSON_RPC_ERROR_CODES,
+  JsonRpcError,
+  MethodNotFoundError,
+  ResourceNotFoundError,
+  toJsonRpcError,
+} from "~/utils/json-rpc-error"
+import {
+  isSupportedProtocolVersion,
+  PROTOCOL_VERSION,
+} from "~/utils/protocol-version"
+import { type Prompt } from "~/utils/prompt"
+import { QuotaExceededError, type RateLimiter } from "~/utils/rate-limit"
+import { type Redactor } from "~/utils/redaction"
+import {
+  matchUriTemplate,
+  type ResourceContents,
+  type ResourceTemplate,
+} from "~/utils/resource"
+import {
+  budgetResponse,
+  createResultCache,
+  decodeResponseCursor,
+  describeTruncation,
+  getMaxResponseTokens,
+  getResponseCallKey,
+  responseArgs,
+  toProjectableSchema,
+} from "~/utils/response-budget"
 
-import { type Tool } from "../../../utils/tool"
+import { awsAccountArgs, runInAwsAccount } from "../../../utils/aws-account"
+import {
+  type AwsCallMetrics,
+  createAwsCallMetrics,
+  trackAwsCalls,
+} from "../../../utils/aws-call-metrics"
+import { type Tool, type ToolRunContext } from "../../../utils/tool"
+import { ToolError, toolErrorOutput } from "../../../utils/tool-error"
+import { createResourceSubscriptions } from "./resource-subscriptions"
 
-const RequestSchema = z.union([
-  InitializeRequestSchema,
-  ListToolsRequestSchema,
-  CallToolRequestSchema,
-])
-type RequestSchema = z.infer<typeof RequestSchema>
+export type Mcp = ReturnType<typeof createMcp>
+export type McpMessage = JSONRPCRequest | JSONRPCNotification
+/**
+ * Error responses carry `null` id when the request id could not be determined
+ */
+export type McpResponse =
+  | JSONRPCResponse
+  | (Omit<JSONRPCError, "id"> & { id: JSONRPCError["id"] | null })
+
+/**
+ * HTTP request a message was received in
+ */
+export type McpRequestContext = {
+  /**
+   * Lower-cased request headers
+   */
+  headers: Record<string, string | undefined>
+  /**
+   * ID of the API Gateway API key the request was authorized with
+   */
+  apiKeyId?: string
+  /**
+   * Principal authenticated by the bearer token of the request, omitted without bearer auth
+   */
+  principal?: AuthPrincipal
+  /**
+   * MCP session of the request, omitted for stateless requests
+   */
+  sessionId?: string
+  /**
+   * Client name and version sent in `initialize` of the session
+   */
+  clientInfo?: { name: string; version: string }
+  /**
+   * Send notification related to the request, e.g. progress, on the stream of its response.
+   * Omitted when the response is not streamed.
+   */
+  sendNotification?: (notification: JSONRPCNotification) => void
+}
+
+/**
+ * Tools returned by a single `tools/list` response when `toolsPageSize` is not set
+ */
+const DEFAULT_TOOLS_PAGE_SIZE = 50
+
+type ParseResult<T> =
+  | { success: true; data: T }
+  | {
+      success: false
+      error: {
+        issues: Parameters<typeof InvalidParamsError.fromIssues>[0]
+      }
+    }
+
+/**
+ * Check JSON-RPC envelope of a message - https://www.jsonrpc.org/specification#request_object
+ */
+function assertMessage(message: unknown): asserts message is McpMessage {
+  if (
+    typeof message !== "object" ||
+    message === null ||
+    Array.isArray(message)
+  ) {
+    throw new InvalidRequestError({
+      message: "Invalid Request: message must be an object",
+    })
+  }
+
+  const { jsonrpc, method, id } = message as Record<string, unknown>
+  if (jsonrpc !== "2.0") {
+    throw new InvalidRequestError({
+      message: 'Invalid Request: jsonrpc must be "2.0"',
+      data: { jsonrpc },
+    })
+  }
+  if (typeof method !== "string") {
+    throw new InvalidRequestError({
+      message: "Invalid Request: method must be a string",
+    })
+  }
+  if (id !== undefined && typeof id !== "string" && typeof id !== "number") {
+    throw new InvalidRequestError({
+      message: "Invalid Request: id must be a string or number",
+    })
+  }
+}
 
-export function createMcp(input: { tools: Tool[] }) {
+/**
+ * Validate request against MCP schema of the method
+ */
+function parseRequest<T>(
+  schema: { safeParse(value: unknown): ParseResult<T> },
+  message: McpMessage,
+): T {
+  const parsed = schema.safeParse(message)
+  if (!parsed.success) {
+    throw InvalidParamsError.fromIssues(
+      parsed.error.issues,
+      `Invalid params for ${message.method}`,
+    )
+  }
+  return parsed.data
+}
+
+/**
+ * Request id of a message, `null` when it cannot be determined
+ */
+const getMessageId = (message: unknown) => {
+  const id = (message as { id?: unknown } | null)?.id
+  return typeof id === "string" || typeof id === "number" ? id : null
+}
+
+/**
+ * Opaque `tools/list` cursor, offset of the first tool of the page
+ */
+const encodeToolsCursor = (offset: number) =>
+  Buffer.from(JSON.stringify({ offset })).toString("base64url")
+
+const decodeToolsCursor = (cursor?: string) => {
+  if (!cursor) return 0
+
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, "base64url").toString())
+    if (Number.isInteger(offset) && offset >= 0) return offset as number
+  } catch {
+    // Reported below
+  }
+  throw new InvalidParamsError({
+    message: "Invalid cursor, use nextCursor of the previous tools/list",
+    data: { cursor },
+  })
+}
+
+const toInputSchema = (schema: z.ZodSchema) =>
+  zodToJsonSchema(schema, "args").definitions!.args as JsonSchema7ObjectType
+
+/**
+ * Output schema of a tool, failed calls return `ToolError` structured content instead
+ *
+ * MCP requires `type: "object"` on the root of output schemas.
+ */
+const toOutputSchema = (schema: z.ZodSchema) => {
+  const { anyOf } = zodToJsonSchema(z.union([schema, toolErrorOutput]), {
+    name: "output",
+    $refStrategy: "none",
+  }).definitions!.output as { anyOf: JsonSchema7Type[] }
+
+  // Results projected to `fields` omit required properties
+  const [output, error] = anyOf
   return {
-    async process(
-      message: JSONRPCRequest | JSONRPCNotification,
-    ): Promise<JSONRPCResponse | null> {
-      // Server must not send a response to notifications - https://modelcontextprotocol.io/specification/2025-06-18/basic/index#notifications
-      if (isJSONRPCNotification(message)) {
-        return null
+    type: "object" as const,
+    anyOf: [toProjectableSchema(output!), error!],
+  }
+}
+
+/**
+ * Convert error of a resource read, failed AWS calls keep their classification
+ */
+const toResourceError = (error: unknown, uri: string) => {
+  if (!(error instanceof ToolError)) return error
+
+  const { error: details } = error.toStructuredContent()
+  if (error instanceof AccessDeniedError) {
+    return new InvalidRequestError({
+      message: details.message,
+      data: { uri, ...details },
+    })
+  }
+  if (details.category === "resource_not_found") {
+    return new ResourceNotFoundError({ uri, data: details })
+  }
+  return new JsonRpcError({
+    code: JSON_RPC_ERROR_CODES.INTERNAL_ERROR,
+    message: details.message,
+    data: { uri, ...details },
+  })
+}
+
+/**
+ * Read resource with the first template matching its URI, the contents are redacted with `redactor`
+ *
+ * @param runRead runs the read as a call of the template tool with the URI variables, e.g. to authorize it
+ */
+const readResource = async (
+  templates: ResourceTemplate[],
+  uri: string,
+  redactor?: Redactor,
+  runRead: (
+    toolName: string,
+    variables: Record<string, string>,
+    read: () => Promise<ResourceContents>,
+  ) => Promise<ResourceContents> = (_toolName, _variables, read) => read(),
+): Promise<ReadResourceResult> => {
+  for (const template of templates) {
+    const variables = matchUriTemplate(template.uriTemplate, uri)
+    if (!variables) continue
+
+    try {
+      const contents = await runRead(template.toolName, variables, () =>
+        template.read(variables, uri),
+      )
+      const text = redactor
+        ? redactor.redact(contents.text).value
+        : contents.text
+      return { contents: [{ uri, ...contents, text }] }
+    } catch (error) {
+      throw toResourceError(error, uri)
+    }
+  }
+
+  throw new ResourceNotFoundError({ uri })
+}
+
+/**
+ * Arguments accepted by every tool besides its own ones
+ */
+const commonArgs = awsAccountArgs.merge(responseArgs)
+
+/**
+ * Every tool accepts `account` and `roleArn` to run in another AWS account
+ * and response arguments such as `maxResponseTokens` and `fields`
+ */
+const withCommonArgs = (
+  inputSchema: JsonSchema7ObjectType,
+): JsonSchema7ObjectType => ({
+  ...inputSchema,
+  properties: {
+    ...inputSchema.properties,
+    ...toInputSchema(commonArgs).properties,
+  },
+})
+
+export function createMcp(input: {
+  tools: Tool[]
+  /**
+   * Narrow tools listed and callable in a request, e.g. by tool profile
+   */
+  selectTools?: (tools: Tool[], context: McpRequestContext) => Tool[]
+  /**
+   * Tools returned by a single `tools/list` response, defaults to 50
+   */
+  toolsPageSize?: number
+  /**
+   * Resource templates, a template is available in a request only with its tool
+   */
+  resourceTemplates?: ResourceTemplate[]
+  /**
+   * Enable `resources/subscribe`, subscribed resources are read every `pollIntervalMs`.
+   * Requires server-to-client streams to deliver updates. A session subscribes to at most
+   * `maxPerSession` resources, 20 by default.
+   */
+  resourceSubscriptions?: { pollIntervalMs: number; maxPerSession?: number }
+  /**
+   * Prompts, a prompt is available in a request only with all of its tools
+   */
+  prompts?: Prompt[]
+  /**
+   * Mask secrets in tool results and resources, output is not redacted without it
+   */
+  redactor?: Redactor
+  /**
+   * Decide tool calls and resource reads by the identity of the request, tools the request
+   * cannot call are not listed. Every call is allowed without it.
+   */
+  authorizer?: Authorizer
+  /**
+   * Destination of audit records of tool calls, calls are not audited without it
+   */
+  auditSink?: AuditSink
+  /**
+   * Rate limits and daily quotas of tool calls by caller, calls are not limited without it
+   */
+  rateLimiter?: RateLimiter
+  /**
+   * Completers of prompt arguments and resource template variables by name,
+   * a completer is available in a request only with its tool
+   */
+  completers?: Record<string, Completer>
+  onError?: (error: unknown) => void
+}) {
+  let tools = input.tools
+  const toolsPageSize = input.toolsPageSize ?? DEFAULT_TOOLS_PAGE_SIZE
+  const toolsListChangedListeners = new Set<
+    (notification: ToolListChangedNotification) => void
+  >()
+  // Calls cancellable by `notifications/cancelled`, by session and request id
+  const runningCalls = new Map<string, AbortController>()
+  // Full results of truncated responses by caller and result ID
+  const results = createResultCache()
+  const getCallKey = (sessionId: string, requestId: string | number) =>
+    `${sessionId}:${requestId}`
+
+  const resourceUpdatedListeners = new Set<
+    (sessionId: string, notification: ResourceUpdatedNotification) => void
+  >()
+
+  // Templates available to the subscribing request were checked on subscribe
+  const subscriptions =
+    input.resourceSubscriptions &&
+    createResourceSubscriptions({
+      read: async (uri) =>
+        JSON.stringify(
+          await readResource(
+            input.resourceTemplates ?? [],
+            uri,
+            input.redactor,
+          ),
+        ),
+      pollIntervalMs: input.resourceSubscriptions.pollIntervalMs,
+      maxPerSession: input.resourceSubscriptions.maxPerSession,
+      onUpdated: (sessionId, uri) =>
+        resourceUpdatedListeners.forEach((listener) =>
+          listener(sessionId, {
+            method: "notifications/resources/updated",
+            params: { uri },
+          }),
+        ),
+      onError: input.onError,
+    })
+
+  /**
+   * Apply rate limits of a tool call, failing stores do not fail the call
+   *
+   * @throws QuotaExceededError when the call exceeds a limit
+   */
+  const limitCall = async (
+    apply: (rateLimiter: RateLimiter) => Promise<void>,
+  ) => {
+    if (!input.rateLimiter) return
+
+    try {
+      await apply(input.rateLimiter)
+    } catch (error) {
+      if (error instanceof QuotaExceededError) throw error
+      input.onError?.(error)
+    }
+  }
+
+  /**
+   * Write audit record of a finished tool call, failed writes do not fail the call
+   */
+  const auditCall = async (call: {
+    startedAt: number
+    requestId: string | number
+    context: McpRequestContext
+    toolName: string
+    args: Record<string, unknown>
+    result: CallToolResult
+    awsCalls: AwsCallMetrics
+    cancelled: boolean
+    /**
+     * The tool is unknown or the request cannot call it
+     */
+    denied?: boolean
+    resource?: string
+  }) => {
+    if (!input.auditSink) return
+
+    const account = awsAccountArgs.safeParse(call.args)
+    const toolError = toolErrorOutput.safeParse(call.result.structuredContent)
+    const [content] = call.result.content
+    const error = toolError.success
+      ? {
+          category: toolError.data.error.category,
+          message: toolError.data.error.message,
+        }
+      : { message: content?.type === "text" ? content.text : "Tool failed" }
+
+    try {
+      await input.auditSink.write({
+        timestamp: new Date(call.startedAt).toISOString(),
+        requestId: call.requestId,
+        sessionId: call.context.sessionId,
+        caller: {
+          apiKeyId: call.context.apiKeyId,
+          subject: call.context.principal?.subject,
+          clientId: call.context.principal?.clientId,
+        },
+        client: call.context.clientInfo,
+        tool: call.toolName,
+        resource: call.resource,
+        args: input.redactor
+          ? input.redactor.redact(call.args).value
+          : call.args,
+        account: account.data?.account,
+        roleArn: account.data?.roleArn,
+        durationMs: Date.now() - call.startedAt,
+        outcome: call.denied
+          ? "denied"
+          : call.cancelled
+            ? "cancelled"
+            : call.result.isError
+              ? "error"
+              : "success",
+        ...(call.result.isError && { error }),
+        awsRequestIds: call.awsCalls.requestIds,
+        responseBytes: Buffer.byteLength(JSON.stringify(call.result)),
+      })
+    } catch (error) {
+      input.onError?.(error)
+    }
+  }
+
+  async function processMessage(
+    message: unknown,
+    context: McpRequestContext,
+  ): Promise<JSONRPCResponse | null> {
+    assertMessage(message)
+
+    // Server must not send a response to notifications - https://modelcontextprotocol.io/specification/2025-06-18/basic/index#notifications
+    if (!("id" in message)) {
+      // Request ids are unique only within a session, so only calls of the same session can be cancelled
+      const cancelled = CancelledNotificationSchema.safeParse(message)
+      if (cancelled.success && context.sessionId) {
+        runningCalls
+          .get(getCallKey(context.sessionId, cancelled.data.params.requestId))
+          ?.abort(cancelled.data.params.reason)
       }
+      return null
+    }
 
-      const parsed = RequestSchema.parse(message)
+    const getTools = () =>
+      (input.selectTools ? input.selectTools(tools, context) : tools).filter(
+        (tool) =>
+          !input.authorizer || input.authorizer.canCall(tool.name, context),
+      )
+    const authorizeResource = (
+      toolName: string,
+      variables: Record<string, unknown>,
+    ) =>
+      input.authorizer?.authorize({
+        toolName,
+        args: variables,
+        identity: context,
+      })
+    /**
+     * Run resource read or listing as a call of its tool, authorized, rate limited and audited
+     */
+    const runResourceCall = async <Result>(call: {
+      toolName: string
+      args: Record<string, unknown>
+      /**
+       * URI of the read resource, omitted for listings
+       */
+      resource?: string
+      run: () => Promise<Result>
+    }): Promise<Result> => {
+      const startedAt = Date.now()
+      const awsCalls = createAwsCallMetrics()
+      let result: CallToolResult = { content: [] }
 
-      const result = await (async () => {
-        switch (parsed.method) {
-          case "initialize": {
-            return {
-              protocolVersion: PROTOCOL_VERSION,
-              capabilities: {
-                tools: {},
-              },
-              serverInfo: {
-                name: "aws-cloudcontrol",
-                version: "1.0.0",
+      try {
+        authorizeResource(call.toolName, call.args)
+        await limitCall((rateLimiter) =>
+          rateLimiter.consume({ toolName: call.toolName, caller: context }),
+        )
+        const value = await trackAwsCalls(awsCalls, call.run)
+        result = { content: [{ type: "text", text: JSON.stringify(value) }] }
+        return value
+      } catch (error) {
+        const toolError =
+          error instanceof ToolError
+            ? error
+            : new ToolError({ error, toolName: call.toolName })
+        result = {
+          isError: true,
+          content: [{ type: "text", text: toolError.message }],
+          structuredContent: toolError.toStructuredContent(),
+        }
+        throw error
+      } finally {
+        await limitCall((rateLimiter) =>
+          rateLimiter.record({
+            toolName: call.toolName,
+            caller: context,
+            awsCalls,
+          }),
+        )
+        await auditCall({
+          startedAt,
+          requestId: message.id,
+          context,
+          toolName: call.toolName,
+          args: call.args,
+          resource: call.resource,
+          result,
+          awsCalls,
+          cancelled: false,
+        })
+      }
+    }
+    const getPrompts = () => {
+      const toolNames = new Set(getTools().map((tool) => tool.name))
+      return (input.prompts ?? []).filter((prompt) =>
+        prompt.toolNames.every((name) => toolNames.has(name)),
+      )
+    }
+    const getResourceTemplates = () => {
+      const toolNames = new Set(getTools().map((tool) => tool.name))
+      return (input.resourceTemplates ?? []).filter((template) =>
+        toolNames.has(template.toolName),
+      )
+    }
+
+    const result = await (async () => {
+      switch (message.method) {
+        case "initialize": {
+          const parsed = parseRequest(InitializeRequestSchema, message)
+
+          return {
+            // Answer with the requested version when supported, otherwise with the latest one - https://modelcontextprotocol.io/specification/2025-06-18/basic/lifecycle#version-negotiation
+            protocolVersion: isSupportedProtocolVersion(
+              parsed.params.protocolVersion,
+            )
+              ? parsed.params.protocolVersion
+              : PROTOCOL_VERSION,
+            capabilities: {
+              tools: { listChanged: true },
+              ...(input.resourceTemplates && {
+                resources: { subscribe: Boolean(subscriptions) },
+              }),
+              ...(input.prompts && { prompts: {} }),
+              ...(input.completers && { completions: {} }),
+            },
+            serverInfo: {
+              name: "aws-cloudcontrol",
+              version: "1.0.0",
+            },
+          } satisfies InitializeResult
+        }
+
+        case "tools/list": {
+          const parsed = parseRequest(ListToolsRequestSchema, message)
+          const listed = getTools()
+          const offset = decodeToolsCursor(parsed.params?.cursor)
+          const next = offset + toolsPageSize
+
+          return {
+            tools: listed.slice(offset, next).map((tool) => ({
+              name: tool.name,
+              title: tool.title,
+              inputSchema: withCommonArgs(
+                toInputSchema(tool.args || z.object({})),
+              ),
+              outputSchema: toOutputSchema(tool.output),
+              description: tool.description,
+              annotations: tool.annotations,
+            })),
+            // Omitted on the last page
+            ...(next < listed.length && {
+              nextCursor: encodeToolsCursor(next),
+            }),
+          } satisfies ListToolsResult
+        }
+
+        case "tools/call": {
+          const parsed = parseRequest(CallToolRequestSchema, message)
+          const tool = getTools().find(
+            (tool) => tool.name === parsed.params.name,
+          )
+          if (!tool) {
+            const error = new InvalidParamsError({
+              message: `Unknown tool: ${parsed.params.name}`,
+              data: { tool: parsed.params.name },
+            })
+            // Calls of tools hidden from the request are recorded too, e.g. by the authorization policy
+            await auditCall({
+              startedAt: Date.now(),
+              requestId: message.id,
+              context,
+              toolName: parsed.params.name,
+              args: parsed.params.arguments ?? {},
+              result: {
+                isError: true,
+                content: [{ type: "text", text: error.message }],
               },
-            } satisfies InitializeResult
+              awsCalls: createAwsCallMetrics(),
+              cancelled: false,
+              denied: true,
+            })
+            throw error
           }
 
-          case "tools/list": {
-            return {
-              tools: input.tools.map((tool) => ({
-                name: tool.name,
-                inputSchema: zodToJsonSchema(tool.args || z.object({}), "args")
-                  .definitions!.args as JsonSchema7ObjectType,
-                description: tool.description,
-              })),
-            } satisfies ListToolsResult
-          }
+          const startedAt = Date.now()
+          // AWS call statistics, e.g. throttling retries, are reported in result metadata
+          const awsCalls = createAwsCallMetrics()
+          const _meta = () => (awsCalls.calls > 0 ? { aws: awsCalls } : {})
+          const controller = new AbortController()
 
-          case "tools/call": {
-            const tool = input.tools.find(
-              (tool) => tool.name === parsed.params.name,
+          const result = await (async (): Promise<CallToolResult> => {
+            const common = commonArgs.safeParse(parsed.params.arguments ?? {})
+            if (!common.success) {
+              return {
+                isError: true,
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(common.error.issues),
+                  },
+                ],
+              } satisfies CallToolResult
+            }
+
+            // Response cursors continue the same call only
+            const callKey = getResponseCallKey(
+              tool.name,
+              parsed.params.arguments,
             )
-            if (!tool) throw new Error("tool not found")
+            const cursor = common.data.responseCursor
+              ? decodeResponseCursor(common.data.responseCursor, callKey)
+              : { offsets: {} }
+            if (!cursor) {
+              return {
+                isError: true,
+                content: [
+                  {
+                    type: "text",
+                    text: "Invalid responseCursor, pass responseCursor of the previous response with the same arguments",
+                  },
+                ],
+              } satisfies CallToolResult
+            }
+            // Continued calls reuse the full result instead of calling AWS again
+            const resultId = cursor.resultId ?? createId()
+            const resultKey = `${getCallerKey(context)}#${resultId}`
+            const cached = cursor.resultId ? results.get(resultKey) : undefined
+            if (common.data.responseCursor && !cached && tool.costly) {
+              return {
+                isError: true,
+                content: [
+                  {
+                    type: "text",
+                    text: "Expired responseCursor, call the tool again without responseCursor",
+                  },
+                ],
+              } satisfies CallToolResult
+            }
+            const maxResponseTokens =
+              common.data.maxResponseTokens ?? getMaxResponseTokens()
+
+            const runningCallKey =
+              context.sessionId && getCallKey(context.sessionId, message.id)
+            if (runningCallKey) runningCalls.set(runningCallKey, controller)
 
-            let args = parsed.params.arguments
-            if (tool.args) {
-              const validated = await tool.args["~standard"].validate(args)
-              if (validated.issues) {
+            const progressToken = parsed.params._meta?.progressToken
+            const runContext: ToolRunContext = {
+              signal: controller.signal,
+              principal: context.principal,
+              reportProgress: (progress) => {
+                if (progressToken === undefined) return
+                context.sendNotification?.({
+                  jsonrpc: "2.0",
+                  method: "notifications/progress",
+                  params: { progressToken, ...progress },
+                } satisfies ProgressNotification & { jsonrpc: "2.0" })
+              },
+            }
+
+            try {
+              // Denied calls must not assume roles or call AWS in the target account
+              const accountArgs = awsAccountArgs.parse(common.data)
+              input.authorizer?.authorize({
+                toolName: tool.name,
+                args: { ...accountArgs, ...parsed.params.arguments },
+                identity: context,
+              })
+
+              // Arguments are validated in the target account, e.g. regions enabled in the account
+              const validated =
+                tool.args &&
+                (await runInAwsAccount(common.data, async () =>
+                  tool.args!["~standard"].validate(parsed.params.arguments),
+                ))
+              if (validated?.issues) {
                 return {
                   isError: true,
                   content: [
-                    {
-                      type: "text",
-                      text: JSON.stringify(validated.issues),
-                    },
+                    { type: "text", text: JSON.stringify(validated.issues) },
                   ],
                 } satisfies CallToolResult
               }
-              args = validated.value
-            }
+              const args = validated ? validated.value : parsed.params.arguments
 
-            return tool
-              .run(args)
-              .catch(
-                (error: Error) =>
-                  ({
-                    isError: true,
-                    content: [
-                      {
-                        type: "text",
-                        text: error.message,
-                      },
-                    ],
-                  }) satisfies CallToolResult,
+              // Policies see the validated arguments, e.g. the default region, and the account
+              input.authorizer?.authorize({
+                toolName: tool.name,
+                args: { ...accountArgs, ...args },
+                identity: context,
+              })
+
+              // Only allowed and valid calls are counted, limits are stored with the server
+              // credentials outside the target account
+              await limitCall((rateLimiter) =>
+                rateLimiter.consume({ toolName: tool.name, caller: context }),
               )
-              .then(
-                (result: unknown) =>
-                  ({
-                    content: [
-                      {
-                        type: "text",
-                        text: JSON.stringify(result, null, 2),
-                      },
-                    ],
-                  }) satisfies CallToolResult,
+
+              return await runInAwsAccount(common.data, async () => {
+                const result =
+                  cached ??
+                  (await trackAwsCalls(awsCalls, () =>
+                    tool.run(args, runContext),
+                  ))
+
+                const output = tool.output.safeParse(result)
+                if (!output.success) {
+                  input.onError?.(output.error)
+                  throw new ToolError({
+                    message: "Tool result does not match its output schema",
+                    error: output.error,
+                    toolName: tool.name,
+                  })
+                }
+
+                // Secrets are masked before the result is serialized
+                const redacted = input.redactor?.redact(output.data)
+                const response = budgetResponse(
+                  redacted?.value ?? output.data,
+                  {
+                    callKey,
+                    maxResponseTokens,
+                    compact: common.data.compact,
+                    fields: common.data.fields,
+                    offsets: cursor.offsets,
+                    resultId,
+                  },
+                )
+                if (response.truncation?.responseCursor) {
+                  results.set(resultKey, output.data)
+                }
+
+                // Text fallback for clients without structured content support
+                return {
+                  content: [
+                    { type: "text", text: response.text },
+                    ...(response.truncation
+                      ? [
+                          {
+                            type: "text" as const,
+                            text: describeTruncation(
+                              response.truncation,
+                              maxResponseTokens,
+                            ),
+                          },
+                        ]
+                      : []),
+                  ],
+                  structuredContent: response.data as Record<string, unknown>,
+                  _meta: {
+                    ..._meta(),
+                    ...(redacted?.redacted && { redacted: redacted.redacted }),
+                    ...(response.truncation && {
+                      truncation: response.truncation,
+                    }),
+                  },
+                } satisfies CallToolResult
+              })
+            } catch (error) {
+              const toolError =
+                error instanceof ToolError
+                  ? error
+                  : new ToolError({ error, toolName: tool.name })
+              const structuredContent = toolError.toStructuredContent()
+
+              return {
+                isError: true,
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(structuredContent, null, 2),
+                  },
+                ],
+                structuredContent,
+                _meta: _meta(),
+              } satisfies CallToolResult
+            } finally {
+              if (runningCallKey) runningCalls.delete(runningCallKey)
+            }
+          })()
+
+          await limitCall((rateLimiter) =>
+            rateLimiter.record({
+              toolName: tool.name,
+              caller: context,
+              awsCalls,
+            }),
+          )
+          await auditCall({
+            startedAt,
+            requestId: message.id,
+            context,
+            toolName: tool.name,
+            args: parsed.params.arguments ?? {},
+            result,
+            awsCalls,
+            cancelled: controller.signal.aborted,
+          })
+          return result
+        }
+        case "resources/list": {
+          parseRequest(ListResourcesRequestSchema, message)
+
+          // Listings run their tool, so they are authorized and limited like a call of it
+          const toolNames = new Set(getTools().map((tool) => tool.name))
+          const listed = await Promise.allSettled(
+            getResourceTemplates()
+              .flatMap(({ list }) =>
+                list && toolNames.has(list.toolName) ? [list] : [],
               )
+              .map((list) => {
+                const args = list.args()
+                return runResourceCall({
+                  toolName: list.toolName,
+                  args,
+                  run: () => list.resources(args),
+                })
+              }),
+          )
+
+          // Templates failing to list resources are skipped, their resources can still be read
+          return {
+            resources: listed.flatMap((result) => {
+              if (result.status === "fulfilled") return result.value
+              if (
+                !(result.reason instanceof AccessDeniedError) &&
+                !(result.reason instanceof QuotaExceededError)
+              ) {
+                input.onError?.(result.reason)
+              }
+              return []
+            }),
+          } satisfies ListResourcesResult
+        }
+
+        case "resources/templates/list": {
+          parseRequest(ListResourceTemplatesRequestSchema, message)
+
+          return {
+            resourceTemplates: getResourceTemplates().map((template) => ({
+              uriTemplate: template.uriTemplate,
+              name: template.name,
+              title: template.title,
+              description: template.description,
+              mimeType: template.mimeType,
+            })),
+          } satisfies ListResourceTemplatesResult
+        }
+
+        case "resources/read": {
+          const parsed = parseRequest(ReadResourceRequestSchema, message)
+          return readResource(
+            getResourceTemplates(),
+            parsed.params.uri,
+            input.redactor,
+            (toolName, variables, read) =>
+              runResourceCall({
+                toolName,
+                args: variables,
+                resource: parsed.params.uri,
+                run: read,
+              }),
+          )
+        }
+
+        case "resources/subscribe":
+        case "resources/unsubscribe": {
+          if (!subscriptions) {
+            throw new MethodNotFoundError({ method: message.method })
+          }
+          const parsed =
+            message.method === "resources/subscribe"
+              ? parseRequest(SubscribeRequestSchema, message)
+              : parseRequest(UnsubscribeRequestSchema, message)
+          const { uri } = parsed.params
+
+          // Updates are delivered to the GET stream of the session
+          if (!context.sessionId) {
+            throw new InvalidRequestError({
+              message: `${message.method} requires a session, initialize first`,
+            })
+          }
+
+          if (message.method === "resources/unsubscribe") {
+            subscriptions.unsubscribe(context.sessionId, uri)
+            return {} satisfies EmptyResult
+          }
+
+          const template = getResourceTemplates().find((template) =>
+            matchUriTemplate(template.uriTemplate, uri),
+          )
+          if (!template) throw new ResourceNotFoundError({ uri })
+          try {
+            authorizeResource(
+              template.toolName,
+              matchUriTemplate(template.uriTemplate, uri)!,
+            )
+          } catch (error) {
+            throw toResourceError(error, uri)
+          }
+          await subscriptions.subscribe(context.sessionId, uri)
+          return {} satisfies EmptyResult
+        }
+
+        case "prompts/list": {
+          parseRequest(ListPromptsRequestSchema, message)
+
+          return {
+            prompts: getPrompts().map((prompt) => ({
+              name: prompt.name,
+              title: prompt.title,
+              description: prompt.description,
+              arguments: Object.entries(prompt.args.shape).map(
+                ([name, schema]) => ({
+                  name,
+                  description: schema.description,
+                  required: !schema.isOptional(),
+                }),
+              ),
+            })),
+          } satisfies ListPromptsResult
+        }
+
+        case "prompts/get": {
+          const parsed = parseRequest(GetPromptRequestSchema, message)
+          const prompt = getPrompts().find(
+            (prompt) => prompt.name === parsed.params.name,
+          )
+          if (!prompt) {
+            throw new InvalidParamsError({
+              message: `Unknown prompt: ${parsed.params.name}`,
+              data: { prompt: parsed.params.name },
+            })
+          }
+
+          const args = prompt.args.safeParse(parsed.params.arguments ?? {})
+          if (!args.success) {
+            throw InvalidParamsError.fromIssues(
+              args.error.issues,
+              `Invalid arguments for prompt ${prompt.name}`,
+            )
+          }
+
+          return {
+            description: prompt.description,
+            messages: [
+              {
+                role: "user",
+                content: { type: "text", text: prompt.text(args.data) },
+              },
+            ],
+          } satisfies GetPromptResult
+        }
+
+        case "completion/complete": {
+          if (!input.completers) {
+            throw new MethodNotFoundError({ method: message.method })
+          }
+          const parsed = parseRequest(CompleteRequestSchema, message)
+          const { ref, argument } = parsed.params
+          const empty = { completion: { values: [] } } satisfies CompleteResult
+
+          if (ref.type === "ref/prompt") {
+            const prompt = getPrompts().find(
+              (prompt) => prompt.name === ref.name,
+            )
+            if (!prompt) {
+              throw new InvalidParamsError({
+                message: `Unknown prompt: ${ref.name}`,
+                data: { prompt: ref.name },
+              })
+            }
+            if (!(argument.name in prompt.args.shape)) return empty
+          } else {
+            const template = getResourceTemplates().find(
+              (template) => template.uriTemplate === ref.uri,
+            )
+            if (!template) {
+              throw new ResourceNotFoundError({ uri: ref.uri })
+            }
+            if (!template.uriTemplate.includes(`{${argument.name}}`)) {
+              return empty
+            }
+          }
+
+          const completer = Object.hasOwn(input.completers, argument.name)
+            ? input.completers[argument.name]
+            : undefined
+          if (
+            !completer ||
+            !getTools().some((tool) => tool.name === completer.toolName)
+          ) {
+            return empty
+          }
+
+          // Values are listed in the region the client already resolved
+          const args = parsed.params.context?.arguments ?? {}
+          const region = args.region || getDefaultAwsRegion()
+          try {
+            // Listing runs the completer tool, so it is authorized and limited like a call of it
+            authorizeResource(completer.toolName, { ...args, region })
+            await limitCall((rateLimiter) =>
+              rateLimiter.consume({
+                toolName: completer.toolName,
+                caller: context,
+              }),
+            )
+            const values = await completer.list(region, args)
+            return {
+              completion: completeValues(values, argument.value),
+            } satisfies CompleteResult
+          } catch (error) {
+            // Completions are best effort, e.g. the listing may not be allowed
+            if (
+              !(error instanceof AccessDeniedError) &&
+              !(error instanceof QuotaExceededError)
+            ) {
+              input.onError?.(error)
+            }
+            return empty
           }
-          default:
-            throw new Error("not implemented")
         }
-      })()
 
+        default:
+          throw new MethodNotFoundError({ method: message.method })
+      }
+    })()
+
+    return {
+      jsonrpc: "2.0",
+      id: message.id,
+      result,
+    } satisfies JSONRPCResponse
+  }
+
+  const processSafely = (
+    message: unknown,
+    context: McpRequestContext,
+  ): Promise<McpResponse | null> =>
+    processMessage(message, context).catch((error) => {
+      const rpcError = toJsonRpcError(error)
+      if (rpcError instanceof InternalError) {
+        input.onError?.(error)
+      }
+
+      return {
+        jsonrpc: "2.0",
+        id: getMessageId(message),
+        error: rpcError.toJSON(),
+      } satisfies McpResponse
+    })
+
+  /**
+   * Process a single message or a JSON-RPC batch
+   *
+   * Batch items are processed concurrently, each one gets its own response or error,
+   * notifications are omitted. A batch of notifications only yields `null`.
+   *
+   * See https://www.jsonrpc.org/specification#batch
+   */
+  async function process(
+    message: McpMessage,
+    context?: McpRequestContext,
+  ): Promise<McpResponse | null>
+  async function process(
+    message: McpMessage | McpMessage[],
+    context?: McpRequestContext,
+  ): Promise<McpResponse[] | McpResponse | null>
+  async function process(
+    message: McpMessage | McpMessage[],
+    context: McpRequestContext = { headers: {} },
+  ): Promise<McpResponse[] | McpResponse | null> {
+    if (!Array.isArray(message)) {
+      return processSafely(message, context)
+    }
+
+    if (message.length === 0) {
       return {
         jsonrpc: "2.0",
-        id: (message as JSONRPCRequest).id,
-        result,
-      } satisfies JSONRPCResponse
+        id: null,
+        error: new InvalidRequestError({
+          message: "Invalid Request: empty batch",
+        }).toJSON(),
+      } satisfies McpResponse
+    }
+
+    const responses = await Promise.all(
+      message.map((item) => processSafely(item, context)),
+    )
+    const results = responses.filter(
+      (response): response is McpResponse => response !== null,
+    )
+
+    return results.length > 0 ? results : null
+  }
+
+  return {
+    process,
+
+    /**
+     * Replace registered tools, e.g. after a config reload
+     *
+     * Listeners are notified only when tool names differ from the registered ones.
+     */
+    setTools(nextTools: Tool[]) {
+      const names = (list: Tool[]) => list.map((tool) => tool.name).join()
+      const changed = names(nextTools) !== names(tools)
+      tools = nextTools
+
+      if (changed) {
+        toolsListChangedListeners.forEach((listener) =>
+          listener({ method: "notifications/tools/list_changed" }),
+        )
+      }
+    },
+
+    /**
+     * Listen for updates of resources subscribed by sessions, returns function removing the listener
+     */
+    onResourceUpdated(
+      listener: (
+        sessionId: string,
+        notification: ResourceUpdatedNotification,
+      ) => void,
+    ) {
+      resourceUpdatedListeners.add(listener)
+      return () => {
+        resourceUpdatedListeners.delete(listener)
+      }
+    },
+
+    /**
+     * Release state of a deleted session, e.g. its resource subscriptions
+     */
+    closeSession(sessionId: string) {
+      subscriptions?.unsubscribeSession(sessionId)
+    },
+
+    /**
+     * Listen for changes of registered tools, returns function removing the listener
+     */
+    onToolsListChanged(
+      listener: (notification: ToolListChangedNotification) => void,
+    ) {
+      toolsListChangedListeners.add(listener)
+      return () => {
+        toolsListChangedListeners.delete(listener)
+      }
     },
   }
 }
@@ -0,0 +1,424 @@
+import {
+  isInitializeRequest,
+  type JSONRPCMessage,
+  type JSONRPCNotification,
+  // eslint-disable-next-line import/no-unresolved
+} from "@modelcontextprotocol/sdk/types.js"
+
+import { type AuthPrincipal, type BearerAuth } from "~/utils/bearer-auth"
+import { ParseError } from "~/utils/json-rpc-error"
+import {
+  FALLBACK_PROTOCOL_VERSION,
+  isSupportedProtocolVersion,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "~/utils/protocol-version"
+
+import { type Mcp, type McpMessage, type McpRequestContext } from "./create-mcp"
+import { createMessageStream, type MessageStream } from "./message-stream"
+import { type McpSession, type SessionStore } from "./session-store"
+
+export const SESSION_ID_HEADER = "mcp-session-id"
+export const PROTOCOL_VERSION_HEADER = "mcp-protocol-version"
+
+export type TransportRequest = {
+  method: string
+  headers: Record<string, string | undefined>
+  body?: unknown
+  /**
+   * ID of the API Gateway API key the request was authorized with
+   */
+  apiKeyId?: string
+}
+
+export type TransportResponse = {
+  status: number
+  headers: Record<string, string>
+  /**
+   * JSON body, omitted for responses without content
+   */
+  body?: unknown
+  /**
+   * Messages to be written as `text/event-stream`, the stream is closed by the transport
+   */
+  stream?: MessageStream
+}
+
+export type Transport = ReturnType<typeof createTransport>
+
+/**
+ * MCP Streamable HTTP transport
+ *
+ * Framework agnostic implementation of https://modelcontextprotocol.io/specification/2025-06-18/basic/transports#streamable-http,
+ * the Lambda route and the Bun dev server only adapt requests and responses.
+ *
+ * @example
+ * ```typescript
+ * const transport = createTransport({
+ *   mcp: createMcp({ tools }),
+ *   sessions: createMemorySessionStore(),
+ *   sse: true,
+ * })
+ * const response = await transport.handle({ method, headers, body })
+ * ```
+ */
+export function createTransport(input: {
+  mcp: Mcp
+  sessions: SessionStore
+  /**
+   * Whether the runtime can hold a response open and stream events.
+   * When disabled GET returns 405 and POST always responds with JSON.
+   */
+  sse: boolean
+  /**
+   * Accept session IDs this process does not know instead of responding 404,
+   * for runtimes where a session may have been issued by another instance
+   */
+  adoptUnknownSessions?: boolean
+  /**
+   * Require JWT bearer tokens, requests are authorized by the API Gateway API key without it
+   */
+  auth?: BearerAuth
+}) {
+  const openStreams = new Map<string, Set<MessageStream>>()
+
+  /**
+   * Send a server-initiated message to every open GET stream
+   */
+  const broadcast = (notification: JSONRPCNotification) => {
+    openStreams.forEach((streams) =>
+      streams.forEach((stream) => stream.push(notification)),
+    )
+  }
+
+  /**
+   * Send a server-initiated message to the open GET streams of a session
+   */
+  const notify = (sessionId: string, notification: JSONRPCNotification) => {
+    openStreams.get(sessionId)?.forEach((stream) => stream.push(notification))
+  }
+
+  // Clients re-fetch tools/list when the registered tools change
+  input.mcp.onToolsListChanged((notification) =>
+    broadcast({ jsonrpc: "2.0", ...notification }),
+  )
+  input.mcp.onResourceUpdated((sessionId, notification) =>
+    notify(sessionId, { jsonrpc: "2.0", ...notification }),
+  )
+
+  /**
+   * Release subscriptions and streams of a deleted or expired session
+   */
+  const closeSession = (sessionId: string) => {
+    input.mcp.closeSession(sessionId)
+    openStreams.get(sessionId)?.forEach((stream) => stream.close())
+    openStreams.delete(sessionId)
+  }
+  input.sessions.onExpired?.(closeSession)
+
+  const errorResponse = (
+    status: number,
+    message: string,
+    headers: Record<string, string> = {},
+  ): TransportResponse => ({
+    status,
+    headers,
+    body: {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: -32000, message },
+    },
+  })
+
+  /**
+   * Parse raw request body, runtimes that already parsed JSON pass it through
+   */
+  const parseBody = (
+    body: unknown,
+  ): { message?: unknown; error?: TransportResponse } => {
+    if (typeof body !== "string") return { message: body }
+
+    try {
+      return { message: JSON.parse(body) }
+    } catch (error) {
+      return {
+        error: {
+          status: 400,
+          headers: {},
+          body: {
+            jsonrpc: "2.0",
+            id: null,
+            error: new ParseError({ cause: error }).toJSON(),
+          },
+        },
+      }
+    }
+  }
+
+  /**
+   * Resolve session referenced by the `Mcp-Session-Id` header
+   *
+   * Requests without the header are processed statelessly
+   */
+  const resolveSession = async (
+    headers: Record<string, string | undefined>,
+    principal?: AuthPrincipal,
+  ): Promise<{ session?: McpSession; error?: TransportResponse }> => {
+    const sessionId = headers[SESSION_ID_HEADER]
+    if (!sessionId) return {}
+
+    const session = await input.sessions.get(sessionId)
+    // Sessions are bound to the principal that initialized them, a leaked session ID is not enough
+    if (session && session.subject !== principal?.subject) {
+      return { error: errorResponse(404, "Session not found") }
+    }
+    if (session) {
+      await input.sessions.touch(sessionId)
+      return { session }
+    }
+
+    if (input.adoptUnknownSessions) {
+      return {
+        session: await input.sessions.create({
+          id: sessionId,
+          protocolVersion:
+            headers[PROTOCOL_VERSION_HEADER] ?? FALLBACK_PROTOCOL_VERSION,
+          subject: principal?.subject,
+        }),
+      }
+    }
+
+    return { error: errorResponse(404, "Session not found") }
+  }
+
+  const handlePost = async (
+    context: McpRequestContext,
+    message: McpMessage | McpMessage[],
+  ): Promise<TransportResponse> => {
+    const { headers, principal } = context
+
+    if (Array.isArray(message)) {
+      const { session, error } = await resolveSession(headers, principal)
+      if (error) return error
+
+      const responses = await input.mcp.process(message, {
+        ...context,
+        sessionId: session?.id,
+        clientInfo: session?.clientInfo,
+      })
+      if (responses === null) return { status: 202, headers: {} }
+
+      return { status: 200, headers: {}, body: responses }
+    }
+
+    if (typeof message !== "object" || message === null) {
+      return {
+        status: 200,
+        headers: {},
+        body: await input.mcp.process(message, context),
+      }
+    }
+
+    if (isInitializeRequest(message)) {
+      const response = await input.mcp.process(message, context)
+      if (!response || !("result" in response)) {
+        return { status: 200, headers: {}, body: response }
+      }
+
+      const session = await input.sessions.create({
+        protocolVersion: (response.result as { protocolVersion: string })
+          .protocolVersion,
+        clientInfo: message.params.clientInfo,
+        subject: principal?.subject,
+      })
+
+      return {
+        status: 200,
+        headers: { "Mcp-Session-Id": session.id },
+        body: response,
+      }
+    }
+
+    const { session, error } = await resolveSession(headers, principal)
+    if (error) return error
+    const sessionContext = {
+      ...context,
+      sessionId: session?.id,
+      clientInfo: session?.clientInfo,
+    }
+
+    // Notifications and responses are acknowledged without a body
+    const isNotification = "method" in message && !("id" in message)
+    const isResponse = "result" in message || "error" in message
+    if (isNotification || isResponse) {
+      if (isNotification) await input.mcp.process(message, sessionContext)
+      return { status: 202, headers: {} }
+    }
+
+    // Tool calls may take a while, clients accepting SSE get the result as an event stream
+    // so that related server messages can be delivered on the same connection
+    const acceptsEventStream = headers.accept?.includes("text/event-stream")
+    if (input.sse && acceptsEventStream && message.method === "tools/call") {
+      const stream = createMessageStream()
+
+      // Progress of the call is sent before its result
+      void input.mcp
+        .process(message, {
+          ...sessionContext,
+          sendNotification: (notification) => stream.push(notification),
+        })
+        .then((response) => {
+          if (response) stream.push(response as JSONRPCMessage)
+          stream.close()
+        })
+
+      return {
+        status: 200,
+        headers: { "Content-Type": "text/event-stream" },
+        stream,
+      }
+    }
+
+    return {
+      status: 200,
+      headers: {},
+      body: await input.mcp.process(message, sessionContext),
+    }
+  }
+
+  const handleGet = async (
+    headers: Record<string, string | undefined>,
+    principal?: AuthPrincipal,
+  ): Promise<TransportResponse> => {
+    if (!input.sse) {
+      return errorResponse(405, "Method not allowed", {
+        Allow: "POST, DELETE",
+      })
+    }
+    if (!headers.accept?.includes("text/event-stream")) {
+      return errorResponse(
+        406,
+        "Not Acceptable: client must accept text/event-stream",
+      )
+    }
+    if (!headers[SESSION_ID_HEADER]) {
+      return errorResponse(
+        400,
+        "Bad Request: Mcp-Session-Id header is required",
+      )
+    }
+
+    const { session, error } = await resolveSession(headers, principal)
+    if (error) return error
+
+    const stream = createMessageStream()
+    const streams = openStreams.get(session!.id) ?? new Set()
+    streams.add(stream)
+    openStreams.set(session!.id, streams)
+    stream.onClose(() => {
+      streams.delete(stream)
+      // Sessions without open streams are not kept in memory
+      if (streams.size === 0 && openStreams.get(session!.id) === streams) {
+        openStreams.delete(session!.id)
+      }
+    })
+
+    return {
+      status: 200,
+      headers: { "Content-Type": "text/event-stream" },
+      stream,
+    }
+  }
+
+  const handleDelete = async (
+    headers: Record<string, string | undefined>,
+    principal?: AuthPrincipal,
+  ): Promise<TransportResponse> => {
+    const sessionId = headers[SESSION_ID_HEADER]
+    if (!sessionId) {
+      return errorResponse(
+        400,
+        "Bad Request: Mcp-Session-Id header is required",
+      )
+    }
+
+    const session = await input.sessions.get(sessionId)
+    if (session && session.subject !== principal?.subject) {
+      return errorResponse(404, "Session not found")
+    }
+
+    const deleted = await input.sessions.delete(sessionId)
+    closeSession(sessionId)
+
+    if (!deleted && !input.adoptUnknownSessions) {
+      return errorResponse(404, "Session not found")
+    }
+
+    return { status: 204, headers: {} }
+  }
+
+  return {
+    async handle(request: TransportRequest): Promise<TransportResponse> {
+      const headers = Object.fromEntries(
+        Object.entries(request.headers).map(([key, value]) => [
+          key.toLowerCase(),
+          value,
+        ]),
+      )
+
+      let principal: AuthPrincipal | undefined
+      if (input.auth) {
+        const result = await input.auth.authenticate(headers)
+        if (result.error) {
+          return errorResponse(
+            result.error.status,
+            result.error.message,
+            result.error.challenge
+              ? { "WWW-Authenticate": result.error.challenge }
+              : {},
+          )
+        }
+        principal = result.principal
+      }
+
+      const protocolVersion = headers[PROTOCOL_VERSION_HEADER]
+      if (protocolVersion && !isSupportedProtocolVersion(protocolVersion)) {
+        return errorResponse(
+          400,
+          `Bad Request: Unsupported protocol version ${protocolVersion} (supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")})`,
+        )
+      }
+
+      switch (request.method.toUpperCase()) {
+        case "POST": {
+          const { message, error } = parseBody(request.body)
+          if (error) return error
+
+          return handlePost(
+            { headers, apiKeyId: request.apiKeyId, principal },
+            message as McpMessage | McpMessage[],
+          )
+        }
+        case "GET":
+          return handleGet(headers, principal)
+        case "DELETE":
+          return handleDelete(headers, principal)
+        default:
+          return errorResponse(405, "Method not allowed", {
+            Allow: input.sse ? "GET, POST, DELETE" : "POST, DELETE",
+          })
+      }
+    },
+
+    /**
+     * OAuth protected resource metadata, not found when bearer auth is disabled
+     */
+    protectedResourceMetadata(): TransportResponse {
+      if (!input.auth) return errorResponse(404, "Not found")
+      return { status: 200, headers: {}, body: input.auth.metadata() }
+    },
+
+    notify,
+
+    broadcast,
+  }
+}
@@ -0,0 +1,79 @@
+// eslint-disable-next-line import/no-unresolved
+import { type JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+
+/**
+ * Push-based async iterable of JSON-RPC messages backing an SSE stream
+ *
+ * @example
+ * ```typescript
+ * const stream = createMessageStream()
+ * stream.push(notification)
+ * stream.close()
+ *
+ * for await (const message of stream) { ... }
+ * ```
+ */
+export type MessageStream = AsyncIterable<JSONRPCMessage> & {
+  push(message: JSONRPCMessage): void
+  close(): void
+  readonly closed: boolean
+  onClose(listener: () => void): void
+}
+
+export function createMessageStream(): MessageStream {
+  const buffer: JSONRPCMessage[] = []
+  const closeListeners: Array<() => void> = []
+  let waiting: ((result: IteratorResult<JSONRPCMessage>) => void) | undefined
+  let closed = false
+
+  const close = () => {
+    if (closed) return
+    closed = true
+    waiting?.({ value: undefined, done: true })
+    waiting = undefined
+    closeListeners.forEach((listener) => listener())
+  }
+
+  return {
+    get closed() {
+      return closed
+    },
+
+    push(message) {
+      if (closed) return
+      if (waiting) {
+        waiting({ value: message, done: false })
+        waiting = undefined
+      } else {
+        buffer.push(message)
+      }
+    },
+
+    close,
+
+    onClose(listener) {
+      closeListeners.push(listener)
+    },
+
+    [Symbol.asyncIterator]() {
+      return {
+        next() {
+          const message = buffer.shift()
+          if (message) {
+            return Promise.resolve({ value: message, done: false })
+          }
+          if (closed) {
+            return Promise.resolve({ value: undefined, done: true })
+          }
+          return new Promise((resolve) => {
+            waiting = resolve
+          })
+        },
+        return() {
+          close()
+          return Promise.resolve({ value: undefined, done: true })
+        },
+      }
+    },
+  }
+}
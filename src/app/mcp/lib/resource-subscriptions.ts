@@ -0,0 +1,134 @@
+import { InvalidRequestError } from "~/utils/json-rpc-error"
+
+/**
+ * Resources a session can subscribe to when `maxPerSession` is not set
+ */
+const DEFAULT_MAX_PER_SESSION = 20
+
+export type ResourceSubscriptions = ReturnType<
+  typeof createResourceSubscriptions
+>
+
+type Subscription = {
+  sessionIds: Set<string>
+  /**
+   * Contents of the last read
+   */
+  contents?: string
+  polling: boolean
+  timer: ReturnType<typeof setInterval>
+}
+
+/**
+ * Subscriptions of sessions to resources, changes are detected by polling
+ *
+ * Every subscribed URI is read once per `pollIntervalMs` regardless of the number of subscribers,
+ * subscribers are notified when the contents differ from the previous read. A session subscribes
+ * to at most `maxPerSession` resources, so one client cannot make the server poll AWS without limit.
+ *
+ * @example
+ * ```typescript
+ * const subscriptions = createResourceSubscriptions({
+ *   read: async (uri) => JSON.stringify(await readResource(uri)),
+ *   pollIntervalMs: 30_000,
+ *   onUpdated: (sessionId, uri) => transport.notify(sessionId, { ... }),
+ * })
+ * await subscriptions.subscribe(session.id, "aws://eu-west-1/cloudwatch/alarms/orders-5xx")
+ * ```
+ */
+export function createResourceSubscriptions(input: {
+  read: (uri: string) => Promise<string>
+  pollIntervalMs: number
+  maxPerSession?: number
+  onUpdated: (sessionId: string, uri: string) => void
+  onError?: (error: unknown) => void
+}) {
+  const subscriptions = new Map<string, Subscription>()
+  const maxPerSession = input.maxPerSession ?? DEFAULT_MAX_PER_SESSION
+
+  const poll = async (uri: string) => {
+    const subscription = subscriptions.get(uri)
+    // Skip when the previous read is still running, e.g. AWS throttling
+    if (!subscription || subscription.polling) return
+
+    subscription.polling = true
+    try {
+      const contents = await input.read(uri)
+      const changed = subscription.contents !== contents
+      subscription.contents = contents
+
+      if (changed) {
+        subscription.sessionIds.forEach((sessionId) =>
+          input.onUpdated(sessionId, uri),
+        )
+      }
+    } catch (error) {
+      input.onError?.(error)
+    } finally {
+      subscription.polling = false
+    }
+  }
+
+  const unsubscribe = (sessionId: string, uri: string) => {
+    const subscription = subscriptions.get(uri)
+    if (!subscription) return
+
+    subscription.sessionIds.delete(sessionId)
+    if (subscription.sessionIds.size === 0) {
+      clearInterval(subscription.timer)
+      subscriptions.delete(uri)
+    }
+  }
+
+  return {
+    /**
+     * Subscribe session to resource, the first read sets the contents changes are compared to
+     *
+     * Errors of the first read, e.g. resource not found, reject the subscription.
+     *
+     * @throws InvalidRequestError when the session has `maxPerSession` subscriptions
+     */
+    async subscribe(sessionId: string, uri: string) {
+      if (subscriptions.get(uri)?.sessionIds.has(sessionId)) return
+
+      const count = [...subscriptions.values()].filter((subscription) =>
+        subscription.sessionIds.has(sessionId),
+      ).length
+      if (count >= maxPerSession) {
+        throw new InvalidRequestError({
+          message: `Session is subscribed to ${maxPerSession} resources, unsubscribe from one first`,
+        })
+      }
+
+      const contents = subscriptions.has(uri)
+        ? undefined
+        : await input.read(uri)
+
+      // Another session may have subscribed during the first read
+      const existing = subscriptions.get(uri)
+      if (existing) {
+        existing.sessionIds.add(sessionId)
+        return
+      }
+
+      const timer = setInterval(() => void poll(uri), input.pollIntervalMs)
+      // Polling alone does not keep the process running
+      timer.unref()
+      subscriptions.set(uri, {
+        sessionIds: new Set([sessionId]),
+        contents,
+        polling: false,
+        timer,
+      })
+    },
+
+    unsubscribe,
+
+    /**
+     * Remove every subscription of a session, e.g. when the session is deleted
+     */
+    unsubscribeSession(sessionId: string) {
+      subscriptions.forEach((_, uri) => unsubscribe(sessionId, uri))
+    },
+  }
+}
@@ -0,0 +1,103 @@
+import { createId } from "@paralleldrive/cuid2"
+
+export type McpSession = {
+  id: string
+  protocolVersion: string
+  clientInfo?: { name: string; version: string }
+  /**
+   * Subject of the bearer token that initialized the session, requests of other principals
+   * do not find it
+   */
+  subject?: string
+  createdAt: number
+  lastSeenAt: number
+}
+
+/**
+ * Storage for MCP sessions issued by the Streamable HTTP transport
+ *
+ * Methods are async so that the in-memory store can be replaced by a shared one
+ */
+export type SessionStore = {
+  create(
+    input: Pick<McpSession, "protocolVersion" | "clientInfo" | "subject"> & {
+      id?: string
+    },
+  ): Promise<McpSession>
+  get(id: string): Promise<McpSession | undefined>
+  touch(id: string): Promise<void>
+  delete(id: string): Promise<boolean>
+  /**
+   * Listen to sessions removed by the store itself, e.g. after being idle, so that their
+   * subscriptions and streams are released too
+   */
+  onExpired?(listener: (id: string) => void): void
+}
+
+/**
+ * Session store keeping sessions in process memory
+ *
+ * Sessions idle for longer than `ttlMs` are evicted on access and by a sweep every
+ * `sweepIntervalMs`, so abandoned sessions do not keep their subscriptions.
+ */
+export function createMemorySessionStore(
+  options: { ttlMs?: number; sweepIntervalMs?: number } = {},
+): SessionStore {
+  const ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000
+  const sweepIntervalMs = options.sweepIntervalMs ?? 60 * 1000
+  const sessions = new Map<string, McpSession>()
+  const expiredListeners = new Set<(id: string) => void>()
+
+  const isExpired = (session: McpSession) =>
+    Date.now() - session.lastSeenAt > ttlMs
+
+  const expire = (id: string) => {
+    sessions.delete(id)
+    expiredListeners.forEach((listener) => listener(id))
+  }
+
+  // Sweeping alone does not keep the process running
+  setInterval(() => {
+    sessions.forEach((session) => {
+      if (isExpired(session)) expire(session.id)
+    })
+  }, sweepIntervalMs).unref()
+
+  return {
+    async create(input) {
+      const now = Date.now()
+      const session: McpSession = {
+        id: input.id ?? createId(),
+        protocolVersion: input.protocolVersion,
+        clientInfo: input.clientInfo,
+        subject: input.subject,
+        createdAt: now,
+        lastSeenAt: now,
+      }
+      sessions.set(session.id, session)
+      return session
+    },
+
+    async get(id) {
+      const session = sessions.get(id)
+      if (session && isExpired(session)) {
+        expire(id)
+        return undefined
+      }
+      return session
+    },
+
+    async touch(id) {
+      const session = sessions.get(id)
+      if (session) session.lastSeenAt = Date.now()
+    },
+
+    async delete(id) {
+      return sessions.delete(id)
+    },
+
+    onExpired(listener) {
+      expiredListeners.add(listener)
+    },
+  }
+}
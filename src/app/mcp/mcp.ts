@@ -1,30 +1,95 @@
 import { logger } from "@tomassabol/aws-common/utils/logger"
 import { type HandlerFunction } from "@tomassabol/lambda-api"
 
-import { tools } from "~/tools"
+import { completers } from "~/completions"
+import { prompts } from "~/prompts"
+import { resourceTemplates } from "~/resources"
+import { selectTools, toolGroups, tools } from "~/tools"
+import { createLoggerAuditSink } from "~/utils/audit-log"
+import {
+  createAuthorizer,
+  getAuthorizationPolicy,
+} from "~/utils/authorization-policy"
+import { createBearerAuth, getBearerAuthConfig } from "~/utils/bearer-auth"
+import { createDynamoDbAuditSink } from "~/utils/dynamodb-audit-sink"
+import { createDynamoDbRateLimitStore } from "~/utils/dynamodb-rate-limit-store"
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getRateLimitConfig,
+} from "~/utils/rate-limit"
+import { createRedactor, getRedactionConfig } from "~/utils/redaction"
 
 import { createMcp } from "./lib/create-mcp"
+import { createTransport, type TransportResponse } from "./lib/create-transport"
+import { createMemorySessionStore } from "./lib/session-store"
 
-export const mcpHandler: HandlerFunction = async (req) => {
-  try {
-    const result = await createMcp({ tools }).process(req.body)
-
-    // Notifications don't require a response, return 204 No Content
-    if (result === null) {
-      return { statusCode: 204 }
-    }
-
-    return result
-  } catch (error) {
-    logger.error("Error processing MCP request", { error })
-
-    return {
-      jsonrpc: "2.0",
-      id: req.body.id,
-      error: {
-        code: -32602,
-        message: "Internal Server Error",
-      },
-    }
-  }
+/**
+ * API Gateway buffers Lambda responses, so server-to-client streams are not offered.
+ * Sessions live in the memory of a warm Lambda instance, session IDs issued by another
+ * instance are adopted instead of rejected.
+ */
+const redactionConfig = getRedactionConfig()
+const authorizationPolicy = getAuthorizationPolicy()
+const bearerAuthConfig = getBearerAuthConfig()
+
+const transport = createTransport({
+  mcp: createMcp({
+    tools,
+    selectTools,
+    resourceTemplates,
+    prompts,
+    completers,
+    redactor: redactionConfig && createRedactor(redactionConfig),
+    authorizer:
+      authorizationPolicy && createAuthorizer(authorizationPolicy, toolGroups),
+    // Security reviews who queried which account through the agent
+    auditSink: process.env.MCP_AUDIT_TABLE_NAME
+      ? createDynamoDbAuditSink({
+          tableName: process.env.MCP_AUDIT_TABLE_NAME,
+        })
+      : createLoggerAuditSink(logger),
+    // Lambda instances share limits through the table
+    rateLimiter: createRateLimiter(
+      getRateLimitConfig(),
+      process.env.MCP_RATE_LIMIT_TABLE_NAME
+        ? createDynamoDbRateLimitStore({
+            tableName: process.env.MCP_RATE_LIMIT_TABLE_NAME,
+          })
+        : createMemoryRateLimitStore(),
+    ),
+    onError: (error) => logger.error("Error processing MCP request", { error }),
+  }),
+  sessions: createMemorySessionStore(),
+  sse: false,
+  adoptUnknownSessions: true,
+  auth: bearerAuthConfig && createBearerAuth(bearerAuthConfig),
+})
+
+const send = (
+  res: Parameters<HandlerFunction>[1],
+  response: TransportResponse,
+) => {
+  res.status(response.status)
+  Object.entries(response.headers).forEach(([key, value]) =>
+    res.header(key, value),
+  )
+
+  return response.body === undefined ? res.send("") : response.body
 }
+
+export const mcpHandler: HandlerFunction = async (req, res) =>
+  send(
+    res,
+    await transport.handle({
+      method: req.method,
+      headers: req.headers,
+      body: req.body,
+      apiKeyId: req.requestContext?.identity?.apiKeyId,
+    }),
+  )
+
+export const protectedResourceMetadataHandler: HandlerFunction = async (
+  _,
+  res,
+) => send(res, transport.protectedResourceMetadata())
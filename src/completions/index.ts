@@ -0,0 +1,164 @@
+import { tools } from "~/tools"
+import { type Completer, completer, createListCache } from "~/utils/completion"
+import { callTool, type Tool } from "~/utils/tool"
+
+/**
+ * Listed values are reused for a minute, new resources appear in completions after it
+ */
+const COMPLETION_CACHE_TTL_MS = 60 * 1000
+
+/**
+ * Last segment of an ARN, e.g. name of a cluster or service
+ */
+const arnName = (arn: string) => arn.split("/").pop()!
+
+const defined = (values: (string | undefined)[]) =>
+  values.filter((value): value is string => Boolean(value))
+
+/**
+ * Create completers of prompt arguments and resource template variables listed by the enabled tools
+ *
+ * Completers are keyed by the argument or variable name they complete, e.g. `cluster`.
+ * Values are listed with `fetchAll`, so at most the default number of pages is fetched.
+ */
+export function createCompleters(
+  enabledTools: Tool[],
+): Record<string, Completer> {
+  const findTool = (name: string) =>
+    enabledTools.find((tool) => tool.name === name)
+
+  const cached = createListCache({ ttlMs: COMPLETION_CACHE_TTL_MS })
+
+  const listItems = async <Item>(
+    name: string,
+    args: Record<string, unknown>,
+  ) => {
+    const result = await callTool<{ items: Item[] }>(findTool(name)!, {
+      ...args,
+      fetchAll: true,
+    })
+    return result.items
+  }
+
+  const clusters = completer({
+    toolName: "aws_ecs_list_clusters",
+    list: (region) =>
+      cached(`clusters:${region}`, async () =>
+        (await listItems<string>("aws_ecs_list_clusters", { region })).map(
+          arnName,
+        ),
+      ),
+  })
+
+  const services = completer({
+    toolName: "aws_ecs_list_services",
+    // Services are listed per cluster, the client has to resolve the cluster first
+    list: async (region, { cluster }) =>
+      cluster
+        ? cached(`services:${region}:${cluster}`, async () =>
+            (
+              await listItems<string>("aws_ecs_list_services", {
+                region,
+                cluster,
+              })
+            ).map(arnName),
+          )
+        : [],
+  })
+
+  const buckets = completer({
+    toolName: "aws_s3_list_buckets",
+    list: (region) =>
+      cached(`buckets:${region}`, async () =>
+        defined(
+          (
+            await listItems<{ name?: string }>("aws_s3_list_buckets", {
+              bucketRegion: region,
+            })
+          ).map((bucket) => bucket.name),
+        ),
+      ),
+  })
+
+  const logGroups = completer({
+    toolName: "aws_cloudwatchlogs_describe_log_groups",
+    list: (region) =>
+      cached(`logGroups:${region}`, async () =>
+        defined(
+          (
+            await listItems<{ logGroupName?: string }>(
+              "aws_cloudwatchlogs_describe_log_groups",
+              { region },
+            )
+          ).map((group) => group.logGroupName),
+        ),
+      ),
+  })
+
+  const alarms = completer({
+    toolName: "aws_cloudwatch_describe_alarms",
+    list: (region) =>
+      cached(`alarms:${region}`, async () =>
+        defined(
+          (
+            await listItems<{ alarmName?: string }>(
+              "aws_cloudwatch_describe_alarms",
+              { region },
+            )
+          ).map((alarm) => alarm.alarmName),
+        ),
+      ),
+  })
+
+  const functions = completer({
+    toolName: "aws_lambda_list_functions",
+    list: (region) =>
+      cached(`functions:${region}`, async () =>
+        defined(
+          (
+            await listItems<{ functionName?: string }>(
+              "aws_lambda_list_functions",
+              { region },
+            )
+          ).map((fn) => fn.functionName),
+        ),
+      ),
+  })
+
+  const dbInstances = completer({
+    toolName: "aws_rds_list_db_instances",
+    list: (region) =>
+      cached(`dbInstances:${region}`, async () =>
+        defined(
+          (
+            await listItems<{ dbInstanceIdentifier?: string }>(
+              "aws_rds_list_db_instances",
+              { region },
+            )
+          ).map((instance) => instance.dbInstanceIdentifier),
+        ),
+      ),
+  })
+
+  const completers: Record<string, Completer> = {
+    cluster: clusters,
+    service: services,
+    bucket: buckets,
+    logGroup: logGroups,
+    alarm: alarms,
+    function: functions,
+    functionName: functions,
+    dbInstance: dbInstances,
+  }
+
+  return Object.fromEntries(
+    Object.entries(completers).filter(([, completer]) =>
+      findTool(completer.toolName),
+    ),
+  )
+}
+
+/**
+ * Completers of the tools enabled in the deployment
+ */
+export const completers = createCompleters(tools)
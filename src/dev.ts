@@ -1,38 +1,124 @@
 /* eslint-disable no-console */
-import { Hono } from "hono"
+import { type Context, Hono } from "hono"
+import { streamSSE } from "hono/streaming"
+import {
+  type ContentfulStatusCode,
+  type StatusCode,
+} from "hono/utils/http-status"
 
 import { createMcp } from "./app/mcp/lib/create-mcp"
-import { tools } from "./tools"
+import {
+  createTransport,
+  type TransportRequest,
+  type TransportResponse,
+} from "./app/mcp/lib/create-transport"
+import { createMemorySessionStore } from "./app/mcp/lib/session-store"
+import { completers } from "./completions"
+import { prompts } from "./prompts"
+import { resourceTemplates } from "./resources"
+import { selectTools, toolGroups, tools } from "./tools"
+import { createFileAuditSink } from "./utils/audit-log"
+import {
+  createAuthorizer,
+  getAuthorizationPolicy,
+} from "./utils/authorization-policy"
+import {
+  createBearerAuth,
+  getBearerAuthConfig,
+  PROTECTED_RESOURCE_METADATA_PATH,
+} from "./utils/bearer-auth"
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getRateLimitConfig,
+} from "./utils/rate-limit"
+import { createRedactor, getRedactionConfig } from "./utils/redaction"
 
 export type HonoApp = typeof app
 
-export const app = new Hono().post("/mcp", async (c) => {
-  const body = await c.req.json()
-
-  try {
-    const result = await createMcp({ tools }).process(body)
-
-    if (result === null) {
-      return c.json({ statusCode: 204 })
-    }
-
-    return c.json(result)
-  } catch (error) {
-    return c.json({
-      jsonrpc: "2.0",
-      id: body.id,
-      error: {
-        code: -32602,
-        message: "Internal Server Error",
-      },
+const redactionConfig = getRedactionConfig()
+const authorizationPolicy = getAuthorizationPolicy()
+const bearerAuthConfig = getBearerAuthConfig()
+
+const transport = createTransport({
+  mcp: createMcp({
+    tools,
+    selectTools,
+    resourceTemplates,
+    prompts,
+    completers,
+    redactor: redactionConfig && createRedactor(redactionConfig),
+    authorizer:
+      authorizationPolicy && createAuthorizer(authorizationPolicy, toolGroups),
+    auditSink: process.env.MCP_AUDIT_LOG_FILE
+      ? createFileAuditSink(process.env.MCP_AUDIT_LOG_FILE)
+      : undefined,
+    rateLimiter: createRateLimiter(
+      getRateLimitConfig(),
+      createMemoryRateLimitStore(),
+    ),
+    // Subscribers get updates on their GET stream
+    resourceSubscriptions: {
+      pollIntervalMs:
+        (Number(process.env.MCP_RESOURCE_POLL_INTERVAL_SECONDS) || 30) * 1000,
+    },
+    onError: (error) => console.error("Error processing MCP request", error),
+  }),
+  sessions: createMemorySessionStore(),
+  sse: true,
+  auth: bearerAuthConfig && createBearerAuth(bearerAuthConfig),
+})
+
+const handle = async (c: Context, body?: unknown) => {
+  const request: TransportRequest = {
+    method: c.req.method,
+    headers: c.req.header(),
+    body,
+  }
+
+  return send(c, await transport.handle(request))
+}
+
+const send = (c: Context, response: TransportResponse) => {
+  Object.entries(response.headers).forEach(([key, value]) =>
+    c.header(key, value),
+  )
+
+  if (response.stream) {
+    const messages = response.stream
+
+    return streamSSE(c, async (stream) => {
+      stream.onAbort(() => messages.close())
+
+      for await (const message of messages) {
+        await stream.writeSSE({
+          event: "message",
+          data: JSON.stringify(message),
+        })
+      }
     })
   }
-})
+
+  if (response.body === undefined) {
+    return c.body(null, response.status as StatusCode)
+  }
+
+  return c.json(response.body, response.status as ContentfulStatusCode)
+}
+
+export const app = new Hono()
+  .post("/mcp", async (c) => handle(c, await c.req.text()))
+  .get("/mcp", async (c) => handle(c))
+  .delete("/mcp", async (c) => handle(c))
+  .get(PROTECTED_RESOURCE_METADATA_PATH, (c) =>
+    send(c, transport.protectedResourceMetadata()),
+  )
 
 // Only start the server when running directly with Bun (not when imported by tests)
 if (typeof Bun !== "undefined") {
   // eslint-disable-next-line @typescript-eslint/no-floating-promises
   import("bun").then(({ serve }) => {
-    serve({ port: 3000, fetch: app.fetch, development: true })
+    // Keep idle SSE streams open
+    serve({ port: 3000, fetch: app.fetch, development: true, idleTimeout: 0 })
   })
 }
@@ -0,0 +1,156 @@
+import { z } from "zod"
+
+import { tools } from "~/tools"
+import { inRegion, type Prompt, prompt, promptRegionArg } from "~/utils/prompt"
+import { type Tool } from "~/utils/tool"
+
+/**
+ * Month before the current one in YYYY-MM format
+ */
+const lastMonth = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1))
+    .toISOString()
+    .slice(0, 7)
+
+/**
+ * Last day of a YYYY-MM month in YYYY-MM-DD format
+ */
+const endOfMonth = (month: string) =>
+  new Date(Date.UTC(Number(month.slice(0, 4)), Number(month.slice(5)), 0))
+    .toISOString()
+    .slice(0, 10)
+
+/**
+ * Create investigation runbooks whose tools are all enabled
+ */
+export function createPrompts(enabledTools: Tool[]): Prompt[] {
+  const toolNames = new Set(enabledTools.map((tool) => tool.name))
+
+  const prompts = [
+    prompt({
+      name: "investigate-ecs-deployment",
+      title: "Investigate Failing ECS Deployment",
+      description:
+        "Find why an ECS service fails to deploy, e.g. tasks stopping or failing health checks",
+      args: z.object({
+        cluster: z.string().describe("Cluster name or ARN"),
+        service: z.string().describe("Service name"),
+        region: promptRegionArg,
+      }),
+      toolNames: [
+        "aws_ecs_get_service_overview",
+        "aws_ecs_get_service_events",
+        "aws_ecs_list_tasks",
+        "aws_ecs_describe_tasks",
+        "aws_ecs_get_task_logs_hints",
+        "aws_cloudwatchlogs_query",
+      ],
+      text: ({ cluster, service, region }) =>
+        `ECS service "${service}" in cluster "${cluster}" is failing deployments. Find the root cause.${inRegion(region)}
+
+1. Call aws_ecs_get_service_overview for the service. Compare desired, running and pending counts and check the rollout state of each deployment.
+2. Call aws_ecs_get_service_events with sinceMinutes 120. Look for tasks failing to start, failed health checks, placement failures and circuit breaker rollbacks.
+3. Call aws_ecs_list_tasks with serviceName "${service}" and desiredStatus STOPPED, then aws_ecs_describe_tasks for up to 5 of them. Note stoppedReason, container exit codes and container reasons.
+4. Call aws_ecs_get_task_logs_hints for one stopped task to find its log group and stream prefix.
+5. Call aws_cloudwatchlogs_query on that log group for the last hour, e.g. \`fields @timestamp, @message | filter @message like /(?i)(error|exception|fatal)/ | sort @timestamp desc | limit 50\`.
+
+Summarize the root cause, the evidence for it and the next step to fix it. Do not change any resources.`,
+    }),
+
+    prompt({
+      name: "explain-cost-spike",
+      title: "Explain Cost Spike",
+      description:
+        "Explain which services and usage caused costs of a month to rise, last month by default",
+      args: z.object({
+        month: z
+          .string()
+          .regex(/^\d{4}-\d{2}$/, "Month must be in YYYY-MM format")
+          .optional()
+          .describe(
+            "Month to explain in YYYY-MM format, defaults to last month",
+          ),
+      }),
+      toolNames: [
+        "aws_cost_get-monthly-spend-summary",
+        "aws_cost_get-cost-and-usage",
+        "aws_cost_get-service-costs",
+        "aws_cost_get-anomalies",
+      ],
+      text: ({ month = lastMonth() }) =>
+        `Explain why AWS costs of ${month} (${month}-01 to ${endOfMonth(month)}) rose compared to the previous months.
+
+1. Call aws_cost_get-monthly-spend-summary with months 6 and groupByService true to see the trend and which services grew the most.
+2. Call aws_cost_get-cost-and-usage for ${month} and the month before with DAILY granularity and groupBy DIMENSION SERVICE to find the day the increase started.
+3. Call aws_cost_get-service-costs for the top growing services with includeUsage true to tell price changes from usage growth.
+4. Call aws_cost_get-anomalies for the same period to check anomalies Cost Explorer already detected and their root causes.
+
+Answer with the total change, the 3 largest contributors with their amounts and the likely cause of each. Mention when the data is not final because the month is not over yet.`,
+    }),
+
+    prompt({
+      name: "audit-security-group",
+      title: "Audit Security Group",
+      description:
+        "Review rules of a security group and the resources using it for overly permissive access",
+      args: z.object({
+        groupId: z
+          .string()
+          .describe("Security group ID, e.g. sg-0123456789abcdef0"),
+        region: promptRegionArg,
+      }),
+      toolNames: [
+        "aws_ec2_describe_security_groups",
+        "aws_ec2_list_network_interfaces",
+      ],
+      text: ({ groupId, region }) =>
+        `Audit security group "${groupId}".${inRegion(region)}
+
+1. Call aws_ec2_describe_security_groups with groupIds ["${groupId}"] and review every ingress and egress rule.
+2. Call aws_ec2_list_network_interfaces with filter name "group-id" and value "${groupId}" to find the instances, load balancers, Lambda functions and other resources using the group.
+3. For rules referencing other security groups, call aws_ec2_describe_security_groups for those groups as well.
+
+Flag rules open to 0.0.0.0/0 or ::/0, especially on SSH (22), RDP (3389) and database ports, wide port ranges, all-protocol rules and unused groups. List each finding with its severity and a suggested narrower rule. Do not change any resources.`,
+    }),
+
+    prompt({
+      name: "triage-lambda-errors",
+      title: "Triage Lambda Errors",
+      description:
+        "Find when and why a Lambda function started failing or throttling",
+      args: z.object({
+        functionName: z.string().describe("Function name"),
+        hours: z
+          .string()
+          .regex(/^\d+$/, "Hours must be a whole number")
+          .optional()
+          .describe("Hours to look back, defaults to 24"),
+        region: promptRegionArg,
+      }),
+      toolNames: [
+        "aws_lambda_get_function",
+        "aws_cloudwatch_get_metric_statistics",
+        "aws_cloudwatch_describe_alarms",
+        "aws_cloudwatchlogs_query",
+      ],
+      text: ({ functionName, hours = "24", region }) =>
+        `Lambda function "${functionName}" is reporting errors. Triage them for the last ${hours} hours.${inRegion(region)}
+
+1. Call aws_lambda_get_function to check runtime, memory, timeout, last modification and the state of the last update. Note whether a deployment happened shortly before the errors.
+2. Call aws_cloudwatch_get_metric_statistics in namespace AWS/Lambda with dimension FunctionName "${functionName}" for Errors, Throttles, Invocations and Duration (Maximum) with a period of 300 seconds.
+3. Call aws_cloudwatch_describe_alarms with alarmNamePrefix "${functionName}" to see which alarms fired.
+4. Call aws_cloudwatchlogs_query on log group "/aws/lambda/${functionName}" for the same time range, e.g. \`fields @timestamp, @message | filter @message like /(?i)(error|exception|task timed out)/ | stats count() by bin(15m)\` and then the 20 latest error messages.
+
+Report when the errors started, the error rate, the dominant error and whether timeouts, throttling or memory limits are involved. Do not change any resources.`,
+    }),
+  ]
+
+  return prompts.filter((prompt) =>
+    prompt.toolNames.every((name) => toolNames.has(name)),
+  )
+}
+
+/**
+ * Prompts of the tools enabled in the deployment
+ */
+export const prompts = createPrompts(tools)
@@ -0,0 +1,232 @@
+import { tools } from "~/tools"
+import { getDefaultAwsRegion } from "~/utils/aws-region"
+import { ResourceNotFoundError } from "~/utils/json-rpc-error"
+import {
+  expandUriTemplate,
+  resourceTemplate,
+  type ResourceTemplate,
+} from "~/utils/resource"
+import { callTool, type Tool } from "~/utils/tool"
+
+/**
+ * Log events included in a log stream resource, the latest ones are returned
+ */
+const LOG_STREAM_EVENTS = 1000
+
+/**
+ * Minutes of events included in a log group resource, subscribers are notified of new events
+ */
+const LOG_GROUP_TAIL_MINUTES = 5
+
+const formatLogEvents = (
+  events: { timestamp?: number; message?: string; logStreamName?: string }[],
+) =>
+  events
+    .map((event) =>
+      [
+        event.timestamp ? new Date(event.timestamp).toISOString() : "-",
+        ...(event.logStreamName ? [`[${event.logStreamName}]`] : []),
+        event.message?.trimEnd() ?? "",
+      ].join(" "),
+    )
+    .join("\n")
+
+/**
+ * Create resource templates read by the enabled tools
+ *
+ * Resources reuse the read path of tools, URI template variables are validated
+ * by the tool arguments and the result by the tool output schema.
+ */
+export function createResourceTemplates(
+  enabledTools: Tool[],
+): ResourceTemplate[] {
+  const findTool = (name: string) =>
+    enabledTools.find((tool) => tool.name === name)
+
+  const runTool = <Result>(name: string, args: Record<string, unknown>) =>
+    callTool<Result>(findTool(name)!, args, "Invalid resource URI")
+
+  const templates = [
+    resourceTemplate({
+      uriTemplate: "aws://{region}/s3/{bucket}/{key}",
+      name: "s3-object",
+      title: "S3 Object",
+      description:
+        "Content of an S3 object up to 1MB, the key must be percent-encoded",
+      toolName: "aws_s3_get_object_content",
+      async read({ region, bucket, key }) {
+        const result = await runTool<{ content: string; contentType?: string }>(
+          "aws_s3_get_object_content",
+          { region, bucket, key },
+        )
+        return { mimeType: result.contentType, text: result.content }
+      },
+    }),
+
+    resourceTemplate({
+      uriTemplate: "aws://{region}/logs/{logGroup}/{logStream}",
+      name: "log-stream",
+      title: "CloudWatch Log Stream",
+      description: `Latest ${LOG_STREAM_EVENTS} events of a log stream, one per line, log group and stream names must be percent-encoded`,
+      mimeType: "text/plain",
+      toolName: "aws_cloudwatchlogs_get_log_events",
+      async read({ region, logGroup, logStream }) {
+        const result = await runTool<{
+          events: { timestamp?: number; message?: string }[]
+        }>("aws_cloudwatchlogs_get_log_events", {
+          region,
+          logGroupName: logGroup,
+          logStreamName: logStream,
+          limit: LOG_STREAM_EVENTS,
+        })
+        return { mimeType: "text/plain", text: formatLogEvents(result.events) }
+      },
+    }),
+
+    resourceTemplate({
+      uriTemplate: "aws://{region}/logs/{logGroup}",
+      name: "log-group",
+      title: "CloudWatch Log Group Tail",
+      description: `Events of all streams of a log group from the last ${LOG_GROUP_TAIL_MINUTES} minutes, up to ${LOG_STREAM_EVENTS} events, the log group name must be percent-encoded`,
+      mimeType: "text/plain",
+      toolName: "aws_cloudwatchlogs_filter_log_events",
+      async read({ region, logGroup }) {
+        const result = await runTool<{
+          items: {
+            timestamp?: number
+            message?: string
+            logStreamName?: string
+          }[]
+        }>("aws_cloudwatchlogs_filter_log_events", {
+          region,
+          logGroupName: logGroup,
+          startTime: new Date(
+            Date.now() - LOG_GROUP_TAIL_MINUTES * 60 * 1000,
+          ).toISOString(),
+          // Pages of streams without matching events are empty
+          fetchAll: true,
+          maxItems: LOG_STREAM_EVENTS,
+        })
+        return { mimeType: "text/plain", text: formatLogEvents(result.items) }
+      },
+    }),
+
+    resourceTemplate({
+      uriTemplate: "aws://{region}/cloudwatch/alarms/{alarm}",
+      name: "cloudwatch-alarm",
+      title: "CloudWatch Alarm",
+      description:
+        "State and configuration of a metric or composite CloudWatch alarm",
+      mimeType: "application/json",
+      toolName: "aws_cloudwatch_describe_alarms",
+      async read({ region, alarm }, uri) {
+        const result = await runTool<{ items: object[] }>(
+          "aws_cloudwatch_describe_alarms",
+          { region, alarmNames: [alarm] },
+        )
+        if (result.items.length === 0) {
+          throw new ResourceNotFoundError({ uri })
+        }
+        return {
+          mimeType: "application/json",
+          text: JSON.stringify(result.items[0], null, 2),
+        }
+      },
+    }),
+
+    resourceTemplate({
+      uriTemplate: "aws://{region}/ecs/{cluster}/services/{service}",
+      name: "ecs-service",
+      title: "ECS Service",
+      description:
+        "Overview of an ECS service including status, deployments and task counts",
+      mimeType: "application/json",
+      toolName: "aws_ecs_get_service_overview",
+      async read({ region, cluster, service }) {
+        const result = await runTool("aws_ecs_get_service_overview", {
+          region,
+          cluster,
+          service,
+        })
+        return {
+          mimeType: "application/json",
+          text: JSON.stringify(result, null, 2),
+        }
+      },
+    }),
+
+    resourceTemplate({
+      uriTemplate: "aws://{region}/rds/{dbInstance}",
+      name: "rds-db-instance",
+      title: "RDS DB Instance",
+      description: "Status, engine, storage and endpoint of an RDS DB instance",
+      mimeType: "application/json",
+      toolName: "aws_rds_describe_db_instance",
+      async read({ region, dbInstance }) {
+        const result = await runTool("aws_rds_describe_db_instance", {
+          region,
+          dbInstanceIdentifier: dbInstance,
+        })
+        return {
+          mimeType: "application/json",
+          text: JSON.stringify(result, null, 2),
+        }
+      },
+    }),
+
+    resourceTemplate({
+      uriTemplate: "aws://{region}/lambda/{function}",
+      name: "lambda-function",
+      title: "Lambda Function",
+      description: "Configuration and code location of a Lambda function",
+      mimeType: "application/json",
+      toolName: "aws_lambda_get_function",
+      async read({ region, function: functionName }) {
+        const result = await runTool("aws_lambda_get_function", {
+          region,
+          functionName,
+        })
+        return {
+          mimeType: "application/json",
+          text: JSON.stringify(result, null, 2),
+        }
+      },
+      ...(findTool("aws_lambda_list_functions") && {
+        // First page of functions in the default region
+        list: {
+          toolName: "aws_lambda_list_functions",
+          args: () => ({ region: getDefaultAwsRegion() }),
+          async resources(args) {
+            const result = await runTool<{
+              items: { functionName?: string }[]
+            }>("aws_lambda_list_functions", args)
+            return result.items.flatMap(({ functionName }) =>
+              functionName
+                ? [
+                    {
+                      uri: expandUriTemplate(
+                        "aws://{region}/lambda/{function}",
+                        {
+                          region: String(args.region),
+                          function: functionName,
+                        },
+                      ),
+                      name: functionName,
+                      mimeType: "application/json",
+                    },
+                  ]
+                : [],
+            )
+          },
+        },
+      }),
+    }),
+  ]
+
+  return templates.filter((template) => findTool(template.toolName))
+}
+
+/**
+ * Resource templates of the tools enabled in the deployment
+ */
+export const resourceTemplates = createResourceTemplates(tools)
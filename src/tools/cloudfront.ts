@@ -7,89 +7,101 @@ import {
   GetOriginRequestPolicyCommand,
   GetResponseHeadersPolicyCommand,
   ListCachePoliciesCommand,
-  ListDistributionsCommand,
-  ListInvalidationsCommand,
-  ListOriginAccessControlsCommand,
   ListOriginRequestPoliciesCommand,
   ListResponseHeadersPoliciesCommand,
+  paginateListDistributions,
+  paginateListInvalidations,
+  paginateListOriginAccessControls,
 } from "@aws-sdk/client-cloudfront"
 import { z } from "zod"
 
+import { getAwsClient } from "~/utils/aws-client"
 import {
-  AWS_REGIONS,
+  awsRegion,
   type AwsRegion,
-  DEFAULT_AWS_REGION,
+  getDefaultAwsRegion,
 } from "~/utils/aws-region"
-import { type Tool, tool } from "~/utils/tool"
+import {
+  createPaginator,
+  paginate,
+  paginatedOutput,
+  paginationArgs,
+} from "~/utils/pagination"
+import { awsObject, READ_ONLY_ANNOTATIONS, type Tool, tool } from "~/utils/tool"
 import { ToolError } from "~/utils/tool-error"
 
 export function createCloudFrontTools(): Tool[] {
-  const getCloudFrontClient = (region: AwsRegion = DEFAULT_AWS_REGION) => {
-    return new CloudFrontClient({ region })
+  const getCloudFrontClient = (region: AwsRegion = getDefaultAwsRegion()) => {
+    return getAwsClient(CloudFrontClient, { service: "cloudfront", region })
   }
 
   return [
     tool({
       name: "aws_cloudfront_list_distributions",
+      title: "List CloudFront Distributions",
       description:
         "List CloudFront distributions (optional alias/domain filter)",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
-        maxItems: z
-          .number()
-          .min(1)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of distributions to return"),
-        marker: z.string().optional().describe("Pagination token"),
+          .default(getDefaultAwsRegion),
         filter: z
           .string()
           .optional()
           .describe("Substring filter for alias or domain"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          id: z.string().optional(),
+          domainName: z.string().optional(),
+          aliases: z.array(z.string()),
+          enabled: z.boolean().optional(),
+          status: z.string().optional(),
+          lastModifiedTime: z.string().optional(),
+          comment: z.string().optional(),
+          isIpv6Enabled: z.boolean().optional(),
+          webAclId: z.string().optional(),
+          priceClass: z.string().optional(),
+          originsCount: z.number(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new ListDistributionsCommand({
-            Marker: args.marker,
-            MaxItems: args.maxItems,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateListDistributions(
+                { client: getCloudFrontClient(args.region), ...config },
+                {},
+              ),
+            items: (page) =>
+              (page.DistributionList?.Items || [])
+                .map((d) => ({
+                  id: d.Id,
+                  domainName: d.DomainName,
+                  aliases: d.Aliases?.Items || [],
+                  enabled: d.Enabled,
+                  status: d.Status,
+                  lastModifiedTime: d.LastModifiedTime?.toISOString(),
+                  comment: d.Comment,
+                  isIpv6Enabled: d.IsIPV6Enabled,
+                  webAclId: d.WebACLId,
+                  priceClass: d.PriceClass,
+                  originsCount: d.Origins?.Items?.length || 0,
+                }))
+                .filter((r) => {
+                  if (!args.filter) return true
+                  const { filter } = args
+                  return (
+                    (r.domainName && r.domainName.includes(filter)) ||
+                    r.aliases?.some((a) => a.includes(filter))
+                  )
+                }),
+            nextToken: (page) => page.DistributionList?.NextMarker,
+            pageSize: { min: 1, max: 1000 },
           })
-
-          const response = await getCloudFrontClient(args.region).send(command)
-
-          const items = response.DistributionList?.Items || []
-          const results = items
-            .map((d) => ({
-              id: d.Id,
-              domainName: d.DomainName,
-              aliases: d.Aliases?.Items || [],
-              enabled: d.Enabled,
-              status: d.Status,
-              lastModifiedTime: d.LastModifiedTime?.toISOString(),
-              comment: d.Comment,
-              isIpv6Enabled: d.IsIPV6Enabled,
-              webAclId: d.WebACLId,
-              priceClass: d.PriceClass,
-              originsCount: d.Origins?.Items?.length || 0,
-            }))
-            .filter((r) => {
-              if (!args.filter) return true
-              const { filter } = args
-              return (
-                (r.domainName && r.domainName.includes(filter)) ||
-                r.aliases?.some((a) => a.includes(filter))
-              )
-            })
-
-          return {
-            distributions: results,
-            count: results.length,
-            isTruncated: response.DistributionList?.IsTruncated,
-            nextMarker: response.DistributionList?.NextMarker,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -102,15 +114,59 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_get_distribution",
+      title: "Get CloudFront Distribution",
       description: "Get details for a CloudFront distribution",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         id: z.string().describe("Distribution ID"),
       }),
+      output: z.object({
+        id: z.string().optional(),
+        domainName: z.string().optional(),
+        status: z.string().optional(),
+        enabled: z.boolean().optional(),
+        aliases: z.array(z.string()),
+        origins: z
+          .array(
+            z.object({
+              id: z.string().optional(),
+              domainName: z.string().optional(),
+              originPath: z.string().optional(),
+              customHeaders: z
+                .array(
+                  z.object({
+                    headerName: z.string().optional(),
+                    headerValue: z.string().optional(),
+                  }),
+                )
+                .optional(),
+            }),
+          )
+          .optional(),
+        defaultCacheBehavior: z
+          .object({
+            targetOriginId: z.string().optional(),
+            viewerProtocolPolicy: z.string().optional(),
+            allowedMethods: z.array(z.string()).optional(),
+            cachedMethods: z.array(z.string()).optional(),
+            cachePolicyId: z.string().optional(),
+            originRequestPolicyId: z.string().optional(),
+            responseHeadersPolicyId: z.string().optional(),
+            compress: z.boolean().optional(),
+            minTtl: z.number().optional(),
+          })
+          .optional(),
+        etag: z.string().optional(),
+        lastModifiedTime: z.string().optional(),
+        comment: z.string().optional(),
+        isIpv6Enabled: z.boolean().optional(),
+        webAclId: z.string().optional(),
+        priceClass: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetDistributionCommand({
@@ -183,15 +239,20 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_get_distribution_config",
+      title: "Get CloudFront Distribution Config",
       description: "Get configuration for a CloudFront distribution",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         id: z.string().describe("Distribution ID"),
       }),
+      output: z.object({
+        config: awsObject().optional(),
+        etag: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetDistributionConfigCommand({
@@ -216,45 +277,43 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_list_invalidations",
+      title: "List CloudFront Invalidations",
       description: "List invalidations for a CloudFront distribution",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         distributionId: z.string().describe("Distribution ID"),
-        maxItems: z
-          .number()
-          .min(1)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of invalidations to return"),
-        marker: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          id: z.string().optional(),
+          createTime: z.string().optional(),
+          status: z.string().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new ListInvalidationsCommand({
-            DistributionId: args.distributionId,
-            MaxItems: args.maxItems,
-            Marker: args.marker,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateListInvalidations(
+                { client: getCloudFrontClient(args.region), ...config },
+                {
+                  DistributionId: args.distributionId,
+                },
+              ),
+            items: (page) =>
+              page.InvalidationList?.Items?.map((inv) => ({
+                id: inv.Id,
+                createTime: inv.CreateTime?.toISOString(),
+                status: inv.Status,
+              })) || [],
+            nextToken: (page) => page.InvalidationList?.NextMarker,
+            pageSize: { min: 1, max: 1000 },
           })
-
-          const response = await getCloudFrontClient(args.region).send(command)
-
-          const invalidations =
-            response.InvalidationList?.Items?.map((inv) => ({
-              id: inv.Id,
-              createTime: inv.CreateTime?.toISOString(),
-              status: inv.Status,
-            })) || []
-
-          return {
-            invalidations,
-            count: invalidations.length,
-            isTruncated: response.InvalidationList?.IsTruncated,
-            nextMarker: response.InvalidationList?.NextMarker,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -267,16 +326,25 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_get_invalidation",
+      title: "Get CloudFront Invalidation",
       description: "Get details for a CloudFront invalidation",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         distributionId: z.string().describe("Distribution ID"),
         invalidationId: z.string().describe("Invalidation ID"),
       }),
+      output: z.object({
+        id: z.string().optional(),
+        status: z.string().optional(),
+        createTime: z.string().optional(),
+        callerReference: z.string().optional(),
+        items: z.array(z.string()),
+        quantity: z.number().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetInvalidationCommand({
@@ -315,49 +383,55 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_list_cache_policies",
+      title: "List CloudFront Cache Policies",
       description: "List CloudFront cache policies",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         type: z
           .enum(["managed", "custom"])
           .optional()
           .describe("Policy type filter"),
-        maxItems: z
-          .number()
-          .min(1)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of policies to return"),
-        marker: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          id: z.string().optional(),
+          name: z.string().optional(),
+          type: z.string().optional(),
+          lastModifiedTime: z.string().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new ListCachePoliciesCommand({
-            Type: args.type,
-            MaxItems: args.maxItems,
-            Marker: args.marker,
+          const pages = createPaginator(
+            (marker, pageSize) =>
+              getCloudFrontClient(args.region).send(
+                new ListCachePoliciesCommand({
+                  Type: args.type,
+                  MaxItems: pageSize,
+                  Marker: marker,
+                }),
+              ),
+            (page) => page.CachePolicyList?.NextMarker,
+          )
+
+          return await paginate(args, {
+            pages,
+            items: (page) =>
+              page.CachePolicyList?.Items?.map((p) => ({
+                id: p.CachePolicy?.Id,
+                name: p.CachePolicy?.CachePolicyConfig?.Name,
+                type: p.Type,
+                lastModifiedTime:
+                  p.CachePolicy?.LastModifiedTime?.toISOString(),
+              })) || [],
+            nextToken: (page) => page.CachePolicyList?.NextMarker,
+            pageSize: { min: 1, max: 1000 },
           })
-
-          const response = await getCloudFrontClient(args.region).send(command)
-
-          const policies =
-            response.CachePolicyList?.Items?.map((p) => ({
-              id: p.CachePolicy?.Id,
-              name: p.CachePolicy?.CachePolicyConfig?.Name,
-              type: p.Type,
-              lastModifiedTime: p.CachePolicy?.LastModifiedTime?.toISOString(),
-            })) || []
-
-          return {
-            policies,
-            count: policies.length,
-            isTruncated: !!response.CachePolicyList?.NextMarker,
-            nextMarker: response.CachePolicyList?.NextMarker,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -370,15 +444,21 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_get_cache_policy",
+      title: "Get CloudFront Cache Policy",
       description: "Get details for a CloudFront cache policy",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         id: z.string().describe("Cache policy ID"),
       }),
+      output: z.object({
+        config: awsObject().optional(),
+        etag: z.string().optional(),
+        lastModifiedTime: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetCachePolicyCommand({
@@ -413,50 +493,55 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_list_origin_req_policies",
+      title: "List CloudFront Origin Request Policies",
       description: "List CloudFront origin request policies",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         type: z
           .enum(["managed", "custom"])
           .optional()
           .describe("Policy type filter"),
-        maxItems: z
-          .number()
-          .min(1)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of policies to return"),
-        marker: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          id: z.string().optional(),
+          name: z.string().optional(),
+          type: z.string().optional(),
+          lastModifiedTime: z.string().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new ListOriginRequestPoliciesCommand({
-            Type: args.type,
-            MaxItems: args.maxItems,
-            Marker: args.marker,
+          const pages = createPaginator(
+            (marker, pageSize) =>
+              getCloudFrontClient(args.region).send(
+                new ListOriginRequestPoliciesCommand({
+                  Type: args.type,
+                  MaxItems: pageSize,
+                  Marker: marker,
+                }),
+              ),
+            (page) => page.OriginRequestPolicyList?.NextMarker,
+          )
+
+          return await paginate(args, {
+            pages,
+            items: (page) =>
+              page.OriginRequestPolicyList?.Items?.map((p) => ({
+                id: p.OriginRequestPolicy?.Id,
+                name: p.OriginRequestPolicy?.OriginRequestPolicyConfig?.Name,
+                type: p.Type,
+                lastModifiedTime:
+                  p.OriginRequestPolicy?.LastModifiedTime?.toISOString(),
+              })) || [],
+            nextToken: (page) => page.OriginRequestPolicyList?.NextMarker,
+            pageSize: { min: 1, max: 1000 },
           })
-
-          const response = await getCloudFrontClient(args.region).send(command)
-
-          const policies =
-            response.OriginRequestPolicyList?.Items?.map((p) => ({
-              id: p.OriginRequestPolicy?.Id,
-              name: p.OriginRequestPolicy?.OriginRequestPolicyConfig?.Name,
-              type: p.Type,
-              lastModifiedTime:
-                p.OriginRequestPolicy?.LastModifiedTime?.toISOString(),
-            })) || []
-
-          return {
-            policies,
-            count: policies.length,
-            isTruncated: !!response.OriginRequestPolicyList?.NextMarker,
-            nextMarker: response.OriginRequestPolicyList?.NextMarker,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -469,15 +554,21 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_get_origin_request_policy",
+      title: "Get CloudFront Origin Request Policy",
       description: "Get details for a CloudFront origin request policy",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         id: z.string().describe("Origin request policy ID"),
       }),
+      output: z.object({
+        config: awsObject().optional(),
+        etag: z.string().optional(),
+        lastModifiedTime: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetOriginRequestPolicyCommand({
@@ -512,50 +603,56 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_list_resp_hdr_policies",
+      title: "List CloudFront Response Headers Policies",
       description: "List CloudFront response headers policies",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         type: z
           .enum(["managed", "custom"])
           .optional()
           .describe("Policy type filter"),
-        maxItems: z
-          .number()
-          .min(1)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of policies to return"),
-        marker: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          id: z.string().optional(),
+          name: z.string().optional(),
+          type: z.string().optional(),
+          lastModifiedTime: z.string().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new ListResponseHeadersPoliciesCommand({
-            Type: args.type,
-            MaxItems: args.maxItems,
-            Marker: args.marker,
+          const pages = createPaginator(
+            (marker, pageSize) =>
+              getCloudFrontClient(args.region).send(
+                new ListResponseHeadersPoliciesCommand({
+                  Type: args.type,
+                  MaxItems: pageSize,
+                  Marker: marker,
+                }),
+              ),
+            (page) => page.ResponseHeadersPolicyList?.NextMarker,
+          )
+
+          return await paginate(args, {
+            pages,
+            items: (page) =>
+              page.ResponseHeadersPolicyList?.Items?.map((p) => ({
+                id: p.ResponseHeadersPolicy?.Id,
+                name: p.ResponseHeadersPolicy?.ResponseHeadersPolicyConfig
+                  ?.Name,
+                type: p.Type,
+                lastModifiedTime:
+                  p.ResponseHeadersPolicy?.LastModifiedTime?.toISOString(),
+              })) || [],
+            nextToken: (page) => page.ResponseHeadersPolicyList?.NextMarker,
+            pageSize: { min: 1, max: 1000 },
           })
-
-          const response = await getCloudFrontClient(args.region).send(command)
-
-          const policies =
-            response.ResponseHeadersPolicyList?.Items?.map((p) => ({
-              id: p.ResponseHeadersPolicy?.Id,
-              name: p.ResponseHeadersPolicy?.ResponseHeadersPolicyConfig?.Name,
-              type: p.Type,
-              lastModifiedTime:
-                p.ResponseHeadersPolicy?.LastModifiedTime?.toISOString(),
-            })) || []
-
-          return {
-            policies,
-            count: policies.length,
-            isTruncated: !!response.ResponseHeadersPolicyList?.NextMarker,
-            nextMarker: response.ResponseHeadersPolicyList?.NextMarker,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -568,15 +665,21 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_get_resp_hdr_policy",
+      title: "Get CloudFront Response Headers Policy",
       description: "Get details for a CloudFront response headers policy",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         id: z.string().describe("Response headers policy ID"),
       }),
+      output: z.object({
+        config: awsObject().optional(),
+        etag: z.string().optional(),
+        lastModifiedTime: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetResponseHeadersPolicyCommand({
@@ -611,49 +714,49 @@ export function createCloudFrontTools(): Tool[] {
 
     tool({
       name: "aws_cloudfront_list_origin_access_ctrls",
+      title: "List CloudFront Origin Access Controls",
       description: "List CloudFront origin access controls",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
-        maxItems: z
-          .number()
-          .min(1)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of OACs to return"),
-        marker: z.string().optional().describe("Pagination token"),
+          .default(getDefaultAwsRegion),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          id: z.string().optional(),
+          name: z.string().optional(),
+          signingBehavior: z.string().optional(),
+          signingProtocol: z.string().optional(),
+          description: z.string().optional(),
+          originType: z.string().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new ListOriginAccessControlsCommand({
-            MaxItems: args.maxItems,
-            Marker: args.marker,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateListOriginAccessControls(
+                { client: getCloudFrontClient(args.region), ...config },
+                {},
+              ),
+            items: (page) =>
+              page.OriginAccessControlList?.Items?.map((oac) => {
+                // Need to get the full OAC to access config
+                return {
+                  id: oac.Id,
+                  name: oac.Name,
+                  signingBehavior: oac.SigningBehavior,
+                  signingProtocol: oac.SigningProtocol,
+                  description: oac.Description,
+                  originType: oac.OriginAccessControlOriginType,
+                }
+              }) || [],
+            nextToken: (page) => page.OriginAccessControlList?.NextMarker,
+            pageSize: { min: 1, max: 1000 },
           })
-
-          const response = await getCloudFrontClient(args.region).send(command)
-
-          const oacs =
-            response.OriginAccessControlList?.Items?.map((oac) => {
-              // Need to get the full OAC to access config
-              return {
-                id: oac.Id,
-                name: oac.Name,
-                signingBehavior: oac.SigningBehavior,
-                signingProtocol: oac.SigningProtocol,
-                description: oac.Description,
-                originType: oac.OriginAccessControlOriginType,
-              }
-            }) || []
-
-          return {
-            originAccessControls: oacs,
-            count: oacs.length,
-            isTruncated: response.OriginAccessControlList?.IsTruncated,
-            nextMarker: response.OriginAccessControlList?.NextMarker,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -1,47 +1,55 @@
 import {
   CloudWatchClient,
-  DescribeAlarmsCommand,
   GetMetricStatisticsCommand,
-  ListMetricsCommand,
+  paginateDescribeAlarms,
+  paginateListMetrics,
 } from "@aws-sdk/client-cloudwatch"
 import {
   CloudWatchLogsClient,
-  DescribeLogGroupsCommand,
-  DescribeLogStreamsCommand,
-  FilterLogEventsCommand,
   GetLogEventsCommand,
   GetQueryResultsCommand,
+  paginateDescribeLogGroups,
+  paginateDescribeLogStreams,
+  paginateFilterLogEvents,
   StartQueryCommand,
+  StopQueryCommand,
 } from "@aws-sdk/client-cloudwatch-logs"
+import { setTimeout } from "node:timers/promises"
 import { z } from "zod"
 
+import { recordQueryScan } from "~/utils/aws-call-metrics"
+import { getAwsClient } from "~/utils/aws-client"
 import {
-  AWS_REGIONS,
+  awsRegion,
   type AwsRegion,
-  DEFAULT_AWS_REGION,
+  getDefaultAwsRegion,
 } from "~/utils/aws-region"
-import { type Tool, tool } from "~/utils/tool"
+import { paginate, paginatedOutput, paginationArgs } from "~/utils/pagination"
+import { awsObject, READ_ONLY_ANNOTATIONS, type Tool, tool } from "~/utils/tool"
 import { ToolError } from "~/utils/tool-error"
 
 export function createCloudWatchTools(): Tool[] {
-  const getCloudWatchClient = (region: AwsRegion = DEFAULT_AWS_REGION) => {
-    return new CloudWatchClient({ region })
+  const getCloudWatchClient = (region: AwsRegion = getDefaultAwsRegion()) => {
+    return getAwsClient(CloudWatchClient, { service: "cloudwatch", region })
   }
 
-  const getCloudWatchLogsClient = (region: AwsRegion = DEFAULT_AWS_REGION) => {
-    return new CloudWatchLogsClient({ region })
+  const getCloudWatchLogsClient = (
+    region: AwsRegion = getDefaultAwsRegion(),
+  ) => {
+    return getAwsClient(CloudWatchLogsClient, { service: "logs", region })
   }
 
   return [
     tool({
       name: "aws_cloudwatch_list_metrics",
+      title: "List CloudWatch Metrics",
       description: "List CloudWatch metrics with optional filtering",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         namespace: z
           .string()
           .optional()
@@ -63,38 +71,49 @@ export function createCloudWatchTools(): Tool[] {
           .enum(["PT3H"])
           .optional()
           .describe("Only return metrics with data points in the last 3 hours"),
-        nextToken: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          metricName: z.string().optional(),
+          namespace: z.string().optional(),
+          dimensions: z
+            .array(
+              z.object({
+                name: z.string().optional(),
+                value: z.string().optional(),
+              }),
+            )
+            .optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new ListMetricsCommand({
-            Namespace: args.namespace,
-            MetricName: args.metricName,
-            Dimensions: args.dimensions?.map((d) => ({
-              Name: d.name,
-              Value: d.value,
-            })),
-            RecentlyActive: args.recentlyActive,
-            NextToken: args.nextToken,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateListMetrics(
+                { client: getCloudWatchClient(args.region), ...config },
+                {
+                  Namespace: args.namespace,
+                  MetricName: args.metricName,
+                  Dimensions: args.dimensions?.map((d) => ({
+                    Name: d.name,
+                    Value: d.value,
+                  })),
+                  RecentlyActive: args.recentlyActive,
+                },
+              ),
+            items: (page) =>
+              page.Metrics?.map((metric) => ({
+                metricName: metric.MetricName,
+                namespace: metric.Namespace,
+                dimensions: metric.Dimensions?.map((d) => ({
+                  name: d.Name,
+                  value: d.Value,
+                })),
+              })) || [],
+            nextToken: (page) => page.NextToken,
           })
-
-          const response = await getCloudWatchClient(args.region).send(command)
-
-          const metrics =
-            response.Metrics?.map((metric) => ({
-              metricName: metric.MetricName,
-              namespace: metric.Namespace,
-              dimensions: metric.Dimensions?.map((d) => ({
-                name: d.Name,
-                value: d.Value,
-              })),
-            })) || []
-
-          return {
-            metrics,
-            count: metrics.length,
-            nextToken: response.NextToken,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -107,13 +126,14 @@ export function createCloudWatchTools(): Tool[] {
 
     tool({
       name: "aws_cloudwatch_get_metric_statistics",
+      title: "Get CloudWatch Metric Statistics",
       description: "Get statistics for a CloudWatch metric",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         namespace: z
           .string()
           .describe("AWS namespace (e.g., AWS/EC2, AWS/Lambda)"),
@@ -170,6 +190,21 @@ export function createCloudWatchTools(): Tool[] {
           .optional()
           .describe("Unit of measurement"),
       }),
+      output: z.object({
+        label: z.string().optional(),
+        datapoints: z.array(
+          z.object({
+            timestamp: z.string().optional(),
+            sum: z.number().optional(),
+            average: z.number().optional(),
+            maximum: z.number().optional(),
+            minimum: z.number().optional(),
+            sampleCount: z.number().optional(),
+            unit: z.string().optional(),
+          }),
+        ),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const command = new GetMetricStatisticsCommand({
@@ -220,13 +255,14 @@ export function createCloudWatchTools(): Tool[] {
 
     tool({
       name: "aws_cloudwatch_describe_alarms",
+      title: "Describe CloudWatch Alarms",
       description: "List and describe CloudWatch alarms",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         alarmNames: z
           .array(z.string())
           .optional()
@@ -255,89 +291,136 @@ export function createCloudWatchTools(): Tool[] {
           .string()
           .optional()
           .describe("Prefix for alarm actions"),
-        maxRecords: z
-          .number()
-          .min(1)
-          .max(100)
-          .optional()
-          .describe("Maximum alarms to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.union([
+          z.object({
+            alarmType: z.string(),
+            alarmName: z.string().optional(),
+            alarmArn: z.string().optional(),
+            alarmDescription: z.string().optional(),
+            alarmConfigurationUpdatedTimestamp: z.string().optional(),
+            actionsEnabled: z.boolean().optional(),
+            okActions: z.array(z.string()).optional(),
+            alarmActions: z.array(z.string()).optional(),
+            insufficientDataActions: z.array(z.string()).optional(),
+            stateValue: z.string().optional(),
+            stateReason: z.string().optional(),
+            stateReasonData: z.string().optional(),
+            stateUpdatedTimestamp: z.string().optional(),
+            metricName: z.string().optional(),
+            namespace: z.string().optional(),
+            statistic: z.string().optional(),
+            extendedStatistic: z.string().optional(),
+            dimensions: z
+              .array(
+                z.object({
+                  name: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+            period: z.number().optional(),
+            unit: z.string().optional(),
+            evaluationPeriods: z.number().optional(),
+            datapointsToAlarm: z.number().optional(),
+            threshold: z.number().optional(),
+            comparisonOperator: z.string().optional(),
+            treatMissingData: z.string().optional(),
+            evaluateLowSampleCountPercentile: z.string().optional(),
+          }),
+          z.object({
+            alarmType: z.string(),
+            alarmName: z.string().optional(),
+            alarmArn: z.string().optional(),
+            alarmDescription: z.string().optional(),
+            alarmConfigurationUpdatedTimestamp: z.string().optional(),
+            actionsEnabled: z.boolean().optional(),
+            okActions: z.array(z.string()).optional(),
+            alarmActions: z.array(z.string()).optional(),
+            insufficientDataActions: z.array(z.string()).optional(),
+            stateValue: z.string().optional(),
+            stateReason: z.string().optional(),
+            stateReasonData: z.string().optional(),
+            stateUpdatedTimestamp: z.string().optional(),
+            alarmRule: z.string().optional(),
+          }),
+        ]),
+      ),
       async run(args) {
         try {
-          const command = new DescribeAlarmsCommand({
-            AlarmNames: args.alarmNames,
-            AlarmNamePrefix: args.alarmNamePrefix,
-            AlarmTypes: args.alarmTypes,
-            ChildrenOfAlarmName: args.childrenOfAlarmName,
-            ParentsOfAlarmName: args.parentsOfAlarmName,
-            StateValue: args.stateValue,
-            ActionPrefix: args.actionPrefix,
-            MaxRecords: args.maxRecords,
-            NextToken: args.nextToken,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateDescribeAlarms(
+                { client: getCloudWatchClient(args.region), ...config },
+                {
+                  AlarmNames: args.alarmNames,
+                  AlarmNamePrefix: args.alarmNamePrefix,
+                  AlarmTypes: args.alarmTypes,
+                  ChildrenOfAlarmName: args.childrenOfAlarmName,
+                  ParentsOfAlarmName: args.parentsOfAlarmName,
+                  StateValue: args.stateValue,
+                  ActionPrefix: args.actionPrefix,
+                },
+              ),
+            items: (page) => [
+              ...(page.MetricAlarms?.map((alarm) => ({
+                alarmType: "MetricAlarm" as const,
+                alarmName: alarm.AlarmName,
+                alarmArn: alarm.AlarmArn,
+                alarmDescription: alarm.AlarmDescription,
+                alarmConfigurationUpdatedTimestamp:
+                  alarm.AlarmConfigurationUpdatedTimestamp?.toISOString(),
+                actionsEnabled: alarm.ActionsEnabled,
+                okActions: alarm.OKActions,
+                alarmActions: alarm.AlarmActions,
+                insufficientDataActions: alarm.InsufficientDataActions,
+                stateValue: alarm.StateValue,
+                stateReason: alarm.StateReason,
+                stateReasonData: alarm.StateReasonData,
+                stateUpdatedTimestamp:
+                  alarm.StateUpdatedTimestamp?.toISOString(),
+                metricName: alarm.MetricName,
+                namespace: alarm.Namespace,
+                statistic: alarm.Statistic,
+                extendedStatistic: alarm.ExtendedStatistic,
+                dimensions: alarm.Dimensions?.map((d) => ({
+                  name: d.Name,
+                  value: d.Value,
+                })),
+                period: alarm.Period,
+                unit: alarm.Unit,
+                evaluationPeriods: alarm.EvaluationPeriods,
+                datapointsToAlarm: alarm.DatapointsToAlarm,
+                threshold: alarm.Threshold,
+                comparisonOperator: alarm.ComparisonOperator,
+                treatMissingData: alarm.TreatMissingData,
+                evaluateLowSampleCountPercentile:
+                  alarm.EvaluateLowSampleCountPercentile,
+              })) ?? []),
+              ...(page.CompositeAlarms?.map((alarm) => ({
+                alarmType: "CompositeAlarm" as const,
+                alarmName: alarm.AlarmName,
+                alarmArn: alarm.AlarmArn,
+                alarmDescription: alarm.AlarmDescription,
+                alarmConfigurationUpdatedTimestamp:
+                  alarm.AlarmConfigurationUpdatedTimestamp?.toISOString(),
+                actionsEnabled: alarm.ActionsEnabled,
+                okActions: alarm.OKActions,
+                alarmActions: alarm.AlarmActions,
+                insufficientDataActions: alarm.InsufficientDataActions,
+                stateValue: alarm.StateValue,
+                stateReason: alarm.StateReason,
+                stateReasonData: alarm.StateReasonData,
+                stateUpdatedTimestamp:
+                  alarm.StateUpdatedTimestamp?.toISOString(),
+                alarmRule: alarm.AlarmRule,
+              })) ?? []),
+            ],
+            nextToken: (page) => page.NextToken,
+            pageSize: { min: 1, max: 100 },
           })
-
-          const response = await getCloudWatchClient(args.region).send(command)
-
-          const metricAlarms =
-            response.MetricAlarms?.map((alarm) => ({
-              alarmName: alarm.AlarmName,
-              alarmArn: alarm.AlarmArn,
-              alarmDescription: alarm.AlarmDescription,
-              alarmConfigurationUpdatedTimestamp:
-                alarm.AlarmConfigurationUpdatedTimestamp?.toISOString(),
-              actionsEnabled: alarm.ActionsEnabled,
-              okActions: alarm.OKActions,
-              alarmActions: alarm.AlarmActions,
-              insufficientDataActions: alarm.InsufficientDataActions,
-              stateValue: alarm.StateValue,
-              stateReason: alarm.StateReason,
-              stateReasonData: alarm.StateReasonData,
-              stateUpdatedTimestamp: alarm.StateUpdatedTimestamp?.toISOString(),
-              metricName: alarm.MetricName,
-              namespace: alarm.Namespace,
-              statistic: alarm.Statistic,
-              extendedStatistic: alarm.ExtendedStatistic,
-              dimensions: alarm.Dimensions?.map((d) => ({
-                name: d.Name,
-                value: d.Value,
-              })),
-              period: alarm.Period,
-              unit: alarm.Unit,
-              evaluationPeriods: alarm.EvaluationPeriods,
-              datapointsToAlarm: alarm.DatapointsToAlarm,
-              threshold: alarm.Threshold,
-              comparisonOperator: alarm.ComparisonOperator,
-              treatMissingData: alarm.TreatMissingData,
-              evaluateLowSampleCountPercentile:
-                alarm.EvaluateLowSampleCountPercentile,
-            })) || []
-
-          const compositeAlarms =
-            response.CompositeAlarms?.map((alarm) => ({
-              alarmName: alarm.AlarmName,
-              alarmArn: alarm.AlarmArn,
-              alarmDescription: alarm.AlarmDescription,
-              alarmConfigurationUpdatedTimestamp:
-                alarm.AlarmConfigurationUpdatedTimestamp?.toISOString(),
-              actionsEnabled: alarm.ActionsEnabled,
-              okActions: alarm.OKActions,
-              alarmActions: alarm.AlarmActions,
-              insufficientDataActions: alarm.InsufficientDataActions,
-              stateValue: alarm.StateValue,
-              stateReason: alarm.StateReason,
-              stateReasonData: alarm.StateReasonData,
-              stateUpdatedTimestamp: alarm.StateUpdatedTimestamp?.toISOString(),
-              alarmRule: alarm.AlarmRule,
-            })) || []
-
-          return {
-            metricAlarms,
-            compositeAlarms,
-            metricAlarmsCount: metricAlarms.length,
-            compositeAlarmsCount: compositeAlarms.length,
-            nextToken: response.NextToken,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -350,13 +433,15 @@ export function createCloudWatchTools(): Tool[] {
 
     tool({
       name: "aws_cloudwatchlogs_start_query",
+      title: "Start CloudWatch Logs Query",
       description: "Start a CloudWatch Logs Insights query",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         logGroupNames: z
           .array(z.string())
           .optional()
@@ -377,6 +462,9 @@ export function createCloudWatchTools(): Tool[] {
           .optional()
           .describe("Maximum number of log events to return"),
       }),
+      output: z.object({
+        queryId: z.string().optional(),
+      }),
       async run(args) {
         try {
           const logGroupNames =
@@ -423,15 +511,29 @@ export function createCloudWatchTools(): Tool[] {
 
     tool({
       name: "aws_cloudwatchlogs_get_query_results",
+      title: "Get CloudWatch Logs Query Results",
       description: "Get results from a CloudWatch Logs Insights query",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         queryId: z.string().describe("The query ID from start_query"),
       }),
+      output: z.object({
+        queryId: z.string(),
+        status: z.string().optional(),
+        statistics: z
+          .object({
+            recordsMatched: z.number().optional(),
+            recordsScanned: z.number().optional(),
+            bytesScanned: z.number().optional(),
+          })
+          .optional(),
+        records: z.array(awsObject()),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const command = new GetQueryResultsCommand({
@@ -441,6 +543,7 @@ export function createCloudWatchTools(): Tool[] {
           const response = await getCloudWatchLogsClient(args.region).send(
             command,
           )
+          recordQueryScan(args.queryId, response.statistics?.bytesScanned)
 
           const records =
             response.results?.map((result) => {
@@ -476,14 +579,16 @@ export function createCloudWatchTools(): Tool[] {
 
     tool({
       name: "aws_cloudwatchlogs_query",
+      title: "Query CloudWatch Logs",
       description:
         "Execute a CloudWatch Logs Insights query and wait for results (one-shot convenience)",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         logGroupNames: z
           .array(z.string())
           .optional()
@@ -518,7 +623,23 @@ export function createCloudWatchTools(): Tool[] {
           .default(60)
           .describe("Maximum time to wait for query completion in seconds"),
       }),
-      async run(args) {
+      output: z.object({
+        queryId: z.string(),
+        status: z.string(),
+        statistics: z
+          .object({
+            recordsMatched: z.number().optional(),
+            recordsScanned: z.number().optional(),
+            bytesScanned: z.number().optional(),
+          })
+          .optional(),
+        records: z.array(awsObject()),
+        count: z.number(),
+      }),
+      async run(args, { signal, reportProgress }) {
+        const client = getCloudWatchLogsClient(args.region)
+        let queryId: string | undefined
+
         try {
           const logGroupNames =
             args.logGroupNames ||
@@ -545,10 +666,10 @@ export function createCloudWatchTools(): Tool[] {
             limit: args.limit,
           })
 
-          const startResponse = await getCloudWatchLogsClient(args.region).send(
-            startCommand,
-          )
-          const { queryId } = startResponse
+          const startResponse = await client.send(startCommand, {
+            abortSignal: signal,
+          })
+          queryId = startResponse.queryId
 
           if (!queryId) {
             throw new Error("Failed to start query: no queryId returned")
@@ -557,15 +678,17 @@ export function createCloudWatchTools(): Tool[] {
           const maxWaitMs = (args.maxWaitSeconds || 60) * 1000
           const pollInterval = args.pollIntervalMs || 1000
           const startTime = Date.now()
+          let polls = 0
 
           while (Date.now() - startTime < maxWaitMs) {
             const getResultsCommand = new GetQueryResultsCommand({
               queryId,
             })
 
-            const resultsResponse = await getCloudWatchLogsClient(
-              args.region,
-            ).send(getResultsCommand)
+            const resultsResponse = await client.send(getResultsCommand, {
+              abortSignal: signal,
+            })
+            recordQueryScan(queryId, resultsResponse.statistics?.bytesScanned)
 
             const { status } = resultsResponse
             if (
@@ -597,13 +720,28 @@ export function createCloudWatchTools(): Tool[] {
               }
             }
 
-            await new Promise((resolve) => setTimeout(resolve, pollInterval))
+            reportProgress({
+              progress: ++polls,
+              total: Math.ceil(maxWaitMs / pollInterval),
+              message: `Query ${status ?? "Scheduled"}, ${resultsResponse.statistics?.recordsMatched ?? 0} records matched`,
+            })
+            await setTimeout(pollInterval, undefined, { signal })
           }
 
+          // Queries scan logs until stopped, bytes of the last results count towards the quota
+          await client
+            .send(new StopQueryCommand({ queryId }))
+            .catch(() => undefined)
           throw new Error(
-            `Query did not complete within ${args.maxWaitSeconds || 60} seconds`,
+            `Query did not complete within ${args.maxWaitSeconds || 60} seconds and was stopped`,
           )
         } catch (error) {
+          // Cancelled queries would keep scanning logs until they time out
+          if (signal.aborted && queryId) {
+            await client
+              .send(new StopQueryCommand({ queryId }))
+              .catch(() => undefined)
+          }
           throw new ToolError({
             error,
             toolName: "aws_cloudwatchlogs_query",
@@ -615,53 +753,54 @@ export function createCloudWatchTools(): Tool[] {
 
     tool({
       name: "aws_cloudwatchlogs_describe_log_groups",
+      title: "Describe CloudWatch Log Groups",
       description: "List CloudWatch log groups",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         logGroupNamePrefix: z
           .string()
           .optional()
           .describe("Prefix to filter log group names"),
-        limit: z
-          .number()
-          .min(1)
-          .max(50)
-          .optional()
-          .describe("Maximum number of log groups to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          logGroupName: z.string().optional(),
+          creationTime: z.number().optional(),
+          retentionInDays: z.number().optional(),
+          metricFilterCount: z.number().optional(),
+          storedBytes: z.number().optional(),
+          kmsKeyId: z.string().optional(),
+          dataProtectionStatus: z.string().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new DescribeLogGroupsCommand({
-            logGroupNamePrefix: args.logGroupNamePrefix,
-            limit: args.limit,
-            nextToken: args.nextToken,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateDescribeLogGroups(
+                { client: getCloudWatchLogsClient(args.region), ...config },
+                {
+                  logGroupNamePrefix: args.logGroupNamePrefix,
+                },
+              ),
+            items: (page) =>
+              page.logGroups?.map((group) => ({
+                logGroupName: group.logGroupName,
+                creationTime: group.creationTime,
+                retentionInDays: group.retentionInDays,
+                metricFilterCount: group.metricFilterCount,
+                storedBytes: group.storedBytes,
+                kmsKeyId: group.kmsKeyId,
+                dataProtectionStatus: group.dataProtectionStatus,
+              })) || [],
+            nextToken: (page) => page.nextToken,
+            pageSize: { min: 1, max: 50 },
           })
-
-          const response = await getCloudWatchLogsClient(args.region).send(
-            command,
-          )
-
-          const logGroups =
-            response.logGroups?.map((group) => ({
-              logGroupName: group.logGroupName,
-              creationTime: group.creationTime,
-              retentionInDays: group.retentionInDays,
-              metricFilterCount: group.metricFilterCount,
-              storedBytes: group.storedBytes,
-              kmsKeyId: group.kmsKeyId,
-              dataProtectionStatus: group.dataProtectionStatus,
-            })) || []
-
-          return {
-            logGroups,
-            count: logGroups.length,
-            nextToken: response.nextToken,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -674,13 +813,14 @@ export function createCloudWatchTools(): Tool[] {
 
     tool({
       name: "aws_cloudwatchlogs_describe_log_streams",
+      title: "Describe CloudWatch Log Streams",
       description: "List log streams in a CloudWatch log group",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         logGroupName: z.string().describe("Name of the log group"),
         orderBy: z
           .enum(["LogStreamName", "LastEventTime"])
@@ -691,46 +831,47 @@ export function createCloudWatchTools(): Tool[] {
           .string()
           .optional()
           .describe("Prefix to filter log stream names"),
-        limit: z
-          .number()
-          .min(1)
-          .max(50)
-          .optional()
-          .describe("Maximum number of log streams to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          logStreamName: z.string().optional(),
+          creationTime: z.number().optional(),
+          firstEventTimestamp: z.number().optional(),
+          lastEventTimestamp: z.number().optional(),
+          lastIngestionTime: z.number().optional(),
+          uploadSequenceToken: z.string().optional(),
+          arn: z.string().optional(),
+          storedBytes: z.number().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new DescribeLogStreamsCommand({
-            logGroupName: args.logGroupName,
-            orderBy: args.orderBy,
-            descending: args.descending,
-            logStreamNamePrefix: args.logStreamNamePrefix,
-            limit: args.limit,
-            nextToken: args.nextToken,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateDescribeLogStreams(
+                { client: getCloudWatchLogsClient(args.region), ...config },
+                {
+                  logGroupName: args.logGroupName,
+                  orderBy: args.orderBy,
+                  descending: args.descending,
+                  logStreamNamePrefix: args.logStreamNamePrefix,
+                },
+              ),
+            items: (page) =>
+              page.logStreams?.map((stream) => ({
+                logStreamName: stream.logStreamName,
+                creationTime: stream.creationTime,
+                firstEventTimestamp: stream.firstEventTimestamp,
+                lastEventTimestamp: stream.lastEventTimestamp,
+                lastIngestionTime: stream.lastIngestionTime,
+                uploadSequenceToken: stream.uploadSequenceToken,
+                arn: stream.arn,
+                storedBytes: stream.storedBytes,
+              })) || [],
+            nextToken: (page) => page.nextToken,
+            pageSize: { min: 1, max: 50 },
           })
-
-          const response = await getCloudWatchLogsClient(args.region).send(
-            command,
-          )
-
-          const logStreams =
-            response.logStreams?.map((stream) => ({
-              logStreamName: stream.logStreamName,
-              creationTime: stream.creationTime,
-              firstEventTimestamp: stream.firstEventTimestamp,
-              lastEventTimestamp: stream.lastEventTimestamp,
-              lastIngestionTime: stream.lastIngestionTime,
-              uploadSequenceToken: stream.uploadSequenceToken,
-              arn: stream.arn,
-              storedBytes: stream.storedBytes,
-            })) || []
-
-          return {
-            logStreams,
-            count: logStreams.length,
-            nextToken: response.nextToken,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -743,14 +884,15 @@ export function createCloudWatchTools(): Tool[] {
 
     tool({
       name: "aws_cloudwatchlogs_filter_log_events",
+      title: "Filter CloudWatch Log Events",
       description:
         "Filter and search log events across log streams in a log group",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         logGroupName: z.string().describe("Name of the log group"),
         logStreamNames: z
           .array(z.string())
@@ -774,14 +916,17 @@ export function createCloudWatchTools(): Tool[] {
           .string()
           .optional()
           .describe("End time (ISO string, converted to epoch milliseconds)"),
-        limit: z
-          .number()
-          .min(1)
-          .max(10000)
-          .optional()
-          .describe("Maximum number of events to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          eventId: z.string().optional(),
+          timestamp: z.number().optional(),
+          message: z.string().optional(),
+          ingestionTime: z.number().optional(),
+          logStreamName: z.string().optional(),
+        }),
+      ),
       async run(args) {
         try {
           const startTime = args.startTime
@@ -791,43 +936,31 @@ export function createCloudWatchTools(): Tool[] {
             ? new Date(args.endTime).getTime()
             : undefined
 
-          const command = new FilterLogEventsCommand({
-            logGroupName: args.logGroupName,
-            logStreamNames: args.logStreamNames,
-            logStreamNamePrefix: args.logStreamNamePrefix,
-            filterPattern: args.filterPattern,
-            startTime,
-            endTime,
-            limit: args.limit,
-            nextToken: args.nextToken,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateFilterLogEvents(
+                { client: getCloudWatchLogsClient(args.region), ...config },
+                {
+                  logGroupName: args.logGroupName,
+                  logStreamNames: args.logStreamNames,
+                  logStreamNamePrefix: args.logStreamNamePrefix,
+                  filterPattern: args.filterPattern,
+                  startTime,
+                  endTime,
+                },
+              ),
+            items: (page) =>
+              page.events?.map((event) => ({
+                eventId: event.eventId,
+                timestamp: event.timestamp,
+                message: event.message,
+                ingestionTime: event.ingestionTime,
+                logStreamName: event.logStreamName,
+              })) || [],
+            // Pages may be empty while more log streams are searched
+            nextToken: (page) => page.nextToken,
+            pageSize: { min: 1, max: 10000 },
           })
-
-          const response = await getCloudWatchLogsClient(args.region).send(
-            command,
-          )
-
-          const events =
-            response.events?.map((event) => ({
-              eventId: event.eventId,
-              timestamp: event.timestamp,
-              message: event.message,
-              ingestionTime: event.ingestionTime,
-              logStreamName: event.logStreamName,
-            })) || []
-
-          const searchedLogStreams =
-            response.searchedLogStreams?.map((stream) => ({
-              logStreamName: stream.logStreamName,
-              searchedCompletely: stream.searchedCompletely,
-            })) || []
-
-          return {
-            events,
-            count: events.length,
-            nextToken: response.nextToken,
-            searchedLogStreams,
-            searchedLogStreamsCount: searchedLogStreams.length,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -840,13 +973,14 @@ export function createCloudWatchTools(): Tool[] {
 
     tool({
       name: "aws_cloudwatchlogs_get_log_events",
+      title: "Get CloudWatch Log Events",
       description: "Get log events from a specific log stream",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         logGroupName: z.string().describe("Name of the log group"),
         logStreamName: z.string().describe("Name of the log stream"),
         startTime: z
@@ -869,6 +1003,18 @@ export function createCloudWatchTools(): Tool[] {
           .describe("Maximum number of events to return"),
         nextToken: z.string().optional().describe("Pagination token"),
       }),
+      output: z.object({
+        events: z.array(
+          z.object({
+            timestamp: z.number().optional(),
+            message: z.string().optional(),
+            ingestionTime: z.number().optional(),
+          }),
+        ),
+        count: z.number(),
+        nextForwardToken: z.string().optional(),
+        nextBackwardToken: z.string().optional(),
+      }),
       async run(args) {
         try {
           const startTime = args.startTime
@@ -10,30 +10,38 @@ import {
 } from "@aws-sdk/client-cost-explorer"
 import { z } from "zod"
 
+import { getAwsClient } from "~/utils/aws-client"
 import { ToolError } from "~/utils/tool-error"
 
 import {
-  AWS_REGIONS,
+  awsRegion,
   type AwsRegion,
-  DEFAULT_AWS_REGION,
+  getDefaultAwsRegion,
 } from "../utils/aws-region"
-import { type Tool, tool } from "../utils/tool"
+import {
+  awsObject,
+  READ_ONLY_ANNOTATIONS,
+  type Tool,
+  tool,
+} from "../utils/tool"
 
 export function createCostTools(): Tool[] {
-  const getCostExplorerClient = (region: AwsRegion = DEFAULT_AWS_REGION) => {
-    return new CostExplorerClient({ region })
+  const getCostExplorerClient = (region: AwsRegion = getDefaultAwsRegion()) => {
+    return getAwsClient(CostExplorerClient, { service: "ce", region })
   }
 
   return [
     tool({
       name: "aws_cost_get-cost-and-usage",
+      title: "Get Cost and Usage",
       description: "Get cost and usage data for your AWS account",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         timePeriod: z
           .object({
             start: z.string().describe("Start date in YYYY-MM-DD format"),
@@ -143,6 +151,36 @@ export function createCostTools(): Tool[] {
           .optional()
           .describe("Filter to apply to the cost data"),
       }),
+      output: z.object({
+        resultsByTime: z.array(
+          z.object({
+            timePeriod: z.object({
+              start: z.string().optional(),
+              end: z.string().optional(),
+            }),
+            total: awsObject().optional(),
+            groups: z
+              .array(
+                z.object({
+                  keys: z.array(z.string()).optional(),
+                  metrics: awsObject().optional(),
+                }),
+              )
+              .optional(),
+            estimated: z.boolean().optional(),
+          }),
+        ),
+        count: z.number(),
+        groupDefinitions: z
+          .array(
+            z.object({
+              type: z.string().optional(),
+              key: z.string().optional(),
+            }),
+          )
+          .optional(),
+        nextPageToken: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetCostAndUsageCommand({
@@ -235,13 +273,15 @@ export function createCostTools(): Tool[] {
 
     tool({
       name: "aws_cost_get-dimension-values",
+      title: "Get Cost Explorer Dimension Values",
       description: "Get available values for a cost dimension",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         timePeriod: z
           .object({
             start: z.string().describe("Start date in YYYY-MM-DD format"),
@@ -306,6 +346,19 @@ export function createCostTools(): Tool[] {
           .describe("Maximum results to return"),
         nextPageToken: z.string().optional().describe("Pagination token"),
       }),
+      output: z.object({
+        dimension: z.string(),
+        dimensionValues: z.array(
+          z.object({
+            value: z.string().optional(),
+            attributes: awsObject().optional(),
+          }),
+        ),
+        count: z.number(),
+        returnSize: z.number().optional(),
+        totalSize: z.number().optional(),
+        nextPageToken: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetDimensionValuesCommand({
@@ -354,13 +407,15 @@ export function createCostTools(): Tool[] {
 
     tool({
       name: "aws_cost_get-rightsizing-recommendation",
+      title: "Get EC2 Rightsizing Recommendations",
       description: "Get rightsizing recommendations for EC2 instances",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         filter: z
           .object({
             dimensions: z
@@ -437,6 +492,68 @@ export function createCostTools(): Tool[] {
           .describe("Number of recommendations per page"),
         nextPageToken: z.string().optional().describe("Pagination token"),
       }),
+      output: z.object({
+        recommendations: z.array(
+          z.object({
+            accountId: z.string().optional(),
+            currentInstance: z
+              .object({
+                resourceId: z.string().optional(),
+                instanceName: z.string().optional(),
+                tags: z.array(awsObject()).optional(),
+                resourceDetails: awsObject().optional(),
+                resourceUtilization: awsObject().optional(),
+                reservationCoveredHoursInLookbackPeriod: z.string().optional(),
+                onDemandHoursInLookbackPeriod: z.string().optional(),
+                totalRunningHoursInLookbackPeriod: z.string().optional(),
+                monthlyCost: z.string().optional(),
+                currencyCode: z.string().optional(),
+              })
+              .optional(),
+            rightsizingType: z.string().optional(),
+            modifyRecommendationDetail: z
+              .object({
+                targetInstances: z
+                  .array(
+                    z.object({
+                      estimatedMonthlyCost: z.string().optional(),
+                      estimatedMonthlySavings: z.string().optional(),
+                      currencyCode: z.string().optional(),
+                      defaultTargetInstance: z.boolean().optional(),
+                      resourceDetails: awsObject().optional(),
+                      expectedResourceUtilization: awsObject().optional(),
+                      platformDifferences: z.array(z.string()).optional(),
+                    }),
+                  )
+                  .optional(),
+              })
+              .optional(),
+            terminateRecommendationDetail: z
+              .object({
+                estimatedMonthlySavings: z.string().optional(),
+                currencyCode: z.string().optional(),
+              })
+              .optional(),
+            findingReasonCodes: z.array(z.string()).optional(),
+          }),
+        ),
+        count: z.number(),
+        summary: z
+          .object({
+            totalRecommendationCount: z.string().optional(),
+            estimatedTotalMonthlySavingsAmount: z.string().optional(),
+            savingsCurrencyCode: z.string().optional(),
+            savingsPercentage: z.string().optional(),
+          })
+          .optional(),
+        nextPageToken: z.string().optional(),
+        configuration: z
+          .object({
+            benefitsConsidered: z.boolean().optional(),
+            recommendationTarget: z.string().optional(),
+          })
+          .optional(),
+      }),
       async run(args) {
         try {
           const command = new GetRightsizingRecommendationCommand({
@@ -551,14 +668,16 @@ export function createCostTools(): Tool[] {
 
     tool({
       name: "aws_cost_get-monthly-spend-summary",
+      title: "Get Monthly Spend Summary",
       description:
         "Get a simplified monthly spend summary for the last N months",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         months: z
           .number()
           .min(1)
@@ -572,6 +691,40 @@ export function createCostTools(): Tool[] {
           .default(true)
           .describe("Group costs by AWS service"),
       }),
+      output: z.object({
+        summary: z.object({
+          totalSpend: z.number(),
+          averageMonthlySpend: z.number(),
+          currency: z.string(),
+          period: z.string(),
+        }),
+        monthlyData: z.array(
+          z.object({
+            month: z.string(),
+            totalCost: z.number(),
+            unit: z.string(),
+            serviceBreakdown: z
+              .array(
+                z.object({
+                  service: z.string(),
+                  cost: z.number(),
+                  unit: z.string(),
+                }),
+              )
+              .optional(),
+            topServices: z
+              .array(
+                z.object({
+                  service: z.string(),
+                  cost: z.number(),
+                  unit: z.string(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const endDate = new Date()
@@ -654,13 +807,15 @@ export function createCostTools(): Tool[] {
 
     tool({
       name: "aws_cost_get-service-costs",
+      title: "Get Costs by Service",
       description: "Get cost breakdown for specific AWS services you use",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         services: z
           .array(
             z.enum([
@@ -720,9 +875,56 @@ export function createCostTools(): Tool[] {
           .default(false)
           .describe("Include usage metrics alongside cost"),
       }),
-      async run(args) {
+      output: z.object({
+        summary: z.object({
+          totalCost: z.unknown(),
+          currency: z.unknown(),
+          period: z.string(),
+          granularity: z.string(),
+          servicesAnalyzed: z.number(),
+          servicesWithCosts: z.number(),
+          includeUsage: z.boolean(),
+        }),
+        topServices: z.array(
+          z.object({
+            serviceName: z.unknown(),
+            totalCost: z.unknown(),
+            averageMonthlyCost: z.unknown(),
+            currency: z.unknown(),
+            totalUsage: z.unknown(),
+          }),
+        ),
+        allServices: z.array(z.unknown()),
+        costDistribution: z.object({
+          top5Services: z.array(
+            z.object({
+              service: z.unknown(),
+              cost: z.unknown(),
+              percentage: z.string(),
+            }),
+          ),
+          remainingServices: z.object({
+            count: z.number(),
+            totalCost: z.unknown(),
+            percentage: z.string(),
+          }),
+        }),
+        trends: z
+          .object({
+            mostExpensive: z.unknown(),
+            leastExpensive: z.unknown(),
+            servicesTotalCosts: z.array(
+              z.object({
+                service: z.unknown(),
+                cost: z.unknown(),
+              }),
+            ),
+          })
+          .optional(),
+      }),
+      async run(args, { signal, reportProgress }) {
         const {
-          region = DEFAULT_AWS_REGION,
+          region = getDefaultAwsRegion(),
           months = 3,
           granularity = "MONTHLY",
           includeUsage = false,
@@ -798,7 +1000,19 @@ export function createCostTools(): Tool[] {
             },
           })
 
-          const response = await getCostExplorerClient(region).send(command)
+          reportProgress({
+            progress: 0,
+            total: 2,
+            message: `Querying costs of ${servicesToAnalyze.length} services`,
+          })
+          const response = await getCostExplorerClient(region).send(command, {
+            abortSignal: signal,
+          })
+          reportProgress({
+            progress: 1,
+            total: 2,
+            message: "Analyzing costs by service",
+          })
 
           const serviceAnalysis = new Map()
 
@@ -927,13 +1141,15 @@ export function createCostTools(): Tool[] {
 
     tool({
       name: "aws_cost_get-anomalies",
+      title: "Get Cost Anomalies",
       description: "Get cost anomalies detected by Cost Explorer",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         dateInterval: z
           .object({
             startDate: z.string().describe("Start date in YYYY-MM-DD format"),
@@ -982,6 +1198,50 @@ export function createCostTools(): Tool[] {
           .optional()
           .describe("Pagination token for next page of results"),
       }),
+      output: z.object({
+        anomalies: z.array(
+          z.object({
+            anomalyId: z.string().optional(),
+            anomalyStartDate: z.string().optional(),
+            anomalyEndDate: z.string().optional(),
+            dimensionValue: z.string().optional(),
+            rootCauses: z
+              .array(
+                z.object({
+                  service: z.string().optional(),
+                  region: z.string().optional(),
+                  linkedAccount: z.string().optional(),
+                  linkedAccountName: z.string().optional(),
+                  usageType: z.string().optional(),
+                  impact: z
+                    .object({
+                      contribution: z.number().optional(),
+                    })
+                    .optional(),
+                }),
+              )
+              .optional(),
+            anomalyScore: z
+              .object({
+                maxScore: z.number().optional(),
+                currentScore: z.number().optional(),
+              })
+              .optional(),
+            impact: z
+              .object({
+                maxImpact: z.number().optional(),
+                totalImpact: z.number().optional(),
+                totalActualSpend: z.number().optional(),
+                totalExpectedSpend: z.number().optional(),
+              })
+              .optional(),
+            monitorArn: z.string().optional(),
+            feedback: z.string().optional(),
+          }),
+        ),
+        count: z.number(),
+        nextPageToken: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetAnomaliesCommand({
@@ -1059,13 +1319,15 @@ export function createCostTools(): Tool[] {
 
     tool({
       name: "aws_cost_get-cost-forecast",
+      title: "Get Cost Forecast",
       description: "Get cost forecast for your AWS account",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         timePeriod: z
           .object({
             start: z.string().describe("Start date in YYYY-MM-DD format"),
@@ -1148,6 +1410,26 @@ export function createCostTools(): Tool[] {
           .optional()
           .describe("Prediction interval level (50-99)"),
       }),
+      output: z.object({
+        total: z
+          .object({
+            amount: z.string().optional(),
+            unit: z.string().optional(),
+          })
+          .optional(),
+        forecastResultsByTime: z.array(
+          z.object({
+            timePeriod: z.object({
+              start: z.string().optional(),
+              end: z.string().optional(),
+            }),
+            meanValue: z.string().optional(),
+            predictionIntervalLowerBound: z.string().optional(),
+            predictionIntervalUpperBound: z.string().optional(),
+          }),
+        ),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const command = new GetCostForecastCommand({
@@ -1215,14 +1497,16 @@ export function createCostTools(): Tool[] {
 
     tool({
       name: "aws_cost_get-tags",
+      title: "Get Cost Explorer Tags",
       description:
         "Get available tag keys and tag values for a specified period",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         timePeriod: z
           .object({
             start: z.string().describe("Start date in YYYY-MM-DD format"),
@@ -1330,6 +1614,13 @@ export function createCostTools(): Tool[] {
           .optional()
           .describe("Pagination token for next page of results"),
       }),
+      output: z.object({
+        tags: z.array(z.string()),
+        count: z.number(),
+        returnSize: z.number().optional(),
+        totalSize: z.number().optional(),
+        nextPageToken: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetTagsCommand({
@@ -1388,14 +1679,16 @@ export function createCostTools(): Tool[] {
 
     tool({
       name: "aws_cost_get-savings-plans-utilization",
+      title: "Get Savings Plans Utilization",
       description:
         "Get Savings Plans utilization for your account across date ranges",
+      annotations: READ_ONLY_ANNOTATIONS,
+      costly: true,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         timePeriod: z
           .object({
             start: z.string().describe("Start date in YYYY-MM-DD format"),
@@ -1463,6 +1756,63 @@ export function createCostTools(): Tool[] {
           .optional()
           .describe("Sort order for results"),
       }),
+      output: z.object({
+        savingsPlansUtilizationsByTime: z.array(
+          z.object({
+            timePeriod: z.object({
+              start: z.string().optional(),
+              end: z.string().optional(),
+            }),
+            utilization: z
+              .object({
+                totalCommitment: z.string().optional(),
+                usedCommitment: z.string().optional(),
+                unusedCommitment: z.string().optional(),
+                utilizationPercentage: z.string().optional(),
+              })
+              .optional(),
+            savings: z
+              .object({
+                netSavings: z.string().optional(),
+                onDemandCostEquivalent: z.string().optional(),
+              })
+              .optional(),
+            amortizedCommitment: z
+              .object({
+                amortizedRecurringCommitment: z.string().optional(),
+                amortizedUpfrontCommitment: z.string().optional(),
+                totalAmortizedCommitment: z.string().optional(),
+              })
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+        total: z
+          .object({
+            utilization: z
+              .object({
+                totalCommitment: z.string().optional(),
+                usedCommitment: z.string().optional(),
+                unusedCommitment: z.string().optional(),
+                utilizationPercentage: z.string().optional(),
+              })
+              .optional(),
+            savings: z
+              .object({
+                netSavings: z.string().optional(),
+                onDemandCostEquivalent: z.string().optional(),
+              })
+              .optional(),
+            amortizedCommitment: z
+              .object({
+                amortizedRecurringCommitment: z.string().optional(),
+                amortizedUpfrontCommitment: z.string().optional(),
+                totalAmortizedCommitment: z.string().optional(),
+              })
+              .optional(),
+          })
+          .optional(),
+      }),
       async run(args) {
         try {
           const command = new GetSavingsPlansUtilizationCommand({
@@ -1,7 +1,6 @@
 import {
   DescribeImagesCommand,
   DescribeInstancesCommand,
-  DescribeInstanceStatusCommand,
   DescribeKeyPairsCommand,
   DescribeNetworkInterfacesCommand,
   DescribeSecurityGroupsCommand,
@@ -10,133 +9,325 @@ import {
   DescribeVolumesCommand,
   DescribeVpcsCommand,
   EC2Client,
+  paginateDescribeImages,
+  paginateDescribeInstances,
+  paginateDescribeInstanceStatus,
+  paginateDescribeNetworkInterfaces,
+  paginateDescribeSecurityGroups,
+  paginateDescribeSnapshots,
+  paginateDescribeSubnets,
+  paginateDescribeVolumes,
+  paginateDescribeVpcs,
 } from "@aws-sdk/client-ec2"
 import { z } from "zod"
 
+import { getAwsClient } from "~/utils/aws-client"
 import {
-  AWS_REGIONS,
+  awsRegion,
   type AwsRegion,
-  DEFAULT_AWS_REGION,
+  getDefaultAwsRegion,
 } from "~/utils/aws-region"
-import { type Tool, tool } from "~/utils/tool"
+import { multiRegion } from "~/utils/multi-region"
+import { paginate, paginatedOutput, paginationArgs } from "~/utils/pagination"
+import { READ_ONLY_ANNOTATIONS, type Tool, tool } from "~/utils/tool"
 import { ToolError } from "~/utils/tool-error"
 
 export function createEC2Tools(): Tool[] {
-  const getEC2Client = (region: AwsRegion = DEFAULT_AWS_REGION) => {
-    return new EC2Client({ region })
+  const getEC2Client = (region: AwsRegion = getDefaultAwsRegion()) => {
+    return getAwsClient(EC2Client, { service: "ec2", region })
   }
 
   return [
     // ===== EC2 INSTANCES =====
-    tool({
-      name: "aws_ec2_list_instances",
-      description: "List EC2 instances with optional filtering and pagination",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        filters: z
-          .array(
-            z.object({
-              name: z
-                .string()
-                .describe("Filter name (e.g., instance-state-name)"),
-              values: z.array(z.string()).describe("Filter values"),
-            }),
-          )
-          .optional()
-          .describe(
-            "Filters to apply (e.g., [{name: 'instance-state-name', values: ['running']}])",
-          ),
-        instanceIds: z
-          .array(z.string())
-          .optional()
-          .describe("Specific instance IDs to describe"),
-        maxResults: z
-          .number()
-          .min(5)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of results to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeInstancesCommand({
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-            InstanceIds: args.instanceIds,
-            MaxResults: args.maxResults,
-            NextToken: args.nextToken,
-          })
-
-          const response = await getEC2Client(args.region).send(command)
-
-          const instances =
-            response.Reservations?.flatMap(
-              (reservation) =>
-                reservation.Instances?.map((instance) => ({
-                  instanceId: instance.InstanceId,
-                  instanceType: instance.InstanceType,
-                  state: instance.State
-                    ? {
-                        code: instance.State.Code,
-                        name: instance.State.Name,
-                      }
-                    : undefined,
-                  availabilityZone: instance.Placement?.AvailabilityZone,
-                  launchTime: instance.LaunchTime?.toISOString(),
-                  platform: instance.Platform,
-                  platformDetails: instance.PlatformDetails,
-                  privateIpAddress: instance.PrivateIpAddress,
-                  publicIpAddress: instance.PublicIpAddress,
-                  privateDnsName: instance.PrivateDnsName,
-                  publicDnsName: instance.PublicDnsName,
-                  vpcId: instance.VpcId,
-                  subnetId: instance.SubnetId,
-                  architecture: instance.Architecture,
-                  imageId: instance.ImageId,
-                  keyName: instance.KeyName,
-                  tags: instance.Tags?.map((tag) => ({
-                    key: tag.Key,
-                    value: tag.Value,
-                  })),
-                })) || [],
-            ) || []
-
-          return {
-            instances,
-            count: instances.length,
-            nextToken: response.NextToken,
+    multiRegion(
+      tool({
+        name: "aws_ec2_list_instances",
+        title: "List EC2 Instances",
+        description:
+          "List EC2 instances with optional filtering and pagination",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          filters: z
+            .array(
+              z.object({
+                name: z
+                  .string()
+                  .describe("Filter name (e.g., instance-state-name)"),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe(
+              "Filters to apply (e.g., [{name: 'instance-state-name', values: ['running']}])",
+            ),
+          instanceIds: z
+            .array(z.string())
+            .optional()
+            .describe("Specific instance IDs to describe"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            instanceId: z.string().optional(),
+            instanceType: z.string().optional(),
+            state: z
+              .object({
+                code: z.number().optional(),
+                name: z.string().optional(),
+              })
+              .optional(),
+            availabilityZone: z.string().optional(),
+            launchTime: z.string().optional(),
+            platform: z.string().optional(),
+            platformDetails: z.string().optional(),
+            privateIpAddress: z.string().optional(),
+            publicIpAddress: z.string().optional(),
+            privateDnsName: z.string().optional(),
+            publicDnsName: z.string().optional(),
+            vpcId: z.string().optional(),
+            subnetId: z.string().optional(),
+            architecture: z.string().optional(),
+            imageId: z.string().optional(),
+            keyName: z.string().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeInstances(
+                  { client: getEC2Client(args.region), ...config },
+                  {
+                    Filters: args.filters?.map((f) => ({
+                      Name: f.name,
+                      Values: f.values,
+                    })),
+                    InstanceIds: args.instanceIds,
+                  },
+                ),
+              items: (page) =>
+                page.Reservations?.flatMap(
+                  (reservation) =>
+                    reservation.Instances?.map((instance) => ({
+                      instanceId: instance.InstanceId,
+                      instanceType: instance.InstanceType,
+                      state: instance.State
+                        ? {
+                            code: instance.State.Code,
+                            name: instance.State.Name,
+                          }
+                        : undefined,
+                      availabilityZone: instance.Placement?.AvailabilityZone,
+                      launchTime: instance.LaunchTime?.toISOString(),
+                      platform: instance.Platform,
+                      platformDetails: instance.PlatformDetails,
+                      privateIpAddress: instance.PrivateIpAddress,
+                      publicIpAddress: instance.PublicIpAddress,
+                      privateDnsName: instance.PrivateDnsName,
+                      publicDnsName: instance.PublicDnsName,
+                      vpcId: instance.VpcId,
+                      subnetId: instance.SubnetId,
+                      architecture: instance.Architecture,
+                      imageId: instance.ImageId,
+                      keyName: instance.KeyName,
+                      tags: instance.Tags?.map((tag) => ({
+                        key: tag.Key,
+                        value: tag.Value,
+                      })),
+                    })) || [],
+                ) || [],
+              nextToken: (page) => page.NextToken,
+              // Page size cannot be combined with IDs
+              pageSize: args.instanceIds ? undefined : { min: 5, max: 1000 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ec2_list_instances",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ec2_list_instances",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_ec2_describe_instances",
+      title: "Describe EC2 Instances",
       description: "Get detailed information about specific EC2 instances",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         instanceIds: z
           .array(z.string())
           .min(1)
           .describe("Instance IDs to describe"),
       }),
+      output: z.object({
+        instances: z.array(
+          z.object({
+            instanceId: z.string().optional(),
+            instanceType: z.string().optional(),
+            state: z
+              .object({
+                code: z.number().optional(),
+                name: z.string().optional(),
+              })
+              .optional(),
+            placement: z
+              .object({
+                availabilityZone: z.string().optional(),
+                groupName: z.string().optional(),
+                tenancy: z.string().optional(),
+                hostId: z.string().optional(),
+                affinity: z.string().optional(),
+                partitionNumber: z.number().optional(),
+              })
+              .optional(),
+            launchTime: z.string().optional(),
+            platform: z.string().optional(),
+            platformDetails: z.string().optional(),
+            monitoring: z.string().optional(),
+            privateIpAddress: z.string().optional(),
+            publicIpAddress: z.string().optional(),
+            privateDnsName: z.string().optional(),
+            publicDnsName: z.string().optional(),
+            stateTransitionReason: z.string().optional(),
+            architecture: z.string().optional(),
+            blockDeviceMappings: z
+              .array(
+                z.object({
+                  deviceName: z.string().optional(),
+                  ebs: z
+                    .object({
+                      attachTime: z.string().optional(),
+                      deleteOnTermination: z.boolean().optional(),
+                      status: z.string().optional(),
+                      volumeId: z.string().optional(),
+                    })
+                    .optional(),
+                }),
+              )
+              .optional(),
+            clientToken: z.string().optional(),
+            ebsOptimized: z.boolean().optional(),
+            enaSupport: z.boolean().optional(),
+            hypervisor: z.string().optional(),
+            iamInstanceProfile: z
+              .object({
+                arn: z.string().optional(),
+                id: z.string().optional(),
+              })
+              .optional(),
+            imageId: z.string().optional(),
+            keyName: z.string().optional(),
+            networkInterfaces: z
+              .array(
+                z.object({
+                  association: z
+                    .object({
+                      carrierIp: z.string().optional(),
+                      ipOwnerId: z.string().optional(),
+                      publicDnsName: z.string().optional(),
+                      publicIp: z.string().optional(),
+                    })
+                    .optional(),
+                  attachment: z
+                    .object({
+                      attachTime: z.string().optional(),
+                      attachmentId: z.string().optional(),
+                      deleteOnTermination: z.boolean().optional(),
+                      deviceIndex: z.number().optional(),
+                      status: z.string().optional(),
+                      networkCardIndex: z.number().optional(),
+                    })
+                    .optional(),
+                  description: z.string().optional(),
+                  groups: z
+                    .array(
+                      z.object({
+                        groupName: z.string().optional(),
+                        groupId: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                  macAddress: z.string().optional(),
+                  networkInterfaceId: z.string().optional(),
+                  ownerId: z.string().optional(),
+                  privateDnsName: z.string().optional(),
+                  privateIpAddress: z.string().optional(),
+                  sourceDestCheck: z.boolean().optional(),
+                  status: z.string().optional(),
+                  subnetId: z.string().optional(),
+                  vpcId: z.string().optional(),
+                }),
+              )
+              .optional(),
+            rootDeviceName: z.string().optional(),
+            rootDeviceType: z.string().optional(),
+            securityGroups: z
+              .array(
+                z.object({
+                  groupName: z.string().optional(),
+                  groupId: z.string().optional(),
+                }),
+              )
+              .optional(),
+            sourceDestCheck: z.boolean().optional(),
+            stateReason: z
+              .object({
+                code: z.string().optional(),
+                message: z.string().optional(),
+              })
+              .optional(),
+            subnetId: z.string().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+            virtualizationType: z.string().optional(),
+            vpcId: z.string().optional(),
+            cpuOptions: z
+              .object({
+                coreCount: z.number().optional(),
+                threadsPerCore: z.number().optional(),
+              })
+              .optional(),
+            capacityReservationId: z.string().optional(),
+            hibernationOptions: z.boolean().optional(),
+            metadataOptions: z
+              .object({
+                state: z.string().optional(),
+                httpTokens: z.string().optional(),
+                httpPutResponseHopLimit: z.number().optional(),
+                httpEndpoint: z.string().optional(),
+              })
+              .optional(),
+            enclaveOptions: z.boolean().optional(),
+            bootMode: z.string().optional(),
+          }),
+        ),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const command = new DescribeInstancesCommand({
@@ -296,14 +487,15 @@ export function createEC2Tools(): Tool[] {
 
     tool({
       name: "aws_ec2_get_instance_status",
+      title: "Get EC2 Instance Status",
       description:
         "Get status checks and system health information for EC2 instances",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         instanceIds: z
           .array(z.string())
           .optional()
@@ -317,79 +509,124 @@ export function createEC2Tools(): Tool[] {
           )
           .optional()
           .describe("Filters to apply"),
-        maxResults: z
-          .number()
-          .min(5)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of results"),
-        nextToken: z.string().optional().describe("Pagination token"),
         includeAllInstances: z
           .boolean()
           .optional()
           .describe("Include all instances regardless of state"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          instanceId: z.string().optional(),
+          availabilityZone: z.string().optional(),
+          instanceState: z
+            .object({
+              code: z.number().optional(),
+              name: z.string().optional(),
+            })
+            .optional(),
+          systemStatus: z
+            .object({
+              status: z.string().optional(),
+              details: z
+                .array(
+                  z.object({
+                    name: z.string().optional(),
+                    status: z.string().optional(),
+                    impairedSince: z.string().optional(),
+                  }),
+                )
+                .optional(),
+            })
+            .optional(),
+          instanceStatus: z
+            .object({
+              status: z.string().optional(),
+              details: z
+                .array(
+                  z.object({
+                    name: z.string().optional(),
+                    status: z.string().optional(),
+                    impairedSince: z.string().optional(),
+                  }),
+                )
+                .optional(),
+            })
+            .optional(),
+          events: z
+            .array(
+              z.object({
+                instanceEventId: z.string().optional(),
+                code: z.string().optional(),
+                description: z.string().optional(),
+                notBefore: z.string().optional(),
+                notAfter: z.string().optional(),
+                notBeforeDeadline: z.string().optional(),
+              }),
+            )
+            .optional(),
+          outpostArn: z.string().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new DescribeInstanceStatusCommand({
-            InstanceIds: args.instanceIds,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-            MaxResults: args.maxResults,
-            NextToken: args.nextToken,
-            IncludeAllInstances: args.includeAllInstances,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateDescribeInstanceStatus(
+                { client: getEC2Client(args.region), ...config },
+                {
+                  InstanceIds: args.instanceIds,
+                  Filters: args.filters?.map((f) => ({
+                    Name: f.name,
+                    Values: f.values,
+                  })),
+                  IncludeAllInstances: args.includeAllInstances,
+                },
+              ),
+            items: (page) =>
+              page.InstanceStatuses?.map((status) => ({
+                instanceId: status.InstanceId,
+                availabilityZone: status.AvailabilityZone,
+                instanceState: status.InstanceState
+                  ? {
+                      code: status.InstanceState.Code,
+                      name: status.InstanceState.Name,
+                    }
+                  : undefined,
+                systemStatus: status.SystemStatus
+                  ? {
+                      status: status.SystemStatus.Status,
+                      details: status.SystemStatus.Details?.map((detail) => ({
+                        name: detail.Name,
+                        status: detail.Status,
+                        impairedSince: detail.ImpairedSince?.toISOString(),
+                      })),
+                    }
+                  : undefined,
+                instanceStatus: status.InstanceStatus
+                  ? {
+                      status: status.InstanceStatus.Status,
+                      details: status.InstanceStatus.Details?.map((detail) => ({
+                        name: detail.Name,
+                        status: detail.Status,
+                        impairedSince: detail.ImpairedSince?.toISOString(),
+                      })),
+                    }
+                  : undefined,
+                events: status.Events?.map((event) => ({
+                  instanceEventId: event.InstanceEventId,
+                  code: event.Code,
+                  description: event.Description,
+                  notBefore: event.NotBefore?.toISOString(),
+                  notAfter: event.NotAfter?.toISOString(),
+                  notBeforeDeadline: event.NotBeforeDeadline?.toISOString(),
+                })),
+                outpostArn: status.OutpostArn,
+              })) || [],
+            nextToken: (page) => page.NextToken,
+            // Page size cannot be combined with IDs
+            pageSize: args.instanceIds ? undefined : { min: 5, max: 1000 },
           })
-
-          const response = await getEC2Client(args.region).send(command)
-
-          const instanceStatuses =
-            response.InstanceStatuses?.map((status) => ({
-              instanceId: status.InstanceId,
-              availabilityZone: status.AvailabilityZone,
-              instanceState: status.InstanceState
-                ? {
-                    code: status.InstanceState.Code,
-                    name: status.InstanceState.Name,
-                  }
-                : undefined,
-              systemStatus: status.SystemStatus
-                ? {
-                    status: status.SystemStatus.Status,
-                    details: status.SystemStatus.Details?.map((detail) => ({
-                      name: detail.Name,
-                      status: detail.Status,
-                      impairedSince: detail.ImpairedSince?.toISOString(),
-                    })),
-                  }
-                : undefined,
-              instanceStatus: status.InstanceStatus
-                ? {
-                    status: status.InstanceStatus.Status,
-                    details: status.InstanceStatus.Details?.map((detail) => ({
-                      name: detail.Name,
-                      status: detail.Status,
-                      impairedSince: detail.ImpairedSince?.toISOString(),
-                    })),
-                  }
-                : undefined,
-              events: status.Events?.map((event) => ({
-                instanceEventId: event.InstanceEventId,
-                code: event.Code,
-                description: event.Description,
-                notBefore: event.NotBefore?.toISOString(),
-                notAfter: event.NotAfter?.toISOString(),
-                notBeforeDeadline: event.NotBeforeDeadline?.toISOString(),
-              })),
-              outpostArn: status.OutpostArn,
-            })) || []
-
-          return {
-            instanceStatuses,
-            count: instanceStatuses.length,
-            nextToken: response.NextToken,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -401,111 +638,184 @@ export function createEC2Tools(): Tool[] {
     }),
 
     // ===== EBS VOLUMES (PRIORITY) =====
-    tool({
-      name: "aws_ec2_list_volumes",
-      description: "List EBS volumes with filtering and pagination",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        volumeIds: z
-          .array(z.string())
-          .optional()
-          .describe("Specific volume IDs to list"),
-        filters: z
-          .array(
-            z.object({
-              name: z
-                .string()
-                .describe(
-                  "Filter name (e.g., volume-type, status, attachment.status)",
+    multiRegion(
+      tool({
+        name: "aws_ec2_list_volumes",
+        title: "List EC2 Volumes",
+        description: "List EBS volumes with filtering and pagination",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          volumeIds: z
+            .array(z.string())
+            .optional()
+            .describe("Specific volume IDs to list"),
+          filters: z
+            .array(
+              z.object({
+                name: z
+                  .string()
+                  .describe(
+                    "Filter name (e.g., volume-type, status, attachment.status)",
+                  ),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe("Filters to apply"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            volumeId: z.string().optional(),
+            size: z.number().optional(),
+            volumeType: z.string().optional(),
+            state: z.string().optional(),
+            availabilityZone: z.string().optional(),
+            createTime: z.string().optional(),
+            attachments: z
+              .array(
+                z.object({
+                  attachTime: z.string().optional(),
+                  device: z.string().optional(),
+                  instanceId: z.string().optional(),
+                  state: z.string().optional(),
+                  volumeId: z.string().optional(),
+                  deleteOnTermination: z.boolean().optional(),
+                }),
+              )
+              .optional(),
+            iops: z.number().optional(),
+            throughput: z.number().optional(),
+            encrypted: z.boolean().optional(),
+            kmsKeyId: z.string().optional(),
+            snapshotId: z.string().optional(),
+            multiAttachEnabled: z.boolean().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeVolumes(
+                  { client: getEC2Client(args.region), ...config },
+                  {
+                    VolumeIds: args.volumeIds,
+                    Filters: args.filters?.map((f) => ({
+                      Name: f.name,
+                      Values: f.values,
+                    })),
+                  },
                 ),
-              values: z.array(z.string()).describe("Filter values"),
-            }),
-          )
-          .optional()
-          .describe("Filters to apply"),
-        maxResults: z
-          .number()
-          .min(5)
-          .max(500)
-          .optional()
-          .describe("Maximum number of results"),
-        nextToken: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeVolumesCommand({
-            VolumeIds: args.volumeIds,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-            MaxResults: args.maxResults,
-            NextToken: args.nextToken,
-          })
-
-          const response = await getEC2Client(args.region).send(command)
-
-          const volumes =
-            response.Volumes?.map((volume) => ({
-              volumeId: volume.VolumeId,
-              size: volume.Size,
-              volumeType: volume.VolumeType,
-              state: volume.State,
-              availabilityZone: volume.AvailabilityZone,
-              createTime: volume.CreateTime?.toISOString(),
-              attachments: volume.Attachments?.map((attachment) => ({
-                attachTime: attachment.AttachTime?.toISOString(),
-                device: attachment.Device,
-                instanceId: attachment.InstanceId,
-                state: attachment.State,
-                volumeId: attachment.VolumeId,
-                deleteOnTermination: attachment.DeleteOnTermination,
-              })),
-              iops: volume.Iops,
-              throughput: volume.Throughput,
-              encrypted: volume.Encrypted,
-              kmsKeyId: volume.KmsKeyId,
-              snapshotId: volume.SnapshotId,
-              multiAttachEnabled: volume.MultiAttachEnabled,
-              tags: volume.Tags?.map((tag) => ({
-                key: tag.Key,
-                value: tag.Value,
-              })),
-            })) || []
-
-          return {
-            volumes,
-            count: volumes.length,
-            nextToken: response.NextToken,
+              items: (page) =>
+                page.Volumes?.map((volume) => ({
+                  volumeId: volume.VolumeId,
+                  size: volume.Size,
+                  volumeType: volume.VolumeType,
+                  state: volume.State,
+                  availabilityZone: volume.AvailabilityZone,
+                  createTime: volume.CreateTime?.toISOString(),
+                  attachments: volume.Attachments?.map((attachment) => ({
+                    attachTime: attachment.AttachTime?.toISOString(),
+                    device: attachment.Device,
+                    instanceId: attachment.InstanceId,
+                    state: attachment.State,
+                    volumeId: attachment.VolumeId,
+                    deleteOnTermination: attachment.DeleteOnTermination,
+                  })),
+                  iops: volume.Iops,
+                  throughput: volume.Throughput,
+                  encrypted: volume.Encrypted,
+                  kmsKeyId: volume.KmsKeyId,
+                  snapshotId: volume.SnapshotId,
+                  multiAttachEnabled: volume.MultiAttachEnabled,
+                  tags: volume.Tags?.map((tag) => ({
+                    key: tag.Key,
+                    value: tag.Value,
+                  })),
+                })) || [],
+              nextToken: (page) => page.NextToken,
+              // Page size cannot be combined with IDs
+              pageSize: args.volumeIds ? undefined : { min: 5, max: 500 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ec2_list_volumes",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ec2_list_volumes",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_ec2_describe_volumes",
+      title: "Describe EC2 Volumes",
       description: "Get detailed information about specific EBS volumes",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         volumeIds: z
           .array(z.string())
           .min(1)
           .describe("Volume IDs to describe"),
       }),
+      output: z.object({
+        volumes: z.array(
+          z.object({
+            volumeId: z.string().optional(),
+            size: z.number().optional(),
+            volumeType: z.string().optional(),
+            state: z.string().optional(),
+            availabilityZone: z.string().optional(),
+            createTime: z.string().optional(),
+            attachments: z
+              .array(
+                z.object({
+                  attachTime: z.string().optional(),
+                  device: z.string().optional(),
+                  instanceId: z.string().optional(),
+                  state: z.string().optional(),
+                  volumeId: z.string().optional(),
+                  deleteOnTermination: z.boolean().optional(),
+                }),
+              )
+              .optional(),
+            iops: z.number().optional(),
+            throughput: z.number().optional(),
+            encrypted: z.boolean().optional(),
+            kmsKeyId: z.string().optional(),
+            snapshotId: z.string().optional(),
+            outpostArn: z.string().optional(),
+            multiAttachEnabled: z.boolean().optional(),
+            fastRestored: z.boolean().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const command = new DescribeVolumesCommand({
@@ -558,58 +868,172 @@ export function createEC2Tools(): Tool[] {
       },
     }),
 
+    multiRegion(
+      tool({
+        name: "aws_ec2_list_snapshots",
+        title: "List EC2 Snapshots",
+        description: "List EBS snapshots with filtering",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          snapshotIds: z
+            .array(z.string())
+            .optional()
+            .describe("Specific snapshot IDs to list"),
+          ownerIds: z
+            .array(z.string())
+            .optional()
+            .describe("Owner IDs to filter by (use 'self' for your snapshots)"),
+          restorableByUserIds: z
+            .array(z.string())
+            .optional()
+            .describe("User IDs that can restore the snapshots"),
+          filters: z
+            .array(
+              z.object({
+                name: z
+                  .string()
+                  .describe("Filter name (e.g., volume-id, status, tag-key)"),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe("Filters to apply"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            snapshotId: z.string().optional(),
+            volumeId: z.string().optional(),
+            state: z.string().optional(),
+            stateMessage: z.string().optional(),
+            startTime: z.string().optional(),
+            progress: z.string().optional(),
+            ownerId: z.string().optional(),
+            description: z.string().optional(),
+            volumeSize: z.number().optional(),
+            encrypted: z.boolean().optional(),
+            kmsKeyId: z.string().optional(),
+            dataEncryptionKeyId: z.string().optional(),
+            ownerAlias: z.string().optional(),
+            outpostArn: z.string().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+            storageTier: z.string().optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeSnapshots(
+                  { client: getEC2Client(args.region), ...config },
+                  {
+                    SnapshotIds: args.snapshotIds,
+                    OwnerIds: args.ownerIds,
+                    RestorableByUserIds: args.restorableByUserIds,
+                    Filters: args.filters?.map((f) => ({
+                      Name: f.name,
+                      Values: f.values,
+                    })),
+                  },
+                ),
+              items: (page) =>
+                page.Snapshots?.map((snapshot) => ({
+                  snapshotId: snapshot.SnapshotId,
+                  volumeId: snapshot.VolumeId,
+                  state: snapshot.State,
+                  stateMessage: snapshot.StateMessage,
+                  startTime: snapshot.StartTime?.toISOString(),
+                  progress: snapshot.Progress,
+                  ownerId: snapshot.OwnerId,
+                  description: snapshot.Description,
+                  volumeSize: snapshot.VolumeSize,
+                  encrypted: snapshot.Encrypted,
+                  kmsKeyId: snapshot.KmsKeyId,
+                  dataEncryptionKeyId: snapshot.DataEncryptionKeyId,
+                  ownerAlias: snapshot.OwnerAlias,
+                  outpostArn: snapshot.OutpostArn,
+                  tags: snapshot.Tags?.map((tag) => ({
+                    key: tag.Key,
+                    value: tag.Value,
+                  })),
+                  storageTier: snapshot.StorageTier,
+                })) || [],
+              nextToken: (page) => page.NextToken,
+              // Page size cannot be combined with IDs
+              pageSize: args.snapshotIds ? undefined : { min: 5, max: 1000 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ec2_list_snapshots",
+              toolArgs: args,
+            })
+          }
+        },
+      }),
+    ),
+
     tool({
-      name: "aws_ec2_list_snapshots",
-      description: "List EBS snapshots with filtering",
+      name: "aws_ec2_describe_snapshots",
+      title: "Describe EC2 Snapshots",
+      description: "Get detailed information about specific EBS snapshots",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         snapshotIds: z
           .array(z.string())
-          .optional()
-          .describe("Specific snapshot IDs to list"),
-        ownerIds: z
-          .array(z.string())
-          .optional()
-          .describe("Owner IDs to filter by (use 'self' for your snapshots)"),
-        restorableByUserIds: z
-          .array(z.string())
-          .optional()
-          .describe("User IDs that can restore the snapshots"),
-        filters: z
-          .array(
-            z.object({
-              name: z
-                .string()
-                .describe("Filter name (e.g., volume-id, status, tag-key)"),
-              values: z.array(z.string()).describe("Filter values"),
-            }),
-          )
-          .optional()
-          .describe("Filters to apply"),
-        maxResults: z
-          .number()
-          .min(5)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of results"),
-        nextToken: z.string().optional().describe("Pagination token"),
+          .min(1)
+          .describe("Snapshot IDs to describe"),
+      }),
+      output: z.object({
+        snapshots: z.array(
+          z.object({
+            snapshotId: z.string().optional(),
+            volumeId: z.string().optional(),
+            state: z.string().optional(),
+            stateMessage: z.string().optional(),
+            startTime: z.string().optional(),
+            progress: z.string().optional(),
+            ownerId: z.string().optional(),
+            description: z.string().optional(),
+            volumeSize: z.number().optional(),
+            encrypted: z.boolean().optional(),
+            kmsKeyId: z.string().optional(),
+            dataEncryptionKeyId: z.string().optional(),
+            ownerAlias: z.string().optional(),
+            outpostArn: z.string().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+            storageTier: z.string().optional(),
+            restoreExpiryTime: z.string().optional(),
+          }),
+        ),
+        count: z.number(),
       }),
       async run(args) {
         try {
           const command = new DescribeSnapshotsCommand({
             SnapshotIds: args.snapshotIds,
-            OwnerIds: args.ownerIds,
-            RestorableByUserIds: args.restorableByUserIds,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-            MaxResults: args.maxResults,
-            NextToken: args.nextToken,
           })
 
           const response = await getEC2Client(args.region).send(command)
@@ -635,182 +1059,243 @@ export function createEC2Tools(): Tool[] {
                 value: tag.Value,
               })),
               storageTier: snapshot.StorageTier,
+              restoreExpiryTime: snapshot.RestoreExpiryTime?.toISOString(),
             })) || []
 
           return {
             snapshots,
             count: snapshots.length,
-            nextToken: response.NextToken,
           }
         } catch (error) {
           throw new ToolError({
             error,
-            toolName: "aws_ec2_list_snapshots",
+            toolName: "aws_ec2_describe_snapshots",
             toolArgs: args,
           })
         }
       },
     }),
 
+    // ===== SECURITY GROUPS =====
+    multiRegion(
+      tool({
+        name: "aws_ec2_list_security_groups",
+        title: "List EC2 Security Groups",
+        description: "List EC2 security groups with filtering",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          groupIds: z
+            .array(z.string())
+            .optional()
+            .describe("Specific security group IDs to list"),
+          groupNames: z
+            .array(z.string())
+            .optional()
+            .describe("Specific security group names to list"),
+          filters: z
+            .array(
+              z.object({
+                name: z
+                  .string()
+                  .describe("Filter name (e.g., vpc-id, group-name, tag-key)"),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe("Filters to apply"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            groupId: z.string().optional(),
+            groupName: z.string().optional(),
+            description: z.string().optional(),
+            vpcId: z.string().optional(),
+            ownerId: z.string().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeSecurityGroups(
+                  { client: getEC2Client(args.region), ...config },
+                  {
+                    GroupIds: args.groupIds,
+                    GroupNames: args.groupNames,
+                    Filters: args.filters?.map((f) => ({
+                      Name: f.name,
+                      Values: f.values,
+                    })),
+                  },
+                ),
+              items: (page) =>
+                page.SecurityGroups?.map((sg) => ({
+                  groupId: sg.GroupId,
+                  groupName: sg.GroupName,
+                  description: sg.Description,
+                  vpcId: sg.VpcId,
+                  ownerId: sg.OwnerId,
+                  tags: sg.Tags?.map((tag) => ({
+                    key: tag.Key,
+                    value: tag.Value,
+                  })),
+                })) || [],
+              nextToken: (page) => page.NextToken,
+              // Page size cannot be combined with IDs
+              pageSize: args.groupIds ? undefined : { min: 5, max: 1000 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ec2_list_security_groups",
+              toolArgs: args,
+            })
+          }
+        },
+      }),
+    ),
+
     tool({
-      name: "aws_ec2_describe_snapshots",
-      description: "Get detailed information about specific EBS snapshots",
+      name: "aws_ec2_describe_security_groups",
+      title: "Describe EC2 Security Groups",
+      description:
+        "Get detailed information about security groups including ingress and egress rules",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
-        snapshotIds: z
+          .default(getDefaultAwsRegion),
+        groupIds: z
           .array(z.string())
           .min(1)
-          .describe("Snapshot IDs to describe"),
+          .describe("Security group IDs to describe"),
+      }),
+      output: z.object({
+        securityGroups: z.array(
+          z.object({
+            groupId: z.string().optional(),
+            groupName: z.string().optional(),
+            description: z.string().optional(),
+            vpcId: z.string().optional(),
+            ownerId: z.string().optional(),
+            ingressRules: z
+              .array(
+                z.object({
+                  ipProtocol: z.string().optional(),
+                  fromPort: z.number().optional(),
+                  toPort: z.number().optional(),
+                  ipRanges: z
+                    .array(
+                      z.object({
+                        cidrIp: z.string().optional(),
+                        description: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                  ipv6Ranges: z
+                    .array(
+                      z.object({
+                        cidrIpv6: z.string().optional(),
+                        description: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                  prefixListIds: z
+                    .array(
+                      z.object({
+                        prefixListId: z.string().optional(),
+                        description: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                  userIdGroupPairs: z
+                    .array(
+                      z.object({
+                        groupId: z.string().optional(),
+                        groupName: z.string().optional(),
+                        userId: z.string().optional(),
+                        vpcId: z.string().optional(),
+                        description: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                }),
+              )
+              .optional(),
+            egressRules: z
+              .array(
+                z.object({
+                  ipProtocol: z.string().optional(),
+                  fromPort: z.number().optional(),
+                  toPort: z.number().optional(),
+                  ipRanges: z
+                    .array(
+                      z.object({
+                        cidrIp: z.string().optional(),
+                        description: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                  ipv6Ranges: z
+                    .array(
+                      z.object({
+                        cidrIpv6: z.string().optional(),
+                        description: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                  prefixListIds: z
+                    .array(
+                      z.object({
+                        prefixListId: z.string().optional(),
+                        description: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                  userIdGroupPairs: z
+                    .array(
+                      z.object({
+                        groupId: z.string().optional(),
+                        groupName: z.string().optional(),
+                        userId: z.string().optional(),
+                        vpcId: z.string().optional(),
+                        description: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                }),
+              )
+              .optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
       }),
       async run(args) {
         try {
-          const command = new DescribeSnapshotsCommand({
-            SnapshotIds: args.snapshotIds,
-          })
-
-          const response = await getEC2Client(args.region).send(command)
-
-          const snapshots =
-            response.Snapshots?.map((snapshot) => ({
-              snapshotId: snapshot.SnapshotId,
-              volumeId: snapshot.VolumeId,
-              state: snapshot.State,
-              stateMessage: snapshot.StateMessage,
-              startTime: snapshot.StartTime?.toISOString(),
-              progress: snapshot.Progress,
-              ownerId: snapshot.OwnerId,
-              description: snapshot.Description,
-              volumeSize: snapshot.VolumeSize,
-              encrypted: snapshot.Encrypted,
-              kmsKeyId: snapshot.KmsKeyId,
-              dataEncryptionKeyId: snapshot.DataEncryptionKeyId,
-              ownerAlias: snapshot.OwnerAlias,
-              outpostArn: snapshot.OutpostArn,
-              tags: snapshot.Tags?.map((tag) => ({
-                key: tag.Key,
-                value: tag.Value,
-              })),
-              storageTier: snapshot.StorageTier,
-              restoreExpiryTime: snapshot.RestoreExpiryTime?.toISOString(),
-            })) || []
-
-          return {
-            snapshots,
-            count: snapshots.length,
-          }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ec2_describe_snapshots",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
-
-    // ===== SECURITY GROUPS =====
-    tool({
-      name: "aws_ec2_list_security_groups",
-      description: "List EC2 security groups with filtering",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        groupIds: z
-          .array(z.string())
-          .optional()
-          .describe("Specific security group IDs to list"),
-        groupNames: z
-          .array(z.string())
-          .optional()
-          .describe("Specific security group names to list"),
-        filters: z
-          .array(
-            z.object({
-              name: z
-                .string()
-                .describe("Filter name (e.g., vpc-id, group-name, tag-key)"),
-              values: z.array(z.string()).describe("Filter values"),
-            }),
-          )
-          .optional()
-          .describe("Filters to apply"),
-        maxResults: z
-          .number()
-          .min(5)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of results"),
-        nextToken: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeSecurityGroupsCommand({
-            GroupIds: args.groupIds,
-            GroupNames: args.groupNames,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-            MaxResults: args.maxResults,
-            NextToken: args.nextToken,
-          })
-
-          const response = await getEC2Client(args.region).send(command)
-
-          const securityGroups =
-            response.SecurityGroups?.map((sg) => ({
-              groupId: sg.GroupId,
-              groupName: sg.GroupName,
-              description: sg.Description,
-              vpcId: sg.VpcId,
-              ownerId: sg.OwnerId,
-              tags: sg.Tags?.map((tag) => ({
-                key: tag.Key,
-                value: tag.Value,
-              })),
-            })) || []
-
-          return {
-            securityGroups,
-            count: securityGroups.length,
-            nextToken: response.NextToken,
-          }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ec2_list_security_groups",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
-
-    tool({
-      name: "aws_ec2_describe_security_groups",
-      description:
-        "Get detailed information about security groups including ingress and egress rules",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        groupIds: z
-          .array(z.string())
-          .min(1)
-          .describe("Security group IDs to describe"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeSecurityGroupsCommand({
-            GroupIds: args.groupIds,
+          const command = new DescribeSecurityGroupsCommand({
+            GroupIds: args.groupIds,
           })
 
           const response = await getEC2Client(args.region).send(command)
@@ -891,90 +1376,115 @@ export function createEC2Tools(): Tool[] {
     }),
 
     // ===== KEY PAIRS =====
-    tool({
-      name: "aws_ec2_list_key_pairs",
-      description: "List EC2 key pairs",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        keyNames: z
-          .array(z.string())
-          .optional()
-          .describe("Specific key pair names to list"),
-        keyPairIds: z
-          .array(z.string())
-          .optional()
-          .describe("Specific key pair IDs to list"),
-        filters: z
-          .array(
+    multiRegion(
+      tool({
+        name: "aws_ec2_list_key_pairs",
+        title: "List EC2 Key Pairs",
+        description: "List EC2 key pairs",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          keyNames: z
+            .array(z.string())
+            .optional()
+            .describe("Specific key pair names to list"),
+          keyPairIds: z
+            .array(z.string())
+            .optional()
+            .describe("Specific key pair IDs to list"),
+          filters: z
+            .array(
+              z.object({
+                name: z
+                  .string()
+                  .describe("Filter name (e.g., key-name, fingerprint)"),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe("Filters to apply"),
+          includePublicKey: z
+            .boolean()
+            .optional()
+            .describe("Include the public key material in the response"),
+        }),
+        output: z.object({
+          keyPairs: z.array(
             z.object({
-              name: z
-                .string()
-                .describe("Filter name (e.g., key-name, fingerprint)"),
-              values: z.array(z.string()).describe("Filter values"),
+              keyPairId: z.string().optional(),
+              keyName: z.string().optional(),
+              keyFingerprint: z.string().optional(),
+              keyType: z.string().optional(),
+              publicKey: z.string().optional(),
+              createTime: z.string().optional(),
+              tags: z
+                .array(
+                  z.object({
+                    key: z.string().optional(),
+                    value: z.string().optional(),
+                  }),
+                )
+                .optional(),
             }),
-          )
-          .optional()
-          .describe("Filters to apply"),
-        includePublicKey: z
-          .boolean()
-          .optional()
-          .describe("Include the public key material in the response"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeKeyPairsCommand({
-            KeyNames: args.keyNames,
-            KeyPairIds: args.keyPairIds,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-            IncludePublicKey: args.includePublicKey,
-          })
-
-          const response = await getEC2Client(args.region).send(command)
-
-          const keyPairs =
-            response.KeyPairs?.map((kp) => ({
-              keyPairId: kp.KeyPairId,
-              keyName: kp.KeyName,
-              keyFingerprint: kp.KeyFingerprint,
-              keyType: kp.KeyType,
-              publicKey: kp.PublicKey,
-              createTime: kp.CreateTime?.toISOString(),
-              tags: kp.Tags?.map((tag) => ({
-                key: tag.Key,
-                value: tag.Value,
+          ),
+          count: z.number(),
+        }),
+        async run(args) {
+          try {
+            const command = new DescribeKeyPairsCommand({
+              KeyNames: args.keyNames,
+              KeyPairIds: args.keyPairIds,
+              Filters: args.filters?.map((f) => ({
+                Name: f.name,
+                Values: f.values,
               })),
-            })) || []
-
-          return {
-            keyPairs,
-            count: keyPairs.length,
+              IncludePublicKey: args.includePublicKey,
+            })
+
+            const response = await getEC2Client(args.region).send(command)
+
+            const keyPairs =
+              response.KeyPairs?.map((kp) => ({
+                keyPairId: kp.KeyPairId,
+                keyName: kp.KeyName,
+                keyFingerprint: kp.KeyFingerprint,
+                keyType: kp.KeyType,
+                publicKey: kp.PublicKey,
+                createTime: kp.CreateTime?.toISOString(),
+                tags: kp.Tags?.map((tag) => ({
+                  key: tag.Key,
+                  value: tag.Value,
+                })),
+              })) || []
+
+            return {
+              keyPairs,
+              count: keyPairs.length,
+            }
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ec2_list_key_pairs",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ec2_list_key_pairs",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_ec2_describe_key_pair",
+      title: "Describe EC2 Key Pair",
       description: "Get detailed information about a specific key pair",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         keyName: z.string().optional().describe("Key pair name"),
         keyPairId: z.string().optional().describe("Key pair ID"),
         includePublicKey: z
@@ -982,6 +1492,22 @@ export function createEC2Tools(): Tool[] {
           .optional()
           .describe("Include the public key material in the response"),
       }),
+      output: z.object({
+        keyPairId: z.string().optional(),
+        keyName: z.string().optional(),
+        keyFingerprint: z.string().optional(),
+        keyType: z.string().optional(),
+        publicKey: z.string().optional(),
+        createTime: z.string().optional(),
+        tags: z
+          .array(
+            z.object({
+              key: z.string().optional(),
+              value: z.string().optional(),
+            }),
+          )
+          .optional(),
+      }),
       async run(args) {
         try {
           if (!args.keyName && !args.keyPairId) {
@@ -1025,116 +1551,218 @@ export function createEC2Tools(): Tool[] {
     }),
 
     // ===== AMIs/IMAGES =====
-    tool({
-      name: "aws_ec2_list_images",
-      description:
-        "List AMIs (Amazon Machine Images) with comprehensive filtering",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        imageIds: z
-          .array(z.string())
-          .optional()
-          .describe("Specific image IDs to list"),
-        owners: z
-          .array(z.string())
-          .optional()
-          .describe(
-            "Image owners (use 'self', 'amazon', 'aws-marketplace', or AWS account IDs)",
-          ),
-        executableUsers: z
-          .array(z.string())
-          .optional()
-          .describe("Users with explicit launch permissions"),
-        filters: z
-          .array(
-            z.object({
-              name: z
-                .string()
-                .describe(
-                  "Filter name (e.g., architecture, image-type, state, name)",
+    multiRegion(
+      tool({
+        name: "aws_ec2_list_images",
+        title: "List EC2 Images",
+        description:
+          "List AMIs (Amazon Machine Images) with comprehensive filtering",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          imageIds: z
+            .array(z.string())
+            .optional()
+            .describe("Specific image IDs to list"),
+          owners: z
+            .array(z.string())
+            .optional()
+            .describe(
+              "Image owners (use 'self', 'amazon', 'aws-marketplace', or AWS account IDs)",
+            ),
+          executableUsers: z
+            .array(z.string())
+            .optional()
+            .describe("Users with explicit launch permissions"),
+          filters: z
+            .array(
+              z.object({
+                name: z
+                  .string()
+                  .describe(
+                    "Filter name (e.g., architecture, image-type, state, name)",
+                  ),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe("Filters to apply"),
+          includeDeprecated: z
+            .boolean()
+            .optional()
+            .describe("Include deprecated images"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            imageId: z.string().optional(),
+            name: z.string().optional(),
+            description: z.string().optional(),
+            architecture: z.string().optional(),
+            creationDate: z.string().optional(),
+            imageLocation: z.string().optional(),
+            imageType: z.string().optional(),
+            public: z.boolean().optional(),
+            ownerId: z.string().optional(),
+            platform: z.string().optional(),
+            platformDetails: z.string().optional(),
+            usageOperation: z.string().optional(),
+            state: z.string().optional(),
+            rootDeviceType: z.string().optional(),
+            rootDeviceName: z.string().optional(),
+            virtualizationType: z.string().optional(),
+            hypervisor: z.string().optional(),
+            enaSupport: z.boolean().optional(),
+            deprecationTime: z.string().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeImages(
+                  { client: getEC2Client(args.region), ...config },
+                  {
+                    ImageIds: args.imageIds,
+                    Owners: args.owners,
+                    ExecutableUsers: args.executableUsers,
+                    Filters: args.filters?.map((f) => ({
+                      Name: f.name,
+                      Values: f.values,
+                    })),
+                    IncludeDeprecated: args.includeDeprecated,
+                  },
                 ),
-              values: z.array(z.string()).describe("Filter values"),
-            }),
-          )
-          .optional()
-          .describe("Filters to apply"),
-        includeDeprecated: z
-          .boolean()
-          .optional()
-          .describe("Include deprecated images"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeImagesCommand({
-            ImageIds: args.imageIds,
-            Owners: args.owners,
-            ExecutableUsers: args.executableUsers,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-            IncludeDeprecated: args.includeDeprecated,
-          })
-
-          const response = await getEC2Client(args.region).send(command)
-
-          const images =
-            response.Images?.map((image) => ({
-              imageId: image.ImageId,
-              name: image.Name,
-              description: image.Description,
-              architecture: image.Architecture,
-              creationDate: image.CreationDate,
-              imageLocation: image.ImageLocation,
-              imageType: image.ImageType,
-              public: image.Public,
-              ownerId: image.OwnerId,
-              platform: image.Platform,
-              platformDetails: image.PlatformDetails,
-              usageOperation: image.UsageOperation,
-              state: image.State,
-              rootDeviceType: image.RootDeviceType,
-              rootDeviceName: image.RootDeviceName,
-              virtualizationType: image.VirtualizationType,
-              hypervisor: image.Hypervisor,
-              enaSupport: image.EnaSupport,
-              deprecationTime: image.DeprecationTime,
-              tags: image.Tags?.map((tag) => ({
-                key: tag.Key,
-                value: tag.Value,
-              })),
-            })) || []
-
-          return {
-            images,
-            count: images.length,
+              items: (page) =>
+                page.Images?.map((image) => ({
+                  imageId: image.ImageId,
+                  name: image.Name,
+                  description: image.Description,
+                  architecture: image.Architecture,
+                  creationDate: image.CreationDate,
+                  imageLocation: image.ImageLocation,
+                  imageType: image.ImageType,
+                  public: image.Public,
+                  ownerId: image.OwnerId,
+                  platform: image.Platform,
+                  platformDetails: image.PlatformDetails,
+                  usageOperation: image.UsageOperation,
+                  state: image.State,
+                  rootDeviceType: image.RootDeviceType,
+                  rootDeviceName: image.RootDeviceName,
+                  virtualizationType: image.VirtualizationType,
+                  hypervisor: image.Hypervisor,
+                  enaSupport: image.EnaSupport,
+                  deprecationTime: image.DeprecationTime,
+                  tags: image.Tags?.map((tag) => ({
+                    key: tag.Key,
+                    value: tag.Value,
+                  })),
+                })) || [],
+              nextToken: (page) => page.NextToken,
+              // Page size cannot be combined with IDs
+              pageSize: args.imageIds ? undefined : { min: 1, max: 1000 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ec2_list_images",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ec2_list_images",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_ec2_describe_images",
+      title: "Describe EC2 Images",
       description:
         "Get detailed information about specific AMIs including block device mappings",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         imageIds: z.array(z.string()).min(1).describe("Image IDs to describe"),
       }),
+      output: z.object({
+        images: z.array(
+          z.object({
+            imageId: z.string().optional(),
+            name: z.string().optional(),
+            description: z.string().optional(),
+            architecture: z.string().optional(),
+            creationDate: z.string().optional(),
+            imageLocation: z.string().optional(),
+            imageType: z.string().optional(),
+            public: z.boolean().optional(),
+            ownerId: z.string().optional(),
+            ownerAlias: z.string().optional(),
+            platform: z.string().optional(),
+            platformDetails: z.string().optional(),
+            usageOperation: z.string().optional(),
+            state: z.string().optional(),
+            stateReason: z
+              .object({
+                code: z.string().optional(),
+                message: z.string().optional(),
+              })
+              .optional(),
+            blockDeviceMappings: z
+              .array(
+                z.object({
+                  deviceName: z.string().optional(),
+                  virtualName: z.string().optional(),
+                  ebs: z
+                    .object({
+                      deleteOnTermination: z.boolean().optional(),
+                      iops: z.number().optional(),
+                      snapshotId: z.string().optional(),
+                      volumeSize: z.number().optional(),
+                      volumeType: z.string().optional(),
+                      throughput: z.number().optional(),
+                      encrypted: z.boolean().optional(),
+                      kmsKeyId: z.string().optional(),
+                    })
+                    .optional(),
+                  noDevice: z.string().optional(),
+                }),
+              )
+              .optional(),
+            rootDeviceType: z.string().optional(),
+            rootDeviceName: z.string().optional(),
+            virtualizationType: z.string().optional(),
+            sriovNetSupport: z.string().optional(),
+            hypervisor: z.string().optional(),
+            enaSupport: z.boolean().optional(),
+            bootMode: z.string().optional(),
+            deprecationTime: z.string().optional(),
+            imdsSupport: z.string().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const command = new DescribeImagesCommand({
@@ -1214,121 +1842,218 @@ export function createEC2Tools(): Tool[] {
     }),
 
     // ===== NETWORKING - VPCs =====
-    tool({
-      name: "aws_ec2_list_vpcs",
-      description: "List VPCs (Virtual Private Clouds)",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        vpcIds: z
-          .array(z.string())
-          .optional()
-          .describe("Specific VPC IDs to list"),
-        filters: z
-          .array(
-            z.object({
-              name: z
-                .string()
-                .describe(
-                  "Filter name (e.g., state, cidr, dhcp-options-id, tag-key)",
-                ),
-              values: z.array(z.string()).describe("Filter values"),
-            }),
-          )
-          .optional()
-          .describe("Filters to apply"),
-        maxResults: z
-          .number()
-          .min(5)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of results"),
-        nextToken: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeVpcsCommand({
-            VpcIds: args.vpcIds,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-            MaxResults: args.maxResults,
-            NextToken: args.nextToken,
-          })
-
-          const response = await getEC2Client(args.region).send(command)
-
-          const vpcs =
-            response.Vpcs?.map((vpc) => ({
-              vpcId: vpc.VpcId,
-              state: vpc.State,
-              cidrBlock: vpc.CidrBlock,
-              dhcpOptionsId: vpc.DhcpOptionsId,
-              instanceTenancy: vpc.InstanceTenancy,
-              isDefault: vpc.IsDefault,
-              ownerId: vpc.OwnerId,
-              cidrBlockAssociationSet: vpc.CidrBlockAssociationSet?.map(
-                (assoc) => ({
-                  associationId: assoc.AssociationId,
-                  cidrBlock: assoc.CidrBlock,
-                  cidrBlockState: assoc.CidrBlockState
-                    ? {
-                        state: assoc.CidrBlockState.State,
-                        statusMessage: assoc.CidrBlockState.StatusMessage,
-                      }
-                    : undefined,
+    multiRegion(
+      tool({
+        name: "aws_ec2_list_vpcs",
+        title: "List EC2 VPCs",
+        description: "List VPCs (Virtual Private Clouds)",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          vpcIds: z
+            .array(z.string())
+            .optional()
+            .describe("Specific VPC IDs to list"),
+          filters: z
+            .array(
+              z.object({
+                name: z
+                  .string()
+                  .describe(
+                    "Filter name (e.g., state, cidr, dhcp-options-id, tag-key)",
+                  ),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe("Filters to apply"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            vpcId: z.string().optional(),
+            state: z.string().optional(),
+            cidrBlock: z.string().optional(),
+            dhcpOptionsId: z.string().optional(),
+            instanceTenancy: z.string().optional(),
+            isDefault: z.boolean().optional(),
+            ownerId: z.string().optional(),
+            cidrBlockAssociationSet: z
+              .array(
+                z.object({
+                  associationId: z.string().optional(),
+                  cidrBlock: z.string().optional(),
+                  cidrBlockState: z
+                    .object({
+                      state: z.string().optional(),
+                      statusMessage: z.string().optional(),
+                    })
+                    .optional(),
                 }),
-              ),
-              ipv6CidrBlockAssociationSet: vpc.Ipv6CidrBlockAssociationSet?.map(
-                (assoc) => ({
-                  associationId: assoc.AssociationId,
-                  ipv6CidrBlock: assoc.Ipv6CidrBlock,
-                  ipv6CidrBlockState: assoc.Ipv6CidrBlockState
-                    ? {
-                        state: assoc.Ipv6CidrBlockState.State,
-                        statusMessage: assoc.Ipv6CidrBlockState.StatusMessage,
-                      }
-                    : undefined,
-                  ipv6Pool: assoc.Ipv6Pool,
-                  networkBorderGroup: assoc.NetworkBorderGroup,
+              )
+              .optional(),
+            ipv6CidrBlockAssociationSet: z
+              .array(
+                z.object({
+                  associationId: z.string().optional(),
+                  ipv6CidrBlock: z.string().optional(),
+                  ipv6CidrBlockState: z
+                    .object({
+                      state: z.string().optional(),
+                      statusMessage: z.string().optional(),
+                    })
+                    .optional(),
+                  ipv6Pool: z.string().optional(),
+                  networkBorderGroup: z.string().optional(),
                 }),
-              ),
-              tags: vpc.Tags?.map((tag) => ({
-                key: tag.Key,
-                value: tag.Value,
-              })),
-            })) || []
-
-          return {
-            vpcs,
-            count: vpcs.length,
-            nextToken: response.NextToken,
+              )
+              .optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeVpcs(
+                  { client: getEC2Client(args.region), ...config },
+                  {
+                    VpcIds: args.vpcIds,
+                    Filters: args.filters?.map((f) => ({
+                      Name: f.name,
+                      Values: f.values,
+                    })),
+                  },
+                ),
+              items: (page) =>
+                page.Vpcs?.map((vpc) => ({
+                  vpcId: vpc.VpcId,
+                  state: vpc.State,
+                  cidrBlock: vpc.CidrBlock,
+                  dhcpOptionsId: vpc.DhcpOptionsId,
+                  instanceTenancy: vpc.InstanceTenancy,
+                  isDefault: vpc.IsDefault,
+                  ownerId: vpc.OwnerId,
+                  cidrBlockAssociationSet: vpc.CidrBlockAssociationSet?.map(
+                    (assoc) => ({
+                      associationId: assoc.AssociationId,
+                      cidrBlock: assoc.CidrBlock,
+                      cidrBlockState: assoc.CidrBlockState
+                        ? {
+                            state: assoc.CidrBlockState.State,
+                            statusMessage: assoc.CidrBlockState.StatusMessage,
+                          }
+                        : undefined,
+                    }),
+                  ),
+                  ipv6CidrBlockAssociationSet:
+                    vpc.Ipv6CidrBlockAssociationSet?.map((assoc) => ({
+                      associationId: assoc.AssociationId,
+                      ipv6CidrBlock: assoc.Ipv6CidrBlock,
+                      ipv6CidrBlockState: assoc.Ipv6CidrBlockState
+                        ? {
+                            state: assoc.Ipv6CidrBlockState.State,
+                            statusMessage:
+                              assoc.Ipv6CidrBlockState.StatusMessage,
+                          }
+                        : undefined,
+                      ipv6Pool: assoc.Ipv6Pool,
+                      networkBorderGroup: assoc.NetworkBorderGroup,
+                    })),
+                  tags: vpc.Tags?.map((tag) => ({
+                    key: tag.Key,
+                    value: tag.Value,
+                  })),
+                })) || [],
+              nextToken: (page) => page.NextToken,
+              // Page size cannot be combined with IDs
+              pageSize: args.vpcIds ? undefined : { min: 5, max: 1000 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ec2_list_vpcs",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ec2_list_vpcs",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_ec2_describe_vpcs",
+      title: "Describe EC2 VPCs",
       description: "Get detailed information about specific VPCs",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         vpcIds: z.array(z.string()).min(1).describe("VPC IDs to describe"),
       }),
+      output: z.object({
+        vpcs: z.array(
+          z.object({
+            vpcId: z.string().optional(),
+            state: z.string().optional(),
+            cidrBlock: z.string().optional(),
+            dhcpOptionsId: z.string().optional(),
+            instanceTenancy: z.string().optional(),
+            isDefault: z.boolean().optional(),
+            ownerId: z.string().optional(),
+            cidrBlockAssociationSet: z
+              .array(
+                z.object({
+                  associationId: z.string().optional(),
+                  cidrBlock: z.string().optional(),
+                  cidrBlockState: z
+                    .object({
+                      state: z.string().optional(),
+                      statusMessage: z.string().optional(),
+                    })
+                    .optional(),
+                }),
+              )
+              .optional(),
+            ipv6CidrBlockAssociationSet: z
+              .array(
+                z.object({
+                  associationId: z.string().optional(),
+                  ipv6CidrBlock: z.string().optional(),
+                  ipv6CidrBlockState: z
+                    .object({
+                      state: z.string().optional(),
+                      statusMessage: z.string().optional(),
+                    })
+                    .optional(),
+                  ipv6Pool: z.string().optional(),
+                  networkBorderGroup: z.string().optional(),
+                }),
+              )
+              .optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const command = new DescribeVpcsCommand({
@@ -1393,102 +2118,175 @@ export function createEC2Tools(): Tool[] {
     }),
 
     // ===== NETWORKING - SUBNETS =====
-    tool({
-      name: "aws_ec2_list_subnets",
-      description: "List subnets in VPCs",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        subnetIds: z
-          .array(z.string())
-          .optional()
-          .describe("Specific subnet IDs to list"),
-        filters: z
-          .array(
-            z.object({
-              name: z
-                .string()
-                .describe(
-                  "Filter name (e.g., vpc-id, availability-zone, cidr-block, state)",
+    multiRegion(
+      tool({
+        name: "aws_ec2_list_subnets",
+        title: "List EC2 Subnets",
+        description: "List subnets in VPCs",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          subnetIds: z
+            .array(z.string())
+            .optional()
+            .describe("Specific subnet IDs to list"),
+          filters: z
+            .array(
+              z.object({
+                name: z
+                  .string()
+                  .describe(
+                    "Filter name (e.g., vpc-id, availability-zone, cidr-block, state)",
+                  ),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe("Filters to apply"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            subnetId: z.string().optional(),
+            vpcId: z.string().optional(),
+            state: z.string().optional(),
+            cidrBlock: z.string().optional(),
+            availabilityZone: z.string().optional(),
+            availabilityZoneId: z.string().optional(),
+            availableIpAddressCount: z.number().optional(),
+            defaultForAz: z.boolean().optional(),
+            mapPublicIpOnLaunch: z.boolean().optional(),
+            assignIpv6AddressOnCreation: z.boolean().optional(),
+            ownerId: z.string().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeSubnets(
+                  { client: getEC2Client(args.region), ...config },
+                  {
+                    SubnetIds: args.subnetIds,
+                    Filters: args.filters?.map((f) => ({
+                      Name: f.name,
+                      Values: f.values,
+                    })),
+                  },
                 ),
-              values: z.array(z.string()).describe("Filter values"),
-            }),
-          )
-          .optional()
-          .describe("Filters to apply"),
-        maxResults: z
-          .number()
-          .min(5)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of results"),
-        nextToken: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeSubnetsCommand({
-            SubnetIds: args.subnetIds,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-            MaxResults: args.maxResults,
-            NextToken: args.nextToken,
-          })
-
-          const response = await getEC2Client(args.region).send(command)
-
-          const subnets =
-            response.Subnets?.map((subnet) => ({
-              subnetId: subnet.SubnetId,
-              vpcId: subnet.VpcId,
-              state: subnet.State,
-              cidrBlock: subnet.CidrBlock,
-              availabilityZone: subnet.AvailabilityZone,
-              availabilityZoneId: subnet.AvailabilityZoneId,
-              availableIpAddressCount: subnet.AvailableIpAddressCount,
-              defaultForAz: subnet.DefaultForAz,
-              mapPublicIpOnLaunch: subnet.MapPublicIpOnLaunch,
-              assignIpv6AddressOnCreation: subnet.AssignIpv6AddressOnCreation,
-              ownerId: subnet.OwnerId,
-              tags: subnet.Tags?.map((tag) => ({
-                key: tag.Key,
-                value: tag.Value,
-              })),
-            })) || []
-
-          return {
-            subnets,
-            count: subnets.length,
-            nextToken: response.NextToken,
+              items: (page) =>
+                page.Subnets?.map((subnet) => ({
+                  subnetId: subnet.SubnetId,
+                  vpcId: subnet.VpcId,
+                  state: subnet.State,
+                  cidrBlock: subnet.CidrBlock,
+                  availabilityZone: subnet.AvailabilityZone,
+                  availabilityZoneId: subnet.AvailabilityZoneId,
+                  availableIpAddressCount: subnet.AvailableIpAddressCount,
+                  defaultForAz: subnet.DefaultForAz,
+                  mapPublicIpOnLaunch: subnet.MapPublicIpOnLaunch,
+                  assignIpv6AddressOnCreation:
+                    subnet.AssignIpv6AddressOnCreation,
+                  ownerId: subnet.OwnerId,
+                  tags: subnet.Tags?.map((tag) => ({
+                    key: tag.Key,
+                    value: tag.Value,
+                  })),
+                })) || [],
+              nextToken: (page) => page.NextToken,
+              // Page size cannot be combined with IDs
+              pageSize: args.subnetIds ? undefined : { min: 5, max: 1000 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ec2_list_subnets",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ec2_list_subnets",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_ec2_describe_subnets",
+      title: "Describe EC2 Subnets",
       description: "Get detailed information about specific subnets",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         subnetIds: z
           .array(z.string())
           .min(1)
           .describe("Subnet IDs to describe"),
       }),
+      output: z.object({
+        subnets: z.array(
+          z.object({
+            subnetId: z.string().optional(),
+            subnetArn: z.string().optional(),
+            vpcId: z.string().optional(),
+            state: z.string().optional(),
+            cidrBlock: z.string().optional(),
+            availabilityZone: z.string().optional(),
+            availabilityZoneId: z.string().optional(),
+            availableIpAddressCount: z.number().optional(),
+            defaultForAz: z.boolean().optional(),
+            mapPublicIpOnLaunch: z.boolean().optional(),
+            mapCustomerOwnedIpOnLaunch: z.boolean().optional(),
+            assignIpv6AddressOnCreation: z.boolean().optional(),
+            ipv6CidrBlockAssociationSet: z
+              .array(
+                z.object({
+                  associationId: z.string().optional(),
+                  ipv6CidrBlock: z.string().optional(),
+                  ipv6CidrBlockState: z
+                    .object({
+                      state: z.string().optional(),
+                      statusMessage: z.string().optional(),
+                    })
+                    .optional(),
+                }),
+              )
+              .optional(),
+            ownerId: z.string().optional(),
+            customerOwnedIpv4Pool: z.string().optional(),
+            outpostArn: z.string().optional(),
+            enableDns64: z.boolean().optional(),
+            enableLniAtDeviceIndex: z.number().optional(),
+            privateDnsNameOptionsOnLaunch: z
+              .object({
+                hostnameType: z.string().optional(),
+                enableResourceNameDnsARecord: z.boolean().optional(),
+                enableResourceNameDnsAAAARecord: z.boolean().optional(),
+              })
+              .optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const command = new DescribeSubnetsCommand({
@@ -1561,127 +2359,273 @@ export function createEC2Tools(): Tool[] {
     }),
 
     // ===== NETWORKING - NETWORK INTERFACES =====
-    tool({
-      name: "aws_ec2_list_network_interfaces",
-      description: "List network interfaces (ENIs)",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        networkInterfaceIds: z
-          .array(z.string())
-          .optional()
-          .describe("Specific network interface IDs to list"),
-        filters: z
-          .array(
-            z.object({
-              name: z
-                .string()
-                .describe(
-                  "Filter name (e.g., attachment.status, vpc-id, subnet-id, status)",
+    multiRegion(
+      tool({
+        name: "aws_ec2_list_network_interfaces",
+        title: "List EC2 Network Interfaces",
+        description: "List network interfaces (ENIs)",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          networkInterfaceIds: z
+            .array(z.string())
+            .optional()
+            .describe("Specific network interface IDs to list"),
+          filters: z
+            .array(
+              z.object({
+                name: z
+                  .string()
+                  .describe(
+                    "Filter name (e.g., attachment.status, vpc-id, subnet-id, status)",
+                  ),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe("Filters to apply"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            networkInterfaceId: z.string().optional(),
+            status: z.string().optional(),
+            interfaceType: z.string().optional(),
+            vpcId: z.string().optional(),
+            subnetId: z.string().optional(),
+            availabilityZone: z.string().optional(),
+            privateIpAddress: z.string().optional(),
+            privateDnsName: z.string().optional(),
+            macAddress: z.string().optional(),
+            description: z.string().optional(),
+            ownerId: z.string().optional(),
+            requesterManaged: z.boolean().optional(),
+            sourceDestCheck: z.boolean().optional(),
+            association: z
+              .object({
+                allocationId: z.string().optional(),
+                associationId: z.string().optional(),
+                ipOwnerId: z.string().optional(),
+                publicDnsName: z.string().optional(),
+                publicIp: z.string().optional(),
+                carrierIp: z.string().optional(),
+              })
+              .optional(),
+            attachment: z
+              .object({
+                attachmentId: z.string().optional(),
+                instanceId: z.string().optional(),
+                instanceOwnerId: z.string().optional(),
+                deviceIndex: z.number().optional(),
+                status: z.string().optional(),
+                attachTime: z.string().optional(),
+                deleteOnTermination: z.boolean().optional(),
+                networkCardIndex: z.number().optional(),
+              })
+              .optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeNetworkInterfaces(
+                  { client: getEC2Client(args.region), ...config },
+                  {
+                    NetworkInterfaceIds: args.networkInterfaceIds,
+                    Filters: args.filters?.map((f) => ({
+                      Name: f.name,
+                      Values: f.values,
+                    })),
+                  },
                 ),
-              values: z.array(z.string()).describe("Filter values"),
-            }),
-          )
-          .optional()
-          .describe("Filters to apply"),
-        maxResults: z
-          .number()
-          .min(5)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of results"),
-        nextToken: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeNetworkInterfacesCommand({
-            NetworkInterfaceIds: args.networkInterfaceIds,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-            MaxResults: args.maxResults,
-            NextToken: args.nextToken,
-          })
-
-          const response = await getEC2Client(args.region).send(command)
-
-          const networkInterfaces =
-            response.NetworkInterfaces?.map((ni) => ({
-              networkInterfaceId: ni.NetworkInterfaceId,
-              status: ni.Status,
-              interfaceType: ni.InterfaceType,
-              vpcId: ni.VpcId,
-              subnetId: ni.SubnetId,
-              availabilityZone: ni.AvailabilityZone,
-              privateIpAddress: ni.PrivateIpAddress,
-              privateDnsName: ni.PrivateDnsName,
-              macAddress: ni.MacAddress,
-              description: ni.Description,
-              ownerId: ni.OwnerId,
-              requesterManaged: ni.RequesterManaged,
-              sourceDestCheck: ni.SourceDestCheck,
-              association: ni.Association
-                ? {
-                    allocationId: ni.Association.AllocationId,
-                    associationId: ni.Association.AssociationId,
-                    ipOwnerId: ni.Association.IpOwnerId,
-                    publicDnsName: ni.Association.PublicDnsName,
-                    publicIp: ni.Association.PublicIp,
-                    carrierIp: ni.Association.CarrierIp,
-                  }
-                : undefined,
-              attachment: ni.Attachment
-                ? {
-                    attachmentId: ni.Attachment.AttachmentId,
-                    instanceId: ni.Attachment.InstanceId,
-                    instanceOwnerId: ni.Attachment.InstanceOwnerId,
-                    deviceIndex: ni.Attachment.DeviceIndex,
-                    status: ni.Attachment.Status,
-                    attachTime: ni.Attachment.AttachTime?.toISOString(),
-                    deleteOnTermination: ni.Attachment.DeleteOnTermination,
-                    networkCardIndex: ni.Attachment.NetworkCardIndex,
-                  }
-                : undefined,
-              tags: ni.TagSet?.map((tag) => ({
-                key: tag.Key,
-                value: tag.Value,
-              })),
-            })) || []
-
-          return {
-            networkInterfaces,
-            count: networkInterfaces.length,
-            nextToken: response.NextToken,
+              items: (page) =>
+                page.NetworkInterfaces?.map((ni) => ({
+                  networkInterfaceId: ni.NetworkInterfaceId,
+                  status: ni.Status,
+                  interfaceType: ni.InterfaceType,
+                  vpcId: ni.VpcId,
+                  subnetId: ni.SubnetId,
+                  availabilityZone: ni.AvailabilityZone,
+                  privateIpAddress: ni.PrivateIpAddress,
+                  privateDnsName: ni.PrivateDnsName,
+                  macAddress: ni.MacAddress,
+                  description: ni.Description,
+                  ownerId: ni.OwnerId,
+                  requesterManaged: ni.RequesterManaged,
+                  sourceDestCheck: ni.SourceDestCheck,
+                  association: ni.Association
+                    ? {
+                        allocationId: ni.Association.AllocationId,
+                        associationId: ni.Association.AssociationId,
+                        ipOwnerId: ni.Association.IpOwnerId,
+                        publicDnsName: ni.Association.PublicDnsName,
+                        publicIp: ni.Association.PublicIp,
+                        carrierIp: ni.Association.CarrierIp,
+                      }
+                    : undefined,
+                  attachment: ni.Attachment
+                    ? {
+                        attachmentId: ni.Attachment.AttachmentId,
+                        instanceId: ni.Attachment.InstanceId,
+                        instanceOwnerId: ni.Attachment.InstanceOwnerId,
+                        deviceIndex: ni.Attachment.DeviceIndex,
+                        status: ni.Attachment.Status,
+                        attachTime: ni.Attachment.AttachTime?.toISOString(),
+                        deleteOnTermination: ni.Attachment.DeleteOnTermination,
+                        networkCardIndex: ni.Attachment.NetworkCardIndex,
+                      }
+                    : undefined,
+                  tags: ni.TagSet?.map((tag) => ({
+                    key: tag.Key,
+                    value: tag.Value,
+                  })),
+                })) || [],
+              nextToken: (page) => page.NextToken,
+              // Page size cannot be combined with IDs
+              pageSize: args.networkInterfaceIds
+                ? undefined
+                : { min: 5, max: 1000 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ec2_list_network_interfaces",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ec2_list_network_interfaces",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_ec2_describe_network_interfaces",
+      title: "Describe EC2 Network Interfaces",
       description:
         "Get detailed information about specific network interfaces including security groups and IP addresses",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         networkInterfaceIds: z
           .array(z.string())
           .min(1)
           .describe("Network interface IDs to describe"),
       }),
+      output: z.object({
+        networkInterfaces: z.array(
+          z.object({
+            networkInterfaceId: z.string().optional(),
+            status: z.string().optional(),
+            interfaceType: z.string().optional(),
+            vpcId: z.string().optional(),
+            subnetId: z.string().optional(),
+            availabilityZone: z.string().optional(),
+            privateIpAddress: z.string().optional(),
+            privateIpAddresses: z
+              .array(
+                z.object({
+                  primary: z.boolean().optional(),
+                  privateIpAddress: z.string().optional(),
+                  privateDnsName: z.string().optional(),
+                  association: z
+                    .object({
+                      allocationId: z.string().optional(),
+                      associationId: z.string().optional(),
+                      ipOwnerId: z.string().optional(),
+                      publicDnsName: z.string().optional(),
+                      publicIp: z.string().optional(),
+                    })
+                    .optional(),
+                }),
+              )
+              .optional(),
+            ipv6Addresses: z
+              .array(
+                z.object({
+                  ipv6Address: z.string().optional(),
+                }),
+              )
+              .optional(),
+            privateDnsName: z.string().optional(),
+            macAddress: z.string().optional(),
+            description: z.string().optional(),
+            ownerId: z.string().optional(),
+            requesterId: z.string().optional(),
+            requesterManaged: z.boolean().optional(),
+            sourceDestCheck: z.boolean().optional(),
+            groups: z
+              .array(
+                z.object({
+                  groupName: z.string().optional(),
+                  groupId: z.string().optional(),
+                }),
+              )
+              .optional(),
+            association: z
+              .object({
+                allocationId: z.string().optional(),
+                associationId: z.string().optional(),
+                ipOwnerId: z.string().optional(),
+                publicDnsName: z.string().optional(),
+                publicIp: z.string().optional(),
+                carrierIp: z.string().optional(),
+              })
+              .optional(),
+            attachment: z
+              .object({
+                attachmentId: z.string().optional(),
+                instanceId: z.string().optional(),
+                instanceOwnerId: z.string().optional(),
+                deviceIndex: z.number().optional(),
+                status: z.string().optional(),
+                attachTime: z.string().optional(),
+                deleteOnTermination: z.boolean().optional(),
+                networkCardIndex: z.number().optional(),
+              })
+              .optional(),
+            outpostArn: z.string().optional(),
+            denyAllIgwTraffic: z.boolean().optional(),
+            ipv6Native: z.boolean().optional(),
+            ipv4Prefixes: z
+              .array(
+                z.object({
+                  ipv4Prefix: z.string().optional(),
+                }),
+              )
+              .optional(),
+            ipv6Prefixes: z
+              .array(
+                z.object({
+                  ipv6Prefix: z.string().optional(),
+                }),
+              )
+              .optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const command = new DescribeNetworkInterfacesCommand({
@@ -6,80 +6,82 @@ import {
   DescribeTaskDefinitionCommand,
   DescribeTasksCommand,
   ECSClient,
-  ListClustersCommand,
-  ListContainerInstancesCommand,
   ListServicesCommand,
   ListTagsForResourceCommand,
-  ListTaskDefinitionFamiliesCommand,
-  ListTaskDefinitionsCommand,
   ListTasksCommand,
+  paginateListClusters,
+  paginateListContainerInstances,
+  paginateListServices,
+  paginateListTaskDefinitionFamilies,
+  paginateListTaskDefinitions,
+  paginateListTasks,
 } from "@aws-sdk/client-ecs"
 import { z } from "zod"
 
+import { getAwsClient } from "~/utils/aws-client"
 import {
-  AWS_REGIONS,
+  awsRegion,
   type AwsRegion,
-  DEFAULT_AWS_REGION,
+  getDefaultAwsRegion,
 } from "~/utils/aws-region"
-import { type Tool, tool } from "~/utils/tool"
+import { multiRegion } from "~/utils/multi-region"
+import { paginate, paginatedOutput, paginationArgs } from "~/utils/pagination"
+import { awsObject, READ_ONLY_ANNOTATIONS, type Tool, tool } from "~/utils/tool"
 import { ToolError } from "~/utils/tool-error"
 
 export function createECSTools(): Tool[] {
-  const getECSClient = (region: AwsRegion = DEFAULT_AWS_REGION) => {
-    return new ECSClient({ region })
+  const getECSClient = (region: AwsRegion = getDefaultAwsRegion()) => {
+    return getAwsClient(ECSClient, { service: "ecs", region })
   }
 
   return [
-    tool({
-      name: "aws_ecs_list_clusters",
-      description: "List all ECS clusters in the account",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        maxResults: z
-          .number()
-          .min(1)
-          .max(100)
-          .optional()
-          .describe("Maximum number of clusters to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new ListClustersCommand({
-            maxResults: args.maxResults,
-            nextToken: args.nextToken,
-          })
-
-          const response = await getECSClient(args.region).send(command)
-
-          return {
-            clusterArns: response.clusterArns || [],
-            count: response.clusterArns?.length || 0,
-            nextToken: response.nextToken,
+    multiRegion(
+      tool({
+        name: "aws_ecs_list_clusters",
+        title: "List ECS Clusters",
+        description: "List all ECS clusters in the account",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(z.string()),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateListClusters(
+                  { client: getECSClient(args.region), ...config },
+                  {},
+                ),
+              items: (page) => page.clusterArns || [],
+              nextToken: (page) => page.nextToken,
+              pageSize: { min: 1, max: 100 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ecs_list_clusters",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ecs_list_clusters",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_ecs_describe_clusters",
+      title: "Describe ECS Clusters",
       description: "Get detailed information about ECS clusters",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         clusterArns: z
           .array(z.string())
           .describe("Array of cluster ARNs or names to describe"),
@@ -96,6 +98,64 @@ export function createECSTools(): Tool[] {
           .optional()
           .describe("Additional information to include"),
       }),
+      output: z.object({
+        clusters: z.array(
+          z.object({
+            clusterArn: z.string().optional(),
+            clusterName: z.string().optional(),
+            status: z.string().optional(),
+            runningTasksCount: z.number().optional(),
+            pendingTasksCount: z.number().optional(),
+            activeServicesCount: z.number().optional(),
+            registeredContainerInstancesCount: z.number().optional(),
+            capacityProviders: z.array(z.string()).optional(),
+            defaultCapacityProviderStrategy: z.array(awsObject()).optional(),
+            attachments: z
+              .array(
+                z.object({
+                  id: z.string().optional(),
+                  type: z.string().optional(),
+                  status: z.string().optional(),
+                  details: z.array(awsObject()).optional(),
+                }),
+              )
+              .optional(),
+            settings: z
+              .array(
+                z.object({
+                  name: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+            statistics: z
+              .array(
+                z.object({
+                  name: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+        failures: z
+          .array(
+            z.object({
+              arn: z.string().optional(),
+              reason: z.string().optional(),
+            }),
+          )
+          .optional(),
+      }),
       async run(args) {
         try {
           const command = new DescribeClustersCommand({
@@ -158,21 +218,15 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_list_services",
+      title: "List ECS Services",
       description: "List services in an ECS cluster",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         cluster: z.string().describe("Cluster name or ARN"),
-        maxResults: z
-          .number()
-          .min(1)
-          .max(100)
-          .optional()
-          .describe("Maximum number of services to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
         launchType: z
           .enum(["EC2", "FARGATE", "EXTERNAL"])
           .optional()
@@ -181,24 +235,25 @@ export function createECSTools(): Tool[] {
           .enum(["REPLICA", "DAEMON"])
           .optional()
           .describe("Filter by scheduling strategy"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(z.string()),
       async run(args) {
         try {
-          const command = new ListServicesCommand({
-            cluster: args.cluster,
-            maxResults: args.maxResults,
-            nextToken: args.nextToken,
-            launchType: args.launchType,
-            schedulingStrategy: args.schedulingStrategy,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateListServices(
+                { client: getECSClient(args.region), ...config },
+                {
+                  cluster: args.cluster,
+                  launchType: args.launchType,
+                  schedulingStrategy: args.schedulingStrategy,
+                },
+              ),
+            items: (page) => page.serviceArns || [],
+            nextToken: (page) => page.nextToken,
+            pageSize: { min: 1, max: 100 },
           })
-
-          const response = await getECSClient(args.region).send(command)
-
-          return {
-            serviceArns: response.serviceArns || [],
-            count: response.serviceArns?.length || 0,
-            nextToken: response.nextToken,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -211,13 +266,14 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_describe_services",
+      title: "Describe ECS Services",
       description: "Get detailed information about ECS services",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         cluster: z.string().describe("Cluster name or ARN"),
         services: z
           .array(z.string())
@@ -227,6 +283,116 @@ export function createECSTools(): Tool[] {
           .optional()
           .describe("Additional information to include"),
       }),
+      output: z.object({
+        services: z.array(
+          z.object({
+            serviceArn: z.string().optional(),
+            serviceName: z.string().optional(),
+            clusterArn: z.string().optional(),
+            status: z.string().optional(),
+            desiredCount: z.number().optional(),
+            runningCount: z.number().optional(),
+            pendingCount: z.number().optional(),
+            launchType: z.string().optional(),
+            taskDefinition: z.string().optional(),
+            platformVersion: z.string().optional(),
+            platformFamily: z.string().optional(),
+            networkConfiguration: z
+              .object({
+                awsvpcConfiguration: z
+                  .object({
+                    subnets: z.array(z.string()).optional(),
+                    securityGroups: z.array(z.string()).optional(),
+                    assignPublicIp: z.string().optional(),
+                  })
+                  .optional(),
+              })
+              .optional(),
+            loadBalancers: z
+              .array(
+                z.object({
+                  targetGroupArn: z.string().optional(),
+                  loadBalancerName: z.string().optional(),
+                  containerName: z.string().optional(),
+                  containerPort: z.number().optional(),
+                }),
+              )
+              .optional(),
+            serviceRegistries: z
+              .array(
+                z.object({
+                  registryArn: z.string().optional(),
+                  port: z.number().optional(),
+                  containerName: z.string().optional(),
+                  containerPort: z.number().optional(),
+                }),
+              )
+              .optional(),
+            deployments: z
+              .array(
+                z.object({
+                  id: z.string().optional(),
+                  status: z.string().optional(),
+                  taskDefinition: z.string().optional(),
+                  desiredCount: z.number().optional(),
+                  runningCount: z.number().optional(),
+                  pendingCount: z.number().optional(),
+                  failedTasks: z.number().optional(),
+                  createdAt: z.string().optional(),
+                  updatedAt: z.string().optional(),
+                  capacityProviderStrategy: z.array(awsObject()).optional(),
+                  launchType: z.string().optional(),
+                  platformVersion: z.string().optional(),
+                  platformFamily: z.string().optional(),
+                  networkConfiguration: z
+                    .object({
+                      awsvpcConfiguration: z
+                        .object({
+                          subnets: z.array(z.string()).optional(),
+                          securityGroups: z.array(z.string()).optional(),
+                          assignPublicIp: z.string().optional(),
+                        })
+                        .optional(),
+                    })
+                    .optional(),
+                  rolloutState: z.string().optional(),
+                  rolloutStateReason: z.string().optional(),
+                }),
+              )
+              .optional(),
+            roleArn: z.string().optional(),
+            events: z
+              .array(
+                z.object({
+                  id: z.string().optional(),
+                  createdAt: z.string().optional(),
+                  message: z.string().optional(),
+                }),
+              )
+              .optional(),
+            createdAt: z.string().optional(),
+            placementConstraints: z.array(awsObject()).optional(),
+            placementStrategy: z.array(awsObject()).optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+        failures: z
+          .array(
+            z.object({
+              arn: z.string().optional(),
+              reason: z.string().optional(),
+            }),
+          )
+          .optional(),
+      }),
       async run(args) {
         try {
           const command = new DescribeServicesCommand({
@@ -350,13 +516,14 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_list_tasks",
+      title: "List ECS Tasks",
       description: "List tasks in an ECS cluster",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         cluster: z.string().describe("Cluster name or ARN"),
         serviceName: z.string().optional().describe("Filter by service name"),
         desiredStatus: z
@@ -367,32 +534,26 @@ export function createECSTools(): Tool[] {
           .enum(["EC2", "FARGATE", "EXTERNAL"])
           .optional()
           .describe("Filter by launch type"),
-        maxResults: z
-          .number()
-          .min(1)
-          .max(100)
-          .optional()
-          .describe("Maximum number of tasks to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(z.string()),
       async run(args) {
         try {
-          const command = new ListTasksCommand({
-            cluster: args.cluster,
-            serviceName: args.serviceName,
-            desiredStatus: args.desiredStatus,
-            launchType: args.launchType,
-            maxResults: args.maxResults,
-            nextToken: args.nextToken,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateListTasks(
+                { client: getECSClient(args.region), ...config },
+                {
+                  cluster: args.cluster,
+                  serviceName: args.serviceName,
+                  desiredStatus: args.desiredStatus,
+                  launchType: args.launchType,
+                },
+              ),
+            items: (page) => page.taskArns || [],
+            nextToken: (page) => page.nextToken,
+            pageSize: { min: 1, max: 100 },
           })
-
-          const response = await getECSClient(args.region).send(command)
-
-          return {
-            taskArns: response.taskArns || [],
-            count: response.taskArns?.length || 0,
-            nextToken: response.nextToken,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -405,13 +566,14 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_describe_tasks",
+      title: "Describe ECS Tasks",
       description: "Get detailed information about ECS tasks",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         cluster: z.string().describe("Cluster name or ARN"),
         taskArns: z
           .array(z.string())
@@ -421,6 +583,106 @@ export function createECSTools(): Tool[] {
           .optional()
           .describe("Additional information to include"),
       }),
+      output: z.object({
+        tasks: z.array(
+          z.object({
+            taskArn: z.string().optional(),
+            clusterArn: z.string().optional(),
+            taskDefinitionArn: z.string().optional(),
+            lastStatus: z.string().optional(),
+            desiredStatus: z.string().optional(),
+            cpu: z.string().optional(),
+            memory: z.string().optional(),
+            containers: z
+              .array(
+                z.object({
+                  containerArn: z.string().optional(),
+                  taskArn: z.string().optional(),
+                  name: z.string().optional(),
+                  image: z.string().optional(),
+                  imageDigest: z.string().optional(),
+                  lastStatus: z.string().optional(),
+                  exitCode: z.number().optional(),
+                  reason: z.string().optional(),
+                  cpu: z.string().optional(),
+                  memory: z.string().optional(),
+                  memoryReservation: z.string().optional(),
+                  networkBindings: z
+                    .array(
+                      z.object({
+                        bindIP: z.string().optional(),
+                        containerPort: z.number().optional(),
+                        hostPort: z.number().optional(),
+                        protocol: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                  networkInterfaces: z
+                    .array(
+                      z.object({
+                        attachmentId: z.string().optional(),
+                        privateIpv4Address: z.string().optional(),
+                        ipv6Address: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                  healthStatus: z.string().optional(),
+                  managedAgents: z
+                    .array(
+                      z.object({
+                        name: z.string().optional(),
+                        lastStartedAt: z.string().optional(),
+                        lastStatus: z.string().optional(),
+                        reason: z.string().optional(),
+                      }),
+                    )
+                    .optional(),
+                }),
+              )
+              .optional(),
+            startedAt: z.string().optional(),
+            startedBy: z.string().optional(),
+            stopCode: z.string().optional(),
+            stoppedAt: z.string().optional(),
+            stoppedReason: z.string().optional(),
+            connectivity: z.string().optional(),
+            connectivityAt: z.string().optional(),
+            pullStartedAt: z.string().optional(),
+            pullStoppedAt: z.string().optional(),
+            executionStoppedAt: z.string().optional(),
+            launchType: z.string().optional(),
+            platformVersion: z.string().optional(),
+            platformFamily: z.string().optional(),
+            attachments: z
+              .array(
+                z.object({
+                  id: z.string().optional(),
+                  type: z.string().optional(),
+                  status: z.string().optional(),
+                  details: z.array(awsObject()).optional(),
+                }),
+              )
+              .optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+        failures: z
+          .array(
+            z.object({
+              arn: z.string().optional(),
+              reason: z.string().optional(),
+            }),
+          )
+          .optional(),
+      }),
       async run(args) {
         try {
           const command = new DescribeTasksCommand({
@@ -514,65 +776,66 @@ export function createECSTools(): Tool[] {
       },
     }),
 
-    tool({
-      name: "aws_ecs_list_task_definitions",
-      description: "List ECS task definitions",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        familyPrefix: z.string().optional().describe("Filter by family prefix"),
-        status: z
-          .enum(["ACTIVE", "INACTIVE"])
-          .optional()
-          .describe("Filter by status"),
-        sort: z.enum(["ASC", "DESC"]).optional().describe("Sort order"),
-        maxResults: z
-          .number()
-          .min(1)
-          .max(100)
-          .optional()
-          .describe("Maximum number of task definitions to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new ListTaskDefinitionsCommand({
-            familyPrefix: args.familyPrefix,
-            status: args.status,
-            sort: args.sort,
-            maxResults: args.maxResults,
-            nextToken: args.nextToken,
-          })
-
-          const response = await getECSClient(args.region).send(command)
-
-          return {
-            taskDefinitionArns: response.taskDefinitionArns || [],
-            count: response.taskDefinitionArns?.length || 0,
-            nextToken: response.nextToken,
+    multiRegion(
+      tool({
+        name: "aws_ecs_list_task_definitions",
+        title: "List ECS Task Definitions",
+        description: "List ECS task definitions",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          familyPrefix: z
+            .string()
+            .optional()
+            .describe("Filter by family prefix"),
+          status: z
+            .enum(["ACTIVE", "INACTIVE"])
+            .optional()
+            .describe("Filter by status"),
+          sort: z.enum(["ASC", "DESC"]).optional().describe("Sort order"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(z.string()),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateListTaskDefinitions(
+                  { client: getECSClient(args.region), ...config },
+                  {
+                    familyPrefix: args.familyPrefix,
+                    status: args.status,
+                    sort: args.sort,
+                  },
+                ),
+              items: (page) => page.taskDefinitionArns || [],
+              nextToken: (page) => page.nextToken,
+              pageSize: { min: 1, max: 100 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ecs_list_task_definitions",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ecs_list_task_definitions",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_ecs_describe_task_definition",
+      title: "Describe ECS Task Definition",
       description: "Get detailed information about an ECS task definition",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         taskDefinition: z
           .string()
           .describe("Task definition ARN or family:revision"),
@@ -581,6 +844,72 @@ export function createECSTools(): Tool[] {
           .optional()
           .describe("Additional information to include"),
       }),
+      output: z.object({
+        taskDefinitionArn: z.string().optional(),
+        family: z.string().optional(),
+        revision: z.number().optional(),
+        status: z.string().optional(),
+        networkMode: z.string().optional(),
+        requiresCompatibilities: z.array(z.string()).optional(),
+        cpu: z.string().optional(),
+        memory: z.string().optional(),
+        containerDefinitions: z
+          .array(
+            z.object({
+              name: z.string().optional(),
+              image: z.string().optional(),
+              cpu: z.number().optional(),
+              memory: z.number().optional(),
+              memoryReservation: z.number().optional(),
+              essential: z.boolean().optional(),
+              portMappings: z
+                .array(
+                  z.object({
+                    containerPort: z.number().optional(),
+                    hostPort: z.number().optional(),
+                    protocol: z.string().optional(),
+                  }),
+                )
+                .optional(),
+              environment: z
+                .array(
+                  z.object({
+                    name: z.string().optional(),
+                    value: z.string().optional(),
+                  }),
+                )
+                .optional(),
+              logConfiguration: z
+                .object({
+                  logDriver: z.string().optional(),
+                  options: awsObject().optional(),
+                })
+                .optional(),
+              healthCheck: z
+                .object({
+                  command: z.array(z.string()).optional(),
+                  interval: z.number().optional(),
+                  timeout: z.number().optional(),
+                  retries: z.number().optional(),
+                  startPeriod: z.number().optional(),
+                })
+                .optional(),
+            }),
+          )
+          .optional(),
+        volumes: z
+          .array(
+            z.object({
+              name: z.string().optional(),
+              host: z
+                .object({
+                  sourcePath: z.string().optional(),
+                })
+                .optional(),
+            }),
+          )
+          .optional(),
+      }),
       async run(args) {
         try {
           const command = new DescribeTaskDefinitionCommand({
@@ -660,63 +989,64 @@ export function createECSTools(): Tool[] {
       },
     }),
 
-    tool({
-      name: "aws_ecs_list_task_definition_families",
-      description: "List ECS task definition families",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        familyPrefix: z.string().optional().describe("Filter by family prefix"),
-        status: z
-          .enum(["ACTIVE", "INACTIVE"])
-          .optional()
-          .describe("Filter by status"),
-        maxResults: z
-          .number()
-          .min(1)
-          .max(100)
-          .optional()
-          .describe("Maximum number of families to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new ListTaskDefinitionFamiliesCommand({
-            familyPrefix: args.familyPrefix,
-            status: args.status,
-            maxResults: args.maxResults,
-            nextToken: args.nextToken,
-          })
-
-          const response = await getECSClient(args.region).send(command)
-
-          return {
-            families: response.families || [],
-            count: response.families?.length || 0,
-            nextToken: response.nextToken,
+    multiRegion(
+      tool({
+        name: "aws_ecs_list_task_definition_families",
+        title: "List ECS Task Definition Families",
+        description: "List ECS task definition families",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          familyPrefix: z
+            .string()
+            .optional()
+            .describe("Filter by family prefix"),
+          status: z
+            .enum(["ACTIVE", "INACTIVE"])
+            .optional()
+            .describe("Filter by status"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(z.string()),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateListTaskDefinitionFamilies(
+                  { client: getECSClient(args.region), ...config },
+                  {
+                    familyPrefix: args.familyPrefix,
+                    status: args.status,
+                  },
+                ),
+              items: (page) => page.families || [],
+              nextToken: (page) => page.nextToken,
+              pageSize: { min: 1, max: 100 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_ecs_list_task_definition_families",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_ecs_list_task_definition_families",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_ecs_list_container_instances",
+      title: "List ECS Container Instances",
       description: "List container instances in an ECS cluster",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         cluster: z.string().describe("Cluster name or ARN"),
         status: z
           .enum([
@@ -728,30 +1058,24 @@ export function createECSTools(): Tool[] {
           ])
           .optional()
           .describe("Filter by status"),
-        maxResults: z
-          .number()
-          .min(1)
-          .max(100)
-          .optional()
-          .describe("Maximum number of instances to return"),
-        nextToken: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(z.string()),
       async run(args) {
         try {
-          const command = new ListContainerInstancesCommand({
-            cluster: args.cluster,
-            status: args.status,
-            maxResults: args.maxResults,
-            nextToken: args.nextToken,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateListContainerInstances(
+                { client: getECSClient(args.region), ...config },
+                {
+                  cluster: args.cluster,
+                  status: args.status,
+                },
+              ),
+            items: (page) => page.containerInstanceArns || [],
+            nextToken: (page) => page.nextToken,
+            pageSize: { min: 1, max: 100 },
           })
-
-          const response = await getECSClient(args.region).send(command)
-
-          return {
-            containerInstanceArns: response.containerInstanceArns || [],
-            count: response.containerInstanceArns?.length || 0,
-            nextToken: response.nextToken,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -764,13 +1088,14 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_describe_container_instances",
+      title: "Describe ECS Container Instances",
       description: "Get detailed information about container instances",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         cluster: z.string().describe("Cluster name or ARN"),
         containerInstanceArns: z
           .array(z.string())
@@ -780,6 +1105,71 @@ export function createECSTools(): Tool[] {
           .optional()
           .describe("Additional information to include"),
       }),
+      output: z.object({
+        instances: z.array(
+          z.object({
+            containerInstanceArn: z.string().optional(),
+            ec2InstanceId: z.string().optional(),
+            capacityProviderName: z.string().optional(),
+            version: z.number().optional(),
+            versionInfo: z
+              .object({
+                agentVersion: z.string().optional(),
+                agentHash: z.string().optional(),
+                dockerVersion: z.string().optional(),
+              })
+              .optional(),
+            status: z.string().optional(),
+            statusReason: z.string().optional(),
+            agentConnected: z.boolean().optional(),
+            runningTasksCount: z.number().optional(),
+            pendingTasksCount: z.number().optional(),
+            registeredAt: z.string().optional(),
+            registeredResources: z
+              .array(
+                z.object({
+                  name: z.string().optional(),
+                  type: z.string().optional(),
+                  doubleValue: z.number().optional(),
+                  integerValue: z.number().optional(),
+                  longValue: z.number().optional(),
+                  stringSetValue: z.array(z.string()).optional(),
+                }),
+              )
+              .optional(),
+            remainingResources: z
+              .array(
+                z.object({
+                  name: z.string().optional(),
+                  type: z.string().optional(),
+                  doubleValue: z.number().optional(),
+                  integerValue: z.number().optional(),
+                  longValue: z.number().optional(),
+                  stringSetValue: z.array(z.string()).optional(),
+                }),
+              )
+              .optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+            healthStatus: awsObject().optional(),
+          }),
+        ),
+        count: z.number(),
+        failures: z
+          .array(
+            z.object({
+              arn: z.string().optional(),
+              reason: z.string().optional(),
+            }),
+          )
+          .optional(),
+      }),
       async run(args) {
         try {
           const command = new DescribeContainerInstancesCommand({
@@ -852,17 +1242,60 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_describe_capacity_providers",
+      title: "Describe ECS Capacity Providers",
       description: "Get detailed information about capacity providers",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         capacityProviders: z
           .array(z.string())
           .describe("Array of capacity provider names or ARNs to describe"),
       }),
+      output: z.object({
+        capacityProviders: z.array(
+          z.object({
+            capacityProviderArn: z.string().optional(),
+            name: z.string().optional(),
+            status: z.string().optional(),
+            autoScalingGroupProvider: z
+              .object({
+                autoScalingGroupArn: z.string().optional(),
+                managedScaling: z
+                  .object({
+                    status: z.string().optional(),
+                    targetCapacity: z.number().optional(),
+                    minimumScalingStepSize: z.number().optional(),
+                    maximumScalingStepSize: z.number().optional(),
+                  })
+                  .optional(),
+                managedTerminationProtection: z.string().optional(),
+              })
+              .optional(),
+            updateStatus: z.string().optional(),
+            updateStatusReason: z.string().optional(),
+            tags: z
+              .array(
+                z.object({
+                  key: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+          }),
+        ),
+        count: z.number(),
+        failures: z
+          .array(
+            z.object({
+              arn: z.string().optional(),
+              reason: z.string().optional(),
+            }),
+          )
+          .optional(),
+      }),
       async run(args) {
         try {
           const command = new DescribeCapacityProvidersCommand({
@@ -927,15 +1360,25 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_list_tags_for_resource",
+      title: "List ECS Resource Tags",
       description: "List tags for an ECS resource",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         resourceArn: z.string().describe("Resource ARN"),
       }),
+      output: z.object({
+        tags: z.array(
+          z.object({
+            key: z.string().optional(),
+            value: z.string().optional(),
+          }),
+        ),
+        count: z.number(),
+      }),
       async run(args) {
         try {
           const command = new ListTagsForResourceCommand({
@@ -964,14 +1407,15 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_get_cluster_overview",
+      title: "Get ECS Cluster Overview",
       description:
         "Get a comprehensive overview of an ECS cluster including status, task counts, services, and capacity providers",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         cluster: z.string().describe("Cluster name or ARN"),
         includeCapacityProviders: z
           .boolean()
@@ -979,7 +1423,35 @@ export function createECSTools(): Tool[] {
           .default(true)
           .describe("Include capacity provider information"),
       }),
-      async run(args) {
+      output: z.object({
+        clusterArn: z.string().optional(),
+        clusterName: z.string().optional(),
+        status: z.string().optional(),
+        registeredContainerInstancesCount: z.number().optional(),
+        runningTasksCount: z.number().optional(),
+        pendingTasksCount: z.number().optional(),
+        activeServicesCount: z.number().optional(),
+        serviceCount: z.number(),
+        capacityProviders: z.array(z.string()).optional(),
+        capacityProviderDetails: z
+          .array(
+            z.object({
+              name: z.string().optional(),
+              status: z.string().optional(),
+              autoScalingGroupArn: z.string().optional(),
+            }),
+          )
+          .optional(),
+        statistics: z
+          .array(
+            z.object({
+              name: z.string().optional(),
+              value: z.string().optional(),
+            }),
+          )
+          .optional(),
+      }),
+      async run(args, { signal, reportProgress }) {
         try {
           const client = getECSClient(args.region)
 
@@ -988,7 +1460,15 @@ export function createECSTools(): Tool[] {
             clusters: [args.cluster],
             include: ["STATISTICS"],
           })
-          const clusterResponse = await client.send(describeClustersCommand)
+          const steps = args.includeCapacityProviders ? 3 : 2
+          reportProgress({
+            progress: 0,
+            total: steps,
+            message: "Describing cluster",
+          })
+          const clusterResponse = await client.send(describeClustersCommand, {
+            abortSignal: signal,
+          })
 
           if (
             !clusterResponse.clusters ||
@@ -1007,7 +1487,14 @@ export function createECSTools(): Tool[] {
           const listServicesCommand = new ListServicesCommand({
             cluster: args.cluster,
           })
-          const servicesResponse = await client.send(listServicesCommand)
+          reportProgress({
+            progress: 1,
+            total: steps,
+            message: "Listing services",
+          })
+          const servicesResponse = await client.send(listServicesCommand, {
+            abortSignal: signal,
+          })
 
           // Get capacity providers if requested
           let capacityProviders = undefined
@@ -1016,8 +1503,14 @@ export function createECSTools(): Tool[] {
               new DescribeCapacityProvidersCommand({
                 capacityProviders: cluster.capacityProviders,
               })
+            reportProgress({
+              progress: 2,
+              total: steps,
+              message: "Describing capacity providers",
+            })
             const cpResponse = await client.send(
               describeCapacityProvidersCommand,
+              { abortSignal: signal },
             )
             capacityProviders = cpResponse.capacityProviders?.map((cp) => ({
               name: cp.name,
@@ -1056,14 +1549,15 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_get_service_overview",
+      title: "Get ECS Service Overview",
       description:
         "Get a comprehensive overview of an ECS service including status, deployments, task counts, and configuration",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         cluster: z.string().describe("Cluster name or ARN"),
         service: z.string().describe("Service name or ARN"),
         includeTaskDetails: z
@@ -1081,6 +1575,87 @@ export function createECSTools(): Tool[] {
             "Maximum number of tasks to include if includeTaskDetails is true",
           ),
       }),
+      output: z.object({
+        serviceArn: z.string().optional(),
+        serviceName: z.string().optional(),
+        status: z.string().optional(),
+        desiredCount: z.number().optional(),
+        runningCount: z.number().optional(),
+        pendingCount: z.number().optional(),
+        launchType: z.string().optional(),
+        platformVersion: z.string().optional(),
+        platformFamily: z.string().optional(),
+        taskDefinition: z.string().optional(),
+        taskDefinitionDetails: z
+          .object({
+            cpu: z.string().optional(),
+            memory: z.string().optional(),
+            networkMode: z.string().optional(),
+            requiresCompatibilities: z.array(z.string()).optional(),
+            containers: z
+              .array(
+                z.object({
+                  name: z.string().optional(),
+                  image: z.string().optional(),
+                  cpu: z.number().optional(),
+                  memory: z.number().optional(),
+                  logConfiguration: z
+                    .object({
+                      logDriver: z.string().optional(),
+                      options: awsObject().optional(),
+                    })
+                    .optional(),
+                }),
+              )
+              .optional(),
+          })
+          .optional(),
+        deployments: z
+          .array(
+            z.object({
+              id: z.string().optional(),
+              status: z.string().optional(),
+              desiredCount: z.number().optional(),
+              runningCount: z.number().optional(),
+              rolloutState: z.string().optional(),
+              createdAt: z.string().optional(),
+            }),
+          )
+          .optional(),
+        networkConfiguration: z
+          .object({
+            subnets: z.array(z.string()).optional(),
+            securityGroups: z.array(z.string()).optional(),
+            assignPublicIp: z.string().optional(),
+          })
+          .optional(),
+        recentEvents: z
+          .array(
+            z.object({
+              createdAt: z.string().optional(),
+              message: z.string().optional(),
+            }),
+          )
+          .optional(),
+        tasks: z
+          .array(
+            z.object({
+              taskArn: z.string().optional(),
+              lastStatus: z.string().optional(),
+              startedAt: z.string().optional(),
+              containers: z
+                .array(
+                  z.object({
+                    name: z.string().optional(),
+                    lastStatus: z.string().optional(),
+                    healthStatus: z.string().optional(),
+                  }),
+                )
+                .optional(),
+            }),
+          )
+          .optional(),
+      }),
       async run(args) {
         try {
           const client = getECSClient(args.region)
@@ -1221,17 +1796,52 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_get_task_logs_hints",
+      title: "Get ECS Task Logs Hints",
       description:
         "Get CloudWatch Logs configuration hints for an ECS task to help query logs",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         cluster: z.string().describe("Cluster name or ARN"),
         taskArn: z.string().describe("Task ARN"),
       }),
+      output: z.object({
+        taskArn: z.string().optional(),
+        taskDefinitionArn: z.string(),
+        lastStatus: z.string().optional(),
+        startedAt: z.string().optional(),
+        logConfigurations: z.array(
+          z.union([
+            z.object({
+              containerName: z.string().optional(),
+              logGroup: z.string(),
+              logStreamPrefix: z.string(),
+              logStreamPattern: z.string(),
+              region: z.string(),
+              logDriver: z.string(),
+            }),
+            z.object({
+              containerName: z.string().optional(),
+              logDriver: z.string(),
+              logGroup: z.undefined(),
+              logStreamPattern: z.undefined(),
+              logStreamPrefix: z.undefined().optional(),
+              region: z.undefined().optional(),
+            }),
+          ]),
+        ),
+        containers: z
+          .array(
+            z.object({
+              name: z.string().optional(),
+              lastStatus: z.string().optional(),
+            }),
+          )
+          .optional(),
+      }),
       async run(args) {
         try {
           const client = getECSClient(args.region)
@@ -1337,14 +1947,15 @@ export function createECSTools(): Tool[] {
 
     tool({
       name: "aws_ecs_get_service_events",
+      title: "Get ECS Service Events",
       description:
         "Get recent events for an ECS service with optional time filtering",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         cluster: z.string().describe("Cluster name or ARN"),
         service: z.string().describe("Service name or ARN"),
         sinceMinutes: z
@@ -1360,6 +1971,19 @@ export function createECSTools(): Tool[] {
           .default(20)
           .describe("Maximum number of events to return"),
       }),
+      output: z.object({
+        serviceArn: z.string().optional(),
+        serviceName: z.string().optional(),
+        events: z.array(
+          z.object({
+            id: z.string().optional(),
+            createdAt: z.string().optional(),
+            message: z.string().optional(),
+          }),
+        ),
+        count: z.number(),
+        totalEventsAvailable: z.number(),
+      }),
       async run(args) {
         try {
           const client = getECSClient(args.region)
@@ -1,4 +1,10 @@
 import { type Tool } from "../utils/tool"
+import {
+  createToolSelector,
+  filterTools,
+  parseToolPatterns,
+  type ToolGroups,
+} from "../utils/tool-profiles"
 import { createCloudFrontTools } from "./cloudfront"
 import { createCloudWatchTools } from "./cloudwatch"
 import { createCostTools } from "./cost"
@@ -6,17 +12,36 @@ import { createEC2Tools } from "./ec2"
 import { createECSTools } from "./ecs"
 import { createLambdaTools } from "./lambda"
 import { createRDSTools } from "./rds"
+import { createRegionTools } from "./regions"
 import { createS3Tools } from "./s3"
 import { createSQSTools } from "./sqs"
 
-export const tools: Tool[] = [
-  createCostTools(),
-  createCloudWatchTools(),
-  createS3Tools(),
-  createCloudFrontTools(),
-  createEC2Tools(),
-  createECSTools(),
-  createLambdaTools(),
-  createRDSTools(),
-  createSQSTools(),
-].flatMap((tools) => tools)
+/**
+ * Tools by service, group names can be used in `MCP_TOOLS` and tool profiles
+ */
+export const toolGroups = {
+  cost: createCostTools(),
+  cloudwatch: createCloudWatchTools(),
+  s3: createS3Tools(),
+  cloudfront: createCloudFrontTools(),
+  ec2: createEC2Tools(),
+  ecs: createECSTools(),
+  lambda: createLambdaTools(),
+  rds: createRDSTools(),
+  sqs: createSQSTools(),
+  regions: createRegionTools(),
+} satisfies ToolGroups
+
+/**
+ * Tools enabled in the deployment by `MCP_TOOLS`, e.g. `ec2,ecs,aws_cost_*`, all tools by default
+ */
+export const tools: Tool[] = filterTools(
+  Object.values(toolGroups).flat(),
+  parseToolPatterns(process.env.MCP_TOOLS),
+  toolGroups,
+)
+
+/**
+ * Narrow tools to the profiles of a request
+ */
+export const selectTools = createToolSelector(toolGroups)
@@ -2,120 +2,200 @@ import {
   GetAccountSettingsCommand,
   GetFunctionCommand,
   LambdaClient,
-  ListFunctionsCommand,
-  ListLayersCommand,
+  paginateListFunctions,
+  paginateListLayers,
 } from "@aws-sdk/client-lambda"
 import { z } from "zod"
 
+import { getAwsClient } from "~/utils/aws-client"
 import {
-  AWS_REGIONS,
+  awsRegion,
   type AwsRegion,
-  DEFAULT_AWS_REGION,
+  getDefaultAwsRegion,
 } from "~/utils/aws-region"
-import { type Tool, tool } from "~/utils/tool"
+import { multiRegion } from "~/utils/multi-region"
+import { paginate, paginatedOutput, paginationArgs } from "~/utils/pagination"
+import { awsObject, READ_ONLY_ANNOTATIONS, type Tool, tool } from "~/utils/tool"
 import { ToolError } from "~/utils/tool-error"
 
 export function createLambdaTools(): Tool[] {
-  const getLambdaClient = (region: AwsRegion = DEFAULT_AWS_REGION) => {
-    return new LambdaClient({ region })
+  const getLambdaClient = (region: AwsRegion = getDefaultAwsRegion()) => {
+    return getAwsClient(LambdaClient, { service: "lambda", region })
   }
 
   return [
-    tool({
-      name: "aws_lambda_list_functions",
-      description: "List Lambda functions with optional filtering",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        functionVersion: z
-          .enum(["ALL"])
-          .optional()
-          .describe("Function version to list"),
-        marker: z.string().optional().describe("Pagination marker"),
-        maxItems: z
-          .number()
-          .min(1)
-          .max(10000)
-          .optional()
-          .describe("Maximum functions to return"),
-        masterRegion: z
-          .string()
-          .optional()
-          .describe("Master region for global functions"),
-      }),
-      async run(args) {
-        try {
-          const command = new ListFunctionsCommand({
-            FunctionVersion: args.functionVersion,
-            Marker: args.marker,
-            MaxItems: args.maxItems,
-            MasterRegion: args.masterRegion,
-          })
-
-          const response = await getLambdaClient(args.region).send(command)
-
-          const functions =
-            response.Functions?.map((func) => ({
-              functionName: func.FunctionName,
-              functionArn: func.FunctionArn,
-              runtime: func.Runtime,
-              role: func.Role,
-              handler: func.Handler,
-              codeSize: func.CodeSize,
-              description: func.Description,
-              timeout: func.Timeout,
-              memorySize: func.MemorySize,
-              lastModified: func.LastModified,
-              codeSha256: func.CodeSha256,
-              version: func.Version,
-              environment: func.Environment?.Variables,
-              kmsKeyArn: func.KMSKeyArn,
-              tracingConfig: func.TracingConfig?.Mode,
-              masterArn: func.MasterArn,
-              revisionId: func.RevisionId,
-              layers: func.Layers?.map((layer) => ({
-                arn: layer.Arn,
-                codeSize: layer.CodeSize,
-                signingProfileVersionArn: layer.SigningProfileVersionArn,
-                signingJobArn: layer.SigningJobArn,
-              })),
-              state: func.State,
-              stateReason: func.StateReason,
-              lastUpdateStatus: func.LastUpdateStatus,
-              packageType: func.PackageType,
-              architectures: func.Architectures,
-            })) || []
-
-          return {
-            functions,
-            count: functions.length,
-            nextMarker: response.NextMarker,
+    multiRegion(
+      tool({
+        name: "aws_lambda_list_functions",
+        title: "List Lambda Functions",
+        description: "List Lambda functions with optional filtering",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          functionVersion: z
+            .enum(["ALL"])
+            .optional()
+            .describe("Function version to list"),
+          masterRegion: z
+            .string()
+            .optional()
+            .describe("Master region for global functions"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            functionName: z.string().optional(),
+            functionArn: z.string().optional(),
+            runtime: z.string().optional(),
+            role: z.string().optional(),
+            handler: z.string().optional(),
+            codeSize: z.number().optional(),
+            description: z.string().optional(),
+            timeout: z.number().optional(),
+            memorySize: z.number().optional(),
+            lastModified: z.string().optional(),
+            codeSha256: z.string().optional(),
+            version: z.string().optional(),
+            environment: awsObject().optional(),
+            kmsKeyArn: z.string().optional(),
+            tracingConfig: z.string().optional(),
+            masterArn: z.string().optional(),
+            revisionId: z.string().optional(),
+            layers: z
+              .array(
+                z.object({
+                  arn: z.string().optional(),
+                  codeSize: z.number().optional(),
+                  signingProfileVersionArn: z.string().optional(),
+                  signingJobArn: z.string().optional(),
+                }),
+              )
+              .optional(),
+            state: z.string().optional(),
+            stateReason: z.string().optional(),
+            lastUpdateStatus: z.string().optional(),
+            packageType: z.string().optional(),
+            architectures: z.array(z.string()).optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateListFunctions(
+                  { client: getLambdaClient(args.region), ...config },
+                  {
+                    FunctionVersion: args.functionVersion,
+                    MasterRegion: args.masterRegion,
+                  },
+                ),
+              items: (page) =>
+                page.Functions?.map((func) => ({
+                  functionName: func.FunctionName,
+                  functionArn: func.FunctionArn,
+                  runtime: func.Runtime,
+                  role: func.Role,
+                  handler: func.Handler,
+                  codeSize: func.CodeSize,
+                  description: func.Description,
+                  timeout: func.Timeout,
+                  memorySize: func.MemorySize,
+                  lastModified: func.LastModified,
+                  codeSha256: func.CodeSha256,
+                  version: func.Version,
+                  environment: func.Environment?.Variables,
+                  kmsKeyArn: func.KMSKeyArn,
+                  tracingConfig: func.TracingConfig?.Mode,
+                  masterArn: func.MasterArn,
+                  revisionId: func.RevisionId,
+                  layers: func.Layers?.map((layer) => ({
+                    arn: layer.Arn,
+                    codeSize: layer.CodeSize,
+                    signingProfileVersionArn: layer.SigningProfileVersionArn,
+                    signingJobArn: layer.SigningJobArn,
+                  })),
+                  state: func.State,
+                  stateReason: func.StateReason,
+                  lastUpdateStatus: func.LastUpdateStatus,
+                  packageType: func.PackageType,
+                  architectures: func.Architectures,
+                })) || [],
+              nextToken: (page) => page.NextMarker,
+              pageSize: { min: 1, max: 50 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_lambda_list_functions",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_lambda_list_functions",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_lambda_get_function",
+      title: "Get Lambda Function",
       description: "Get detailed information about a Lambda function",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         functionName: z.string().describe("Function name, ARN, or partial ARN"),
         qualifier: z.string().optional().describe("Function version or alias"),
       }),
+      output: z.object({
+        configuration: z
+          .object({
+            functionName: z.string().optional(),
+            functionArn: z.string().optional(),
+            runtime: z.string().optional(),
+            role: z.string().optional(),
+            handler: z.string().optional(),
+            codeSize: z.number().optional(),
+            description: z.string().optional(),
+            timeout: z.number().optional(),
+            memorySize: z.number().optional(),
+            lastModified: z.string().optional(),
+            codeSha256: z.string().optional(),
+            version: z.string().optional(),
+            environment: awsObject().optional(),
+            kmsKeyArn: z.string().optional(),
+            tracingConfig: z.string().optional(),
+            masterArn: z.string().optional(),
+            revisionId: z.string().optional(),
+            state: z.string().optional(),
+            stateReason: z.string().optional(),
+            lastUpdateStatus: z.string().optional(),
+            packageType: z.string().optional(),
+            architectures: z.array(z.string()).optional(),
+            ephemeralStorage: z.number().optional(),
+            deadLetterConfig: z.string().optional(),
+            vpcConfig: z
+              .object({
+                subnetIds: z.array(z.string()).optional(),
+                securityGroupIds: z.array(z.string()).optional(),
+                vpcId: z.string().optional(),
+              })
+              .optional(),
+          })
+          .optional(),
+        code: z
+          .object({
+            repositoryType: z.string().optional(),
+            location: z.string().optional(),
+            imageUri: z.string().optional(),
+            resolvedImageUri: z.string().optional(),
+          })
+          .optional(),
+        tags: awsObject().optional(),
+      }),
       async run(args) {
         try {
           const command = new GetFunctionCommand({
@@ -184,98 +264,127 @@ export function createLambdaTools(): Tool[] {
       },
     }),
 
-    tool({
-      name: "aws_lambda_list_layers",
-      description: "List Lambda layers",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        compatibleRuntime: z
-          .enum([
-            "python3.9",
-            "dotnet8",
-            "go1.x",
-            "ruby2.5",
-            "ruby2.7",
-            "provided",
-            "provided.al2",
-            "nodejs18.x",
-            "nodejs20.x",
-            "nodejs22.x",
-            "nodejs24.x",
-          ] as const)
-          .optional()
-          .describe("Runtime to filter layers by"),
-        marker: z.string().optional().describe("Pagination marker"),
-        maxItems: z
-          .number()
-          .min(1)
-          .max(10000)
-          .optional()
-          .describe("Maximum layers to return"),
-        compatibleArchitecture: z
-          .enum(["x86_64", "arm64"])
-          .optional()
-          .describe("Architecture compatibility"),
-      }),
-      async run(args) {
-        try {
-          const command = new ListLayersCommand({
-            CompatibleRuntime: args.compatibleRuntime,
-            Marker: args.marker,
-            MaxItems: args.maxItems,
-            CompatibleArchitecture: args.compatibleArchitecture,
-          })
-
-          const response = await getLambdaClient(args.region).send(command)
-
-          const layers =
-            response.Layers?.map((layer) => ({
-              layerName: layer.LayerName,
-              layerArn: layer.LayerArn,
-              latestMatchingVersion: layer.LatestMatchingVersion
-                ? {
-                    layerVersionArn:
-                      layer.LatestMatchingVersion.LayerVersionArn,
-                    version: layer.LatestMatchingVersion.Version,
-                    description: layer.LatestMatchingVersion.Description,
-                    createdDate: layer.LatestMatchingVersion.CreatedDate,
-                    compatibleRuntimes:
-                      layer.LatestMatchingVersion.CompatibleRuntimes,
-                    licenseInfo: layer.LatestMatchingVersion.LicenseInfo,
-                    compatibleArchitectures:
-                      layer.LatestMatchingVersion.CompatibleArchitectures,
-                  }
-                : undefined,
-            })) || []
-
-          return {
-            layers,
-            count: layers.length,
-            nextMarker: response.NextMarker,
+    multiRegion(
+      tool({
+        name: "aws_lambda_list_layers",
+        title: "List Lambda Layers",
+        description: "List Lambda layers",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          compatibleRuntime: z
+            .enum([
+              "python3.9",
+              "dotnet8",
+              "go1.x",
+              "ruby2.5",
+              "ruby2.7",
+              "provided",
+              "provided.al2",
+              "nodejs18.x",
+              "nodejs20.x",
+              "nodejs22.x",
+              "nodejs24.x",
+            ] as const)
+            .optional()
+            .describe("Runtime to filter layers by"),
+          compatibleArchitecture: z
+            .enum(["x86_64", "arm64"])
+            .optional()
+            .describe("Architecture compatibility"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            layerName: z.string().optional(),
+            layerArn: z.string().optional(),
+            latestMatchingVersion: z
+              .object({
+                layerVersionArn: z.string().optional(),
+                version: z.number().optional(),
+                description: z.string().optional(),
+                createdDate: z.string().optional(),
+                compatibleRuntimes: z.array(z.string()).optional(),
+                licenseInfo: z.string().optional(),
+                compatibleArchitectures: z.array(z.string()).optional(),
+              })
+              .optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateListLayers(
+                  { client: getLambdaClient(args.region), ...config },
+                  {
+                    CompatibleRuntime: args.compatibleRuntime,
+                    CompatibleArchitecture: args.compatibleArchitecture,
+                  },
+                ),
+              items: (page) =>
+                page.Layers?.map((layer) => ({
+                  layerName: layer.LayerName,
+                  layerArn: layer.LayerArn,
+                  latestMatchingVersion: layer.LatestMatchingVersion
+                    ? {
+                        layerVersionArn:
+                          layer.LatestMatchingVersion.LayerVersionArn,
+                        version: layer.LatestMatchingVersion.Version,
+                        description: layer.LatestMatchingVersion.Description,
+                        createdDate: layer.LatestMatchingVersion.CreatedDate,
+                        compatibleRuntimes:
+                          layer.LatestMatchingVersion.CompatibleRuntimes,
+                        licenseInfo: layer.LatestMatchingVersion.LicenseInfo,
+                        compatibleArchitectures:
+                          layer.LatestMatchingVersion.CompatibleArchitectures,
+                      }
+                    : undefined,
+                })) || [],
+              nextToken: (page) => page.NextMarker,
+              pageSize: { min: 1, max: 50 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_lambda_list_layers",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_lambda_list_layers",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_lambda_get_account_settings",
+      title: "Get Lambda Account Settings",
       description: "Get Lambda account-level settings and limits",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
+      }),
+      output: z.object({
+        accountLimit: z
+          .object({
+            totalCodeSize: z.number().optional(),
+            codeSizeUnzipped: z.number().optional(),
+            codeSizeZipped: z.number().optional(),
+            concurrentExecutions: z.number().optional(),
+            unreservedConcurrentExecutions: z.number().optional(),
+          })
+          .optional(),
+        accountUsage: z
+          .object({
+            totalCodeSize: z.number().optional(),
+            functionCount: z.number().optional(),
+          })
+          .optional(),
       }),
       async run(args) {
         try {
@@ -1,197 +1,409 @@
 import {
   DescribeDBClustersCommand,
-  DescribeDBClusterSnapshotsCommand,
-  DescribeDBEngineVersionsCommand,
   DescribeDBInstancesCommand,
-  DescribeDBParameterGroupsCommand,
-  DescribeDBParametersCommand,
-  DescribeDBSnapshotsCommand,
-  DescribeDBSubnetGroupsCommand,
-  DescribeReservedDBInstancesCommand,
-  DescribeReservedDBInstancesOfferingsCommand,
+  paginateDescribeDBClusters,
+  paginateDescribeDBClusterSnapshots,
+  paginateDescribeDBEngineVersions,
+  paginateDescribeDBInstances,
+  paginateDescribeDBParameterGroups,
+  paginateDescribeDBParameters,
+  paginateDescribeDBSnapshots,
+  paginateDescribeDBSubnetGroups,
+  paginateDescribeReservedDBInstances,
+  paginateDescribeReservedDBInstancesOfferings,
   RDSClient,
 } from "@aws-sdk/client-rds"
 import { z } from "zod"
 
+import { getAwsClient } from "~/utils/aws-client"
 import {
-  AWS_REGIONS,
+  awsRegion,
   type AwsRegion,
-  DEFAULT_AWS_REGION,
+  getDefaultAwsRegion,
 } from "~/utils/aws-region"
-import { type Tool, tool } from "~/utils/tool"
+import { multiRegion } from "~/utils/multi-region"
+import { paginate, paginatedOutput, paginationArgs } from "~/utils/pagination"
+import { awsObject, READ_ONLY_ANNOTATIONS, type Tool, tool } from "~/utils/tool"
 import { ToolError } from "~/utils/tool-error"
 
 export function createRDSTools(): Tool[] {
-  const getRDSClient = (region: AwsRegion = DEFAULT_AWS_REGION) => {
-    return new RDSClient({ region })
+  const getRDSClient = (region: AwsRegion = getDefaultAwsRegion()) => {
+    return getAwsClient(RDSClient, { service: "rds", region })
   }
 
   return [
-    tool({
-      name: "aws_rds_list_db_instances",
-      description: "List all RDS DB instances with optional filtering",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        dbInstanceIdentifier: z
-          .string()
-          .optional()
-          .describe("DB instance identifier to filter by"),
-        maxRecords: z
-          .number()
-          .min(20)
-          .max(100)
-          .optional()
-          .describe("Maximum number of records to return"),
-        marker: z.string().optional().describe("Pagination token"),
-        filters: z
-          .array(
-            z.object({
-              name: z.string().describe("Filter name"),
-              values: z.array(z.string()).describe("Filter values"),
-            }),
-          )
-          .optional()
-          .describe("Filters to apply"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeDBInstancesCommand({
-            DBInstanceIdentifier: args.dbInstanceIdentifier,
-            MaxRecords: args.maxRecords,
-            Marker: args.marker,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
-          })
-
-          const response = await getRDSClient(args.region).send(command)
-
-          const dbInstances =
-            response.DBInstances?.map((instance) => ({
-              dbInstanceIdentifier: instance.DBInstanceIdentifier,
-              dbInstanceClass: instance.DBInstanceClass,
-              engine: instance.Engine,
-              engineVersion: instance.EngineVersion,
-              dbInstanceStatus: instance.DBInstanceStatus,
-              masterUsername: instance.MasterUsername,
-              dbName: instance.DBName,
-              allocatedStorage: instance.AllocatedStorage,
-              storageType: instance.StorageType,
-              iops: instance.Iops,
-              storageEncrypted: instance.StorageEncrypted,
-              kmsKeyId: instance.KmsKeyId,
-              dbInstanceArn: instance.DBInstanceArn,
-              availabilityZone: instance.AvailabilityZone,
-              multiAZ: instance.MultiAZ,
-              publiclyAccessible: instance.PubliclyAccessible,
-              vpcId: instance.DBSubnetGroup?.VpcId,
-              subnetGroupName: instance.DBSubnetGroup?.DBSubnetGroupName,
-              preferredBackupWindow: instance.PreferredBackupWindow,
-              backupRetentionPeriod: instance.BackupRetentionPeriod,
-              preferredMaintenanceWindow: instance.PreferredMaintenanceWindow,
-              latestRestorableTime:
-                instance.LatestRestorableTime?.toISOString(),
-              autoMinorVersionUpgrade: instance.AutoMinorVersionUpgrade,
-              readReplicaDBInstanceIdentifiers:
-                instance.ReadReplicaDBInstanceIdentifiers,
-              readReplicaDBClusterIdentifiers:
-                instance.ReadReplicaDBClusterIdentifiers,
-              licenseModel: instance.LicenseModel,
-              optionGroupMemberships: instance.OptionGroupMemberships?.map(
-                (ogm) => ({
-                  optionGroupName: ogm.OptionGroupName,
-                  status: ogm.Status,
+    multiRegion(
+      tool({
+        name: "aws_rds_list_db_instances",
+        title: "List RDS DB Instances",
+        description: "List all RDS DB instances with optional filtering",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          dbInstanceIdentifier: z
+            .string()
+            .optional()
+            .describe("DB instance identifier to filter by"),
+          filters: z
+            .array(
+              z.object({
+                name: z.string().describe("Filter name"),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe("Filters to apply"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            dbInstanceIdentifier: z.string().optional(),
+            dbInstanceClass: z.string().optional(),
+            engine: z.string().optional(),
+            engineVersion: z.string().optional(),
+            dbInstanceStatus: z.string().optional(),
+            masterUsername: z.string().optional(),
+            dbName: z.string().optional(),
+            allocatedStorage: z.number().optional(),
+            storageType: z.string().optional(),
+            iops: z.number().optional(),
+            storageEncrypted: z.boolean().optional(),
+            kmsKeyId: z.string().optional(),
+            dbInstanceArn: z.string().optional(),
+            availabilityZone: z.string().optional(),
+            multiAZ: z.boolean().optional(),
+            publiclyAccessible: z.boolean().optional(),
+            vpcId: z.string().optional(),
+            subnetGroupName: z.string().optional(),
+            preferredBackupWindow: z.string().optional(),
+            backupRetentionPeriod: z.number().optional(),
+            preferredMaintenanceWindow: z.string().optional(),
+            latestRestorableTime: z.string().optional(),
+            autoMinorVersionUpgrade: z.boolean().optional(),
+            readReplicaDBInstanceIdentifiers: z.array(z.string()).optional(),
+            readReplicaDBClusterIdentifiers: z.array(z.string()).optional(),
+            licenseModel: z.string().optional(),
+            optionGroupMemberships: z
+              .array(
+                z.object({
+                  optionGroupName: z.string().optional(),
+                  status: z.string().optional(),
                 }),
-              ),
-              characterSetName: instance.CharacterSetName,
-              secondaryAvailabilityZone: instance.SecondaryAvailabilityZone,
-              statusInfos: instance.StatusInfos?.map((si) => ({
-                statusType: si.StatusType,
-                normal: si.Normal,
-                status: si.Status,
-                message: si.Message,
-              })),
-              storageThroughput: instance.StorageThroughput,
-              dbInstancePort: instance.DbInstancePort,
-              dbClusterIdentifier: instance.DBClusterIdentifier,
-              enhancedMonitoringResourceArn:
-                instance.EnhancedMonitoringResourceArn,
-              monitoringInterval: instance.MonitoringInterval,
-              monitoringRoleArn: instance.MonitoringRoleArn,
-              performanceInsightsEnabled: instance.PerformanceInsightsEnabled,
-              performanceInsightsKMSKeyId: instance.PerformanceInsightsKMSKeyId,
-              performanceInsightsRetentionPeriod:
-                instance.PerformanceInsightsRetentionPeriod,
-              enabledCloudwatchLogsExports:
-                instance.EnabledCloudwatchLogsExports,
-              processorFeatures: instance.ProcessorFeatures?.map((pf) => ({
-                name: pf.Name,
-                value: pf.Value,
-              })),
-              deletionProtection: instance.DeletionProtection,
-              associatedRoles: instance.AssociatedRoles?.map((ar) => ({
-                roleArn: ar.RoleArn,
-                featureName: ar.FeatureName,
-                status: ar.Status,
-              })),
-              listenerEndpoint: instance.ListenerEndpoint
-                ? {
-                    address: instance.ListenerEndpoint.Address,
-                    port: instance.ListenerEndpoint.Port,
-                    hostedZoneId: instance.ListenerEndpoint.HostedZoneId,
-                  }
-                : undefined,
-              maxAllocatedStorage: instance.MaxAllocatedStorage,
-              tagList: instance.TagList,
-              dbInstanceAutomatedBackupsReplications:
-                instance.DBInstanceAutomatedBackupsReplications?.map((b) => ({
-                  dbInstanceAutomatedBackupsArn:
-                    b.DBInstanceAutomatedBackupsArn,
-                })),
-              customerOwnedIpEnabled: instance.CustomerOwnedIpEnabled,
-              awsBackupRecoveryPointArn: instance.AwsBackupRecoveryPointArn,
-              activityStreamStatus: instance.ActivityStreamStatus,
-              activityStreamKmsKeyId: instance.ActivityStreamKmsKeyId,
-              activityStreamMode: instance.ActivityStreamMode,
-              activityStreamEngineNativeAuditFieldsIncluded:
-                instance.ActivityStreamEngineNativeAuditFieldsIncluded,
-              automationMode: instance.AutomationMode,
-              resumeFullAutomationModeTime:
-                instance.ResumeFullAutomationModeTime?.toISOString(),
-              dbInstanceCreateTime: instance.InstanceCreateTime?.toISOString(),
-            })) || []
-
-          return {
-            dbInstances,
-            count: dbInstances.length,
-            marker: response.Marker,
+              )
+              .optional(),
+            characterSetName: z.string().optional(),
+            secondaryAvailabilityZone: z.string().optional(),
+            statusInfos: z
+              .array(
+                z.object({
+                  statusType: z.string().optional(),
+                  normal: z.boolean().optional(),
+                  status: z.string().optional(),
+                  message: z.string().optional(),
+                }),
+              )
+              .optional(),
+            storageThroughput: z.number().optional(),
+            dbInstancePort: z.number().optional(),
+            dbClusterIdentifier: z.string().optional(),
+            enhancedMonitoringResourceArn: z.string().optional(),
+            monitoringInterval: z.number().optional(),
+            monitoringRoleArn: z.string().optional(),
+            performanceInsightsEnabled: z.boolean().optional(),
+            performanceInsightsKMSKeyId: z.string().optional(),
+            performanceInsightsRetentionPeriod: z.number().optional(),
+            enabledCloudwatchLogsExports: z.array(z.string()).optional(),
+            processorFeatures: z
+              .array(
+                z.object({
+                  name: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+            deletionProtection: z.boolean().optional(),
+            associatedRoles: z
+              .array(
+                z.object({
+                  roleArn: z.string().optional(),
+                  featureName: z.string().optional(),
+                  status: z.string().optional(),
+                }),
+              )
+              .optional(),
+            listenerEndpoint: z
+              .object({
+                address: z.string().optional(),
+                port: z.number().optional(),
+                hostedZoneId: z.string().optional(),
+              })
+              .optional(),
+            maxAllocatedStorage: z.number().optional(),
+            tagList: z.array(awsObject()).optional(),
+            dbInstanceAutomatedBackupsReplications: z
+              .array(
+                z.object({
+                  dbInstanceAutomatedBackupsArn: z.string().optional(),
+                }),
+              )
+              .optional(),
+            customerOwnedIpEnabled: z.boolean().optional(),
+            awsBackupRecoveryPointArn: z.string().optional(),
+            activityStreamStatus: z.string().optional(),
+            activityStreamKmsKeyId: z.string().optional(),
+            activityStreamMode: z.string().optional(),
+            activityStreamEngineNativeAuditFieldsIncluded: z
+              .boolean()
+              .optional(),
+            automationMode: z.string().optional(),
+            resumeFullAutomationModeTime: z.string().optional(),
+            dbInstanceCreateTime: z.string().optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeDBInstances(
+                  { client: getRDSClient(args.region), ...config },
+                  {
+                    DBInstanceIdentifier: args.dbInstanceIdentifier,
+                    Filters: args.filters?.map((f) => ({
+                      Name: f.name,
+                      Values: f.values,
+                    })),
+                  },
+                ),
+              items: (page) =>
+                page.DBInstances?.map((instance) => ({
+                  dbInstanceIdentifier: instance.DBInstanceIdentifier,
+                  dbInstanceClass: instance.DBInstanceClass,
+                  engine: instance.Engine,
+                  engineVersion: instance.EngineVersion,
+                  dbInstanceStatus: instance.DBInstanceStatus,
+                  masterUsername: instance.MasterUsername,
+                  dbName: instance.DBName,
+                  allocatedStorage: instance.AllocatedStorage,
+                  storageType: instance.StorageType,
+                  iops: instance.Iops,
+                  storageEncrypted: instance.StorageEncrypted,
+                  kmsKeyId: instance.KmsKeyId,
+                  dbInstanceArn: instance.DBInstanceArn,
+                  availabilityZone: instance.AvailabilityZone,
+                  multiAZ: instance.MultiAZ,
+                  publiclyAccessible: instance.PubliclyAccessible,
+                  vpcId: instance.DBSubnetGroup?.VpcId,
+                  subnetGroupName: instance.DBSubnetGroup?.DBSubnetGroupName,
+                  preferredBackupWindow: instance.PreferredBackupWindow,
+                  backupRetentionPeriod: instance.BackupRetentionPeriod,
+                  preferredMaintenanceWindow:
+                    instance.PreferredMaintenanceWindow,
+                  latestRestorableTime:
+                    instance.LatestRestorableTime?.toISOString(),
+                  autoMinorVersionUpgrade: instance.AutoMinorVersionUpgrade,
+                  readReplicaDBInstanceIdentifiers:
+                    instance.ReadReplicaDBInstanceIdentifiers,
+                  readReplicaDBClusterIdentifiers:
+                    instance.ReadReplicaDBClusterIdentifiers,
+                  licenseModel: instance.LicenseModel,
+                  optionGroupMemberships: instance.OptionGroupMemberships?.map(
+                    (ogm) => ({
+                      optionGroupName: ogm.OptionGroupName,
+                      status: ogm.Status,
+                    }),
+                  ),
+                  characterSetName: instance.CharacterSetName,
+                  secondaryAvailabilityZone: instance.SecondaryAvailabilityZone,
+                  statusInfos: instance.StatusInfos?.map((si) => ({
+                    statusType: si.StatusType,
+                    normal: si.Normal,
+                    status: si.Status,
+                    message: si.Message,
+                  })),
+                  storageThroughput: instance.StorageThroughput,
+                  dbInstancePort: instance.DbInstancePort,
+                  dbClusterIdentifier: instance.DBClusterIdentifier,
+                  enhancedMonitoringResourceArn:
+                    instance.EnhancedMonitoringResourceArn,
+                  monitoringInterval: instance.MonitoringInterval,
+                  monitoringRoleArn: instance.MonitoringRoleArn,
+                  performanceInsightsEnabled:
+                    instance.PerformanceInsightsEnabled,
+                  performanceInsightsKMSKeyId:
+                    instance.PerformanceInsightsKMSKeyId,
+                  performanceInsightsRetentionPeriod:
+                    instance.PerformanceInsightsRetentionPeriod,
+                  enabledCloudwatchLogsExports:
+                    instance.EnabledCloudwatchLogsExports,
+                  processorFeatures: instance.ProcessorFeatures?.map((pf) => ({
+                    name: pf.Name,
+                    value: pf.Value,
+                  })),
+                  deletionProtection: instance.DeletionProtection,
+                  associatedRoles: instance.AssociatedRoles?.map((ar) => ({
+                    roleArn: ar.RoleArn,
+                    featureName: ar.FeatureName,
+                    status: ar.Status,
+                  })),
+                  listenerEndpoint: instance.ListenerEndpoint
+                    ? {
+                        address: instance.ListenerEndpoint.Address,
+                        port: instance.ListenerEndpoint.Port,
+                        hostedZoneId: instance.ListenerEndpoint.HostedZoneId,
+                      }
+                    : undefined,
+                  maxAllocatedStorage: instance.MaxAllocatedStorage,
+                  tagList: instance.TagList,
+                  dbInstanceAutomatedBackupsReplications:
+                    instance.DBInstanceAutomatedBackupsReplications?.map(
+                      (b) => ({
+                        dbInstanceAutomatedBackupsArn:
+                          b.DBInstanceAutomatedBackupsArn,
+                      }),
+                    ),
+                  customerOwnedIpEnabled: instance.CustomerOwnedIpEnabled,
+                  awsBackupRecoveryPointArn: instance.AwsBackupRecoveryPointArn,
+                  activityStreamStatus: instance.ActivityStreamStatus,
+                  activityStreamKmsKeyId: instance.ActivityStreamKmsKeyId,
+                  activityStreamMode: instance.ActivityStreamMode,
+                  activityStreamEngineNativeAuditFieldsIncluded:
+                    instance.ActivityStreamEngineNativeAuditFieldsIncluded,
+                  automationMode: instance.AutomationMode,
+                  resumeFullAutomationModeTime:
+                    instance.ResumeFullAutomationModeTime?.toISOString(),
+                  dbInstanceCreateTime:
+                    instance.InstanceCreateTime?.toISOString(),
+                })) || [],
+              nextToken: (page) => page.Marker,
+              pageSize: { min: 20, max: 100 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_rds_list_db_instances",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_rds_list_db_instances",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_rds_describe_db_instance",
+      title: "Describe RDS DB Instance",
       description: "Get detailed information about a specific DB instance",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         dbInstanceIdentifier: z.string().describe("DB instance identifier"),
       }),
+      output: z.object({
+        dbInstanceIdentifier: z.string().optional(),
+        dbInstanceClass: z.string().optional(),
+        engine: z.string().optional(),
+        engineVersion: z.string().optional(),
+        dbInstanceStatus: z.string().optional(),
+        masterUsername: z.string().optional(),
+        dbName: z.string().optional(),
+        allocatedStorage: z.number().optional(),
+        storageType: z.string().optional(),
+        iops: z.number().optional(),
+        storageEncrypted: z.boolean().optional(),
+        kmsKeyId: z.string().optional(),
+        dbInstanceArn: z.string().optional(),
+        availabilityZone: z.string().optional(),
+        multiAZ: z.boolean().optional(),
+        publiclyAccessible: z.boolean().optional(),
+        vpcId: z.string().optional(),
+        subnetGroupName: z.string().optional(),
+        preferredBackupWindow: z.string().optional(),
+        backupRetentionPeriod: z.number().optional(),
+        preferredMaintenanceWindow: z.string().optional(),
+        latestRestorableTime: z.string().optional(),
+        autoMinorVersionUpgrade: z.boolean().optional(),
+        readReplicaDBInstanceIdentifiers: z.array(z.string()).optional(),
+        readReplicaDBClusterIdentifiers: z.array(z.string()).optional(),
+        licenseModel: z.string().optional(),
+        optionGroupMemberships: z
+          .array(
+            z.object({
+              optionGroupName: z.string().optional(),
+              status: z.string().optional(),
+            }),
+          )
+          .optional(),
+        characterSetName: z.string().optional(),
+        secondaryAvailabilityZone: z.string().optional(),
+        statusInfos: z
+          .array(
+            z.object({
+              statusType: z.string().optional(),
+              normal: z.boolean().optional(),
+              status: z.string().optional(),
+              message: z.string().optional(),
+            }),
+          )
+          .optional(),
+        storageThroughput: z.number().optional(),
+        dbInstancePort: z.number().optional(),
+        dbClusterIdentifier: z.string().optional(),
+        enhancedMonitoringResourceArn: z.string().optional(),
+        monitoringInterval: z.number().optional(),
+        monitoringRoleArn: z.string().optional(),
+        performanceInsightsEnabled: z.boolean().optional(),
+        performanceInsightsKMSKeyId: z.string().optional(),
+        performanceInsightsRetentionPeriod: z.number().optional(),
+        enabledCloudwatchLogsExports: z.array(z.string()).optional(),
+        processorFeatures: z
+          .array(
+            z.object({
+              name: z.string().optional(),
+              value: z.string().optional(),
+            }),
+          )
+          .optional(),
+        deletionProtection: z.boolean().optional(),
+        associatedRoles: z
+          .array(
+            z.object({
+              roleArn: z.string().optional(),
+              featureName: z.string().optional(),
+              status: z.string().optional(),
+            }),
+          )
+          .optional(),
+        listenerEndpoint: z
+          .object({
+            address: z.string().optional(),
+            port: z.number().optional(),
+            hostedZoneId: z.string().optional(),
+          })
+          .optional(),
+        maxAllocatedStorage: z.number().optional(),
+        tagList: z.array(awsObject()).optional(),
+        dbInstanceAutomatedBackupsReplications: z
+          .array(
+            z.object({
+              dbInstanceAutomatedBackupsArn: z.string().optional(),
+            }),
+          )
+          .optional(),
+        customerOwnedIpEnabled: z.boolean().optional(),
+        awsBackupRecoveryPointArn: z.string().optional(),
+        activityStreamStatus: z.string().optional(),
+        activityStreamKmsKeyId: z.string().optional(),
+        activityStreamMode: z.string().optional(),
+        activityStreamEngineNativeAuditFieldsIncluded: z.boolean().optional(),
+        automationMode: z.string().optional(),
+        resumeFullAutomationModeTime: z.string().optional(),
+        dbInstanceCreateTime: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new DescribeDBInstancesCommand({
@@ -309,180 +521,388 @@ export function createRDSTools(): Tool[] {
       },
     }),
 
+    multiRegion(
+      tool({
+        name: "aws_rds_list_db_clusters",
+        title: "List RDS DB Clusters",
+        description: "List Aurora/RDS clusters with optional filtering",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          dbClusterIdentifier: z
+            .string()
+            .optional()
+            .describe("DB cluster identifier to filter by"),
+          filters: z
+            .array(
+              z.object({
+                name: z.string().describe("Filter name"),
+                values: z.array(z.string()).describe("Filter values"),
+              }),
+            )
+            .optional()
+            .describe("Filters to apply"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            dbClusterIdentifier: z.string().optional(),
+            dbClusterArn: z.string().optional(),
+            status: z.string().optional(),
+            engine: z.string().optional(),
+            engineVersion: z.string().optional(),
+            engineMode: z.string().optional(),
+            allocatedStorage: z.number().optional(),
+            storageEncrypted: z.boolean().optional(),
+            kmsKeyId: z.string().optional(),
+            databaseName: z.string().optional(),
+            masterUsername: z.string().optional(),
+            masterUserSecret: z
+              .object({
+                secretArn: z.string().optional(),
+                secretStatus: z.string().optional(),
+              })
+              .optional(),
+            preferredBackupWindow: z.string().optional(),
+            backupRetentionPeriod: z.number().optional(),
+            preferredMaintenanceWindow: z.string().optional(),
+            latestRestorableTime: z.string().optional(),
+            port: z.number().optional(),
+            multiAZ: z.boolean().optional(),
+            dbClusterInstanceClass: z.string().optional(),
+            storageType: z.string().optional(),
+            iops: z.number().optional(),
+            publiclyAccessible: z.boolean().optional(),
+            autoMinorVersionUpgrade: z.boolean().optional(),
+            monitoringInterval: z.number().optional(),
+            monitoringRoleArn: z.string().optional(),
+            performanceInsightsEnabled: z.boolean().optional(),
+            performanceInsightsKMSKeyId: z.string().optional(),
+            performanceInsightsRetentionPeriod: z.number().optional(),
+            enabledCloudwatchLogsExports: z.array(z.string()).optional(),
+            deletionProtection: z.boolean().optional(),
+            httpEndpointEnabled: z.boolean().optional(),
+            activityStreamMode: z.string().optional(),
+            activityStreamStatus: z.string().optional(),
+            activityStreamKmsKeyId: z.string().optional(),
+            copyTagsToSnapshot: z.boolean().optional(),
+            crossAccountClone: z.boolean().optional(),
+            domainMemberships: z
+              .array(
+                z.object({
+                  domain: z.string().optional(),
+                  status: z.string().optional(),
+                  fqdn: z.string().optional(),
+                  iamRoleName: z.string().optional(),
+                }),
+              )
+              .optional(),
+            tagList: z.array(awsObject()).optional(),
+            globalWriteForwardingStatus: z.string().optional(),
+            globalWriteForwardingRequested: z.boolean().optional(),
+            pendingModifiedValues: z
+              .object({
+                pendingCloudwatchLogsExports: awsObject().optional(),
+                dbClusterIdentifier: z.string().optional(),
+                masterUserPassword: z.string().optional(),
+                iamDatabaseAuthenticationEnabled: z.boolean().optional(),
+                engineVersion: z.string().optional(),
+                backupRetentionPeriod: z.number().optional(),
+                allocatedStorage: z.number().optional(),
+                iops: z.number().optional(),
+                storageType: z.string().optional(),
+                storageThroughput: z.number().optional(),
+              })
+              .optional(),
+            dbClusterMembers: z
+              .array(
+                z.object({
+                  dbInstanceIdentifier: z.string().optional(),
+                  isClusterWriter: z.boolean().optional(),
+                  dbClusterParameterGroupStatus: z.string().optional(),
+                  promotionTier: z.number().optional(),
+                }),
+              )
+              .optional(),
+            vpcSecurityGroups: z
+              .array(
+                z.object({
+                  vpcSecurityGroupId: z.string().optional(),
+                  status: z.string().optional(),
+                }),
+              )
+              .optional(),
+            hostedZoneId: z.string().optional(),
+            storageThroughput: z.number().optional(),
+            dbClusterResourceId: z.string().optional(),
+            dbSystemId: z.string().optional(),
+            masterUserSecretKmsKeyId: z.string().optional(),
+            serverlessV2ScalingConfiguration: z
+              .object({
+                minCapacity: z.number().optional(),
+                maxCapacity: z.number().optional(),
+              })
+              .optional(),
+            networkType: z.string().optional(),
+            dbClusterCreateTime: z.string().optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeDBClusters(
+                  { client: getRDSClient(args.region), ...config },
+                  {
+                    DBClusterIdentifier: args.dbClusterIdentifier,
+                    Filters: args.filters?.map((f) => ({
+                      Name: f.name,
+                      Values: f.values,
+                    })),
+                  },
+                ),
+              items: (page) =>
+                page.DBClusters?.map((cluster) => ({
+                  dbClusterIdentifier: cluster.DBClusterIdentifier,
+                  dbClusterArn: cluster.DBClusterArn,
+                  status: cluster.Status,
+                  engine: cluster.Engine,
+                  engineVersion: cluster.EngineVersion,
+                  engineMode: cluster.EngineMode,
+                  allocatedStorage: cluster.AllocatedStorage,
+                  storageEncrypted: cluster.StorageEncrypted,
+                  kmsKeyId: cluster.KmsKeyId,
+                  databaseName: cluster.DatabaseName,
+                  masterUsername: cluster.MasterUsername,
+                  masterUserSecret: cluster.MasterUserSecret
+                    ? {
+                        secretArn: cluster.MasterUserSecret.SecretArn,
+                        secretStatus: cluster.MasterUserSecret.SecretStatus,
+                      }
+                    : undefined,
+                  preferredBackupWindow: cluster.PreferredBackupWindow,
+                  backupRetentionPeriod: cluster.BackupRetentionPeriod,
+                  preferredMaintenanceWindow:
+                    cluster.PreferredMaintenanceWindow,
+                  latestRestorableTime:
+                    cluster.LatestRestorableTime?.toISOString(),
+                  port: cluster.Port,
+                  multiAZ: cluster.MultiAZ,
+                  dbClusterInstanceClass: cluster.DBClusterInstanceClass,
+                  storageType: cluster.StorageType,
+                  iops: cluster.Iops,
+                  publiclyAccessible: cluster.PubliclyAccessible,
+                  autoMinorVersionUpgrade: cluster.AutoMinorVersionUpgrade,
+                  monitoringInterval: cluster.MonitoringInterval,
+                  monitoringRoleArn: cluster.MonitoringRoleArn,
+                  performanceInsightsEnabled:
+                    cluster.PerformanceInsightsEnabled,
+                  performanceInsightsKMSKeyId:
+                    cluster.PerformanceInsightsKMSKeyId,
+                  performanceInsightsRetentionPeriod:
+                    cluster.PerformanceInsightsRetentionPeriod,
+                  enabledCloudwatchLogsExports:
+                    cluster.EnabledCloudwatchLogsExports,
+                  deletionProtection: cluster.DeletionProtection,
+                  httpEndpointEnabled: cluster.HttpEndpointEnabled,
+                  activityStreamMode: cluster.ActivityStreamMode,
+                  activityStreamStatus: cluster.ActivityStreamStatus,
+                  activityStreamKmsKeyId: cluster.ActivityStreamKmsKeyId,
+                  copyTagsToSnapshot: cluster.CopyTagsToSnapshot,
+                  crossAccountClone: cluster.CrossAccountClone,
+                  domainMemberships: cluster.DomainMemberships?.map((dm) => ({
+                    domain: dm.Domain,
+                    status: dm.Status,
+                    fqdn: dm.FQDN,
+                    iamRoleName: dm.IAMRoleName,
+                  })),
+                  tagList: cluster.TagList,
+                  globalWriteForwardingStatus:
+                    cluster.GlobalWriteForwardingStatus,
+                  globalWriteForwardingRequested:
+                    cluster.GlobalWriteForwardingRequested,
+                  pendingModifiedValues: cluster.PendingModifiedValues
+                    ? {
+                        pendingCloudwatchLogsExports:
+                          cluster.PendingModifiedValues
+                            .PendingCloudwatchLogsExports,
+                        dbClusterIdentifier:
+                          cluster.PendingModifiedValues.DBClusterIdentifier,
+                        masterUserPassword:
+                          cluster.PendingModifiedValues.MasterUserPassword,
+                        iamDatabaseAuthenticationEnabled:
+                          cluster.PendingModifiedValues
+                            .IAMDatabaseAuthenticationEnabled,
+                        engineVersion:
+                          cluster.PendingModifiedValues.EngineVersion,
+                        backupRetentionPeriod:
+                          cluster.PendingModifiedValues.BackupRetentionPeriod,
+                        allocatedStorage:
+                          cluster.PendingModifiedValues.AllocatedStorage,
+                        iops: cluster.PendingModifiedValues.Iops,
+                        storageType: cluster.PendingModifiedValues.StorageType,
+                        storageThroughput: cluster.StorageThroughput,
+                      }
+                    : undefined,
+                  dbClusterMembers: cluster.DBClusterMembers?.map((m) => ({
+                    dbInstanceIdentifier: m.DBInstanceIdentifier,
+                    isClusterWriter: m.IsClusterWriter,
+                    dbClusterParameterGroupStatus:
+                      m.DBClusterParameterGroupStatus,
+                    promotionTier: m.PromotionTier,
+                  })),
+                  vpcSecurityGroups: cluster.VpcSecurityGroups?.map((vsg) => ({
+                    vpcSecurityGroupId: vsg.VpcSecurityGroupId,
+                    status: vsg.Status,
+                  })),
+                  hostedZoneId: cluster.HostedZoneId,
+                  storageThroughput: cluster.StorageThroughput,
+                  dbClusterResourceId: cluster.DBClusterIdentifier,
+                  dbSystemId: cluster.DBSystemId,
+                  masterUserSecretKmsKeyId: cluster.MasterUserSecret?.KmsKeyId,
+                  serverlessV2ScalingConfiguration:
+                    cluster.ServerlessV2ScalingConfiguration
+                      ? {
+                          minCapacity:
+                            cluster.ServerlessV2ScalingConfiguration
+                              .MinCapacity,
+                          maxCapacity:
+                            cluster.ServerlessV2ScalingConfiguration
+                              .MaxCapacity,
+                        }
+                      : undefined,
+                  networkType: cluster.NetworkType,
+                  dbClusterCreateTime: cluster.ClusterCreateTime?.toISOString(),
+                })) || [],
+              nextToken: (page) => page.Marker,
+              pageSize: { min: 20, max: 100 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_rds_list_db_clusters",
+              toolArgs: args,
+            })
+          }
+        },
+      }),
+    ),
+
     tool({
-      name: "aws_rds_list_db_clusters",
-      description: "List Aurora/RDS clusters with optional filtering",
+      name: "aws_rds_describe_db_cluster",
+      title: "Describe RDS DB Cluster",
+      description: "Get detailed information about a specific DB cluster",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
-        dbClusterIdentifier: z
-          .string()
-          .optional()
-          .describe("DB cluster identifier to filter by"),
-        maxRecords: z
-          .number()
-          .min(20)
-          .max(100)
-          .optional()
-          .describe("Maximum number of records to return"),
-        marker: z.string().optional().describe("Pagination token"),
-        filters: z
+          .default(getDefaultAwsRegion),
+        dbClusterIdentifier: z.string().describe("DB cluster identifier"),
+      }),
+      output: z.object({
+        dbClusterIdentifier: z.string().optional(),
+        dbClusterArn: z.string().optional(),
+        status: z.string().optional(),
+        engine: z.string().optional(),
+        engineVersion: z.string().optional(),
+        engineMode: z.string().optional(),
+        allocatedStorage: z.number().optional(),
+        storageEncrypted: z.boolean().optional(),
+        kmsKeyId: z.string().optional(),
+        databaseName: z.string().optional(),
+        masterUsername: z.string().optional(),
+        masterUserSecret: z
+          .object({
+            secretArn: z.string().optional(),
+            secretStatus: z.string().optional(),
+          })
+          .optional(),
+        preferredBackupWindow: z.string().optional(),
+        backupRetentionPeriod: z.number().optional(),
+        preferredMaintenanceWindow: z.string().optional(),
+        latestRestorableTime: z.string().optional(),
+        port: z.number().optional(),
+        multiAZ: z.boolean().optional(),
+        dbClusterInstanceClass: z.string().optional(),
+        storageType: z.string().optional(),
+        iops: z.number().optional(),
+        publiclyAccessible: z.boolean().optional(),
+        autoMinorVersionUpgrade: z.boolean().optional(),
+        monitoringInterval: z.number().optional(),
+        monitoringRoleArn: z.string().optional(),
+        performanceInsightsEnabled: z.boolean().optional(),
+        performanceInsightsKMSKeyId: z.string().optional(),
+        performanceInsightsRetentionPeriod: z.number().optional(),
+        enabledCloudwatchLogsExports: z.array(z.string()).optional(),
+        deletionProtection: z.boolean().optional(),
+        httpEndpointEnabled: z.boolean().optional(),
+        activityStreamMode: z.string().optional(),
+        activityStreamStatus: z.string().optional(),
+        activityStreamKmsKeyId: z.string().optional(),
+        copyTagsToSnapshot: z.boolean().optional(),
+        crossAccountClone: z.boolean().optional(),
+        domainMemberships: z
           .array(
             z.object({
-              name: z.string().describe("Filter name"),
-              values: z.array(z.string()).describe("Filter values"),
+              domain: z.string().optional(),
+              status: z.string().optional(),
+              fqdn: z.string().optional(),
+              iamRoleName: z.string().optional(),
             }),
           )
-          .optional()
-          .describe("Filters to apply"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeDBClustersCommand({
-            DBClusterIdentifier: args.dbClusterIdentifier,
-            MaxRecords: args.maxRecords,
-            Marker: args.marker,
-            Filters: args.filters?.map((f) => ({
-              Name: f.name,
-              Values: f.values,
-            })),
+          .optional(),
+        tagList: z.array(awsObject()).optional(),
+        globalWriteForwardingStatus: z.string().optional(),
+        globalWriteForwardingRequested: z.boolean().optional(),
+        pendingModifiedValues: z
+          .object({
+            pendingCloudwatchLogsExports: awsObject().optional(),
+            dbClusterIdentifier: z.string().optional(),
+            masterUserPassword: z.string().optional(),
+            iamDatabaseAuthenticationEnabled: z.boolean().optional(),
+            engineVersion: z.string().optional(),
+            backupRetentionPeriod: z.number().optional(),
+            allocatedStorage: z.number().optional(),
+            iops: z.number().optional(),
+            storageType: z.string().optional(),
+            storageThroughput: z.number().optional(),
           })
-
-          const response = await getRDSClient(args.region).send(command)
-
-          const dbClusters =
-            response.DBClusters?.map((cluster) => ({
-              dbClusterIdentifier: cluster.DBClusterIdentifier,
-              dbClusterArn: cluster.DBClusterArn,
-              status: cluster.Status,
-              engine: cluster.Engine,
-              engineVersion: cluster.EngineVersion,
-              engineMode: cluster.EngineMode,
-              allocatedStorage: cluster.AllocatedStorage,
-              storageEncrypted: cluster.StorageEncrypted,
-              kmsKeyId: cluster.KmsKeyId,
-              databaseName: cluster.DatabaseName,
-              masterUsername: cluster.MasterUsername,
-              masterUserSecret: cluster.MasterUserSecret
-                ? {
-                    secretArn: cluster.MasterUserSecret.SecretArn,
-                    secretStatus: cluster.MasterUserSecret.SecretStatus,
-                  }
-                : undefined,
-              preferredBackupWindow: cluster.PreferredBackupWindow,
-              backupRetentionPeriod: cluster.BackupRetentionPeriod,
-              preferredMaintenanceWindow: cluster.PreferredMaintenanceWindow,
-              latestRestorableTime: cluster.LatestRestorableTime?.toISOString(),
-              port: cluster.Port,
-              multiAZ: cluster.MultiAZ,
-              dbClusterInstanceClass: cluster.DBClusterInstanceClass,
-              storageType: cluster.StorageType,
-              iops: cluster.Iops,
-              publiclyAccessible: cluster.PubliclyAccessible,
-              autoMinorVersionUpgrade: cluster.AutoMinorVersionUpgrade,
-              monitoringInterval: cluster.MonitoringInterval,
-              monitoringRoleArn: cluster.MonitoringRoleArn,
-              performanceInsightsEnabled: cluster.PerformanceInsightsEnabled,
-              performanceInsightsKMSKeyId: cluster.PerformanceInsightsKMSKeyId,
-              performanceInsightsRetentionPeriod:
-                cluster.PerformanceInsightsRetentionPeriod,
-              enabledCloudwatchLogsExports:
-                cluster.EnabledCloudwatchLogsExports,
-              deletionProtection: cluster.DeletionProtection,
-              httpEndpointEnabled: cluster.HttpEndpointEnabled,
-              activityStreamMode: cluster.ActivityStreamMode,
-              activityStreamStatus: cluster.ActivityStreamStatus,
-              activityStreamKmsKeyId: cluster.ActivityStreamKmsKeyId,
-              copyTagsToSnapshot: cluster.CopyTagsToSnapshot,
-              crossAccountClone: cluster.CrossAccountClone,
-              domainMemberships: cluster.DomainMemberships?.map((dm) => ({
-                domain: dm.Domain,
-                status: dm.Status,
-                fqdn: dm.FQDN,
-                iamRoleName: dm.IAMRoleName,
-              })),
-              tagList: cluster.TagList,
-              globalWriteForwardingStatus: cluster.GlobalWriteForwardingStatus,
-              globalWriteForwardingRequested:
-                cluster.GlobalWriteForwardingRequested,
-              pendingModifiedValues: cluster.PendingModifiedValues
-                ? {
-                    pendingCloudwatchLogsExports:
-                      cluster.PendingModifiedValues
-                        .PendingCloudwatchLogsExports,
-                    dbClusterIdentifier:
-                      cluster.PendingModifiedValues.DBClusterIdentifier,
-                    masterUserPassword:
-                      cluster.PendingModifiedValues.MasterUserPassword,
-                    iamDatabaseAuthenticationEnabled:
-                      cluster.PendingModifiedValues
-                        .IAMDatabaseAuthenticationEnabled,
-                    engineVersion: cluster.PendingModifiedValues.EngineVersion,
-                    backupRetentionPeriod:
-                      cluster.PendingModifiedValues.BackupRetentionPeriod,
-                    allocatedStorage:
-                      cluster.PendingModifiedValues.AllocatedStorage,
-                    iops: cluster.PendingModifiedValues.Iops,
-                    storageType: cluster.PendingModifiedValues.StorageType,
-                    storageThroughput: cluster.StorageThroughput,
-                  }
-                : undefined,
-              dbClusterMembers: cluster.DBClusterMembers?.map((m) => ({
-                dbInstanceIdentifier: m.DBInstanceIdentifier,
-                isClusterWriter: m.IsClusterWriter,
-                dbClusterParameterGroupStatus: m.DBClusterParameterGroupStatus,
-                promotionTier: m.PromotionTier,
-              })),
-              vpcSecurityGroups: cluster.VpcSecurityGroups?.map((vsg) => ({
-                vpcSecurityGroupId: vsg.VpcSecurityGroupId,
-                status: vsg.Status,
-              })),
-              hostedZoneId: cluster.HostedZoneId,
-              storageThroughput: cluster.StorageThroughput,
-              dbClusterResourceId: cluster.DBClusterIdentifier,
-              dbSystemId: cluster.DBSystemId,
-              masterUserSecretKmsKeyId: cluster.MasterUserSecret?.KmsKeyId,
-              serverlessV2ScalingConfiguration:
-                cluster.ServerlessV2ScalingConfiguration
-                  ? {
-                      minCapacity:
-                        cluster.ServerlessV2ScalingConfiguration.MinCapacity,
-                      maxCapacity:
-                        cluster.ServerlessV2ScalingConfiguration.MaxCapacity,
-                    }
-                  : undefined,
-              networkType: cluster.NetworkType,
-              dbClusterCreateTime: cluster.ClusterCreateTime?.toISOString(),
-            })) || []
-
-          return {
-            dbClusters,
-            count: dbClusters.length,
-            marker: response.Marker,
-          }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_rds_list_db_clusters",
-            toolArgs: args,
+          .optional(),
+        dbClusterMembers: z
+          .array(
+            z.object({
+              dbInstanceIdentifier: z.string().optional(),
+              isClusterWriter: z.boolean().optional(),
+              dbClusterParameterGroupStatus: z.string().optional(),
+              promotionTier: z.number().optional(),
+            }),
+          )
+          .optional(),
+        vpcSecurityGroups: z
+          .array(
+            z.object({
+              vpcSecurityGroupId: z.string().optional(),
+              status: z.string().optional(),
+            }),
+          )
+          .optional(),
+        hostedZoneId: z.string().optional(),
+        storageThroughput: z.number().optional(),
+        dbClusterResourceId: z.string().optional(),
+        dbSystemId: z.string().optional(),
+        masterUserSecretKmsKeyId: z.string().optional(),
+        serverlessV2ScalingConfiguration: z
+          .object({
+            minCapacity: z.number().optional(),
+            maxCapacity: z.number().optional(),
           })
-        }
-      },
-    }),
-
-    tool({
-      name: "aws_rds_describe_db_cluster",
-      description: "Get detailed information about a specific DB cluster",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        dbClusterIdentifier: z.string().describe("DB cluster identifier"),
+          .optional(),
+        networkType: z.string().optional(),
+        dbClusterCreateTime: z.string().optional(),
       }),
       async run(args) {
         try {
@@ -612,97 +1032,119 @@ export function createRDSTools(): Tool[] {
       },
     }),
 
-    tool({
-      name: "aws_rds_list_reserved_db_instances",
-      description: "List reserved DB instances",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        reservedDBInstanceId: z
-          .string()
-          .optional()
-          .describe("Reserved DB instance identifier to filter by"),
-        offeringType: z.string().optional().describe("Offering type filter"),
-        productDescription: z
-          .string()
-          .optional()
-          .describe("Product description filter"),
-        duration: z
-          .string()
-          .optional()
-          .describe("Duration filter (e.g., '1y', '3y')"),
-        maxRecords: z
-          .number()
-          .min(20)
-          .max(100)
-          .optional()
-          .describe("Maximum number of records to return"),
-        marker: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeReservedDBInstancesCommand({
-            ReservedDBInstanceId: args.reservedDBInstanceId,
-            OfferingType: args.offeringType,
-            ProductDescription: args.productDescription,
-            Duration: args.duration,
-            MaxRecords: args.maxRecords,
-            Marker: args.marker,
-          })
-
-          const response = await getRDSClient(args.region).send(command)
-
-          const reservedDBInstances =
-            response.ReservedDBInstances?.map((reserved) => ({
-              reservedDBInstanceId: reserved.ReservedDBInstanceId,
-              reservedDBInstancesOfferingId:
-                reserved.ReservedDBInstancesOfferingId,
-              dbInstanceClass: reserved.DBInstanceClass,
-              startTime: reserved.StartTime?.toISOString(),
-              duration: reserved.Duration,
-              fixedPrice: reserved.FixedPrice,
-              usagePrice: reserved.UsagePrice,
-              currencyCode: reserved.CurrencyCode,
-              dbInstanceCount: reserved.DBInstanceCount,
-              productDescription: reserved.ProductDescription,
-              offeringType: reserved.OfferingType,
-              multiAZ: reserved.MultiAZ,
-              state: reserved.State,
-              recurringCharges: reserved.RecurringCharges?.map((rc) => ({
-                recurringChargeAmount: rc.RecurringChargeAmount,
-                recurringChargeFrequency: rc.RecurringChargeFrequency,
-              })),
-              reservedDBInstanceArn: reserved.ReservedDBInstanceArn,
-              leaseId: reserved.LeaseId,
-            })) || []
-
-          return {
-            reservedDBInstances,
-            count: reservedDBInstances.length,
-            marker: response.Marker,
+    multiRegion(
+      tool({
+        name: "aws_rds_list_reserved_db_instances",
+        title: "List RDS Reserved DB Instances",
+        description: "List reserved DB instances",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          reservedDBInstanceId: z
+            .string()
+            .optional()
+            .describe("Reserved DB instance identifier to filter by"),
+          offeringType: z.string().optional().describe("Offering type filter"),
+          productDescription: z
+            .string()
+            .optional()
+            .describe("Product description filter"),
+          duration: z
+            .string()
+            .optional()
+            .describe("Duration filter (e.g., '1y', '3y')"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            reservedDBInstanceId: z.string().optional(),
+            reservedDBInstancesOfferingId: z.string().optional(),
+            dbInstanceClass: z.string().optional(),
+            startTime: z.string().optional(),
+            duration: z.number().optional(),
+            fixedPrice: z.number().optional(),
+            usagePrice: z.number().optional(),
+            currencyCode: z.string().optional(),
+            dbInstanceCount: z.number().optional(),
+            productDescription: z.string().optional(),
+            offeringType: z.string().optional(),
+            multiAZ: z.boolean().optional(),
+            state: z.string().optional(),
+            recurringCharges: z
+              .array(
+                z.object({
+                  recurringChargeAmount: z.number().optional(),
+                  recurringChargeFrequency: z.string().optional(),
+                }),
+              )
+              .optional(),
+            reservedDBInstanceArn: z.string().optional(),
+            leaseId: z.string().optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeReservedDBInstances(
+                  { client: getRDSClient(args.region), ...config },
+                  {
+                    ReservedDBInstanceId: args.reservedDBInstanceId,
+                    OfferingType: args.offeringType,
+                    ProductDescription: args.productDescription,
+                    Duration: args.duration,
+                  },
+                ),
+              items: (page) =>
+                page.ReservedDBInstances?.map((reserved) => ({
+                  reservedDBInstanceId: reserved.ReservedDBInstanceId,
+                  reservedDBInstancesOfferingId:
+                    reserved.ReservedDBInstancesOfferingId,
+                  dbInstanceClass: reserved.DBInstanceClass,
+                  startTime: reserved.StartTime?.toISOString(),
+                  duration: reserved.Duration,
+                  fixedPrice: reserved.FixedPrice,
+                  usagePrice: reserved.UsagePrice,
+                  currencyCode: reserved.CurrencyCode,
+                  dbInstanceCount: reserved.DBInstanceCount,
+                  productDescription: reserved.ProductDescription,
+                  offeringType: reserved.OfferingType,
+                  multiAZ: reserved.MultiAZ,
+                  state: reserved.State,
+                  recurringCharges: reserved.RecurringCharges?.map((rc) => ({
+                    recurringChargeAmount: rc.RecurringChargeAmount,
+                    recurringChargeFrequency: rc.RecurringChargeFrequency,
+                  })),
+                  reservedDBInstanceArn: reserved.ReservedDBInstanceArn,
+                  leaseId: reserved.LeaseId,
+                })) || [],
+              nextToken: (page) => page.Marker,
+              pageSize: { min: 20, max: 100 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_rds_list_reserved_db_instances",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_rds_list_reserved_db_instances",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_rds_describe_reserved_db_offerings",
+      title: "Describe RDS Reserved DB Offerings",
       description: "List available reserved DB instance offerings",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         reservedDBInstancesOfferingId: z
           .string()
           .optional()
@@ -721,52 +1163,65 @@ export function createRDSTools(): Tool[] {
           .describe("Product description filter"),
         offeringType: z.string().optional().describe("Offering type filter"),
         multiAZ: z.boolean().optional().describe("Multi-AZ filter"),
-        maxRecords: z
-          .number()
-          .min(20)
-          .max(100)
-          .optional()
-          .describe("Maximum number of records to return"),
-        marker: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          reservedDBInstancesOfferingId: z.string().optional(),
+          dbInstanceClass: z.string().optional(),
+          duration: z.number().optional(),
+          fixedPrice: z.number().optional(),
+          usagePrice: z.number().optional(),
+          currencyCode: z.string().optional(),
+          productDescription: z.string().optional(),
+          offeringType: z.string().optional(),
+          multiAZ: z.boolean().optional(),
+          recurringCharges: z
+            .array(
+              z.object({
+                recurringChargeAmount: z.number().optional(),
+                recurringChargeFrequency: z.string().optional(),
+              }),
+            )
+            .optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new DescribeReservedDBInstancesOfferingsCommand({
-            ReservedDBInstancesOfferingId: args.reservedDBInstancesOfferingId,
-            DBInstanceClass: args.dbInstanceClass,
-            Duration: args.duration,
-            ProductDescription: args.productDescription,
-            OfferingType: args.offeringType,
-            MultiAZ: args.multiAZ,
-            MaxRecords: args.maxRecords,
-            Marker: args.marker,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateDescribeReservedDBInstancesOfferings(
+                { client: getRDSClient(args.region), ...config },
+                {
+                  ReservedDBInstancesOfferingId:
+                    args.reservedDBInstancesOfferingId,
+                  DBInstanceClass: args.dbInstanceClass,
+                  Duration: args.duration,
+                  ProductDescription: args.productDescription,
+                  OfferingType: args.offeringType,
+                  MultiAZ: args.multiAZ,
+                },
+              ),
+            items: (page) =>
+              page.ReservedDBInstancesOfferings?.map((offering) => ({
+                reservedDBInstancesOfferingId:
+                  offering.ReservedDBInstancesOfferingId,
+                dbInstanceClass: offering.DBInstanceClass,
+                duration: offering.Duration,
+                fixedPrice: offering.FixedPrice,
+                usagePrice: offering.UsagePrice,
+                currencyCode: offering.CurrencyCode,
+                productDescription: offering.ProductDescription,
+                offeringType: offering.OfferingType,
+                multiAZ: offering.MultiAZ,
+                recurringCharges: offering.RecurringCharges?.map((rc) => ({
+                  recurringChargeAmount: rc.RecurringChargeAmount,
+                  recurringChargeFrequency: rc.RecurringChargeFrequency,
+                })),
+              })) || [],
+            nextToken: (page) => page.Marker,
+            pageSize: { min: 20, max: 100 },
           })
-
-          const response = await getRDSClient(args.region).send(command)
-
-          const reservedDBInstancesOfferings =
-            response.ReservedDBInstancesOfferings?.map((offering) => ({
-              reservedDBInstancesOfferingId:
-                offering.ReservedDBInstancesOfferingId,
-              dbInstanceClass: offering.DBInstanceClass,
-              duration: offering.Duration,
-              fixedPrice: offering.FixedPrice,
-              usagePrice: offering.UsagePrice,
-              currencyCode: offering.CurrencyCode,
-              productDescription: offering.ProductDescription,
-              offeringType: offering.OfferingType,
-              multiAZ: offering.MultiAZ,
-              recurringCharges: offering.RecurringCharges?.map((rc) => ({
-                recurringChargeAmount: rc.RecurringChargeAmount,
-                recurringChargeFrequency: rc.RecurringChargeFrequency,
-              })),
-            })) || []
-
-          return {
-            reservedDBInstancesOfferings,
-            count: reservedDBInstancesOfferings.length,
-            marker: response.Marker,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -777,249 +1232,316 @@ export function createRDSTools(): Tool[] {
       },
     }),
 
-    tool({
-      name: "aws_rds_list_db_snapshots",
-      description: "List DB snapshots with optional filtering",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        dbInstanceIdentifier: z
-          .string()
-          .optional()
-          .describe("DB instance identifier to filter by"),
-        dbSnapshotIdentifier: z
-          .string()
-          .optional()
-          .describe("DB snapshot identifier to filter by"),
-        snapshotType: z
-          .string()
-          .optional()
-          .describe("Snapshot type filter (e.g., 'automated', 'manual')"),
-        maxRecords: z
-          .number()
-          .min(20)
-          .max(100)
-          .optional()
-          .describe("Maximum number of records to return"),
-        marker: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeDBSnapshotsCommand({
-            DBInstanceIdentifier: args.dbInstanceIdentifier,
-            DBSnapshotIdentifier: args.dbSnapshotIdentifier,
-            SnapshotType: args.snapshotType,
-            MaxRecords: args.maxRecords,
-            Marker: args.marker,
-          })
-
-          const response = await getRDSClient(args.region).send(command)
-
-          const dbSnapshots =
-            response.DBSnapshots?.map((snapshot) => ({
-              dbSnapshotIdentifier: snapshot.DBSnapshotIdentifier,
-              dbInstanceIdentifier: snapshot.DBInstanceIdentifier,
-              snapshotCreateTime: snapshot.SnapshotCreateTime?.toISOString(),
-              engine: snapshot.Engine,
-              engineVersion: snapshot.EngineVersion,
-              allocatedStorage: snapshot.AllocatedStorage,
-              status: snapshot.Status,
-              port: snapshot.Port,
-              availabilityZone: snapshot.AvailabilityZone,
-              vpcId: snapshot.VpcId,
-              instanceCreateTime: snapshot.InstanceCreateTime?.toISOString(),
-              masterUsername: snapshot.MasterUsername,
-              licenseModel: snapshot.LicenseModel,
-              snapshotType: snapshot.SnapshotType,
-              iops: snapshot.Iops,
-              optionGroupName: snapshot.OptionGroupName,
-              percentProgress: snapshot.PercentProgress,
-              sourceRegion: snapshot.SourceRegion,
-              sourceDBSnapshotIdentifier: snapshot.SourceDBSnapshotIdentifier,
-              storageType: snapshot.StorageType,
-              tdeCredentialArn: snapshot.TdeCredentialArn,
-              encrypted: snapshot.Encrypted,
-              kmsKeyId: snapshot.KmsKeyId,
-              dbSnapshotArn: snapshot.DBSnapshotArn,
-              timezone: snapshot.Timezone,
-              iamDatabaseAuthenticationEnabled:
-                snapshot.IAMDatabaseAuthenticationEnabled,
-              processorFeatures: snapshot.ProcessorFeatures?.map((pf) => ({
-                name: pf.Name,
-                value: pf.Value,
-              })),
-              dbiResourceId: snapshot.DbiResourceId,
-              tagList: snapshot.TagList,
-              originalSnapshotCreateTime:
-                snapshot.OriginalSnapshotCreateTime?.toISOString(),
-              snapshotTarget: snapshot.SnapshotTarget,
-              storageThroughput: snapshot.StorageThroughput,
-            })) || []
-
-          return {
-            dbSnapshots,
-            count: dbSnapshots.length,
-            marker: response.Marker,
+    multiRegion(
+      tool({
+        name: "aws_rds_list_db_snapshots",
+        title: "List RDS DB Snapshots",
+        description: "List DB snapshots with optional filtering",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          dbInstanceIdentifier: z
+            .string()
+            .optional()
+            .describe("DB instance identifier to filter by"),
+          dbSnapshotIdentifier: z
+            .string()
+            .optional()
+            .describe("DB snapshot identifier to filter by"),
+          snapshotType: z
+            .string()
+            .optional()
+            .describe("Snapshot type filter (e.g., 'automated', 'manual')"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            dbSnapshotIdentifier: z.string().optional(),
+            dbInstanceIdentifier: z.string().optional(),
+            snapshotCreateTime: z.string().optional(),
+            engine: z.string().optional(),
+            engineVersion: z.string().optional(),
+            allocatedStorage: z.number().optional(),
+            status: z.string().optional(),
+            port: z.number().optional(),
+            availabilityZone: z.string().optional(),
+            vpcId: z.string().optional(),
+            instanceCreateTime: z.string().optional(),
+            masterUsername: z.string().optional(),
+            licenseModel: z.string().optional(),
+            snapshotType: z.string().optional(),
+            iops: z.number().optional(),
+            optionGroupName: z.string().optional(),
+            percentProgress: z.number().optional(),
+            sourceRegion: z.string().optional(),
+            sourceDBSnapshotIdentifier: z.string().optional(),
+            storageType: z.string().optional(),
+            tdeCredentialArn: z.string().optional(),
+            encrypted: z.boolean().optional(),
+            kmsKeyId: z.string().optional(),
+            dbSnapshotArn: z.string().optional(),
+            timezone: z.string().optional(),
+            iamDatabaseAuthenticationEnabled: z.boolean().optional(),
+            processorFeatures: z
+              .array(
+                z.object({
+                  name: z.string().optional(),
+                  value: z.string().optional(),
+                }),
+              )
+              .optional(),
+            dbiResourceId: z.string().optional(),
+            tagList: z.array(awsObject()).optional(),
+            originalSnapshotCreateTime: z.string().optional(),
+            snapshotTarget: z.string().optional(),
+            storageThroughput: z.number().optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeDBSnapshots(
+                  { client: getRDSClient(args.region), ...config },
+                  {
+                    DBInstanceIdentifier: args.dbInstanceIdentifier,
+                    DBSnapshotIdentifier: args.dbSnapshotIdentifier,
+                    SnapshotType: args.snapshotType,
+                  },
+                ),
+              items: (page) =>
+                page.DBSnapshots?.map((snapshot) => ({
+                  dbSnapshotIdentifier: snapshot.DBSnapshotIdentifier,
+                  dbInstanceIdentifier: snapshot.DBInstanceIdentifier,
+                  snapshotCreateTime:
+                    snapshot.SnapshotCreateTime?.toISOString(),
+                  engine: snapshot.Engine,
+                  engineVersion: snapshot.EngineVersion,
+                  allocatedStorage: snapshot.AllocatedStorage,
+                  status: snapshot.Status,
+                  port: snapshot.Port,
+                  availabilityZone: snapshot.AvailabilityZone,
+                  vpcId: snapshot.VpcId,
+                  instanceCreateTime:
+                    snapshot.InstanceCreateTime?.toISOString(),
+                  masterUsername: snapshot.MasterUsername,
+                  licenseModel: snapshot.LicenseModel,
+                  snapshotType: snapshot.SnapshotType,
+                  iops: snapshot.Iops,
+                  optionGroupName: snapshot.OptionGroupName,
+                  percentProgress: snapshot.PercentProgress,
+                  sourceRegion: snapshot.SourceRegion,
+                  sourceDBSnapshotIdentifier:
+                    snapshot.SourceDBSnapshotIdentifier,
+                  storageType: snapshot.StorageType,
+                  tdeCredentialArn: snapshot.TdeCredentialArn,
+                  encrypted: snapshot.Encrypted,
+                  kmsKeyId: snapshot.KmsKeyId,
+                  dbSnapshotArn: snapshot.DBSnapshotArn,
+                  timezone: snapshot.Timezone,
+                  iamDatabaseAuthenticationEnabled:
+                    snapshot.IAMDatabaseAuthenticationEnabled,
+                  processorFeatures: snapshot.ProcessorFeatures?.map((pf) => ({
+                    name: pf.Name,
+                    value: pf.Value,
+                  })),
+                  dbiResourceId: snapshot.DbiResourceId,
+                  tagList: snapshot.TagList,
+                  originalSnapshotCreateTime:
+                    snapshot.OriginalSnapshotCreateTime?.toISOString(),
+                  snapshotTarget: snapshot.SnapshotTarget,
+                  storageThroughput: snapshot.StorageThroughput,
+                })) || [],
+              nextToken: (page) => page.Marker,
+              pageSize: { min: 20, max: 100 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_rds_list_db_snapshots",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_rds_list_db_snapshots",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
-
-    tool({
-      name: "aws_rds_list_db_cluster_snapshots",
-      description: "List DB cluster snapshots with optional filtering",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        dbClusterIdentifier: z
-          .string()
-          .optional()
-          .describe("DB cluster identifier to filter by"),
-        dbClusterSnapshotIdentifier: z
-          .string()
-          .optional()
-          .describe("DB cluster snapshot identifier to filter by"),
-        snapshotType: z
-          .string()
-          .optional()
-          .describe("Snapshot type filter (e.g., 'automated', 'manual')"),
-        maxRecords: z
-          .number()
-          .min(20)
-          .max(100)
-          .optional()
-          .describe("Maximum number of records to return"),
-        marker: z.string().optional().describe("Pagination token"),
+        },
       }),
-      async run(args) {
-        try {
-          const command = new DescribeDBClusterSnapshotsCommand({
-            DBClusterIdentifier: args.dbClusterIdentifier,
-            DBClusterSnapshotIdentifier: args.dbClusterSnapshotIdentifier,
-            SnapshotType: args.snapshotType,
-            MaxRecords: args.maxRecords,
-            Marker: args.marker,
-          })
-
-          const response = await getRDSClient(args.region).send(command)
+    ),
 
-          const dbClusterSnapshots =
-            response.DBClusterSnapshots?.map((snapshot) => ({
-              dbClusterSnapshotIdentifier: snapshot.DBClusterSnapshotIdentifier,
-              dbClusterIdentifier: snapshot.DBClusterIdentifier,
-              snapshotCreateTime: snapshot.SnapshotCreateTime?.toISOString(),
-              engine: snapshot.Engine,
-              engineMode: snapshot.EngineMode,
-              allocatedStorage: snapshot.AllocatedStorage,
-              status: snapshot.Status,
-              port: snapshot.Port,
-              vpcId: snapshot.VpcId,
-              clusterCreateTime: snapshot.ClusterCreateTime?.toISOString(),
-              masterUsername: snapshot.MasterUsername,
-              engineVersion: snapshot.EngineVersion,
-              snapshotType: snapshot.SnapshotType,
-              percentProgress: snapshot.PercentProgress,
-              storageEncrypted: snapshot.StorageEncrypted,
-              kmsKeyId: snapshot.KmsKeyId,
-              dbClusterSnapshotArn: snapshot.DBClusterSnapshotArn,
-              sourceDBClusterSnapshotArn: snapshot.SourceDBClusterSnapshotArn,
-              iamDatabaseAuthenticationEnabled:
-                snapshot.IAMDatabaseAuthenticationEnabled,
-              tagList: snapshot.TagList,
-              dbSystemId: snapshot.DBSystemId,
-              storageType: snapshot.StorageType,
-            })) || []
-
-          return {
-            dbClusterSnapshots,
-            count: dbClusterSnapshots.length,
-            marker: response.Marker,
+    multiRegion(
+      tool({
+        name: "aws_rds_list_db_cluster_snapshots",
+        title: "List RDS DB Cluster Snapshots",
+        description: "List DB cluster snapshots with optional filtering",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          dbClusterIdentifier: z
+            .string()
+            .optional()
+            .describe("DB cluster identifier to filter by"),
+          dbClusterSnapshotIdentifier: z
+            .string()
+            .optional()
+            .describe("DB cluster snapshot identifier to filter by"),
+          snapshotType: z
+            .string()
+            .optional()
+            .describe("Snapshot type filter (e.g., 'automated', 'manual')"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            dbClusterSnapshotIdentifier: z.string().optional(),
+            dbClusterIdentifier: z.string().optional(),
+            snapshotCreateTime: z.string().optional(),
+            engine: z.string().optional(),
+            engineMode: z.string().optional(),
+            allocatedStorage: z.number().optional(),
+            status: z.string().optional(),
+            port: z.number().optional(),
+            vpcId: z.string().optional(),
+            clusterCreateTime: z.string().optional(),
+            masterUsername: z.string().optional(),
+            engineVersion: z.string().optional(),
+            snapshotType: z.string().optional(),
+            percentProgress: z.number().optional(),
+            storageEncrypted: z.boolean().optional(),
+            kmsKeyId: z.string().optional(),
+            dbClusterSnapshotArn: z.string().optional(),
+            sourceDBClusterSnapshotArn: z.string().optional(),
+            iamDatabaseAuthenticationEnabled: z.boolean().optional(),
+            tagList: z.array(awsObject()).optional(),
+            dbSystemId: z.string().optional(),
+            storageType: z.string().optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeDBClusterSnapshots(
+                  { client: getRDSClient(args.region), ...config },
+                  {
+                    DBClusterIdentifier: args.dbClusterIdentifier,
+                    DBClusterSnapshotIdentifier:
+                      args.dbClusterSnapshotIdentifier,
+                    SnapshotType: args.snapshotType,
+                  },
+                ),
+              items: (page) =>
+                page.DBClusterSnapshots?.map((snapshot) => ({
+                  dbClusterSnapshotIdentifier:
+                    snapshot.DBClusterSnapshotIdentifier,
+                  dbClusterIdentifier: snapshot.DBClusterIdentifier,
+                  snapshotCreateTime:
+                    snapshot.SnapshotCreateTime?.toISOString(),
+                  engine: snapshot.Engine,
+                  engineMode: snapshot.EngineMode,
+                  allocatedStorage: snapshot.AllocatedStorage,
+                  status: snapshot.Status,
+                  port: snapshot.Port,
+                  vpcId: snapshot.VpcId,
+                  clusterCreateTime: snapshot.ClusterCreateTime?.toISOString(),
+                  masterUsername: snapshot.MasterUsername,
+                  engineVersion: snapshot.EngineVersion,
+                  snapshotType: snapshot.SnapshotType,
+                  percentProgress: snapshot.PercentProgress,
+                  storageEncrypted: snapshot.StorageEncrypted,
+                  kmsKeyId: snapshot.KmsKeyId,
+                  dbClusterSnapshotArn: snapshot.DBClusterSnapshotArn,
+                  sourceDBClusterSnapshotArn:
+                    snapshot.SourceDBClusterSnapshotArn,
+                  iamDatabaseAuthenticationEnabled:
+                    snapshot.IAMDatabaseAuthenticationEnabled,
+                  tagList: snapshot.TagList,
+                  dbSystemId: snapshot.DBSystemId,
+                  storageType: snapshot.StorageType,
+                })) || [],
+              nextToken: (page) => page.Marker,
+              pageSize: { min: 20, max: 100 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_rds_list_db_cluster_snapshots",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_rds_list_db_cluster_snapshots",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
-
-    tool({
-      name: "aws_rds_list_db_parameter_groups",
-      description: "List DB parameter groups",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        dbParameterGroupName: z
-          .string()
-          .optional()
-          .describe("DB parameter group name to filter by"),
-        maxRecords: z
-          .number()
-          .min(20)
-          .max(100)
-          .optional()
-          .describe("Maximum number of records to return"),
-        marker: z.string().optional().describe("Pagination token"),
+        },
       }),
-      async run(args) {
-        try {
-          const command = new DescribeDBParameterGroupsCommand({
-            DBParameterGroupName: args.dbParameterGroupName,
-            MaxRecords: args.maxRecords,
-            Marker: args.marker,
-          })
-
-          const response = await getRDSClient(args.region).send(command)
+    ),
 
-          const dbParameterGroups =
-            response.DBParameterGroups?.map((pg) => ({
-              dbParameterGroupName: pg.DBParameterGroupName,
-              dbParameterGroupFamily: pg.DBParameterGroupFamily,
-              description: pg.Description,
-              dbParameterGroupArn: pg.DBParameterGroupArn,
-            })) || []
-
-          return {
-            dbParameterGroups,
-            count: dbParameterGroups.length,
-            marker: response.Marker,
+    multiRegion(
+      tool({
+        name: "aws_rds_list_db_parameter_groups",
+        title: "List RDS DB Parameter Groups",
+        description: "List DB parameter groups",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          dbParameterGroupName: z
+            .string()
+            .optional()
+            .describe("DB parameter group name to filter by"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            dbParameterGroupName: z.string().optional(),
+            dbParameterGroupFamily: z.string().optional(),
+            description: z.string().optional(),
+            dbParameterGroupArn: z.string().optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeDBParameterGroups(
+                  { client: getRDSClient(args.region), ...config },
+                  {
+                    DBParameterGroupName: args.dbParameterGroupName,
+                  },
+                ),
+              items: (page) =>
+                page.DBParameterGroups?.map((pg) => ({
+                  dbParameterGroupName: pg.DBParameterGroupName,
+                  dbParameterGroupFamily: pg.DBParameterGroupFamily,
+                  description: pg.Description,
+                  dbParameterGroupArn: pg.DBParameterGroupArn,
+                })) || [],
+              nextToken: (page) => page.Marker,
+              pageSize: { min: 20, max: 100 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_rds_list_db_parameter_groups",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_rds_list_db_parameter_groups",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_rds_describe_db_parameters",
+      title: "Describe RDS DB Parameters",
       description: "Get parameters in a DB parameter group",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         dbParameterGroupName: z.string().describe("DB parameter group name"),
         source: z
           .string()
@@ -1027,45 +1549,51 @@ export function createRDSTools(): Tool[] {
           .describe(
             "Parameter source filter (e.g., 'user', 'system', 'engine-default')",
           ),
-        maxRecords: z
-          .number()
-          .min(20)
-          .max(100)
-          .optional()
-          .describe("Maximum number of records to return"),
-        marker: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          parameterName: z.string().optional(),
+          parameterValue: z.string().optional(),
+          description: z.string().optional(),
+          source: z.string().optional(),
+          applyType: z.string().optional(),
+          dataType: z.string().optional(),
+          allowedValues: z.string().optional(),
+          isModifiable: z.boolean().optional(),
+          minimumEngineVersion: z.string().optional(),
+          applyMethod: z.string().optional(),
+          supportedEngineModes: z.array(z.string()).optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new DescribeDBParametersCommand({
-            DBParameterGroupName: args.dbParameterGroupName,
-            Source: args.source,
-            MaxRecords: args.maxRecords,
-            Marker: args.marker,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateDescribeDBParameters(
+                { client: getRDSClient(args.region), ...config },
+                {
+                  DBParameterGroupName: args.dbParameterGroupName,
+                  Source: args.source,
+                },
+              ),
+            items: (page) =>
+              page.Parameters?.map((param) => ({
+                parameterName: param.ParameterName,
+                parameterValue: param.ParameterValue,
+                description: param.Description,
+                source: param.Source,
+                applyType: param.ApplyType,
+                dataType: param.DataType,
+                allowedValues: param.AllowedValues,
+                isModifiable: param.IsModifiable,
+                minimumEngineVersion: param.MinimumEngineVersion,
+                applyMethod: param.ApplyMethod,
+                supportedEngineModes: param.SupportedEngineModes,
+              })) || [],
+            nextToken: (page) => page.Marker,
+            pageSize: { min: 20, max: 100 },
           })
-
-          const response = await getRDSClient(args.region).send(command)
-
-          const parameters =
-            response.Parameters?.map((param) => ({
-              parameterName: param.ParameterName,
-              parameterValue: param.ParameterValue,
-              description: param.Description,
-              source: param.Source,
-              applyType: param.ApplyType,
-              dataType: param.DataType,
-              allowedValues: param.AllowedValues,
-              isModifiable: param.IsModifiable,
-              minimumEngineVersion: param.MinimumEngineVersion,
-              applyMethod: param.ApplyMethod,
-              supportedEngineModes: param.SupportedEngineModes,
-            })) || []
-
-          return {
-            parameters,
-            count: parameters.length,
-            marker: response.Marker,
-          }
         } catch (error) {
           throw new ToolError({
             error,
@@ -1076,76 +1604,90 @@ export function createRDSTools(): Tool[] {
       },
     }),
 
-    tool({
-      name: "aws_rds_list_db_subnet_groups",
-      description: "List DB subnet groups",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        dbSubnetGroupName: z
-          .string()
-          .optional()
-          .describe("DB subnet group name to filter by"),
-        maxRecords: z
-          .number()
-          .min(20)
-          .max(100)
-          .optional()
-          .describe("Maximum number of records to return"),
-        marker: z.string().optional().describe("Pagination token"),
-      }),
-      async run(args) {
-        try {
-          const command = new DescribeDBSubnetGroupsCommand({
-            DBSubnetGroupName: args.dbSubnetGroupName,
-            MaxRecords: args.maxRecords,
-            Marker: args.marker,
-          })
-
-          const response = await getRDSClient(args.region).send(command)
-
-          const dbSubnetGroups =
-            response.DBSubnetGroups?.map((sg) => ({
-              dbSubnetGroupName: sg.DBSubnetGroupName,
-              dbSubnetGroupDescription: sg.DBSubnetGroupDescription,
-              vpcId: sg.VpcId,
-              subnetGroupStatus: sg.SubnetGroupStatus,
-              subnets: sg.Subnets?.map((subnet) => ({
-                subnetIdentifier: subnet.SubnetIdentifier,
-                subnetAvailabilityZone: subnet.SubnetAvailabilityZone?.Name,
-                subnetStatus: subnet.SubnetStatus,
-              })),
-              dbSubnetGroupArn: sg.DBSubnetGroupArn,
-              supportedNetworkTypes: sg.SupportedNetworkTypes,
-            })) || []
-
-          return {
-            dbSubnetGroups,
-            count: dbSubnetGroups.length,
-            marker: response.Marker,
+    multiRegion(
+      tool({
+        name: "aws_rds_list_db_subnet_groups",
+        title: "List RDS DB Subnet Groups",
+        description: "List DB subnet groups",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          dbSubnetGroupName: z
+            .string()
+            .optional()
+            .describe("DB subnet group name to filter by"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            dbSubnetGroupName: z.string().optional(),
+            dbSubnetGroupDescription: z.string().optional(),
+            vpcId: z.string().optional(),
+            subnetGroupStatus: z.string().optional(),
+            subnets: z
+              .array(
+                z.object({
+                  subnetIdentifier: z.string().optional(),
+                  subnetAvailabilityZone: z.string().optional(),
+                  subnetStatus: z.string().optional(),
+                }),
+              )
+              .optional(),
+            dbSubnetGroupArn: z.string().optional(),
+            supportedNetworkTypes: z.array(z.string()).optional(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateDescribeDBSubnetGroups(
+                  { client: getRDSClient(args.region), ...config },
+                  {
+                    DBSubnetGroupName: args.dbSubnetGroupName,
+                  },
+                ),
+              items: (page) =>
+                page.DBSubnetGroups?.map((sg) => ({
+                  dbSubnetGroupName: sg.DBSubnetGroupName,
+                  dbSubnetGroupDescription: sg.DBSubnetGroupDescription,
+                  vpcId: sg.VpcId,
+                  subnetGroupStatus: sg.SubnetGroupStatus,
+                  subnets: sg.Subnets?.map((subnet) => ({
+                    subnetIdentifier: subnet.SubnetIdentifier,
+                    subnetAvailabilityZone: subnet.SubnetAvailabilityZone?.Name,
+                    subnetStatus: subnet.SubnetStatus,
+                  })),
+                  dbSubnetGroupArn: sg.DBSubnetGroupArn,
+                  supportedNetworkTypes: sg.SupportedNetworkTypes,
+                })) || [],
+              nextToken: (page) => page.Marker,
+              pageSize: { min: 20, max: 100 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_rds_list_db_subnet_groups",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_rds_list_db_subnet_groups",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_rds_describe_db_engine_versions",
+      title: "Describe RDS DB Engine Versions",
       description: "List available database engine versions",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         engine: z
           .string()
           .optional()
@@ -1172,90 +1714,144 @@ export function createRDSTools(): Tool[] {
           .boolean()
           .optional()
           .describe("Include supported timezones"),
-        maxRecords: z
-          .number()
-          .min(20)
-          .max(100)
-          .optional()
-          .describe("Maximum number of records to return"),
-        marker: z.string().optional().describe("Pagination token"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          engine: z.string().optional(),
+          engineVersion: z.string().optional(),
+          dbParameterGroupFamily: z.string().optional(),
+          dbEngineDescription: z.string().optional(),
+          dbEngineVersionDescription: z.string().optional(),
+          defaultCharacterSet: z
+            .object({
+              characterSetName: z.string().optional(),
+              characterSetDescription: z.string().optional(),
+            })
+            .optional(),
+          supportedCharacterSets: z
+            .array(
+              z.object({
+                characterSetName: z.string().optional(),
+                characterSetDescription: z.string().optional(),
+              }),
+            )
+            .optional(),
+          supportedNcharCharacterSets: z
+            .array(
+              z.object({
+                characterSetName: z.string().optional(),
+                characterSetDescription: z.string().optional(),
+              }),
+            )
+            .optional(),
+          validUpgradeTarget: z
+            .array(
+              z.object({
+                engine: z.string().optional(),
+                engineVersion: z.string().optional(),
+                description: z.string().optional(),
+                autoUpgrade: z.boolean().optional(),
+                isMajorVersionUpgrade: z.boolean().optional(),
+              }),
+            )
+            .optional(),
+          supportedTimezones: z
+            .array(
+              z.object({
+                timezoneName: z.string().optional(),
+              }),
+            )
+            .optional(),
+          exportableLogTypes: z.array(z.string()).optional(),
+          supportsLogExportsToCloudwatchLogs: z.boolean().optional(),
+          supportsReadReplica: z.boolean().optional(),
+          supportedEngineModes: z.array(z.string()).optional(),
+          supportedFeatureNames: z.array(z.string()).optional(),
+          status: z.string().optional(),
+          supportsParallelQuery: z.boolean().optional(),
+          supportsGlobalDatabases: z.boolean().optional(),
+          supportsBabelfish: z.boolean().optional(),
+          supportsLimitlessDatabase: z.boolean().optional(),
+          supportsCertificateRotationWithoutRestart: z.boolean().optional(),
+          supportedCACertificateIdentifiers: z.array(z.string()).optional(),
+          supportsLocalWriteForwarding: z.boolean().optional(),
+          supportsIntegrations: z.boolean().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new DescribeDBEngineVersionsCommand({
-            Engine: args.engine,
-            EngineVersion: args.engineVersion,
-            DBParameterGroupFamily: args.dbParameterGroupFamily,
-            DefaultOnly: args.defaultOnly,
-            ListSupportedCharacterSets: args.listSupportedCharacterSets,
-            ListSupportedTimezones: args.listSupportedTimezones,
-            MaxRecords: args.maxRecords,
-            Marker: args.marker,
-          })
-
-          const response = await getRDSClient(args.region).send(command)
-
-          const dbEngineVersions =
-            response.DBEngineVersions?.map((version) => ({
-              engine: version.Engine,
-              engineVersion: version.EngineVersion,
-              dbParameterGroupFamily: version.DBParameterGroupFamily,
-              dbEngineDescription: version.DBEngineDescription,
-              dbEngineVersionDescription: version.DBEngineVersionDescription,
-              defaultCharacterSet: version.DefaultCharacterSet
-                ? {
-                    characterSetName:
-                      version.DefaultCharacterSet.CharacterSetName,
-                    characterSetDescription:
-                      version.DefaultCharacterSet.CharacterSetDescription,
-                  }
-                : undefined,
-              supportedCharacterSets: version.SupportedCharacterSets?.map(
-                (cs) => ({
-                  characterSetName: cs.CharacterSetName,
-                  characterSetDescription: cs.CharacterSetDescription,
-                }),
+          return await paginate(args, {
+            pages: (config) =>
+              paginateDescribeDBEngineVersions(
+                { client: getRDSClient(args.region), ...config },
+                {
+                  Engine: args.engine,
+                  EngineVersion: args.engineVersion,
+                  DBParameterGroupFamily: args.dbParameterGroupFamily,
+                  DefaultOnly: args.defaultOnly,
+                  ListSupportedCharacterSets: args.listSupportedCharacterSets,
+                  ListSupportedTimezones: args.listSupportedTimezones,
+                },
               ),
-              supportedNcharCharacterSets:
-                version.SupportedNcharCharacterSets?.map((cs) => ({
-                  characterSetName: cs.CharacterSetName,
-                  characterSetDescription: cs.CharacterSetDescription,
+            items: (page) =>
+              page.DBEngineVersions?.map((version) => ({
+                engine: version.Engine,
+                engineVersion: version.EngineVersion,
+                dbParameterGroupFamily: version.DBParameterGroupFamily,
+                dbEngineDescription: version.DBEngineDescription,
+                dbEngineVersionDescription: version.DBEngineVersionDescription,
+                defaultCharacterSet: version.DefaultCharacterSet
+                  ? {
+                      characterSetName:
+                        version.DefaultCharacterSet.CharacterSetName,
+                      characterSetDescription:
+                        version.DefaultCharacterSet.CharacterSetDescription,
+                    }
+                  : undefined,
+                supportedCharacterSets: version.SupportedCharacterSets?.map(
+                  (cs) => ({
+                    characterSetName: cs.CharacterSetName,
+                    characterSetDescription: cs.CharacterSetDescription,
+                  }),
+                ),
+                supportedNcharCharacterSets:
+                  version.SupportedNcharCharacterSets?.map((cs) => ({
+                    characterSetName: cs.CharacterSetName,
+                    characterSetDescription: cs.CharacterSetDescription,
+                  })),
+                validUpgradeTarget: version.ValidUpgradeTarget?.map((ut) => ({
+                  engine: ut.Engine,
+                  engineVersion: ut.EngineVersion,
+                  description: ut.Description,
+                  autoUpgrade: ut.AutoUpgrade,
+                  isMajorVersionUpgrade: ut.IsMajorVersionUpgrade,
                 })),
-              validUpgradeTarget: version.ValidUpgradeTarget?.map((ut) => ({
-                engine: ut.Engine,
-                engineVersion: ut.EngineVersion,
-                description: ut.Description,
-                autoUpgrade: ut.AutoUpgrade,
-                isMajorVersionUpgrade: ut.IsMajorVersionUpgrade,
-              })),
-              supportedTimezones: version.SupportedTimezones?.map((tz) => ({
-                timezoneName: tz.TimezoneName,
-              })),
-              exportableLogTypes: version.ExportableLogTypes,
-              supportsLogExportsToCloudwatchLogs:
-                version.SupportsLogExportsToCloudwatchLogs,
-              supportsReadReplica: version.SupportsReadReplica,
-              supportedEngineModes: version.SupportedEngineModes,
-              supportedFeatureNames: version.SupportedFeatureNames,
-              status: version.Status,
-              supportsParallelQuery: version.SupportsParallelQuery,
-              supportsGlobalDatabases: version.SupportsGlobalDatabases,
-              supportsBabelfish: version.SupportsBabelfish,
-              supportsLimitlessDatabase: version.SupportsLimitlessDatabase,
-              supportsCertificateRotationWithoutRestart:
-                version.SupportsCertificateRotationWithoutRestart,
-              supportedCACertificateIdentifiers:
-                version.SupportedCACertificateIdentifiers,
-              supportsLocalWriteForwarding:
-                version.SupportsLocalWriteForwarding,
-              supportsIntegrations: version.SupportsIntegrations,
-            })) || []
-
-          return {
-            dbEngineVersions,
-            count: dbEngineVersions.length,
-            marker: response.Marker,
-          }
+                supportedTimezones: version.SupportedTimezones?.map((tz) => ({
+                  timezoneName: tz.TimezoneName,
+                })),
+                exportableLogTypes: version.ExportableLogTypes,
+                supportsLogExportsToCloudwatchLogs:
+                  version.SupportsLogExportsToCloudwatchLogs,
+                supportsReadReplica: version.SupportsReadReplica,
+                supportedEngineModes: version.SupportedEngineModes,
+                supportedFeatureNames: version.SupportedFeatureNames,
+                status: version.Status,
+                supportsParallelQuery: version.SupportsParallelQuery,
+                supportsGlobalDatabases: version.SupportsGlobalDatabases,
+                supportsBabelfish: version.SupportsBabelfish,
+                supportsLimitlessDatabase: version.SupportsLimitlessDatabase,
+                supportsCertificateRotationWithoutRestart:
+                  version.SupportsCertificateRotationWithoutRestart,
+                supportedCACertificateIdentifiers:
+                  version.SupportedCACertificateIdentifiers,
+                supportsLocalWriteForwarding:
+                  version.SupportsLocalWriteForwarding,
+                supportsIntegrations: version.SupportsIntegrations,
+              })) || [],
+            nextToken: (page) => page.Marker,
+            pageSize: { min: 20, max: 100 },
+          })
         } catch (error) {
           throw new ToolError({
             error,
@@ -0,0 +1,53 @@
+import { z } from "zod"
+
+import {
+  getCurrentAwsPartition,
+  getDefaultAwsRegion,
+  getEnabledAwsRegions,
+} from "~/utils/aws-region"
+import { READ_ONLY_ANNOTATIONS, type Tool, tool } from "~/utils/tool"
+import { ToolError } from "~/utils/tool-error"
+
+export function createRegionTools(): Tool[] {
+  return [
+    tool({
+      name: "aws_list_regions",
+      title: "List Enabled AWS Regions",
+      description:
+        "List AWS regions enabled in the account, valid values of the region argument of other tools",
+      annotations: READ_ONLY_ANNOTATIONS,
+      args: z.object({
+        refresh: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Discover regions again instead of using cached ones"),
+      }),
+      output: z.object({
+        partition: z.string(),
+        defaultRegion: z.string(),
+        regions: z.array(z.string()),
+        count: z.number(),
+      }),
+      async run(args) {
+        try {
+          const regions = await getEnabledAwsRegions({ refresh: args.refresh })
+
+          return {
+            // Partition of the queried account, e.g. of its role ARN
+            partition: getCurrentAwsPartition(),
+            defaultRegion: getDefaultAwsRegion(),
+            regions,
+            count: regions.length,
+          }
+        } catch (error) {
+          throw new ToolError({
+            error,
+            toolName: "aws_list_regions",
+            toolArgs: args,
+          })
+        }
+      },
+    }),
+  ]
+}
@@ -1,57 +1,67 @@
 import {
   GetObjectCommand,
   HeadObjectCommand,
-  ListBucketsCommand,
-  ListObjectsV2Command,
+  paginateListBuckets,
+  paginateListObjectsV2,
   S3Client,
 } from "@aws-sdk/client-s3"
 import { z } from "zod"
 
+import { getAwsClient } from "~/utils/aws-client"
 import {
-  AWS_REGIONS,
+  awsRegion,
   type AwsRegion,
-  DEFAULT_AWS_REGION,
+  getDefaultAwsRegion,
 } from "~/utils/aws-region"
-import { type Tool, tool } from "~/utils/tool"
+import { paginate, paginatedOutput, paginationArgs } from "~/utils/pagination"
+import { awsObject, READ_ONLY_ANNOTATIONS, type Tool, tool } from "~/utils/tool"
 import { ToolError } from "~/utils/tool-error"
 
 export function createS3Tools(): Tool[] {
-  const getS3Client = (region: AwsRegion = DEFAULT_AWS_REGION) => {
-    return new S3Client({ region })
+  const getS3Client = (region: AwsRegion = getDefaultAwsRegion()) => {
+    return getAwsClient(S3Client, { service: "s3", region })
   }
 
   return [
     tool({
       name: "aws_s3_list_buckets",
+      title: "List S3 Buckets",
       description: "List all S3 buckets in the account",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
+        bucketRegion: awsRegion()
+          .optional()
+          .describe("List only buckets located in this region"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          name: z.string().optional(),
+          creationDate: z.string().optional(),
+          region: z.string().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new ListBucketsCommand()
-          const response = await getS3Client(args.region).send(command)
-
-          const buckets =
-            response.Buckets?.map((bucket) => ({
-              name: bucket.Name,
-              creationDate: bucket.CreationDate?.toISOString(),
-            })) || []
-
-          return {
-            buckets,
-            count: buckets.length,
-            owner: response.Owner
-              ? {
-                  id: response.Owner.ID,
-                  displayName: response.Owner.DisplayName,
-                }
-              : undefined,
-          }
+          return await paginate(args, {
+            pages: (config) =>
+              paginateListBuckets(
+                { client: getS3Client(args.region), ...config },
+                { BucketRegion: args.bucketRegion },
+              ),
+            items: (page) =>
+              page.Buckets?.map((bucket) => ({
+                name: bucket.Name,
+                creationDate: bucket.CreationDate?.toISOString(),
+                region: bucket.BucketRegion,
+              })) || [],
+            nextToken: (page) => page.ContinuationToken,
+            pageSize: { min: 1, max: 10000 },
+          })
         } catch (error) {
           throw new ToolError({
             error,
@@ -64,57 +74,49 @@ export function createS3Tools(): Tool[] {
 
     tool({
       name: "aws_s3_list_objects",
+      title: "List S3 Objects",
       description: "List objects in an S3 bucket",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
         bucket: z.string().describe("S3 bucket name"),
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         prefix: z
           .string()
           .optional()
           .describe("Object key prefix to filter by"),
-        maxKeys: z
-          .number()
-          .min(1)
-          .max(1000)
-          .optional()
-          .describe("Maximum number of objects to return"),
-        continuationToken: z
-          .string()
-          .optional()
-          .describe("Token for pagination"),
+        ...paginationArgs,
       }),
+      output: paginatedOutput(
+        z.object({
+          key: z.string().optional(),
+          lastModified: z.string().optional(),
+          size: z.number().optional(),
+          storageClass: z.string().optional(),
+          etag: z.string().optional(),
+        }),
+      ),
       async run(args) {
         try {
-          const command = new ListObjectsV2Command({
-            Bucket: args.bucket,
-            Prefix: args.prefix,
-            MaxKeys: args.maxKeys,
-            ContinuationToken: args.continuationToken,
+          return await paginate(args, {
+            pages: (config) =>
+              paginateListObjectsV2(
+                { client: getS3Client(args.region), ...config },
+                { Bucket: args.bucket, Prefix: args.prefix },
+              ),
+            items: (page) =>
+              page.Contents?.map((obj) => ({
+                key: obj.Key,
+                lastModified: obj.LastModified?.toISOString(),
+                size: obj.Size,
+                storageClass: obj.StorageClass,
+                etag: obj.ETag,
+              })) || [],
+            nextToken: (page) => page.NextContinuationToken,
+            pageSize: { min: 1, max: 1000 },
           })
-
-          const response = await getS3Client(args.region).send(command)
-
-          const objects =
-            response.Contents?.map((obj) => ({
-              key: obj.Key,
-              lastModified: obj.LastModified?.toISOString(),
-              size: obj.Size,
-              storageClass: obj.StorageClass,
-              etag: obj.ETag,
-            })) || []
-
-          return {
-            objects,
-            count: objects.length,
-            isTruncated: response.IsTruncated,
-            nextContinuationToken: response.NextContinuationToken,
-            commonPrefixes:
-              response.CommonPrefixes?.map((prefix) => prefix.Prefix) || [],
-          }
         } catch (error) {
           console.error(error)
           throw new ToolError({
@@ -128,16 +130,32 @@ export function createS3Tools(): Tool[] {
 
     tool({
       name: "aws_s3_get_object_metadata",
+      title: "Get S3 Object Metadata",
       description: "Get metadata for an S3 object",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         bucket: z.string().describe("S3 bucket name"),
         key: z.string().describe("Object key"),
       }),
+      output: z.object({
+        contentLength: z.number().optional(),
+        contentType: z.string().optional(),
+        lastModified: z.string().optional(),
+        etag: z.string().optional(),
+        storageClass: z.string().optional(),
+        metadata: awsObject().optional(),
+        cacheControl: z.string().optional(),
+        contentDisposition: z.string().optional(),
+        contentEncoding: z.string().optional(),
+        contentLanguage: z.string().optional(),
+        expires: z.string().optional(),
+        serverSideEncryption: z.string().optional(),
+        versionId: z.string().optional(),
+      }),
       async run(args) {
         try {
           const command = new HeadObjectCommand({
@@ -174,14 +192,15 @@ export function createS3Tools(): Tool[] {
 
     tool({
       name: "aws_s3_get_object_content",
+      title: "Get S3 Object Content",
       description:
         "Get content of an S3 object (use with caution for large files)",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         bucket: z.string().describe("S3 bucket name"),
         key: z.string().describe("Object key"),
         maxSizeBytes: z
@@ -191,6 +210,13 @@ export function createS3Tools(): Tool[] {
           .default(1024 * 1024)
           .describe("Maximum file size to read in bytes (default: 1MB)"),
       }),
+      output: z.object({
+        content: z.string(),
+        contentType: z.string().optional(),
+        contentLength: z.number().optional(),
+        lastModified: z.string().optional(),
+        etag: z.string().optional(),
+      }),
       async run(args) {
         try {
           // First check object size
@@ -1,90 +1,92 @@
 import {
   GetQueueAttributesCommand,
   GetQueueUrlCommand,
-  ListQueuesCommand,
+  paginateListQueues,
   SQSClient,
 } from "@aws-sdk/client-sqs"
 import { logger } from "@tomassabol/aws-common/utils/logger"
 import { z } from "zod"
 
+import { getAwsClient } from "~/utils/aws-client"
 import {
-  AWS_REGIONS,
+  awsRegion,
   type AwsRegion,
-  DEFAULT_AWS_REGION,
+  getDefaultAwsRegion,
 } from "~/utils/aws-region"
-import { type Tool, tool } from "~/utils/tool"
+import { multiRegion } from "~/utils/multi-region"
+import { paginate, paginatedOutput, paginationArgs } from "~/utils/pagination"
+import { awsObject, READ_ONLY_ANNOTATIONS, type Tool, tool } from "~/utils/tool"
 import { ToolError } from "~/utils/tool-error"
 
 export function createSQSTools(): Tool[] {
-  const getSQSClient = (region: AwsRegion = DEFAULT_AWS_REGION) => {
-    return new SQSClient({ region })
+  const getSQSClient = (region: AwsRegion = getDefaultAwsRegion()) => {
+    return getAwsClient(SQSClient, { service: "sqs", region })
   }
 
   return [
-    tool({
-      name: "aws_sqs_list_queues",
-      description: "List SQS queues",
-      args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
-          .describe("AWS region")
-          .optional()
-          .default(DEFAULT_AWS_REGION),
-        queueNamePrefix: z
-          .string()
-          .optional()
-          .describe("Prefix to filter queue names"),
-        nextToken: z.string().optional().describe("Pagination token"),
-        maxResults: z
-          .number()
-          .min(1)
-          .max(1000)
-          .optional()
-          .describe("Maximum queues to return"),
-      }),
-      async run(args) {
-        try {
-          const command = new ListQueuesCommand({
-            QueueNamePrefix: args.queueNamePrefix,
-            NextToken: args.nextToken,
-            MaxResults: args.maxResults,
-          })
-
-          const response = await getSQSClient(args.region).send(command)
-
-          const queues =
-            response.QueueUrls?.map((url) => {
-              const queueName = url.split("/").pop() || ""
-              return {
-                queueUrl: url,
-                queueName,
-              }
-            }) || []
-
-          return {
-            queues,
-            count: queues.length,
-            nextToken: response.NextToken,
+    multiRegion(
+      tool({
+        name: "aws_sqs_list_queues",
+        title: "List SQS Queues",
+        description: "List SQS queues",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({
+          region: awsRegion()
+            .describe("AWS region")
+            .optional()
+            .default(getDefaultAwsRegion),
+          queueNamePrefix: z
+            .string()
+            .optional()
+            .describe("Prefix to filter queue names"),
+          ...paginationArgs,
+        }),
+        output: paginatedOutput(
+          z.object({
+            queueUrl: z.string(),
+            queueName: z.string(),
+          }),
+        ),
+        async run(args) {
+          try {
+            return await paginate(args, {
+              pages: (config) =>
+                paginateListQueues(
+                  { client: getSQSClient(args.region), ...config },
+                  { QueueNamePrefix: args.queueNamePrefix },
+                ),
+              items: (page) =>
+                page.QueueUrls?.map((url) => {
+                  const queueName = url.split("/").pop() || ""
+                  return {
+                    queueUrl: url,
+                    queueName,
+                  }
+                }) || [],
+              nextToken: (page) => page.NextToken,
+              pageSize: { min: 1, max: 1000 },
+            })
+          } catch (error) {
+            throw new ToolError({
+              error,
+              toolName: "aws_sqs_list_queues",
+              toolArgs: args,
+            })
           }
-        } catch (error) {
-          throw new ToolError({
-            error,
-            toolName: "aws_sqs_list_queues",
-            toolArgs: args,
-          })
-        }
-      },
-    }),
+        },
+      }),
+    ),
 
     tool({
       name: "aws_sqs_get_queue_attributes",
+      title: "Get SQS Queue Attributes",
       description: "Get attributes for an SQS queue",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         queueUrl: z.string().describe("SQS queue URL"),
         attributeNames: z
           .array(
@@ -117,6 +119,10 @@ export function createSQSTools(): Tool[] {
           .default(["All"])
           .describe("Queue attributes to retrieve"),
       }),
+      output: z.object({
+        queueUrl: z.string(),
+        attributes: awsObject(),
+      }),
       async run(args) {
         try {
           const command = new GetQueueAttributesCommand({
@@ -178,19 +184,24 @@ export function createSQSTools(): Tool[] {
 
     tool({
       name: "aws_sqs_get_queue_url",
+      title: "Get SQS Queue URL",
       description: "Get the URL of an SQS queue by name",
+      annotations: READ_ONLY_ANNOTATIONS,
       args: z.object({
-        region: z
-          .enum(AWS_REGIONS)
+        region: awsRegion()
           .describe("AWS region")
           .optional()
-          .default(DEFAULT_AWS_REGION),
+          .default(getDefaultAwsRegion),
         queueName: z.string().describe("SQS queue name"),
         queueOwnerAWSAccountId: z
           .string()
           .optional()
           .describe("AWS account ID of queue owner"),
       }),
+      output: z.object({
+        queueUrl: z.string().optional(),
+        queueName: z.string(),
+      }),
       async run(args) {
         try {
           const command = new GetQueueUrlCommand({
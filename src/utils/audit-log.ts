@@ -0,0 +1,89 @@
+import { appendFile, mkdir } from "node:fs/promises"
+import { dirname } from "node:path"
+
+/**
+ * Structured record of a single `tools/call`
+ */
+export type AuditRecord = {
+  /**
+   * Time the call started in ISO format
+   */
+  timestamp: string
+  /**
+   * JSON-RPC id of the call, unique only within its session
+   */
+  requestId: string | number
+  sessionId?: string
+  /**
+   * Identity the request was authorized with, empty for unauthenticated dev requests
+   */
+  caller: { apiKeyId?: string; subject?: string; clientId?: string }
+  /**
+   * Client name and version sent in `initialize`, unknown for sessions adopted by another instance
+   */
+  client?: { name: string; version: string }
+  tool: string
+  /**
+   * URI of a resource read as a call of `tool`, omitted for tool calls
+   */
+  resource?: string
+  /**
+   * Arguments of the call or URI variables of the resource, redacted like tool results
+   */
+  args: Record<string, unknown>
+  /**
+   * Account alias or ID the tool ran in, omitted for the server account
+   */
+  account?: string
+  roleArn?: string
+  durationMs: number
+  /**
+   * `denied` for calls of unknown tools or tools the caller cannot call
+   */
+  outcome: "success" | "error" | "cancelled" | "denied"
+  /**
+   * Error of failed calls, AWS errors are classified by `category`, see `ToolError`
+   */
+  error?: { category?: string; message: string }
+  /**
+   * Request IDs of AWS API calls made by the tool, they match CloudTrail events
+   */
+  awsRequestIds: string[]
+  /**
+   * Size of the serialized result in bytes
+   */
+  responseBytes: number
+}
+
+/**
+ * Destination of audit records, writes are awaited so that Lambda does not freeze them
+ */
+export type AuditSink = {
+  write(record: AuditRecord): Promise<void>
+}
+
+/**
+ * Write audit records to a structured logger, e.g. CloudWatch Logs of the Lambda function
+ */
+export const createLoggerAuditSink = (logger: {
+  info(message: string, data: object): void
+}): AuditSink => ({
+  async write(record) {
+    logger.info("Tool call", { audit: record })
+  },
+})
+
+/**
+ * Append audit records to a JSON Lines file, e.g. in the dev server
+ */
+export const createFileAuditSink = (path: string): AuditSink => {
+  let directory: Promise<unknown> | undefined
+
+  return {
+    async write(record) {
+      directory ??= mkdir(dirname(path), { recursive: true })
+      await directory
+      await appendFile(path, `${JSON.stringify(record)}\n`)
+    },
+  }
+}
@@ -0,0 +1,352 @@
+import { readFileSync } from "node:fs"
+
+import { parse } from "yaml"
+import { z } from "zod"
+
+import { getDefaultAwsRegion } from "./aws-region"
+import { type AuthPrincipal } from "./bearer-auth"
+import { ToolError } from "./tool-error"
+import { globToRegExp, type ToolGroups } from "./tool-profiles"
+
+const patterns = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => [value].flat())
+
+/**
+ * Identities belonging to a group, a request is a member when any of them matches
+ */
+const groupSchema = z.object({
+  /**
+   * API Gateway API key IDs
+   */
+  apiKeys: patterns.optional(),
+  /**
+   * Subjects of bearer tokens
+   */
+  subjects: patterns.optional(),
+  /**
+   * Token claims, e.g. `{ "cognito:groups": "finance" }`, array claims match by any item
+   */
+  claims: z.record(patterns).optional(),
+  /**
+   * Identity headers forwarded by the gateway, e.g. `{ "x-amzn-oidc-identity": "alice*" }`
+   */
+  headers: z.record(patterns).optional(),
+})
+
+const ruleSchema = z.object({
+  /**
+   * Name of the rule shown in denials
+   */
+  id: z.string().optional(),
+  effect: z.enum(["allow", "deny"]),
+  /**
+   * Groups the rule applies to, every request when omitted
+   */
+  groups: patterns.optional(),
+  /**
+   * Tool groups or tool name globs, e.g. `cost` or `aws_cost_*`, every tool when omitted
+   */
+  tools: patterns.optional(),
+  /**
+   * Globs of argument values by argument, e.g. `{ bucket: "*-pii-*" }`, prefix with `!` to exclude
+   */
+  conditions: z.record(patterns).optional(),
+})
+
+export const authorizationPolicySchema = z.object({
+  groups: z.record(groupSchema).default({}),
+  rules: z.array(ruleSchema).default([]),
+})
+
+export type AuthorizationPolicy = z.infer<typeof authorizationPolicySchema>
+type PolicyRule = AuthorizationPolicy["rules"][number]
+
+/**
+ * Identity of a request the policy is evaluated for
+ */
+export type AuthorizationIdentity = {
+  /**
+   * Lower-cased request headers
+   */
+  headers: Record<string, string | undefined>
+  apiKeyId?: string
+  principal?: AuthPrincipal
+}
+
+export type Authorizer = ReturnType<typeof createAuthorizer>
+
+/**
+ * Arguments a condition is checked against besides the argument of its own name,
+ * so conditions also match resource template variables
+ */
+const CONDITION_ARGUMENTS: Record<string, string[]> = {
+  region: ["region", "regions"],
+  logGroup: ["logGroup", "logGroupName", "logGroupNames"],
+  function: ["function", "functionName"],
+  cluster: ["cluster", "clusterName", "clusters", "clusterArns"],
+  service: ["service", "serviceName", "services"],
+  bucket: ["bucket", "bucketName"],
+}
+
+/**
+ * Value of `regions` querying every region enabled in the account
+ */
+const ALL_ENABLED_REGIONS = "all-enabled"
+
+/**
+ * Call denied by the authorization policy of the server, not by AWS
+ */
+export class AccessDeniedError extends ToolError {
+  public readonly rule?: string
+
+  constructor({
+    message,
+    toolName,
+    rule,
+  }: {
+    message: string
+    toolName: string
+    rule?: string
+  }) {
+    super({ message, toolName })
+    this.name = "AccessDeniedError"
+    this.rule = rule
+  }
+
+  toStructuredContent() {
+    return {
+      error: {
+        message: this.message,
+        tool: this.toolName,
+        category: "access_denied" as const,
+        code: "PolicyDenied",
+        retryable: false,
+        remediation:
+          "The authorization policy of the MCP server does not allow this call for your identity. Use other arguments or ask an administrator to change the policy.",
+      },
+    }
+  }
+}
+
+/**
+ * Read authorization policy from `MCP_AUTHORIZATION_POLICY` or the JSON or YAML file
+ * in `MCP_AUTHORIZATION_POLICY_FILE`, `undefined` when neither is set and every call is allowed
+ */
+export const getAuthorizationPolicy = (): AuthorizationPolicy | undefined => {
+  const source =
+    process.env.MCP_AUTHORIZATION_POLICY ||
+    (process.env.MCP_AUTHORIZATION_POLICY_FILE &&
+      readFileSync(process.env.MCP_AUTHORIZATION_POLICY_FILE, "utf8"))
+  if (!source) return undefined
+
+  // JSON is a subset of YAML
+  return authorizationPolicySchema.parse(parse(source))
+}
+
+/**
+ * Whether a value matches globs, values matching a `!` prefixed glob never match
+ */
+const matchesPatterns = (value: string, globs: string[]) => {
+  const includes = globs.filter((glob) => !glob.startsWith("!"))
+  const excludes = globs
+    .filter((glob) => glob.startsWith("!"))
+    .map((glob) => glob.slice(1))
+
+  return (
+    (includes.length === 0 ||
+      includes.some((glob) => globToRegExp(glob).test(value))) &&
+    !excludes.some((glob) => globToRegExp(glob).test(value))
+  )
+}
+
+/**
+ * Whether a condition value matches globs, `all-enabled` regions match every glob of deny rules
+ * and no glob of allow rules, as they include regions on both sides
+ */
+const matchesCondition = (
+  name: string,
+  value: string,
+  globs: string[],
+  effect: PolicyRule["effect"],
+) =>
+  name === "region" && value === ALL_ENABLED_REGIONS
+    ? effect === "deny"
+    : matchesPatterns(value, globs)
+
+const getConditionValues = (name: string, args: Record<string, unknown>) => {
+  const values = (CONDITION_ARGUMENTS[name] ?? [name])
+    .flatMap((argument) => [args[argument]].flat())
+    .filter((value) => typeof value === "string" || typeof value === "number")
+    .map(String)
+
+  // Tools called without region run in the default region
+  if (name === "region" && values.length === 0) {
+    return [getDefaultAwsRegion()]
+  }
+  return values
+}
+
+/**
+ * Create authorizer of tool calls and resource reads
+ *
+ * Deny rules win over allow rules. Requests matched by allow rules may only make calls one
+ * of them allows, requests without allow rules may make every call not denied. Conditions
+ * of allow rules must match every value of the argument, e.g. every region of `regions`,
+ * conditions of deny rules any value. Calls without the argument never match a condition,
+ * except `region` which defaults to the default region.
+ *
+ * @example
+ * ```typescript
+ * const authorizer = createAuthorizer({
+ *   groups: { contractors: { claims: { "cognito:groups": "contractors" } } },
+ *   rules: [
+ *     { effect: "deny", tools: ["aws_s3_get_object_content"], conditions: { bucket: ["*-pii-*"] } },
+ *     { effect: "allow", groups: ["contractors"], conditions: { region: ["eu-central-1"] } },
+ *   ],
+ * }, toolGroups)
+ * authorizer.authorize({ toolName, args, identity })
+ * ```
+ */
+export function createAuthorizer(
+  policy: AuthorizationPolicy,
+  toolGroups: ToolGroups = {},
+) {
+  const isMember = (
+    group: AuthorizationPolicy["groups"][string],
+    identity: AuthorizationIdentity,
+  ) => {
+    const { apiKeyId, principal, headers } = identity
+    const claims = principal?.claims ?? {}
+    const matches = (value: unknown, globs?: string[]) =>
+      globs !== undefined &&
+      [value]
+        .flat()
+        .some(
+          (item) => typeof item === "string" && matchesPatterns(item, globs),
+        )
+
+    return (
+      matches(apiKeyId, group.apiKeys) ||
+      matches(principal?.subject, group.subjects) ||
+      Object.entries(group.claims ?? {}).some(([claim, globs]) =>
+        matches(claims[claim], globs),
+      ) ||
+      Object.entries(group.headers ?? {}).some(([header, globs]) =>
+        matches(headers[header.toLowerCase()], globs),
+      )
+    )
+  }
+
+  const getGroups = (identity: AuthorizationIdentity) =>
+    Object.entries(policy.groups)
+      .filter(([, group]) => isMember(group, identity))
+      .map(([name]) => name)
+
+  const matchesTool = (rule: PolicyRule, toolName: string) =>
+    !rule.tools ||
+    rule.tools.some(
+      (pattern) =>
+        toolGroups[pattern]?.some((tool) => tool.name === toolName) ||
+        globToRegExp(pattern).test(toolName),
+    )
+
+  /**
+   * Rules of groups the request belongs to
+   */
+  const getRules = (identity: AuthorizationIdentity) => {
+    const groups = getGroups(identity)
+    return policy.rules.filter(
+      (rule) =>
+        !rule.groups ||
+        rule.groups.some((group) => group === "*" || groups.includes(group)),
+    )
+  }
+
+  const describeRule = (rule: PolicyRule) =>
+    rule.id ? `rule "${rule.id}"` : `rule ${policy.rules.indexOf(rule) + 1}`
+
+  return {
+    /**
+     * Whether the request may call the tool with some arguments, other tools are not listed
+     */
+    canCall(toolName: string, identity: AuthorizationIdentity) {
+      const rules = getRules(identity).filter((rule) =>
+        matchesTool(rule, toolName),
+      )
+      if (rules.some((rule) => rule.effect === "deny" && !rule.conditions)) {
+        return false
+      }
+
+      const hasAllowRules = getRules(identity).some(
+        (rule) => rule.effect === "allow",
+      )
+      return !hasAllowRules || rules.some((rule) => rule.effect === "allow")
+    },
+
+    /**
+     * Decide a call of a tool, or a read of a resource with the variables of its URI
+     *
+     * @throws AccessDeniedError when the policy does not allow the call
+     */
+    authorize(request: {
+      toolName: string
+      args: Record<string, unknown>
+      identity: AuthorizationIdentity
+    }) {
+      const { toolName, args } = request
+      const rules = getRules(request.identity)
+      const toolRules = rules.filter((rule) => matchesTool(rule, toolName))
+
+      const denied = toolRules.find(
+        (rule) =>
+          rule.effect === "deny" &&
+          Object.entries(rule.conditions ?? {}).every(([name, globs]) =>
+            getConditionValues(name, args).some((value) =>
+              matchesCondition(name, value, globs, "deny"),
+            ),
+          ),
+      )
+      if (denied) {
+        const conditions = Object.keys(denied.conditions ?? {})
+          .map((name) => `${name} ${getConditionValues(name, args).join(", ")}`)
+          .join(" and ")
+        throw new AccessDeniedError({
+          message: `Access denied by ${describeRule(denied)} of the authorization policy: ${toolName}${conditions ? ` with ${conditions}` : ""} is not allowed`,
+          toolName,
+          rule: denied.id,
+        })
+      }
+
+      if (!rules.some((rule) => rule.effect === "allow")) return
+
+      const allowRules = toolRules.filter((rule) => rule.effect === "allow")
+      const allowed = allowRules.some((rule) =>
+        Object.entries(rule.conditions ?? {}).every(([name, globs]) => {
+          const values = getConditionValues(name, args)
+          return (
+            values.length > 0 &&
+            values.every((value) =>
+              matchesCondition(name, value, globs, "allow"),
+            )
+          )
+        }),
+      )
+      if (!allowed) {
+        const unmet = allowRules
+          .flatMap((rule) => Object.entries(rule.conditions ?? {}))
+          .filter(([name, globs]) =>
+            getConditionValues(name, args).some(
+              (value) => !matchesCondition(name, value, globs, "allow"),
+            ),
+          )
+          .map(([name, globs]) => `${name} must match ${globs.join(", ")}`)
+
+        throw new AccessDeniedError({
+          message: `Access denied by the authorization policy: ${toolName} is not allowed${unmet.length > 0 ? `, ${[...new Set(unmet)].join(" and ")}` : ""}`,
+          toolName,
+        })
+      }
+    },
+  }
+}
@@ -0,0 +1,251 @@
+import { fromTemporaryCredentials } from "@aws-sdk/credential-providers"
+import {
+  type AwsCredentialIdentity,
+  type AwsCredentialIdentityProvider,
+} from "@aws-sdk/types"
+import { AsyncLocalStorage } from "node:async_hooks"
+import { z } from "zod"
+
+import { type AwsClientCredentials } from "./aws-client"
+import {
+  type AwsPartition,
+  getAwsPartition,
+  getDefaultAwsRegion,
+} from "./aws-region"
+import { ToolError } from "./tool-error"
+
+const ROLE_ARN_PATTERN = /^arn:aws[a-z-]*:iam::\d{12}:role\/[\w+=,.@/-]+$/
+const ACCOUNT_ID_PATTERN = /^\d{12}$/
+
+/**
+ * Refresh assumed role credentials this long before they expire
+ */
+const EXPIRATION_MARGIN_MS = 5 * 60 * 1000
+
+const accountConfigSchema = z.object({
+  roleArn: z.string().regex(ROLE_ARN_PATTERN),
+  externalId: z.string().optional(),
+  sessionName: z.string().optional(),
+})
+export type AwsAccountConfig = z.infer<typeof accountConfigSchema>
+
+/**
+ * Arguments accepted by every tool to run it in another AWS account
+ */
+export const awsAccountArgs = z.object({
+  account: z
+    .string()
+    .describe(
+      "AWS account alias from the server account registry or 12-digit account ID, defaults to the server account",
+    )
+    .optional(),
+  roleArn: z
+    .string()
+    .regex(ROLE_ARN_PATTERN, "Invalid IAM role ARN")
+    .describe(
+      "ARN of IAM role to assume, one of the roles allowed by the server, takes precedence over account",
+    )
+    .optional(),
+})
+export type AwsAccountArgs = z.infer<typeof awsAccountArgs>
+
+/**
+ * Read account alias registry from `AWS_ACCOUNTS` environment variable
+ *
+ * @example
+ * ```json
+ * { "prod": { "roleArn": "arn:aws:iam::123456789012:role/ReadOnly", "externalId": "..." } }
+ * ```
+ */
+export const getAwsAccounts = (): Record<string, AwsAccountConfig> => {
+  if (!process.env.AWS_ACCOUNTS) return {}
+
+  return z
+    .record(accountConfigSchema)
+    .parse(JSON.parse(process.env.AWS_ACCOUNTS))
+}
+
+/**
+ * Read roles callers may assume by `roleArn` from comma separated `AWS_ALLOWED_ROLE_ARNS`,
+ * in addition to the roles of the account registry
+ */
+export const getAllowedRoleArns = (): string[] =>
+  (process.env.AWS_ALLOWED_ROLE_ARNS ?? "")
+    .split(",")
+    .map((roleArn) => roleArn.trim())
+    .filter(Boolean)
+
+/**
+ * Account or role of the tool arguments cannot be used, rejected by the server before calling AWS
+ */
+export class AwsAccountError extends ToolError {
+  public readonly category: "access_denied" | "validation"
+
+  constructor({
+    message,
+    category,
+  }: {
+    message: string
+    category: AwsAccountError["category"]
+  }) {
+    super({ message })
+    this.name = "AwsAccountError"
+    this.category = category
+  }
+
+  toStructuredContent() {
+    return {
+      error: {
+        message: this.message,
+        tool: this.toolName,
+        category: this.category,
+        code:
+          this.category === "access_denied"
+            ? "RoleNotAllowed"
+            : "UnknownAccount",
+        retryable: false,
+        remediation:
+          this.category === "access_denied"
+            ? "The MCP server is not configured to assume this role. Use an account of the registry or ask an administrator to allow the role."
+            : "Use an account alias of the registry, a 12 digit account ID or a role ARN.",
+      },
+    }
+  }
+}
+
+/**
+ * Resolve role to assume for tool arguments, `undefined` for the server account
+ */
+export const resolveAwsAccount = (
+  args: AwsAccountArgs,
+): AwsAccountConfig | undefined => {
+  const defaults = {
+    externalId: process.env.AWS_ASSUME_ROLE_EXTERNAL_ID,
+    sessionName: process.env.AWS_ASSUME_ROLE_SESSION_NAME,
+  }
+
+  const accounts = getAwsAccounts()
+  if (args.roleArn) {
+    // Callers must not make the server assume arbitrary roles trusting it
+    const registered = Object.values(accounts).find(
+      (account) => account.roleArn === args.roleArn,
+    )
+    if (registered) return { ...defaults, ...registered }
+    if (getAllowedRoleArns().includes(args.roleArn)) {
+      return { ...defaults, roleArn: args.roleArn }
+    }
+    throw new AwsAccountError({
+      message: `Role is not allowed: ${args.roleArn}`,
+      category: "access_denied",
+    })
+  }
+  if (!args.account) return undefined
+
+  const account = accounts[args.account]
+  if (account) return { ...defaults, ...account }
+
+  const roleName = process.env.AWS_ASSUME_ROLE_NAME
+  if (ACCOUNT_ID_PATTERN.test(args.account) && roleName) {
+    return {
+      ...defaults,
+      roleArn: `arn:${getAwsPartition(getDefaultAwsRegion())}:iam::${args.account}:role/${roleName}`,
+    }
+  }
+
+  throw new AwsAccountError({
+    message: `Unknown AWS account: ${args.account}`,
+    category: "validation",
+  })
+}
+
+/**
+ * Keep credentials until shortly before they expire
+ */
+const cacheUntilExpiration = (
+  provider: AwsCredentialIdentityProvider,
+): AwsCredentialIdentityProvider => {
+  let credentials: Promise<AwsCredentialIdentity> | undefined
+
+  return async () => {
+    const cached = await credentials?.catch(() => undefined)
+    if (
+      cached &&
+      (!cached.expiration ||
+        cached.expiration.getTime() - EXPIRATION_MARGIN_MS > Date.now())
+    ) {
+      return cached
+    }
+
+    credentials = provider()
+    return credentials
+  }
+}
+
+const providers = new Map<string, AwsClientCredentials>()
+
+/**
+ * Credentials of an assumed role, shared by all clients of the role
+ */
+export const getAssumedRoleCredentials = (
+  account: AwsAccountConfig,
+): AwsClientCredentials => {
+  const key = [
+    account.roleArn,
+    account.externalId ?? "",
+    account.sessionName ?? "",
+  ].join("|")
+
+  const cached = providers.get(key)
+  if (cached) return cached
+
+  const credentials = {
+    key,
+    partition: account.roleArn.split(":")[1] as AwsPartition,
+    provider: cacheUntilExpiration(
+      fromTemporaryCredentials({
+        params: {
+          RoleArn: account.roleArn,
+          ExternalId: account.externalId,
+          RoleSessionName: account.sessionName ?? "aws-cloudcontrol",
+        },
+      }),
+    ),
+  }
+  providers.set(key, credentials)
+
+  return credentials
+}
+
+const storage = new AsyncLocalStorage<AwsClientCredentials>()
+
+/**
+ * Run function with AWS clients from `getAwsClient` using the given credentials
+ *
+ * @example
+ * ```typescript
+ * const credentials = getAssumedRoleCredentials(resolveAwsAccount({ account: "prod" })!)
+ * const result = await runAsAwsAccount(credentials, () => tool.run(args, context))
+ * ```
+ */
+export const runAsAwsAccount = <T>(
+  credentials: AwsClientCredentials,
+  fn: () => Promise<T>,
+): Promise<T> => storage.run(credentials, fn)
+
+/**
+ * Run function in the account selected by tool arguments, the server account by default
+ */
+export const runInAwsAccount = <T>(
+  args: AwsAccountArgs,
+  fn: () => Promise<T>,
+): Promise<T> => {
+  const account = resolveAwsAccount(args)
+  return account
+    ? runAsAwsAccount(getAssumedRoleCredentials(account), fn)
+    : fn()
+}
+
+/**
+ * Credentials of the account the current tool runs in, `undefined` for the server account
+ */
+export const getCurrentAwsCredentials = () => storage.getStore()
@@ -0,0 +1,93 @@
+import { AsyncLocalStorage } from "node:async_hooks"
+
+/**
+ * Statistics of AWS API calls made while running a single tool
+ */
+export type AwsCallMetrics = {
+  /**
+   * Number of AWS API operations
+   */
+  calls: number
+  /**
+   * Number of HTTP attempts including retries
+   */
+  attempts: number
+  retries: number
+  totalRetryDelayMs: number
+  requestIds: string[]
+  /**
+   * Number of HTTP attempts including retries by service, e.g. `{ ce: 2 }`, each attempt is billed
+   */
+  attemptsByService: Record<string, number>
+  /**
+   * Bytes scanned by Logs Insights queries by query ID, as of their last results
+   */
+  bytesScannedByQuery: Record<string, number>
+}
+
+type ResponseMetadata = {
+  attempts?: number
+  totalRetryDelay?: number
+  requestId?: string
+}
+
+const storage = new AsyncLocalStorage<AwsCallMetrics>()
+
+export const createAwsCallMetrics = (): AwsCallMetrics => ({
+  calls: 0,
+  attempts: 0,
+  retries: 0,
+  totalRetryDelayMs: 0,
+  requestIds: [],
+  attemptsByService: {},
+  bytesScannedByQuery: {},
+})
+
+/**
+ * Run function and collect metrics of every AWS call made by clients from `getAwsClient`
+ *
+ * @example
+ * ```typescript
+ * const metrics = createAwsCallMetrics()
+ * const result = await trackAwsCalls(metrics, () => tool.run(args, context))
+ * ```
+ */
+export const trackAwsCalls = <T>(
+  metrics: AwsCallMetrics,
+  fn: () => Promise<T>,
+): Promise<T> => storage.run(metrics, fn)
+
+/**
+ * Record response metadata of a finished (successful or failed) AWS call
+ */
+export const recordAwsCall = (
+  metadata?: ResponseMetadata,
+  service?: string,
+) => {
+  const metrics = storage.getStore()
+  if (!metrics) return
+
+  const attempts = metadata?.attempts ?? 1
+  metrics.calls += 1
+  metrics.attempts += attempts
+  metrics.retries += attempts - 1
+  metrics.totalRetryDelayMs += metadata?.totalRetryDelay ?? 0
+  if (metadata?.requestId) metrics.requestIds.push(metadata.requestId)
+  if (service) {
+    metrics.attemptsByService[service] =
+      (metrics.attemptsByService[service] ?? 0) + attempts
+  }
+}
+
+/**
+ * Record bytes scanned by a Logs Insights query so far, e.g. of its `GetQueryResults` statistics
+ */
+export const recordQueryScan = (queryId: string, bytesScanned = 0) => {
+  const metrics = storage.getStore()
+  if (!metrics) return
+
+  metrics.bytesScannedByQuery[queryId] = Math.max(
+    metrics.bytesScannedByQuery[queryId] ?? 0,
+    bytesScanned,
+  )
+}
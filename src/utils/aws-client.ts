@@ -0,0 +1,249 @@
+import {
+  type AwsCredentialIdentityProvider,
+  type MetadataBearer,
+  type MiddlewareStack,
+} from "@aws-sdk/types"
+import * as https from "node:https"
+
+import { getCurrentAwsCredentials } from "./aws-account"
+import { recordAwsCall } from "./aws-call-metrics"
+import { type AwsPartition, type AwsRegion } from "./aws-region"
+
+export const AWS_SERVICES = [
+  "ce",
+  "cloudfront",
+  "cloudwatch",
+  "dynamodb",
+  "ec2",
+  "ecs",
+  "lambda",
+  "logs",
+  "rds",
+  "s3",
+  "sqs",
+  "sts",
+] as const
+export type AwsService = (typeof AWS_SERVICES)[number]
+
+export type RetryPolicy = {
+  /**
+   * `adaptive` adds client side rate limiting on top of exponential backoff with jitter
+   */
+  retryMode: "standard" | "adaptive"
+  /**
+   * Maximum number of attempts including the first one
+   */
+  maxAttempts: number
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retryMode: "adaptive",
+  maxAttempts: 5,
+}
+
+/**
+ * Service specific overrides of the default retry policy
+ */
+const SERVICE_RETRY_POLICIES: Partial<
+  Record<AwsService, Partial<RetryPolicy>>
+> = {
+  // Every Cost Explorer request is charged, do not multiply the bill by retries
+  ce: { maxAttempts: 3 },
+  // EC2 describe APIs share a low account-wide request rate
+  ec2: { maxAttempts: 8 },
+  logs: { maxAttempts: 6 },
+}
+
+const parseRetryMode = (value?: string) =>
+  value === "standard" || value === "adaptive" ? value : undefined
+
+const parseMaxAttempts = (value?: string) => {
+  const maxAttempts = Number(value)
+  return Number.isInteger(maxAttempts) && maxAttempts > 0
+    ? maxAttempts
+    : undefined
+}
+
+const parseNumber = (value?: string) =>
+  value !== undefined && value !== "" && !Number.isNaN(Number(value))
+    ? Number(value)
+    : undefined
+
+const removeUndefined = <T extends object>(value: T) =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined),
+  ) as Partial<T>
+
+/**
+ * Resolve retry policy of a service
+ *
+ * Defaults can be overridden by environment variables:
+ * - `AWS_RETRY_MODE` and `AWS_MAX_ATTEMPTS` for all services
+ * - `AWS_<SERVICE>_RETRY_MODE` and `AWS_<SERVICE>_MAX_ATTEMPTS` for a single service, e.g. `AWS_CE_MAX_ATTEMPTS`
+ */
+export const getRetryPolicy = (service: AwsService): RetryPolicy => {
+  const prefix = `AWS_${service.toUpperCase()}`
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...SERVICE_RETRY_POLICIES[service],
+    ...removeUndefined({
+      retryMode: parseRetryMode(process.env.AWS_RETRY_MODE),
+      maxAttempts: parseMaxAttempts(process.env.AWS_MAX_ATTEMPTS),
+    }),
+    ...removeUndefined({
+      retryMode: parseRetryMode(process.env[`${prefix}_RETRY_MODE`]),
+      maxAttempts: parseMaxAttempts(process.env[`${prefix}_MAX_ATTEMPTS`]),
+    }),
+  }
+}
+
+/**
+ * HTTP connection settings shared by all AWS clients
+ *
+ * Connections are kept alive between calls and warm Lambda invocations.
+ */
+const getHttpOptions = () => ({
+  maxSockets: parseNumber(process.env.AWS_HTTP_MAX_SOCKETS) ?? 50,
+  keepAliveMsecs: parseNumber(process.env.AWS_HTTP_KEEP_ALIVE_MSECS) ?? 1000,
+  connectionTimeout: parseNumber(process.env.AWS_HTTP_CONNECTION_TIMEOUT_MS),
+  requestTimeout: parseNumber(process.env.AWS_HTTP_REQUEST_TIMEOUT_MS),
+})
+
+/**
+ * Custom endpoint, e.g. a local emulator
+ *
+ * `AWS_ENDPOINT_URL_<SERVICE>` takes precedence over `AWS_ENDPOINT_URL`
+ */
+const getEndpoint = (service: AwsService) =>
+  process.env[`AWS_ENDPOINT_URL_${service.toUpperCase()}`] ??
+  process.env.AWS_ENDPOINT_URL
+
+type AwsClient = {
+  middlewareStack: MiddlewareStack<object, MetadataBearer>
+}
+
+type AwsClientConfig = {
+  region: AwsRegion
+  retryMode: RetryPolicy["retryMode"]
+  maxAttempts: number
+  endpoint?: string
+  credentials?: AwsCredentialIdentityProvider
+  requestHandler: {
+    httpsAgent: https.Agent
+    connectionTimeout?: number
+    requestTimeout?: number
+  }
+}
+
+export type AwsClientCredentials = {
+  /**
+   * Identity of the credentials used in the client cache key, e.g. role ARN
+   */
+  key: string
+  /**
+   * Partition of the account, defaults to the partition of the default region
+   */
+  partition?: AwsPartition
+  provider: AwsCredentialIdentityProvider
+}
+
+/**
+ * Maximum number of cached clients, the least recently used ones are dropped
+ */
+const MAX_CACHED_CLIENTS = 200
+
+const clients = new Map<string, AwsClient>()
+let httpsAgent: https.Agent | undefined
+
+const createClient = <Client extends AwsClient>(
+  ClientClass: new (config: AwsClientConfig) => Client,
+  input: {
+    service: AwsService
+    region: AwsRegion
+    credentials?: AwsClientCredentials
+  },
+): Client => {
+  const { connectionTimeout, requestTimeout, ...agentOptions } =
+    getHttpOptions()
+  httpsAgent ??= new https.Agent({ keepAlive: true, ...agentOptions })
+
+  const client = new ClientClass({
+    region: input.region,
+    ...getRetryPolicy(input.service),
+    endpoint: getEndpoint(input.service),
+    credentials: input.credentials?.provider,
+    requestHandler: { httpsAgent, connectionTimeout, requestTimeout },
+  })
+
+  client.middlewareStack.add(
+    (next) => async (args) => {
+      try {
+        const result = await next(args)
+        recordAwsCall(result.output.$metadata, input.service)
+        return result
+      } catch (error) {
+        recordAwsCall(
+          (error as { $metadata?: object } | undefined)?.$metadata,
+          input.service,
+        )
+        throw error
+      }
+    },
+    { step: "initialize", name: "awsCallMetricsMiddleware" },
+  )
+
+  return client
+}
+
+/**
+ * Get AWS SDK client for a service, region and credentials
+ *
+ * Clients are cached for the lifetime of the process, so warm Lambda invocations
+ * and the dev server reuse clients and their connections. Each client uses the retry
+ * policy of its service and records its calls to the metrics of the running tool,
+ * see `trackAwsCalls`. Without explicit credentials the client uses the account
+ * of the running tool, see `runAsAwsAccount`.
+ *
+ * @example
+ * ```typescript
+ * const client = getAwsClient(S3Client, { service: "s3", region })
+ * ```
+ */
+export function getAwsClient<Client extends AwsClient>(
+  ClientClass: new (config: AwsClientConfig) => Client,
+  input: {
+    service: AwsService
+    region: AwsRegion
+    credentials?: AwsClientCredentials
+  },
+): Client {
+  const credentials = input.credentials ?? getCurrentAwsCredentials()
+  const key = [input.service, input.region, credentials?.key ?? "default"].join(
+    "|",
+  )
+
+  const cached = clients.get(key)
+  if (cached) {
+    // Move to the end of the map to keep least recently used clients first
+    clients.delete(key)
+    clients.set(key, cached)
+    return cached as Client
+  }
+
+  const client = createClient(ClientClass, { ...input, credentials })
+  clients.set(key, client)
+
+  if (clients.size > MAX_CACHED_CLIENTS) {
+    clients.delete(clients.keys().next().value!)
+  }
+
+  return client
+}
+
+/**
+ * Drop cached clients, e.g. after configuration change
+ */
+export const clearAwsClients = () => {
+  clients.clear()
+}
@@ -0,0 +1,190 @@
+export const AWS_ERROR_CATEGORIES = [
+  "access_denied",
+  "throttling",
+  "quota_exceeded",
+  "resource_not_found",
+  "validation",
+  "expired_credentials",
+  "region_not_enabled",
+  "service_error",
+  "unknown",
+] as const
+export type AwsErrorCategory = (typeof AWS_ERROR_CATEGORIES)[number]
+
+export type AwsErrorDetails = {
+  category: AwsErrorCategory
+  /**
+   * AWS error code, e.g. `AccessDeniedException`
+   */
+  code?: string
+  httpStatus?: number
+  /**
+   * AWS request ID, can be used to find the call in CloudTrail or to contact AWS support
+   */
+  requestId?: string
+  retryable: boolean
+  remediation: string
+}
+
+/**
+ * Shape of AWS SDK v3 `ServiceException` and client side SDK errors
+ */
+type AwsSdkError = Error & {
+  code?: string
+  $fault?: "client" | "server"
+  $retryable?: { throttling?: boolean }
+  $metadata?: {
+    httpStatusCode?: number
+    requestId?: string
+    extendedRequestId?: string
+  }
+}
+
+const ERROR_CODES: Record<
+  Exclude<AwsErrorCategory, "service_error" | "unknown">,
+  string[]
+> = {
+  expired_credentials: [
+    "ExpiredToken",
+    "ExpiredTokenException",
+    "RequestExpired",
+    "InvalidClientTokenId",
+    "UnrecognizedClientException",
+    "InvalidAccessKeyId",
+    "SignatureDoesNotMatch",
+    "TokenRefreshRequired",
+    "CredentialsProviderError",
+  ],
+  region_not_enabled: ["OptInRequired", "InvalidRegion", "ENOTFOUND"],
+  access_denied: [
+    "AccessDenied",
+    "AccessDeniedException",
+    "UnauthorizedOperation",
+    "UnauthorizedException",
+    "AuthorizationError",
+    "AuthFailure",
+    "NotAuthorized",
+    "Forbidden",
+  ],
+  throttling: [
+    "Throttling",
+    "ThrottlingException",
+    "ThrottledException",
+    "RequestLimitExceeded",
+    "RequestThrottled",
+    "RequestThrottledException",
+    "TooManyRequestsException",
+    "SlowDown",
+    "ProvisionedThroughputExceededException",
+  ],
+  quota_exceeded: ["LimitExceededException", "ServiceQuotaExceededException"],
+  resource_not_found: [
+    "ResourceNotFoundException",
+    "NoSuchBucket",
+    "NoSuchKey",
+    "NotFound",
+    "QueueDoesNotExist",
+    "AWS.SimpleQueueService.NonExistentQueue",
+  ],
+  validation: [
+    "ValidationException",
+    "ValidationError",
+    "InvalidParameterValue",
+    "InvalidParameterException",
+    "InvalidParameterCombination",
+    "InvalidParameterValueException",
+    "InvalidRequest",
+    "InvalidRequestException",
+    "InvalidArgument",
+    "MissingParameter",
+    "BadRequestException",
+  ],
+}
+
+const REMEDIATIONS: Record<AwsErrorCategory, string> = {
+  access_denied:
+    "The server role is not allowed to perform this action. Ask for the missing IAM permission or use another account or role.",
+  throttling:
+    "AWS throttled the request. Retry later with backoff or reduce the number of parallel calls.",
+  quota_exceeded:
+    "A service quota of the account is used up, e.g. concurrent queries or resources. Retrying does not help until usage drops or the quota is raised.",
+  resource_not_found:
+    "The resource does not exist in this account and region. Check the identifier and the region.",
+  validation:
+    "AWS rejected the request parameters. Check the argument values and their combination.",
+  expired_credentials:
+    "The server credentials are expired or invalid. Credentials must be refreshed before retrying.",
+  region_not_enabled:
+    "The region is not enabled for the account or the service is not available there. Switch to an enabled region.",
+  service_error:
+    "AWS returned a server error. The request can be retried later.",
+  unknown: "Unexpected error. Check the error message for details.",
+}
+
+const isAwsSdkError = (error: unknown): error is AwsSdkError =>
+  error instanceof Error &&
+  ("$metadata" in error ||
+    "$fault" in error ||
+    "code" in error ||
+    error.name === "CredentialsProviderError")
+
+const categorize = (code: string, httpStatus?: number): AwsErrorCategory => {
+  const category = (
+    Object.keys(ERROR_CODES) as Array<keyof typeof ERROR_CODES>
+  ).find((category) => ERROR_CODES[category].includes(code))
+  if (category) return category
+
+  // Service specific codes, e.g. DBInstanceNotFound, ClusterNotFoundException, InvalidInstanceID.NotFound
+  if (/NotFound|DoesNotExist|NoSuch/.test(code)) return "resource_not_found"
+  if (/Throttl/.test(code)) return "throttling"
+  if (/LimitExceeded|QuotaExceeded/.test(code)) return "quota_exceeded"
+  if (/^Invalid|Malformed|Validation/.test(code)) return "validation"
+
+  switch (true) {
+    case httpStatus === 403:
+      return "access_denied"
+    case httpStatus === 404:
+      return "resource_not_found"
+    case httpStatus === 429:
+      return "throttling"
+    case httpStatus !== undefined && httpStatus >= 500:
+      return "service_error"
+    case httpStatus === 400:
+      return "validation"
+    default:
+      return "unknown"
+  }
+}
+
+/**
+ * Classify error thrown by AWS SDK client
+ *
+ * Returns `undefined` when the error does not come from AWS SDK.
+ *
+ * @example
+ * ```typescript
+ * classifyAwsError(error)
+ * // { category: "throttling", code: "ThrottlingException", httpStatus: 400, requestId: "...", retryable: true, remediation: "..." }
+ * ```
+ */
+export function classifyAwsError(error: unknown): AwsErrorDetails | undefined {
+  if (!isAwsSdkError(error)) return undefined
+
+  const code = error.name !== "Error" ? error.name : error.code
+  const httpStatus = error.$metadata?.httpStatusCode
+  const category = categorize(code ?? "", httpStatus)
+
+  return {
+    category,
+    code,
+    httpStatus,
+    requestId: error.$metadata?.requestId,
+    // SDK retries LimitExceededException like throttling, but the quota stays used up
+    retryable:
+      category !== "quota_exceeded" &&
+      (category === "throttling" ||
+        category === "service_error" ||
+        error.$retryable !== undefined),
+    remediation: REMEDIATIONS[category],
+  }
+}
@@ -1,31 +1,207 @@
-export const AWS_REGIONS = [
-  "af-south-1",
-  "ap-east-1",
-  "ap-northeast-1",
-  "ap-northeast-2",
-  "ap-northeast-3",
-  "ap-south-1",
-  "ap-south-2",
-  "ap-southeast-1",
-  "ap-southeast-2",
-  "ca-central-1",
-  "cn-north-1",
-  "cn-northwest-1",
-  "eu-central-1",
-  "eu-north-1",
-  "eu-south-1",
-  "eu-south-2",
-  "eu-west-1",
-  "eu-west-2",
-  "eu-west-3",
-  "il-central-1",
-  "me-central-1",
-  "me-south-1",
-  "sa-east-1",
-  "us-east-1",
-  "us-east-2",
-  "us-west-1",
-  "us-west-2",
-] as const
-export type AwsRegion = (typeof AWS_REGIONS)[number]
-export const DEFAULT_AWS_REGION: AwsRegion = "eu-central-1"
+import { DescribeRegionsCommand, EC2Client } from "@aws-sdk/client-ec2"
+import { z } from "zod"
+
+import { getCurrentAwsCredentials } from "./aws-account"
+import { getAwsClient } from "./aws-client"
+
+export const AWS_PARTITIONS = ["aws", "aws-cn", "aws-us-gov"] as const
+export type AwsPartition = (typeof AWS_PARTITIONS)[number]
+
+/**
+ * Region name, e.g. `eu-central-1`, availability in the account is checked by `awsRegion` schema
+ */
+export type AwsRegion = string
+
+/**
+ * Regions known at build time, used when the account regions cannot be discovered
+ */
+export const AWS_REGIONS: Record<AwsPartition, readonly AwsRegion[]> = {
+  aws: [
+    "af-south-1",
+    "ap-east-1",
+    "ap-east-2",
+    "ap-northeast-1",
+    "ap-northeast-2",
+    "ap-northeast-3",
+    "ap-south-1",
+    "ap-south-2",
+    "ap-southeast-1",
+    "ap-southeast-2",
+    "ap-southeast-3",
+    "ap-southeast-4",
+    "ap-southeast-5",
+    "ap-southeast-6",
+    "ap-southeast-7",
+    "ca-central-1",
+    "ca-west-1",
+    "eu-central-1",
+    "eu-central-2",
+    "eu-north-1",
+    "eu-south-1",
+    "eu-south-2",
+    "eu-west-1",
+    "eu-west-2",
+    "eu-west-3",
+    "il-central-1",
+    "me-central-1",
+    "me-south-1",
+    "mx-central-1",
+    "sa-east-1",
+    "us-east-1",
+    "us-east-2",
+    "us-west-1",
+    "us-west-2",
+  ],
+  "aws-cn": ["cn-north-1", "cn-northwest-1"],
+  "aws-us-gov": ["us-gov-east-1", "us-gov-west-1"],
+}
+
+/**
+ * Region used for partition wide calls, e.g. `DescribeRegions`
+ */
+const PARTITION_HOME_REGIONS: Record<AwsPartition, AwsRegion> = {
+  aws: "us-east-1",
+  "aws-cn": "cn-north-1",
+  "aws-us-gov": "us-gov-west-1",
+}
+
+const AWS_REGION_PATTERN = /^[a-z]{2}(-gov)?-[a-z]+-\d+$/
+
+const DEFAULT_REGIONS_CACHE_TTL_SECONDS = 60 * 60
+
+/**
+ * Regions known at build time are used this long after discovery failed before it is retried
+ */
+const FAILED_DISCOVERY_TTL_MS = 60 * 1000
+
+export const getAwsPartition = (region: AwsRegion): AwsPartition => {
+  if (region.startsWith("cn-")) return "aws-cn"
+  if (region.startsWith("us-gov-")) return "aws-us-gov"
+  return "aws"
+}
+
+/**
+ * Region used when a tool is called without `region`
+ *
+ * Configured by `DEFAULT_AWS_REGION`, falls back to the region the server runs in
+ */
+export const getDefaultAwsRegion = (): AwsRegion =>
+  process.env.DEFAULT_AWS_REGION || process.env.AWS_REGION || "eu-central-1"
+
+/**
+ * Partition of the account the current tool runs in
+ */
+export const getCurrentAwsPartition = (): AwsPartition =>
+  getCurrentAwsCredentials()?.partition ??
+  getAwsPartition(getDefaultAwsRegion())
+
+const getRegionsCacheTtlMs = () => {
+  const ttl = Number(process.env.AWS_REGIONS_CACHE_TTL_SECONDS)
+  return (
+    (Number.isFinite(ttl) && ttl >= 0
+      ? ttl
+      : DEFAULT_REGIONS_CACHE_TTL_SECONDS) * 1000
+  )
+}
+
+const enabledRegions = new Map<
+  string,
+  { regions: Promise<AwsRegion[]>; expiresAt: number }
+>()
+
+const describeEnabledRegions = async (
+  partition: AwsPartition,
+): Promise<AwsRegion[]> => {
+  const defaultRegion = getDefaultAwsRegion()
+  const region =
+    getAwsPartition(defaultRegion) === partition
+      ? defaultRegion
+      : PARTITION_HOME_REGIONS[partition]
+
+  const response = await getAwsClient(EC2Client, {
+    service: "ec2",
+    region,
+  }).send(new DescribeRegionsCommand({ AllRegions: false }))
+
+  return (response.Regions ?? [])
+    .map((region) => region.RegionName)
+    .filter((region): region is AwsRegion => !!region)
+    .sort()
+}
+
+/**
+ * Regions enabled in the account of the running tool
+ *
+ * Opt-in regions which are not enabled are excluded. Regions are cached per account
+ * for `AWS_REGIONS_CACHE_TTL_SECONDS`, `refresh` discovers them again. When discovery fails,
+ * the error is thrown and the regions known at build time are returned for a minute.
+ */
+export const getEnabledAwsRegions = async ({
+  refresh = false,
+}: { refresh?: boolean } = {}): Promise<AwsRegion[]> => {
+  const partition = getCurrentAwsPartition()
+  const key = [getCurrentAwsCredentials()?.key ?? "default", partition].join(
+    "|",
+  )
+
+  const cached = enabledRegions.get(key)
+  if (!refresh && cached && cached.expiresAt > Date.now()) {
+    return cached.regions
+  }
+
+  const regions = describeEnabledRegions(partition)
+  enabledRegions.set(key, {
+    regions,
+    expiresAt: Date.now() + getRegionsCacheTtlMs(),
+  })
+
+  try {
+    return await regions
+  } catch (error) {
+    // Calls without `ec2:DescribeRegions` permission must not retry discovery every time
+    enabledRegions.set(key, {
+      regions: Promise.resolve([...AWS_REGIONS[partition]]),
+      expiresAt: Date.now() + FAILED_DISCOVERY_TTL_MS,
+    })
+    throw error
+  }
+}
+
+/**
+ * Drop discovered regions of all accounts
+ */
+export const clearAwsRegionCache = () => {
+  enabledRegions.clear()
+}
+
+/**
+ * Check region is enabled in the account of the running tool
+ *
+ * Falls back to the regions known at build time when the account regions
+ * cannot be discovered, e.g. without `ec2:DescribeRegions` permission.
+ */
+export const isAvailableAwsRegion = async (region: AwsRegion) => {
+  const partition = getCurrentAwsPartition()
+  if (getAwsPartition(region) !== partition) return false
+
+  const regions = await getEnabledAwsRegions().catch(
+    () => AWS_REGIONS[partition],
+  )
+  return regions.includes(region)
+}
+
+/**
+ * Schema of a region argument
+ *
+ * @example
+ * ```typescript
+ * z.object({ region: awsRegion().describe("AWS region").optional().default(getDefaultAwsRegion) })
+ * ```
+ */
+export const awsRegion = () =>
+  z
+    .string()
+    .regex(AWS_REGION_PATTERN, "Invalid AWS region")
+    .refine(isAvailableAwsRegion, (region) => ({
+      message: `Region ${region} is not enabled in the account or not in its partition`,
+    }))
@@ -0,0 +1,242 @@
+import { createJwtVerifier, InvalidTokenError } from "./jwt"
+
+/**
+ * Identity of a request authenticated by a bearer token
+ */
+export type AuthPrincipal = {
+  /**
+   * `sub` claim of the token, the user or the client of a machine-to-machine token
+   */
+  subject: string
+  /**
+   * OAuth client the token was issued to, `client_id` or `azp` claim
+   */
+  clientId?: string
+  /**
+   * Scopes granted to the token, `scope` or `scp` claim
+   */
+  scopes: string[]
+  /**
+   * Verified claims of the token, e.g. `cognito:groups`
+   */
+  claims: Record<string, unknown>
+}
+
+/**
+ * Key of the caller of a request, the token subject or the API key ID
+ */
+export const getCallerKey = (caller: {
+  apiKeyId?: string
+  principal?: AuthPrincipal
+}) => caller.principal?.subject ?? caller.apiKeyId ?? "anonymous"
+
+export type BearerAuthConfig = {
+  /**
+   * Authorization server issuing tokens, matched against `iss`
+   */
+  issuer: string
+  /**
+   * Canonical URL of the MCP endpoint, e.g. `https://mcp.example.com/mcp`
+   */
+  resource: string
+  /**
+   * Required token audience, defaults to `resource`
+   */
+  audience?: string
+  /**
+   * JWKS of the issuer, defaults to `jwks_uri` of its OpenID configuration
+   */
+  jwksUrl?: string
+  /**
+   * Scopes every token must be granted
+   */
+  scopes?: string[]
+}
+
+export type BearerAuth = ReturnType<typeof createBearerAuth>
+
+export type AuthResult =
+  | { principal: AuthPrincipal; error?: undefined }
+  | {
+      principal?: undefined
+      error: {
+        status: 401 | 403 | 503
+        message: string
+        /**
+         * Value of the `WWW-Authenticate` header, omitted when the token could not be verified
+         */
+        challenge?: string
+      }
+    }
+
+/**
+ * Path of the OAuth protected resource metadata - https://datatracker.ietf.org/doc/html/rfc9728
+ */
+export const PROTECTED_RESOURCE_METADATA_PATH =
+  "/.well-known/oauth-protected-resource"
+
+/**
+ * Read bearer auth config from environment, `undefined` when `MCP_AUTH_ISSUER` is not set
+ * and requests are authorized by the API Gateway API key
+ */
+export const getBearerAuthConfig = (): BearerAuthConfig | undefined => {
+  const issuer = process.env.MCP_AUTH_ISSUER
+  if (!issuer) return undefined
+
+  const resource = process.env.MCP_AUTH_RESOURCE
+  if (!resource) {
+    throw new Error("MCP_AUTH_RESOURCE is required with MCP_AUTH_ISSUER")
+  }
+
+  return {
+    issuer,
+    resource,
+    audience: process.env.MCP_AUTH_AUDIENCE || undefined,
+    jwksUrl: process.env.MCP_AUTH_JWKS_URL || undefined,
+    scopes: process.env.MCP_AUTH_SCOPES?.split(/[\s,]+/).filter(Boolean),
+  }
+}
+
+const getScopes = (claims: Record<string, unknown>) => {
+  if (typeof claims.scope === "string") {
+    return claims.scope.split(" ").filter(Boolean)
+  }
+  if (Array.isArray(claims.scp)) {
+    return claims.scp.filter((scope) => typeof scope === "string")
+  }
+  return []
+}
+
+/**
+ * Authenticate requests by JWT bearer tokens
+ *
+ * Implements the resource server part of https://modelcontextprotocol.io/specification/2025-06-18/basic/authorization,
+ * clients discover the authorization server from the protected resource metadata linked
+ * by the `WWW-Authenticate` challenge of rejected requests.
+ *
+ * @example
+ * ```typescript
+ * const auth = createBearerAuth({
+ *   issuer: "https://auth.example.com",
+ *   resource: "https://mcp.example.com/mcp",
+ * })
+ * const { principal, error } = await auth.authenticate(headers)
+ * ```
+ */
+export function createBearerAuth(config: BearerAuthConfig) {
+  const verifier = createJwtVerifier({
+    issuer: config.issuer,
+    audience: config.audience ?? config.resource,
+    jwksUrl: config.jwksUrl,
+  })
+  const requiredScopes = config.scopes ?? []
+
+  // Relative to the endpoint, so the metadata is served under the stage path of API Gateway
+  const resourceMetadataUrl = new URL(
+    `.${PROTECTED_RESOURCE_METADATA_PATH}`,
+    config.resource,
+  ).href
+
+  const challenge = (error?: { code: string; description: string }) =>
+    [
+      `resource_metadata="${resourceMetadataUrl}"`,
+      ...(error
+        ? [
+            `error="${error.code}"`,
+            `error_description="${error.description.replace(/"/g, "'")}"`,
+          ]
+        : []),
+      ...(requiredScopes.length > 0
+        ? [`scope="${requiredScopes.join(" ")}"`]
+        : []),
+    ].join(", ")
+
+  return {
+    resourceMetadataUrl,
+
+    /**
+     * OAuth protected resource metadata of the MCP endpoint
+     */
+    metadata() {
+      return {
+        resource: config.resource,
+        authorization_servers: [config.issuer],
+        bearer_methods_supported: ["header"],
+        ...(requiredScopes.length > 0 && { scopes_supported: requiredScopes }),
+      }
+    },
+
+    /**
+     * Verify the bearer token of a request with lower-cased headers
+     */
+    async authenticate(
+      headers: Record<string, string | undefined>,
+    ): Promise<AuthResult> {
+      const [scheme, token] = headers.authorization?.split(" ") ?? []
+      if (scheme?.toLowerCase() !== "bearer" || !token) {
+        return {
+          error: {
+            status: 401,
+            message: "Unauthorized: bearer token is required",
+            challenge: `Bearer ${challenge()}`,
+          },
+        }
+      }
+
+      let claims: Record<string, unknown>
+      try {
+        claims = await verifier.verify(token)
+        // Principals are identified by subject in sessions, policies and the audit log
+        if (typeof claims.sub !== "string" || !claims.sub) {
+          throw new InvalidTokenError("Token has no subject")
+        }
+      } catch (error) {
+        // Keys or OpenID configuration of the issuer could not be fetched, the token may be valid
+        if (!(error instanceof InvalidTokenError)) {
+          return {
+            error: {
+              status: 503,
+              message: `Service Unavailable: token cannot be verified, ${error instanceof Error ? error.message : String(error)}`,
+            },
+          }
+        }
+        return {
+          error: {
+            status: 401,
+            message: `Unauthorized: ${error.message}`,
+            challenge: `Bearer ${challenge({ code: "invalid_token", description: error.message })}`,
+          },
+        }
+      }
+
+      const scopes = getScopes(claims)
+      const missingScopes = requiredScopes.filter(
+        (scope) => !scopes.includes(scope),
+      )
+      if (missingScopes.length > 0) {
+        const description = `Token is missing scopes ${missingScopes.join(", ")}`
+        return {
+          error: {
+            status: 403,
+            message: `Forbidden: ${description}`,
+            challenge: `Bearer ${challenge({ code: "insufficient_scope", description })}`,
+          },
+        }
+      }
+
+      return {
+        principal: {
+          subject: claims.sub as string,
+          clientId:
+            typeof claims.client_id === "string"
+              ? claims.client_id
+              : typeof claims.azp === "string"
+                ? claims.azp
+                : undefined,
+          scopes,
+          claims,
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,78 @@
+// eslint-disable-next-line import/no-unresolved
+import { type CompleteResult } from "@modelcontextprotocol/sdk/types.js"
+
+import { type AwsRegion } from "./aws-region"
+
+/**
+ * Values returned by a single `completion/complete` response, the maximum allowed by MCP
+ */
+export const MAX_COMPLETION_VALUES = 100
+
+export type Completer = {
+  /**
+   * Tool listing the values, the completer is available only when the tool is
+   */
+  toolName: string
+  /**
+   * All values in a region, e.g. names of ECS clusters
+   *
+   * @param args arguments or template variables resolved by the client, e.g. `cluster` of a service
+   */
+  list(region: AwsRegion, args: Record<string, string>): Promise<string[]>
+}
+
+export const completer = (input: Completer) => input
+
+/**
+ * Complete a value by case-insensitive prefix
+ */
+export const completeValues = (
+  values: string[],
+  value: string,
+): CompleteResult["completion"] => {
+  const prefix = value.toLowerCase()
+  const matching = values.filter((candidate) =>
+    candidate.toLowerCase().startsWith(prefix),
+  )
+
+  return {
+    values: matching.slice(0, MAX_COMPLETION_VALUES),
+    total: matching.length,
+    hasMore: matching.length > MAX_COMPLETION_VALUES,
+  }
+}
+
+/**
+ * Cache of listed values by key, e.g. region, so that every keystroke does not call AWS
+ *
+ * Concurrent completions share a single load, failed loads are not cached.
+ *
+ * @example
+ * ```typescript
+ * const cached = createListCache({ ttlMs: 60_000 })
+ * const clusters = await cached(`clusters:${region}`, () => listClusters(region))
+ * ```
+ */
+export function createListCache(input: { ttlMs: number }) {
+  const entries = new Map<
+    string,
+    { expiresAt: number; values: Promise<string[]> }
+  >()
+
+  return (key: string, load: () => Promise<string[]>) => {
+    const now = Date.now()
+    const cached = entries.get(key)
+    if (cached && cached.expiresAt > now) return cached.values
+
+    entries.forEach((entry, entryKey) => {
+      if (entry.expiresAt <= now) entries.delete(entryKey)
+    })
+
+    const values = load()
+    entries.set(key, { expiresAt: now + input.ttlMs, values })
+    values.catch(() => {
+      if (entries.get(key)?.values === values) entries.delete(key)
+    })
+    return values
+  }
+}
@@ -0,0 +1,57 @@
+import { DynamoDBClient, PutItemCommand } from "@aws-sdk/client-dynamodb"
+import { createId } from "@paralleldrive/cuid2"
+
+import { type AuditRecord, type AuditSink } from "./audit-log"
+import { getAwsClient } from "./aws-client"
+
+/**
+ * Days audit records are kept when `MCP_AUDIT_RETENTION_DAYS` is not set
+ */
+const DEFAULT_RETENTION_DAYS = 365
+
+const getRetentionDays = () => {
+  const days = Number(process.env.MCP_AUDIT_RETENTION_DAYS)
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS
+}
+
+/**
+ * Write audit records to a DynamoDB table
+ *
+ * Records are keyed by `caller`, the token subject or API key ID, and `id`, which starts with
+ * the timestamp, so calls of a caller are queried by time. The `account` attribute is indexed
+ * to find who queried an account.
+ * `expiresAt` removes records after `MCP_AUDIT_RETENTION_DAYS`.
+ *
+ * The table is written with the server credentials, not with the account of the tool.
+ */
+export const createDynamoDbAuditSink = (input: {
+  tableName: string
+}): AuditSink => ({
+  async write(record: AuditRecord) {
+    const client = getAwsClient(DynamoDBClient, {
+      service: "dynamodb",
+      // Region of the stack, the default region of tools may differ
+      region: process.env.AWS_REGION!,
+    })
+    const expiresAt =
+      Math.floor(Date.parse(record.timestamp) / 1000) +
+      getRetentionDays() * 24 * 60 * 60
+
+    await client.send(
+      new PutItemCommand({
+        TableName: input.tableName,
+        Item: {
+          caller: {
+            S: record.caller.subject ?? record.caller.apiKeyId ?? "anonymous",
+          },
+          id: { S: `${record.timestamp}#${createId()}` },
+          account: { S: record.roleArn ?? record.account ?? "default" },
+          tool: { S: record.tool },
+          outcome: { S: record.outcome },
+          record: { S: JSON.stringify(record) },
+          expiresAt: { N: String(expiresAt) },
+        },
+      }),
+    )
+  },
+})
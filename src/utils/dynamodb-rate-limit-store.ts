@@ -0,0 +1,130 @@
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb"
+
+import { getAwsClient } from "./aws-client"
+import { type RateLimitStore, takeToken } from "./rate-limit"
+
+/**
+ * Attempts to take a token of a bucket updated by concurrent requests
+ */
+const MAX_TAKE_ATTEMPTS = 3
+
+/**
+ * Keep rate limit buckets and counters in a DynamoDB table
+ *
+ * Items are keyed by `key`. Buckets are updated with optimistic locking on `updatedAt`,
+ * counters with atomic `ADD`. `expiresAt` removes daily counters and idle buckets.
+ *
+ * The table is written with the server credentials, not with the account of the tool.
+ */
+export const createDynamoDbRateLimitStore = (input: {
+  tableName: string
+}): RateLimitStore => {
+  const getClient = () =>
+    getAwsClient(DynamoDBClient, {
+      service: "dynamodb",
+      // Region of the stack, the default region of tools may differ
+      region: process.env.AWS_REGION!,
+    })
+  const toSeconds = (ms: number) => String(Math.ceil(ms / 1000))
+
+  return {
+    async take(key, limit) {
+      const client = getClient()
+
+      for (let attempt = 1; attempt <= MAX_TAKE_ATTEMPTS; attempt++) {
+        const { Item } = await client.send(
+          new GetItemCommand({
+            TableName: input.tableName,
+            Key: { key: { S: key } },
+            ConsistentRead: true,
+          }),
+        )
+        const current =
+          Item?.tokens?.N && Item.updatedAt?.N
+            ? {
+                tokens: Number(Item.tokens.N),
+                updatedAt: Number(Item.updatedAt.N),
+              }
+            : undefined
+
+        const now = Date.now()
+        const { bucket, ...result } = takeToken(current, limit, now)
+        if (!result.allowed) return result
+
+        // Idle buckets are full again after burst / perMinute minutes
+        const refilledAt = now + (limit.burst / limit.perMinute) * 60_000
+        try {
+          await client.send(
+            new PutItemCommand({
+              TableName: input.tableName,
+              Item: {
+                key: { S: key },
+                tokens: { N: String(bucket.tokens) },
+                updatedAt: { N: String(bucket.updatedAt) },
+                expiresAt: { N: toSeconds(refilledAt) },
+              },
+              ConditionExpression: current
+                ? "updatedAt = :updatedAt"
+                : "attribute_not_exists(#key)",
+              ...(current
+                ? {
+                    ExpressionAttributeValues: {
+                      ":updatedAt": { N: String(current.updatedAt) },
+                    },
+                  }
+                : { ExpressionAttributeNames: { "#key": "key" } }),
+            }),
+          )
+          return result
+        } catch (error) {
+          if (!(error instanceof ConditionalCheckFailedException)) throw error
+        }
+      }
+
+      // Concurrent requests of the caller took the tokens
+      return {
+        allowed: false,
+        retryAfterMs: Math.ceil(60_000 / limit.perMinute),
+      }
+    },
+
+    async get(key) {
+      const { Item } = await getClient().send(
+        new GetItemCommand({
+          TableName: input.tableName,
+          Key: { key: { S: key } },
+          ConsistentRead: true,
+        }),
+      )
+      // Expired items are deleted by DynamoDB within days
+      if (!Item?.value?.N || Number(Item.expiresAt?.N) * 1000 <= Date.now()) {
+        return 0
+      }
+      return Number(Item.value.N)
+    },
+
+    async add(key, amount, expiresAt) {
+      const { Attributes } = await getClient().send(
+        new UpdateItemCommand({
+          TableName: input.tableName,
+          Key: { key: { S: key } },
+          UpdateExpression:
+            "ADD #value :amount SET expiresAt = if_not_exists(expiresAt, :expiresAt)",
+          ExpressionAttributeNames: { "#value": "value" },
+          ExpressionAttributeValues: {
+            ":amount": { N: String(amount) },
+            ":expiresAt": { N: toSeconds(expiresAt) },
+          },
+          ReturnValues: "UPDATED_NEW",
+        }),
+      )
+      return Number(Attributes?.value?.N ?? amount)
+    },
+  }
+}
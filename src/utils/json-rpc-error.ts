@@ -0,0 +1,169 @@
+/**
+ * Error codes defined by the JSON-RPC specification
+ *
+ * See https://www.jsonrpc.org/specification#error_object
+ */
+export const JSON_RPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const
+
+/**
+ * Error codes defined by the MCP specification in the implementation defined range
+ *
+ * See https://modelcontextprotocol.io/specification/2025-06-18/server/resources#error-handling
+ */
+export const MCP_ERROR_CODES = {
+  RESOURCE_NOT_FOUND: -32002,
+} as const
+
+export class JsonRpcError extends Error {
+  public readonly code: number
+  public readonly data?: unknown
+
+  constructor({
+    code,
+    message,
+    data,
+    cause,
+  }: {
+    code: number
+    message: string
+    data?: unknown
+    cause?: unknown
+  }) {
+    super(message, { cause })
+    this.name = "JsonRpcError"
+    this.code = code
+    this.data = data
+  }
+
+  toJSON() {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.data !== undefined && { data: this.data }),
+    }
+  }
+}
+
+/**
+ * Invalid JSON was received by the server
+ */
+export class ParseError extends JsonRpcError {
+  constructor({ data, cause }: { data?: unknown; cause?: unknown } = {}) {
+    super({
+      code: JSON_RPC_ERROR_CODES.PARSE_ERROR,
+      message: "Parse error",
+      data,
+      cause,
+    })
+    this.name = "ParseError"
+  }
+}
+
+/**
+ * The JSON sent is not a valid JSON-RPC request object
+ */
+export class InvalidRequestError extends JsonRpcError {
+  constructor({ message, data }: { message?: string; data?: unknown } = {}) {
+    super({
+      code: JSON_RPC_ERROR_CODES.INVALID_REQUEST,
+      message: message ?? "Invalid Request",
+      data,
+    })
+    this.name = "InvalidRequestError"
+  }
+}
+
+/**
+ * The method does not exist or is not available
+ */
+export class MethodNotFoundError extends JsonRpcError {
+  constructor({ method }: { method: string }) {
+    super({
+      code: JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND,
+      message: `Method not found: ${method}`,
+      data: { method },
+    })
+    this.name = "MethodNotFoundError"
+  }
+}
+
+/**
+ * Invalid method parameters, e.g. schema violation or unknown tool name
+ */
+export class InvalidParamsError extends JsonRpcError {
+  constructor({ message, data }: { message?: string; data?: unknown } = {}) {
+    super({
+      code: JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+      message: message ?? "Invalid params",
+      data,
+    })
+    this.name = "InvalidParamsError"
+  }
+
+  /**
+   * Create error from schema validation issues
+   */
+  static fromIssues(
+    issues: ReadonlyArray<{
+      path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>
+      message: string
+    }>,
+    message?: string,
+  ) {
+    return new InvalidParamsError({
+      message,
+      data: {
+        issues: issues.map((issue) => ({
+          path: issue.path
+            ?.map((segment) =>
+              String(typeof segment === "object" ? segment.key : segment),
+            )
+            .join("."),
+          message: issue.message,
+        })),
+      },
+    })
+  }
+}
+
+/**
+ * Resource URI does not match any template or the resource does not exist
+ */
+export class ResourceNotFoundError extends JsonRpcError {
+  constructor({ uri, data }: { uri: string; data?: Record<string, unknown> }) {
+    super({
+      code: MCP_ERROR_CODES.RESOURCE_NOT_FOUND,
+      message: `Resource not found: ${uri}`,
+      data: { uri, ...data },
+    })
+    this.name = "ResourceNotFoundError"
+  }
+}
+
+/**
+ * Unexpected server failure, details are logged but not exposed to the client
+ */
+export class InternalError extends JsonRpcError {
+  constructor({ cause }: { cause?: unknown } = {}) {
+    super({
+      code: JSON_RPC_ERROR_CODES.INTERNAL_ERROR,
+      message: "Internal error",
+      cause,
+    })
+    this.name = "InternalError"
+  }
+}
+
+/**
+ * Convert any thrown value to a JSON-RPC error
+ */
+export const toJsonRpcError = (error: unknown): JsonRpcError => {
+  if (error instanceof JsonRpcError) return error
+  return new InternalError({ cause: error })
+}
@@ -0,0 +1,283 @@
+import {
+  constants,
+  createPublicKey,
+  type JsonWebKey,
+  type KeyObject,
+  verify,
+} from "node:crypto"
+
+/**
+ * Keys of a JWKS are refetched after this time, e.g. after the issuer rotated them
+ */
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000
+
+/**
+ * Minimum time between refetches of a JWKS for tokens signed by an unknown key
+ */
+const JWKS_REFETCH_COOLDOWN_MS = 30 * 1000
+
+/**
+ * Accepted difference between the clocks of the issuer and the server
+ */
+const CLOCK_TOLERANCE_SECONDS = 60
+
+/**
+ * Asymmetric algorithms accepted in the `alg` header, symmetric `HS*` and `none` are rejected
+ */
+const ALGORITHMS: Record<
+  string,
+  {
+    hash: string | null
+    options?: {
+      padding?: number
+      saltLength?: number
+      dsaEncoding?: "ieee-p1363"
+    }
+  }
+> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  PS256: {
+    hash: "sha256",
+    options: {
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+    },
+  },
+  PS384: {
+    hash: "sha384",
+    options: {
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+    },
+  },
+  PS512: {
+    hash: "sha512",
+    options: {
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+    },
+  },
+  ES256: { hash: "sha256", options: { dsaEncoding: "ieee-p1363" } },
+  ES384: { hash: "sha384", options: { dsaEncoding: "ieee-p1363" } },
+  ES512: { hash: "sha512", options: { dsaEncoding: "ieee-p1363" } },
+  EdDSA: { hash: null },
+}
+
+export type JwtPayload = {
+  iss?: string
+  sub?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  [claim: string]: unknown
+}
+
+/**
+ * Token is malformed, not signed by the issuer, expired or issued for another audience
+ */
+export class InvalidTokenError extends Error {
+  constructor(message: string, { cause }: { cause?: unknown } = {}) {
+    super(message, { cause })
+    this.name = "InvalidTokenError"
+  }
+}
+
+const decodeSegment = (segment: string, name: string) => {
+  let decoded: unknown
+  try {
+    decoded = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"))
+  } catch (error) {
+    throw new InvalidTokenError(`Malformed token ${name}`, { cause: error })
+  }
+  if (
+    typeof decoded !== "object" ||
+    decoded === null ||
+    Array.isArray(decoded)
+  ) {
+    throw new InvalidTokenError(`Malformed token ${name}`)
+  }
+  return decoded as Record<string, unknown>
+}
+
+type SigningKey = {
+  key: KeyObject
+  /**
+   * Algorithm the key is restricted to by its `alg`
+   */
+  alg?: string
+}
+
+/**
+ * Import signing keys of a JWKS by `kid`, keys of other uses, unsupported algorithms
+ * or types, e.g. symmetric `oct` keys, are skipped
+ */
+const importSigningKeys = (jwks: JsonWebKey[]) => {
+  const keys = new Map<string, SigningKey>()
+  for (const jwk of jwks) {
+    if (jwk.use !== undefined && jwk.use !== "sig") continue
+    if (jwk.alg !== undefined && !ALGORITHMS[String(jwk.alg)]) continue
+    try {
+      const key = createPublicKey({ key: jwk, format: "jwk" })
+      if (key.asymmetricKeyType === undefined) continue
+      keys.set(String(jwk.kid ?? ""), {
+        key,
+        alg: jwk.alg === undefined ? undefined : String(jwk.alg),
+      })
+    } catch {
+      continue
+    }
+  }
+  return keys
+}
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url, { headers: { accept: "application/json" } })
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  }
+  return (await response.json()) as Record<string, unknown>
+}
+
+/**
+ * Create verifier of JWT access tokens signed by keys of an issuer
+ *
+ * Keys are fetched from `jwksUrl`, or from `jwks_uri` of the OpenID configuration of the issuer,
+ * and cached by `kid`. Tokens signed by an unknown key refetch the keys, so key rotation
+ * does not need a restart.
+ *
+ * @example
+ * ```typescript
+ * const verifier = createJwtVerifier({
+ *   issuer: "https://cognito-idp.eu-west-1.amazonaws.com/eu-west-1_abc",
+ *   audience: "https://mcp.example.com/mcp",
+ * })
+ * const payload = await verifier.verify(token)
+ * ```
+ */
+export function createJwtVerifier(input: {
+  issuer: string
+  /**
+   * Audience the token must be issued for, matched against `aud` or `client_id` of Cognito access tokens
+   */
+  audience: string
+  jwksUrl?: string
+}) {
+  let keys: Promise<Map<string, SigningKey>> | undefined
+  let fetchedAt = 0
+
+  const resolveJwksUrl = async () => {
+    if (input.jwksUrl) return input.jwksUrl
+
+    const configuration = await fetchJson(
+      `${input.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`,
+    )
+    if (typeof configuration.jwks_uri !== "string") {
+      throw new Error(`OpenID configuration of ${input.issuer} has no jwks_uri`)
+    }
+    return configuration.jwks_uri
+  }
+
+  const loadKeys = async () => {
+    const jwks = await fetchJson(await resolveJwksUrl())
+    return importSigningKeys(
+      Array.isArray(jwks.keys) ? (jwks.keys as JsonWebKey[]) : [],
+    )
+  }
+
+  const refresh = (now: number) => {
+    fetchedAt = now
+    const loaded = loadKeys()
+    keys = loaded
+    // Failed fetches are retried by the next token
+    loaded.catch(() => {
+      if (keys === loaded) keys = undefined
+    })
+    return loaded
+  }
+
+  const getKey = async (kid: string) => {
+    const now = Date.now()
+    let key = (
+      await (!keys || now - fetchedAt > JWKS_CACHE_TTL_MS ? refresh(now) : keys)
+    ).get(kid)
+
+    if (!key && now - fetchedAt > JWKS_REFETCH_COOLDOWN_MS) {
+      key = (await refresh(now)).get(kid)
+    }
+    if (!key) throw new InvalidTokenError(`Unknown signing key ${kid}`)
+    return key
+  }
+
+  return {
+    /**
+     * Verify signature and registered claims of a token, returns its payload
+     */
+    async verify(token: string): Promise<JwtPayload> {
+      const segments = token.split(".")
+      if (segments.length !== 3) throw new InvalidTokenError("Malformed token")
+      const [encodedHeader, encodedPayload, signature] = segments as [
+        string,
+        string,
+        string,
+      ]
+
+      const header = decodeSegment(encodedHeader, "header") as {
+        alg?: string
+        kid?: string
+      }
+      const algorithm = header.alg && ALGORITHMS[header.alg]
+      if (!algorithm) {
+        throw new InvalidTokenError(`Unsupported algorithm ${header.alg}`)
+      }
+
+      const { key, alg } = await getKey(header.kid ?? "")
+      if (alg !== undefined && alg !== header.alg) {
+        throw new InvalidTokenError(
+          `Signing key ${header.kid} does not use algorithm ${header.alg}`,
+        )
+      }
+      let valid: boolean
+      try {
+        valid = verify(
+          algorithm.hash,
+          Buffer.from(`${encodedHeader}.${encodedPayload}`),
+          { key, ...algorithm.options },
+          Buffer.from(signature, "base64url"),
+        )
+      } catch (error) {
+        // Algorithm does not match the type of the key
+        throw new InvalidTokenError("Invalid token signature", { cause: error })
+      }
+      if (!valid) throw new InvalidTokenError("Invalid token signature")
+
+      const payload = decodeSegment(encodedPayload, "payload") as JwtPayload
+      const now = Math.floor(Date.now() / 1000)
+
+      if (payload.iss !== input.issuer) {
+        throw new InvalidTokenError(`Unexpected token issuer ${payload.iss}`)
+      }
+      const audiences = [payload.aud, payload.client_id]
+        .flat()
+        .filter((audience) => typeof audience === "string")
+      if (!audiences.includes(input.audience)) {
+        throw new InvalidTokenError("Token is not issued for this server")
+      }
+      if (typeof payload.exp !== "number") {
+        throw new InvalidTokenError("Token has no expiration")
+      }
+      if (payload.exp + CLOCK_TOLERANCE_SECONDS < now) {
+        throw new InvalidTokenError("Token expired")
+      }
+      if (
+        typeof payload.nbf === "number" &&
+        payload.nbf - CLOCK_TOLERANCE_SECONDS > now
+      ) {
+        throw new InvalidTokenError("Token is not valid yet")
+      }
+
+      return payload
+    },
+  }
+}
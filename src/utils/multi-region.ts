@@ -0,0 +1,194 @@
+import { z } from "zod"
+
+import { awsRegion, type AwsRegion, getEnabledAwsRegions } from "./aws-region"
+import { type Tool, tool, type ToolRunContext } from "./tool"
+import { ToolError, toolErrorOutput } from "./tool-error"
+
+const DEFAULT_REGION_CONCURRENCY = 5
+
+export const regionsArg = z
+  .union([z.array(awsRegion()).min(1), z.literal("all-enabled")])
+  .optional()
+  .describe(
+    'Query multiple regions in parallel instead of a single region, "all-enabled" queries every region enabled in the account',
+  )
+
+export type RegionResult<T> = { region: AwsRegion } & T
+
+export type RegionError = {
+  region: AwsRegion
+  message: string
+} & Omit<ReturnType<ToolError["toStructuredContent"]>["error"], "tool">
+
+/**
+ * Output schema of `fanOutRegions` for output schema of a single region
+ */
+export const fanOutOutput = <Output extends z.AnyZodObject>(output: Output) =>
+  z.object({
+    regions: z.array(z.string()),
+    results: z.array(output.extend({ region: z.string() })),
+    errors: z.array(
+      toolErrorOutput.shape.error
+        .omit({ tool: true })
+        .extend({ region: z.string() }),
+    ),
+    count: z.number(),
+  })
+
+/**
+ * Map items with at most `concurrency` promises running at once
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  )
+
+  return results
+}
+
+const getRegionConcurrency = () => {
+  const concurrency = Number(process.env.AWS_REGION_CONCURRENCY)
+  return Number.isInteger(concurrency) && concurrency > 0
+    ? concurrency
+    : DEFAULT_REGION_CONCURRENCY
+}
+
+/**
+ * Run function in every region, failed regions are collected instead of failing the whole call
+ *
+ * Throws the error of the first region when every region fails.
+ */
+export const fanOutRegions = async <T extends object>(
+  input: {
+    regions: AwsRegion[] | "all-enabled"
+    toolName: string
+  },
+  fn: (region: AwsRegion) => Promise<T>,
+) => {
+  const regions =
+    input.regions === "all-enabled"
+      ? await getEnabledAwsRegions()
+      : [...new Set(input.regions)]
+
+  const settled = await mapWithConcurrency(
+    regions,
+    getRegionConcurrency(),
+    async (region) => {
+      try {
+        return { region, result: await fn(region) }
+      } catch (error) {
+        return {
+          region,
+          error:
+            error instanceof ToolError
+              ? error
+              : new ToolError({ error, toolName: input.toolName }),
+        }
+      }
+    },
+  )
+
+  const results: RegionResult<T>[] = []
+  const errors: RegionError[] = []
+  settled.forEach(({ region, result, error }) => {
+    if (error) {
+      // The tool is the same for every region and is not repeated
+      const details = error.toStructuredContent().error
+      errors.push({
+        region,
+        message: details.message,
+        category: details.category,
+        code: details.code,
+        httpStatus: details.httpStatus,
+        requestId: details.requestId,
+        retryable: details.retryable,
+        remediation: details.remediation,
+        resetAt: details.resetAt,
+      })
+    } else {
+      results.push({ region, ...result! })
+    }
+  })
+
+  if (results.length === 0 && settled[0]?.error) {
+    throw settled[0].error
+  }
+
+  return {
+    regions,
+    results,
+    errors,
+    count: results.reduce(
+      (count, result) =>
+        count + ("count" in result ? Number(result.count) || 0 : 0),
+      0,
+    ),
+  }
+}
+
+/**
+ * Add `regions` argument to a single region list tool
+ *
+ * Without `regions` the tool behaves as before. With `regions` the tool runs once per region
+ * with bounded concurrency and returns results tagged by region, regions which failed
+ * are reported in `errors`.
+ *
+ * @example
+ * ```typescript
+ * multiRegion(tool({ name: "aws_sqs_list_queues", args: z.object({ region, ... }), run }))
+ * ```
+ */
+export const multiRegion = <
+  Shape extends { region: z.ZodType<AwsRegion | undefined> } & z.ZodRawShape,
+  Output extends z.AnyZodObject,
+>(
+  input: Tool<z.ZodObject<Shape>, Output>,
+) => {
+  const run = input.run as (
+    args: z.infer<z.ZodObject<Shape>>,
+    context: ToolRunContext,
+  ) => Promise<object>
+  // Fan-out output first, single region output with optional fields only would match it as well
+  const output = z.union([fanOutOutput(input.output), input.output])
+  type Result = z.input<typeof output>
+
+  return tool({
+    ...input,
+    args: input.args!.extend({ regions: regionsArg }),
+    output,
+    async run({ regions, ...args }, context) {
+      if (!regions) {
+        return (await run(
+          args as z.infer<z.ZodObject<Shape>>,
+          context,
+        )) as Result
+      }
+
+      // Cursor points into the results of a single region
+      if ("cursor" in args && args.cursor) {
+        throw new Error("cursor cannot be combined with regions")
+      }
+
+      const result = await fanOutRegions(
+        { regions, toolName: input.name },
+        (region) =>
+          run({ ...args, region } as z.infer<z.ZodObject<Shape>>, context),
+      )
+      return result as Result
+    },
+  })
+}
@@ -0,0 +1,215 @@
+import { z } from "zod"
+
+/**
+ * Pages fetched by `fetchAll` when `maxPages` is not set
+ */
+const DEFAULT_MAX_PAGES = 10
+
+/**
+ * Hard limit of pages fetched by a single tool call
+ */
+const MAX_PAGES = 100
+
+/**
+ * Arguments shared by every paginated list tool
+ *
+ * @example
+ * ```typescript
+ * args: z.object({ region, ...paginationArgs })
+ * ```
+ */
+export const paginationArgs = {
+  cursor: z
+    .string()
+    .optional()
+    .describe("Opaque cursor from nextCursor of the previous call"),
+  fetchAll: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Fetch following pages until there are no more items, maxItems or maxPages is reached",
+    ),
+  maxItems: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Maximum number of items to return"),
+  maxPages: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGES)
+    .optional()
+    .describe(
+      `Maximum number of pages to fetch with fetchAll, defaults to ${DEFAULT_MAX_PAGES}`,
+    ),
+}
+
+export type PaginationArgs = {
+  cursor?: string
+  fetchAll?: boolean
+  maxItems?: number
+  maxPages?: number
+}
+
+export type Paginated<Item> = {
+  items: Item[]
+  count: number
+  /**
+   * Pass as `cursor` to continue, omitted on the last page
+   */
+  nextCursor?: string
+  /**
+   * More items are available than returned
+   */
+  truncated: boolean
+}
+
+/**
+ * Output schema of a paginated list tool
+ *
+ * @example
+ * ```typescript
+ * output: paginatedOutput(z.object({ queueUrl: z.string(), queueName: z.string() }))
+ * ```
+ */
+export const paginatedOutput = <Item extends z.ZodTypeAny>(item: Item) =>
+  z.object({
+    items: z.array(item),
+    count: z.number(),
+    nextCursor: z
+      .string()
+      .optional()
+      .describe("Pass as cursor to continue, omitted on the last page"),
+    truncated: z.boolean().describe("More items are available than returned"),
+  })
+
+/**
+ * Position in the results, SDK pagination token of the page and number of its items already returned
+ *
+ * `pageSize` of a partly returned page is kept, items are skipped in the page of the same size.
+ */
+type Cursor = { token?: string; skip?: number; pageSize?: number }
+
+const encodeCursor = (cursor: Cursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url")
+
+const decodeCursor = (cursor?: string): Cursor => {
+  if (!cursor) return {}
+
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString())
+    if (typeof decoded === "object" && decoded !== null) {
+      return decoded as Cursor
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error("Invalid cursor, use nextCursor of the previous call")
+}
+
+/**
+ * Paginate list operation with an SDK paginator
+ *
+ * Without `fetchAll` a single page is fetched. `maxItems` is also used as the page size,
+ * clamped to the page size limits of the operation.
+ *
+ * @example
+ * ```typescript
+ * return paginate(args, {
+ *   pages: (config) => paginateListQueues({ client, ...config }, { QueueNamePrefix }),
+ *   items: (page) => page.QueueUrls ?? [],
+ *   nextToken: (page) => page.NextToken,
+ *   pageSize: { min: 1, max: 1000 },
+ * })
+ * ```
+ */
+export const paginate = async <Page, Item>(
+  args: PaginationArgs,
+  input: {
+    pages: (config: {
+      startingToken?: string
+      pageSize?: number
+    }) => AsyncIterable<Page>
+    items: (page: Page) => Item[]
+    nextToken: (page: Page) => string | undefined
+    pageSize?: { min: number; max: number }
+  },
+): Promise<Paginated<Item>> => {
+  const cursor = decodeCursor(args.cursor)
+  const maxPages = args.fetchAll ? (args.maxPages ?? DEFAULT_MAX_PAGES) : 1
+  const pageSize = cursor.skip
+    ? cursor.pageSize
+    : args.maxItems && input.pageSize
+      ? Math.min(
+          Math.max(args.maxItems, input.pageSize.min),
+          input.pageSize.max,
+        )
+      : undefined
+
+  const items: Item[] = []
+  let pageToken = cursor.token
+  let skip = cursor.skip ?? 0
+  let next: Cursor | undefined
+  let pages = 0
+
+  for await (const page of input.pages({
+    startingToken: cursor.token,
+    pageSize,
+  })) {
+    pages++
+    const pageItems = input.items(page).slice(skip)
+    const nextToken = input.nextToken(page)
+    const remaining = (args.maxItems ?? Infinity) - items.length
+
+    if (pageItems.length > remaining) {
+      items.push(...pageItems.slice(0, remaining))
+      next = { token: pageToken, skip: skip + remaining, pageSize }
+      break
+    }
+
+    items.push(...pageItems)
+    next = nextToken ? { token: nextToken } : undefined
+
+    if (!next || pages >= maxPages || items.length === args.maxItems) break
+
+    pageToken = nextToken
+    skip = 0
+  }
+
+  return {
+    items,
+    count: items.length,
+    nextCursor: next && encodeCursor(next),
+    truncated: next !== undefined,
+  }
+}
+
+/**
+ * Create paginator of an operation without SDK paginator
+ *
+ * @example
+ * ```typescript
+ * const pages = createPaginator(
+ *   (token, pageSize) => client.send(new ListCachePoliciesCommand({ Marker: token, MaxItems: pageSize })),
+ *   (page) => page.CachePolicyList?.NextMarker,
+ * )
+ * ```
+ */
+export const createPaginator = <Page>(
+  fetchPage: (token?: string, pageSize?: number) => Promise<Page>,
+  nextToken: (page: Page) => string | undefined,
+) =>
+  async function* (config: {
+    startingToken?: string
+    pageSize?: number
+  }): AsyncGenerator<Page> {
+    let token = config.startingToken
+    do {
+      const page = await fetchPage(token, config.pageSize)
+      yield page
+      token = nextToken(page)
+    } while (token)
+  }
@@ -0,0 +1,45 @@
+import { z } from "zod"
+
+export type Prompt<
+  Args extends z.ZodObject<Record<string, z.ZodType<string | undefined>>> =
+    z.ZodObject<Record<string, z.ZodType<string | undefined>>>,
+> = {
+  name: string
+  /**
+   * Human readable name shown by clients, e.g. `Triage Lambda Errors`
+   */
+  title: string
+  description: string
+  /**
+   * Prompt arguments, MCP passes every argument as a string
+   */
+  args: Args
+  /**
+   * Tools the prompt instructs the model to call, the prompt is available only when all of them are
+   */
+  toolNames: string[]
+  /**
+   * Text of the user message the prompt expands to
+   */
+  text(args: z.infer<Args>): string
+}
+
+export const prompt = <
+  Args extends z.ZodObject<Record<string, z.ZodType<string | undefined>>>,
+>(
+  input: Prompt<Args>,
+) => input
+
+/**
+ * Optional `region` argument of prompts, tools use the default region without it
+ */
+export const promptRegionArg = z
+  .string()
+  .optional()
+  .describe("AWS region, defaults to the server default region")
+
+/**
+ * Region sentence of a prompt, empty when no region is given
+ */
+export const inRegion = (region?: string) =>
+  region ? ` Pass region "${region}" to every tool call.` : ""
@@ -1 +1,20 @@
 export const PROTOCOL_VERSION = "2025-06-18"
+
+/**
+ * Protocol versions accepted in `initialize` and in the `MCP-Protocol-Version` header
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  PROTOCOL_VERSION,
+  "2025-03-26",
+  "2024-11-05",
+] as const
+
+/**
+ * Version assumed when a client does not send the `MCP-Protocol-Version` header
+ *
+ * See https://modelcontextprotocol.io/specification/2025-06-18/basic/transports#protocol-version-header
+ */
+export const FALLBACK_PROTOCOL_VERSION = "2025-03-26"
+
+export const isSupportedProtocolVersion = (version: string) =>
+  (SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(version)
@@ -0,0 +1,393 @@
+import { z } from "zod"
+
+import { type AwsCallMetrics } from "./aws-call-metrics"
+import { type AuthPrincipal, getCallerKey } from "./bearer-auth"
+import { ToolError } from "./tool-error"
+import { globToRegExp } from "./tool-profiles"
+
+/**
+ * Calls per minute of a caller to a tool when `MCP_RATE_LIMIT_PER_MINUTE` is not set
+ */
+const DEFAULT_PER_MINUTE = 60
+/**
+ * Cost Explorer API requests of a caller per day, each request costs $0.01
+ */
+const DEFAULT_DAILY_COST_EXPLORER_REQUESTS = 500
+/**
+ * GB scanned by Logs Insights queries of a caller per day
+ */
+const DEFAULT_DAILY_LOGS_INSIGHTS_GB = 100
+
+const GB = 1024 ** 3
+
+/**
+ * Tools starting Logs Insights queries, they are rejected once the bytes scanned budget is used up
+ */
+const LOGS_INSIGHTS_QUERY_TOOLS = [
+  "aws_cloudwatchlogs_start_query",
+  "aws_cloudwatchlogs_query",
+]
+
+const toolLimitSchema = z.object({
+  perMinute: z.number().nonnegative().optional(),
+  burst: z.number().positive().optional(),
+  dailyCalls: z.number().int().nonnegative().optional(),
+})
+
+/**
+ * Limits of a token bucket, it holds up to `burst` tokens and refills `perMinute` tokens a minute
+ */
+export type BucketLimit = { perMinute: number; burst: number }
+
+export type TokenBucket = { tokens: number; updatedAt: number }
+
+export type RateLimitConfig = {
+  /**
+   * Calls per minute of a caller to each tool, 0 disables the limit
+   */
+  perMinute: number
+  /**
+   * Calls a caller can make at once after being idle, `perMinute` when omitted
+   */
+  burst?: number
+  /**
+   * Limits of tools by tool name glob, the first matching glob wins
+   */
+  tools: Record<string, z.infer<typeof toolLimitSchema>>
+  /**
+   * Cost Explorer API requests of a caller per day, 0 disables the quota
+   */
+  dailyCostExplorerRequests: number
+  /**
+   * Bytes scanned by Logs Insights queries of a caller per day, 0 disables the quota
+   */
+  dailyLogsInsightsBytes: number
+}
+
+/**
+ * Storage of token buckets and daily counters shared by the requests of a caller
+ *
+ * Times are in milliseconds since epoch.
+ */
+export type RateLimitStore = {
+  /**
+   * Take a token of a bucket, the bucket is full when it does not exist yet
+   */
+  take(
+    key: string,
+    limit: BucketLimit,
+  ): Promise<{ allowed: boolean; retryAfterMs: number }>
+  /**
+   * Value of a counter, 0 when it does not exist or expired
+   */
+  get(key: string): Promise<number>
+  /**
+   * Add to a counter and return its new value, `expiresAt` applies to new counters
+   */
+  add(key: string, amount: number, expiresAt: number): Promise<number>
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>
+
+/**
+ * Identity limits are counted for
+ */
+export type RateLimitCaller = {
+  apiKeyId?: string
+  principal?: AuthPrincipal
+}
+
+/**
+ * Call rejected by rate limits or daily quotas of the server, not throttled by AWS
+ */
+export class QuotaExceededError extends ToolError {
+  public readonly code: "RateLimitExceeded" | "QuotaExceeded"
+  public readonly resetAt: Date
+
+  constructor({
+    message,
+    toolName,
+    code,
+    resetAt,
+  }: {
+    message: string
+    toolName: string
+    code: QuotaExceededError["code"]
+    resetAt: Date
+  }) {
+    super({ message, toolName })
+    this.name = "QuotaExceededError"
+    this.code = code
+    this.resetAt = resetAt
+  }
+
+  toStructuredContent() {
+    return {
+      error: {
+        message: this.message,
+        tool: this.toolName,
+        category: "throttling" as const,
+        code: this.code,
+        retryable: true,
+        resetAt: this.resetAt.toISOString(),
+        remediation:
+          this.code === "RateLimitExceeded"
+            ? "Wait until resetAt before calling the tool again, do not retry in a loop."
+            : "The daily quota of the MCP server is used up for your identity. Wait until resetAt or ask an administrator to raise the quota.",
+      },
+    }
+  }
+}
+
+/**
+ * Limit from an environment variable, `fallback` when it is not set or invalid
+ */
+const getLimit = (name: string, fallback: number) => {
+  const value = process.env[name]
+  const limit = value ? Number(value) : NaN
+  return Number.isFinite(limit) && limit >= 0 ? limit : fallback
+}
+
+/**
+ * Read rate limits and quotas from environment variables
+ *
+ * @example
+ * ```json
+ * { "aws_cloudwatchlogs_*query*": { "perMinute": 6, "dailyCalls": 200 } }
+ * ```
+ */
+export const getRateLimitConfig = (): RateLimitConfig => ({
+  perMinute: getLimit("MCP_RATE_LIMIT_PER_MINUTE", DEFAULT_PER_MINUTE),
+  burst: getLimit("MCP_RATE_LIMIT_BURST", 0) || undefined,
+  tools: process.env.MCP_TOOL_RATE_LIMITS
+    ? z
+        .record(toolLimitSchema)
+        .parse(JSON.parse(process.env.MCP_TOOL_RATE_LIMITS))
+    : {},
+  dailyCostExplorerRequests: getLimit(
+    "MCP_DAILY_COST_EXPLORER_REQUESTS",
+    DEFAULT_DAILY_COST_EXPLORER_REQUESTS,
+  ),
+  dailyLogsInsightsBytes:
+    getLimit("MCP_DAILY_LOGS_INSIGHTS_GB", DEFAULT_DAILY_LOGS_INSIGHTS_GB) * GB,
+})
+
+/**
+ * Refill a token bucket up to the time `now` and take a token of it
+ *
+ * Stores save the returned bucket only when the token was taken.
+ */
+export const takeToken = (
+  bucket: TokenBucket | undefined,
+  limit: BucketLimit,
+  now: number,
+) => {
+  const perMs = limit.perMinute / 60_000
+  const tokens = bucket
+    ? Math.min(
+        limit.burst,
+        bucket.tokens + Math.max(0, now - bucket.updatedAt) * perMs,
+      )
+    : limit.burst
+
+  if (tokens >= 1) {
+    return {
+      allowed: true,
+      retryAfterMs: 0,
+      bucket: { tokens: tokens - 1, updatedAt: now },
+    }
+  }
+  return {
+    allowed: false,
+    retryAfterMs: Math.ceil((1 - tokens) / perMs),
+    bucket: { tokens, updatedAt: now },
+  }
+}
+
+/**
+ * Rate limit store keeping buckets and counters in process memory
+ *
+ * Every Lambda instance counts on its own, use a shared store to limit across instances.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, TokenBucket>()
+  const counters = new Map<string, { value: number; expiresAt: number }>()
+
+  const getCounter = (key: string) => {
+    const counter = counters.get(key)
+    if (counter && counter.expiresAt <= Date.now()) {
+      counters.delete(key)
+      return undefined
+    }
+    return counter
+  }
+
+  return {
+    async take(key, limit) {
+      const { bucket, ...result } = takeToken(
+        buckets.get(key),
+        limit,
+        Date.now(),
+      )
+      if (result.allowed) buckets.set(key, bucket)
+      return result
+    },
+
+    async get(key) {
+      return getCounter(key)?.value ?? 0
+    },
+
+    async add(key, amount, expiresAt) {
+      const counter = getCounter(key) ?? { value: 0, expiresAt }
+      counter.value += amount
+      counters.set(key, counter)
+      return counter.value
+    },
+  }
+}
+
+/**
+ * Create limiter of tool calls by caller
+ *
+ * Token buckets limit calls of a caller to each tool per minute. Daily quotas count calls of
+ * a tool, Cost Explorer API requests of `aws_cost_*` tools and bytes scanned by Logs
+ * Insights queries, and reset at midnight UTC. Callers are keyed by token subject or API key ID.
+ *
+ * @example
+ * ```typescript
+ * const limiter = createRateLimiter(getRateLimitConfig(), createMemoryRateLimitStore())
+ * await limiter.consume({ toolName, caller })
+ * const result = await trackAwsCalls(awsCalls, () => tool.run(args, context))
+ * await limiter.record({ toolName, caller, awsCalls })
+ * ```
+ */
+export function createRateLimiter(
+  config: RateLimitConfig,
+  store: RateLimitStore,
+) {
+  const getToolLimit = (toolName: string) =>
+    Object.entries(config.tools).find(([glob]) =>
+      globToRegExp(glob).test(toolName),
+    )?.[1] ?? {}
+
+  /**
+   * Daily counters are keyed by the UTC day and expire at its end
+   */
+  const getDay = () => {
+    const now = new Date()
+    const resetAt = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+    )
+    return { day: now.toISOString().slice(0, 10), resetAt }
+  }
+
+  return {
+    /**
+     * Take a call of a tool from the limits of the caller
+     *
+     * @throws QuotaExceededError when a rate limit or daily quota is exceeded
+     */
+    async consume(call: { toolName: string; caller: RateLimitCaller }) {
+      const { toolName } = call
+      const caller = getCallerKey(call.caller)
+      const { day, resetAt } = getDay()
+      const quotaExceeded = (message: string) =>
+        new QuotaExceededError({
+          message: `Daily quota exceeded: ${message}`,
+          toolName,
+          code: "QuotaExceeded",
+          resetAt,
+        })
+
+      if (
+        config.dailyCostExplorerRequests > 0 &&
+        toolName.startsWith("aws_cost_") &&
+        (await store.get(`cost-explorer-requests#${caller}#${day}`)) >=
+          config.dailyCostExplorerRequests
+      ) {
+        throw quotaExceeded(
+          `${config.dailyCostExplorerRequests} Cost Explorer API requests a day`,
+        )
+      }
+      if (
+        config.dailyLogsInsightsBytes > 0 &&
+        LOGS_INSIGHTS_QUERY_TOOLS.includes(toolName) &&
+        (await store.get(`logs-insights-bytes#${caller}#${day}`)) >=
+          config.dailyLogsInsightsBytes
+      ) {
+        throw quotaExceeded(
+          `${config.dailyLogsInsightsBytes / GB} GB scanned by Logs Insights queries a day`,
+        )
+      }
+
+      const toolLimit = getToolLimit(toolName)
+      const perMinute = toolLimit.perMinute ?? config.perMinute
+      if (perMinute > 0) {
+        const { allowed, retryAfterMs } = await store.take(
+          `rate#${caller}#${toolName}`,
+          { perMinute, burst: toolLimit.burst ?? config.burst ?? perMinute },
+        )
+        if (!allowed) {
+          throw new QuotaExceededError({
+            message: `Rate limit exceeded: ${perMinute} calls of ${toolName} a minute`,
+            toolName,
+            code: "RateLimitExceeded",
+            resetAt: new Date(Date.now() + retryAfterMs),
+          })
+        }
+      }
+
+      if (
+        toolLimit.dailyCalls &&
+        (await store.add(
+          `calls#${caller}#${toolName}#${day}`,
+          1,
+          resetAt.getTime(),
+        )) > toolLimit.dailyCalls
+      ) {
+        throw quotaExceeded(
+          `${toolLimit.dailyCalls} calls of ${toolName} a day`,
+        )
+      }
+    },
+
+    /**
+     * Count usage of a finished call towards the daily budgets of the caller
+     */
+    async record(call: {
+      toolName: string
+      caller: RateLimitCaller
+      awsCalls: AwsCallMetrics
+    }) {
+      const caller = getCallerKey(call.caller)
+      const { day, resetAt } = getDay()
+
+      // Failed calls and retried attempts are charged too
+      const costExplorerRequests = call.awsCalls.attemptsByService.ce ?? 0
+      if (config.dailyCostExplorerRequests > 0 && costExplorerRequests > 0) {
+        await store.add(
+          `cost-explorer-requests#${caller}#${day}`,
+          costExplorerRequests,
+          resetAt.getTime(),
+        )
+      }
+
+      // Results of a query can be fetched again, only bytes not counted yet are added
+      if (config.dailyLogsInsightsBytes === 0) return
+      for (const [queryId, bytesScanned] of Object.entries(
+        call.awsCalls.bytesScannedByQuery,
+      )) {
+        const queryKey = `logs-insights-query#${queryId}`
+        const uncounted = bytesScanned - (await store.get(queryKey))
+        if (uncounted <= 0) continue
+
+        await store.add(queryKey, uncounted, resetAt.getTime())
+        await store.add(
+          `logs-insights-bytes#${caller}#${day}`,
+          uncounted,
+          resetAt.getTime(),
+        )
+      }
+    },
+  }
+}
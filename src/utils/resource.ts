@@ -0,0 +1,107 @@
+// eslint-disable-next-line import/no-unresolved
+import { type Resource } from "@modelcontextprotocol/sdk/types.js"
+
+export type ResourceContents = {
+  mimeType?: string
+  text: string
+}
+
+export type ResourceTemplate = {
+  /**
+   * URI template with simple `{variable}` expressions, e.g. `aws://{region}/lambda/{function}`
+   */
+  uriTemplate: string
+  name: string
+  /**
+   * Human readable name shown by clients, e.g. `S3 Object`
+   */
+  title: string
+  description: string
+  /**
+   * MIME type of every resource of the template, omitted when it differs by resource
+   */
+  mimeType?: string
+  /**
+   * Tool the resource is read with, the template is available only when the tool is
+   */
+  toolName: string
+  /**
+   * Read resource identified by URI template variables
+   */
+  read(
+    variables: Record<string, string>,
+    uri: string,
+  ): Promise<ResourceContents>
+  /**
+   * Concrete resources returned by `resources/list`, e.g. functions in the default region
+   */
+  list?: ResourceListing
+}
+
+export type ResourceListing = {
+  /**
+   * Tool listing the resources, listings are authorized and rate limited as calls of it
+   */
+  toolName: string
+  /**
+   * Arguments the tool is called with, e.g. the default region
+   */
+  args(): Record<string, unknown>
+  resources(args: Record<string, unknown>): Promise<Resource[]>
+}
+
+export const resourceTemplate = (input: ResourceTemplate) => input
+
+const VARIABLE = /\{(\w+)\}/g
+
+/**
+ * Match URI against a template, variables are percent-decoded
+ *
+ * Variables do not span `/`, values containing it must be percent-encoded,
+ * e.g. `aws://eu-west-1/logs/%2Faws%2Flambda%2Forders/2024%2F01%2F01`.
+ *
+ * @returns variables of the URI or `undefined` when the URI does not match
+ */
+export const matchUriTemplate = (
+  uriTemplate: string,
+  uri: string,
+): Record<string, string> | undefined => {
+  const names: string[] = []
+  const pattern = uriTemplate
+    .split(VARIABLE)
+    .map((part, index) => {
+      if (index % 2 === 0) return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      names.push(part)
+      return "([^/]+)"
+    })
+    .join("")
+
+  const match = new RegExp(`^${pattern}$`).exec(uri)
+  if (!match) return undefined
+
+  try {
+    return Object.fromEntries(
+      names.map((name, index) => [name, decodeURIComponent(match[index + 1]!)]),
+    )
+  } catch {
+    // Malformed percent-encoding
+    return undefined
+  }
+}
+
+/**
+ * Expand URI template with percent-encoded variables
+ *
+ * @example
+ * ```typescript
+ * expandUriTemplate("aws://{region}/lambda/{function}", { region: "eu-west-1", function: "orders" })
+ * // aws://eu-west-1/lambda/orders
+ * ```
+ */
+export const expandUriTemplate = (
+  uriTemplate: string,
+  variables: Record<string, string>,
+) =>
+  uriTemplate.replace(VARIABLE, (_, name: string) =>
+    encodeURIComponent(variables[name] ?? ""),
+  )
@@ -0,0 +1,564 @@
+import { createHash } from "node:crypto"
+import { z } from "zod"
+
+/**
+ * Approximate bytes of JSON per token, token budgets are converted to bytes with it
+ */
+const BYTES_PER_TOKEN = 4
+
+/**
+ * Budget of a tool response when neither `MCP_MAX_RESPONSE_TOKENS` nor `maxResponseTokens` is set
+ */
+const DEFAULT_MAX_RESPONSE_TOKENS = 25_000
+
+/**
+ * Hard limit of a single representation of a result. Results are returned both as text
+ * and as structured content, so a response stays under the 6 MB Lambda response limit.
+ */
+const MAX_RESPONSE_BYTES = 2 * 1024 * 1024
+
+/**
+ * Strings are not cut below this length, shorter strings are not worth the marker
+ */
+const MIN_TRUNCATED_STRING_LENGTH = 200
+
+/**
+ * How long results of truncated responses are kept to be continued by `responseCursor`
+ */
+const RESULT_CACHE_TTL_MS = 10 * 60 * 1000
+
+/**
+ * Results kept at once, the oldest one is dropped first
+ */
+const RESULT_CACHE_MAX_ENTRIES = 20
+
+/**
+ * Arguments accepted by every tool to shape its response
+ */
+export const responseArgs = z.object({
+  maxResponseTokens: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_RESPONSE_BYTES / BYTES_PER_TOKEN)
+    .describe(
+      "Approximate token budget of the response, result arrays are truncated to fit it, defaults to the server budget",
+    )
+    .optional(),
+  fields: z
+    .array(z.string().min(1))
+    .min(1)
+    .describe(
+      'Fields to keep in every item of result arrays as dot paths, e.g. ["instanceId", "state.name"]',
+    )
+    .optional(),
+  compact: z
+    .boolean()
+    .describe("Return JSON text without indentation to save tokens")
+    .optional(),
+  responseCursor: z
+    .string()
+    .describe(
+      "responseCursor of a truncated response to get the omitted items, the other arguments must not change",
+    )
+    .optional(),
+})
+export type ResponseArgs = z.infer<typeof responseArgs>
+
+/**
+ * Items of top-level result arrays already returned, by array path, e.g. `{ "items": 120 }`
+ */
+export type ArrayOffsets = Record<string, number>
+
+/**
+ * Decoded `responseCursor`
+ */
+export type ResponseCursor = {
+  offsets: ArrayOffsets
+  /**
+   * Key of the full result in the result cache, continued calls reuse it instead of running the tool
+   */
+  resultId?: string
+}
+
+export type ResponseTruncation = {
+  /**
+   * Truncated arrays, `offset` is the index of the first returned item
+   */
+  arrays: { path: string; offset: number; returned: number; total: number }[]
+  /**
+   * Number of strings cut to fit the budget
+   */
+  strings: number
+  /**
+   * Pass as `responseCursor` with the same arguments to get the following items,
+   * omitted when no top-level array was truncated
+   */
+  responseCursor?: string
+}
+
+export const getMaxResponseTokens = () => {
+  const tokens = Number(process.env.MCP_MAX_RESPONSE_TOKENS)
+  return Number.isInteger(tokens) && tokens > 0
+    ? tokens
+    : DEFAULT_MAX_RESPONSE_TOKENS
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * Key identifying a tool call regardless of argument order, cursors are valid only for the same call
+ */
+export const getResponseCallKey = (
+  toolName: string,
+  args: Record<string, unknown> = {},
+) => {
+  const callArgs = Object.fromEntries(
+    Object.entries(args).filter(([name]) => !(name in responseArgs.shape)),
+  )
+  const json = JSON.stringify({ toolName, callArgs }, (_, value: unknown) =>
+    isRecord(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : value,
+  )
+  return createHash("sha256").update(json).digest("base64url").slice(0, 16)
+}
+
+const encodeResponseCursor = (callKey: string, cursor: ResponseCursor) =>
+  Buffer.from(JSON.stringify({ callKey, ...cursor })).toString("base64url")
+
+/**
+ * Decode a `responseCursor`, `undefined` when the cursor is malformed or belongs to another call
+ */
+export const decodeResponseCursor = (
+  cursor: string,
+  callKey: string,
+): ResponseCursor | undefined => {
+  try {
+    const decoded = z
+      .object({
+        callKey: z.literal(callKey),
+        offsets: z.record(z.number().int().nonnegative()),
+        resultId: z.string().optional(),
+      })
+      .safeParse(JSON.parse(Buffer.from(cursor, "base64url").toString()))
+    return decoded.success
+      ? { offsets: decoded.data.offsets, resultId: decoded.data.resultId }
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Paths of arrays of a result object which are not nested in other arrays, e.g. `items` or `results`
+ */
+const findTopLevelArrays = (value: unknown, path: string[] = []): string[][] =>
+  isRecord(value)
+    ? Object.entries(value).flatMap(([key, child]) =>
+        Array.isArray(child)
+          ? [[...path, key]]
+          : findTopLevelArrays(child, [...path, key]),
+      )
+    : []
+
+const getPath = (value: unknown, path: string[]) =>
+  path.reduce<unknown>(
+    (current, key) => (isRecord(current) ? current[key] : undefined),
+    value,
+  )
+
+const setPath = (value: unknown, path: string[], next: unknown) => {
+  const parent = getPath(value, path.slice(0, -1))
+  if (isRecord(parent)) parent[path.at(-1)!] = next
+  return value
+}
+
+const pick = (value: unknown, path: string[]): unknown => {
+  if (path.length === 0) return value
+  if (Array.isArray(value)) return value.map((item) => pick(item, path))
+  if (!isRecord(value) || !(path[0]! in value)) return undefined
+  return { [path[0]!]: pick(value[path[0]!], path.slice(1)) }
+}
+
+const merge = (a: unknown, b: unknown): unknown => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.map((item, index) => merge(item, b[index]))
+  }
+  if (isRecord(a) && isRecord(b)) {
+    return Object.fromEntries(
+      [...new Set([...Object.keys(a), ...Object.keys(b)])].map((key) => [
+        key,
+        merge(a[key], b[key]),
+      ]),
+    )
+  }
+  return a === undefined ? b : a
+}
+
+/**
+ * Keep only `fields` in items of top-level arrays, or in the result when it has none
+ */
+const project = (value: unknown, fields: string[]) => {
+  const paths = fields.map((field) => field.split("."))
+  const projectItem = (item: unknown) =>
+    isRecord(item)
+      ? paths
+          .map((path) => pick(item, path))
+          .reduce((projected, picked) => merge(projected, picked), {})
+      : item
+
+  const arrays = findTopLevelArrays(value)
+  if (arrays.length === 0) return projectItem(value)
+
+  return arrays.reduce(
+    (projected, path) =>
+      setPath(
+        projected,
+        path,
+        (getPath(projected, path) as unknown[]).map(projectItem),
+      ),
+    value,
+  )
+}
+
+/**
+ * Copy of a JSON schema without required properties at any depth
+ */
+const withoutRequired = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(withoutRequired)
+  if (!isRecord(schema)) return schema
+
+  return Object.fromEntries(
+    Object.entries(schema)
+      // Properties named `required` are schemas, not arrays of names
+      .filter(([key, value]) => !(key === "required" && Array.isArray(value)))
+      .map(([key, value]) => [key, withoutRequired(value)]),
+  )
+}
+
+/**
+ * Relax JSON output schema of a tool so that results projected to `fields` still match it
+ *
+ * Properties of items of top-level arrays, or of the result when it has none, become optional,
+ * the same values `fields` removes.
+ */
+export const toProjectableSchema = <Schema>(schema: Schema): Schema => {
+  let hasArrays = false
+
+  const relax = (node: unknown): unknown => {
+    if (!isRecord(node) || !isRecord(node.properties)) return node
+
+    return {
+      ...node,
+      properties: Object.fromEntries(
+        Object.entries(node.properties).map(([key, property]) => {
+          if (isRecord(property) && property.type === "array") {
+            hasArrays = true
+            return [
+              key,
+              { ...property, items: withoutRequired(property.items) },
+            ]
+          }
+          return [key, relax(property)]
+        }),
+      ),
+    }
+  }
+
+  const relaxed = relax(schema)
+  return (hasArrays ? relaxed : withoutRequired(schema)) as Schema
+}
+
+/**
+ * Cache of full tool results, truncated responses are continued from it without calling AWS again
+ *
+ * Results live in process memory, a continued call handled by another instance misses them.
+ *
+ * @example
+ * ```typescript
+ * const results = createResultCache()
+ * results.set(`${caller}#${resultId}`, output)
+ * const cached = results.get(`${caller}#${resultId}`)
+ * ```
+ */
+export function createResultCache(
+  input: { ttlMs?: number; maxEntries?: number } = {},
+) {
+  const ttlMs = input.ttlMs ?? RESULT_CACHE_TTL_MS
+  const maxEntries = input.maxEntries ?? RESULT_CACHE_MAX_ENTRIES
+  // Maps iterate in insertion order, the first entry is the oldest
+  const entries = new Map<string, { expiresAt: number; result: unknown }>()
+
+  return {
+    get(key: string) {
+      const entry = entries.get(key)
+      if (!entry || entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return undefined
+      }
+      return entry.result
+    },
+
+    set(key: string, result: unknown) {
+      entries.delete(key)
+      entries.set(key, { expiresAt: Date.now() + ttlMs, result })
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+  }
+}
+
+type Node = { path: (string | number)[]; value: unknown[] | string }
+
+/**
+ * Arrays and strings which can still be cut, anywhere in the result
+ */
+const findCuttableNodes = (
+  value: unknown,
+  path: (string | number)[] = [],
+): Node[] => {
+  if (typeof value === "string") {
+    return value.length > MIN_TRUNCATED_STRING_LENGTH ? [{ path, value }] : []
+  }
+  if (Array.isArray(value)) {
+    return [
+      ...(value.length > 0 ? [{ path, value }] : []),
+      ...value.flatMap((item, index) =>
+        findCuttableNodes(item, [...path, index]),
+      ),
+    ]
+  }
+  if (isRecord(value)) {
+    return Object.entries(value).flatMap(([key, child]) =>
+      findCuttableNodes(child, [...path, key]),
+    )
+  }
+  return []
+}
+
+/**
+ * Fit a tool result into a byte budget, in order of preference:
+ *
+ * 1. Indented JSON text is replaced by compact JSON
+ * 2. Top-level arrays, e.g. `items`, are truncated and can be continued with `responseCursor`
+ * 3. Nested arrays and long strings are halved, largest first, until the result fits
+ *
+ * Truncated arrays keep at least one item, so every continued call returns new items.
+ *
+ * @example
+ * ```typescript
+ * const { data, text, truncation } = budgetResponse(result, {
+ *   callKey: getResponseCallKey(tool.name, args),
+ *   maxResponseTokens: 25_000,
+ *   fields: ["instanceId", "state.name"],
+ * })
+ * ```
+ *
+ * @param input.resultId key of the cached full result, included in `responseCursor`
+ */
+export function budgetResponse(
+  result: unknown,
+  input: {
+    callKey: string
+    maxResponseTokens: number
+    compact?: boolean
+    fields?: string[]
+    offsets?: ArrayOffsets
+    resultId?: string
+  },
+): { data: unknown; text: string; truncation?: ResponseTruncation } {
+  const maxBytes = Math.min(
+    input.maxResponseTokens * BYTES_PER_TOKEN,
+    MAX_RESPONSE_BYTES,
+  )
+  let compact = input.compact ?? false
+  const serialize = (value: unknown) =>
+    compact ? JSON.stringify(value) : JSON.stringify(value, null, 2)
+  const fits = (value: unknown) =>
+    Buffer.byteLength(serialize(value)) <= maxBytes
+
+  // Results are cloned, arrays and strings are cut in place
+  let data: unknown = structuredClone(result)
+
+  const offsets = input.offsets ?? {}
+  const arrays = findTopLevelArrays(data).map((path) => {
+    const key = path.join(".")
+    const items = getPath(data, path) as unknown[]
+    const offset = Math.min(offsets[key] ?? 0, items.length)
+    data = setPath(data, path, items.slice(offset))
+    return { path, key, offset, total: items.length }
+  })
+
+  if (input.fields) data = project(data, input.fields)
+
+  // Responses served from a cursor always tell which items of the arrays they return
+  const continuedArrays = arrays
+    .filter((array) => array.key in offsets)
+    .map((array) => ({
+      path: array.key,
+      offset: array.offset,
+      returned: array.total - array.offset,
+      total: array.total,
+    }))
+  const untruncated = () => ({
+    data,
+    text: serialize(data),
+    ...(continuedArrays.length > 0 && {
+      truncation: { arrays: continuedArrays, strings: 0 },
+    }),
+  })
+
+  if (fits(data)) return untruncated()
+  compact = true
+  if (fits(data)) return untruncated()
+
+  const truncation: ResponseTruncation = { arrays: [], strings: 0 }
+  const nextOffsets: ArrayOffsets = {}
+  let continued = false
+
+  // Largest arrays first, the items kept are found by binary search
+  const bySize = arrays
+    .map((array) => ({
+      ...array,
+      size: JSON.stringify(getPath(data, array.path)).length,
+    }))
+    .sort((a, b) => b.size - a.size)
+
+  for (const array of bySize) {
+    const items = getPath(data, array.path) as unknown[]
+    let kept = items.length
+
+    if (!fits(data) && items.length > 1) {
+      let low = 1
+      let high = items.length - 1
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2)
+        setPath(data, array.path, items.slice(0, middle))
+        if (fits(data)) low = middle
+        else high = middle - 1
+      }
+      kept = low
+      setPath(data, array.path, items.slice(0, kept))
+    }
+
+    nextOffsets[array.key] = array.offset + kept
+    if (array.offset + kept < array.total) continued = true
+    if (kept < items.length || array.key in offsets) {
+      truncation.arrays.push({
+        path: array.key,
+        offset: array.offset,
+        returned: kept,
+        total: array.total,
+      })
+    }
+  }
+
+  // Cut nested arrays and long strings, they are not continued
+  const topLevelKeys = new Set(arrays.map((array) => array.key))
+  while (!fits(data)) {
+    const [largest] = findCuttableNodes(data)
+      .filter(
+        (node) =>
+          node.path.length > 0 && !topLevelKeys.has(node.path.join(".")),
+      )
+      .sort(
+        (a, b) =>
+          JSON.stringify(b.value).length - JSON.stringify(a.value).length,
+      )
+    if (!largest) break
+
+    const parent = largest.path
+      .slice(0, -1)
+      .reduce<unknown>(
+        (current, key) => (current as Record<string | number, unknown>)[key],
+        data,
+      ) as Record<string | number, unknown>
+    const key = largest.path.at(-1)!
+
+    if (typeof largest.value === "string") {
+      // At least half of the string, or enough to fit the budget at once
+      const excess = Buffer.byteLength(serialize(data)) - maxBytes
+      const length = Math.max(
+        0,
+        Math.min(
+          Math.floor(largest.value.length / 2),
+          largest.value.length - excess - 64,
+        ),
+      )
+      parent[key] =
+        `${largest.value.slice(0, length)}... [${largest.value.length - length} characters truncated]`
+      truncation.strings++
+    } else {
+      const path = largest.path.join(".")
+      const existing = truncation.arrays.find((array) => array.path === path)
+      const returned = Math.floor(largest.value.length / 2)
+      parent[key] = largest.value.slice(0, returned)
+      if (existing) existing.returned = returned
+      else {
+        truncation.arrays.push({
+          path,
+          offset: 0,
+          returned,
+          total: largest.value.length,
+        })
+      }
+    }
+  }
+
+  return {
+    data,
+    text: serialize(data),
+    ...((truncation.arrays.length > 0 || truncation.strings > 0) && {
+      truncation: {
+        ...truncation,
+        ...(continued && {
+          responseCursor: encodeResponseCursor(input.callKey, {
+            offsets: nextOffsets,
+            resultId: input.resultId,
+          }),
+        }),
+      },
+    }),
+  }
+}
+
+/**
+ * Note for the model describing what was omitted and how to get it
+ */
+export const describeTruncation = (
+  truncation: ResponseTruncation,
+  maxResponseTokens: number,
+) => {
+  const truncated =
+    truncation.strings > 0 ||
+    truncation.arrays.some(
+      ({ offset, returned, total }) => offset + returned < total,
+    )
+
+  return [
+    truncated
+      ? `Response truncated to fit about ${maxResponseTokens} tokens.`
+      : "Response continued from responseCursor, the remaining items are returned.",
+    ...truncation.arrays.map(
+      ({ path, offset, returned, total }) =>
+        `${path}: items ${offset + 1} to ${offset + returned} of ${total} returned.`,
+    ),
+    ...(truncation.strings > 0
+      ? [`${truncation.strings} long strings were cut.`]
+      : []),
+    ...(!truncated
+      ? []
+      : truncation.responseCursor
+        ? [
+            `Call the tool again with the same arguments and responseCursor "${truncation.responseCursor}" to get the following items, or narrow the result with fields or filters.`,
+          ]
+        : [
+            "Narrow the result with fields or filters to get the omitted data.",
+          ]),
+  ].join(" ")
+}
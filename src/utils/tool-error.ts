@@ -1,6 +1,38 @@
+import { z } from "zod"
+
+import {
+  AWS_ERROR_CATEGORIES,
+  type AwsErrorDetails,
+  classifyAwsError,
+} from "./aws-error"
+
+/**
+ * Schema of `ToolError.toStructuredContent`, failed tool calls return it as `structuredContent`
+ */
+export const toolErrorOutput = z.object({
+  error: z.object({
+    message: z.string(),
+    tool: z.string().optional(),
+    category: z.enum(AWS_ERROR_CATEGORIES).optional(),
+    code: z.string().optional(),
+    httpStatus: z.number().optional(),
+    requestId: z.string().optional(),
+    retryable: z.boolean().optional(),
+    remediation: z.string().optional(),
+    /**
+     * Time a rate limit or quota resets, calls can be retried after it
+     */
+    resetAt: z.string().optional(),
+  }),
+})
+
 export class ToolError extends Error {
   public readonly toolName?: string
   public readonly toolArgs?: Record<string, unknown>
+  /**
+   * Classification of the underlying AWS SDK error, if any
+   */
+  public readonly aws?: AwsErrorDetails
 
   constructor({
     message,
@@ -20,5 +52,19 @@ export class ToolError extends Error {
     this.name = "ToolError"
     this.toolName = toolName
     this.toolArgs = toolArgs
+    this.aws = error instanceof ToolError ? error.aws : classifyAwsError(error)
+  }
+
+  /**
+   * Machine readable error returned as `structuredContent` of the failed tool call
+   */
+  toStructuredContent(): z.infer<typeof toolErrorOutput> {
+    return {
+      error: {
+        message: this.message,
+        tool: this.toolName,
+        ...this.aws,
+      },
+    }
   }
 }
@@ -0,0 +1,162 @@
+import { z } from "zod"
+
+import { InvalidRequestError } from "./json-rpc-error"
+import { type Tool } from "./tool"
+
+/**
+ * Header selecting tool profiles of a request, e.g. `Mcp-Tool-Profile: on-call`
+ */
+export const TOOL_PROFILE_HEADER = "mcp-tool-profile"
+
+/**
+ * Profiles available without configuration, `MCP_TOOL_PROFILES` adds or overrides profiles
+ */
+const DEFAULT_TOOL_PROFILES: Record<string, string[]> = {
+  "cost-analyst": ["cost"],
+  "on-call": ["ecs", "cloudwatch", "lambda"],
+}
+
+/**
+ * Tools of each factory, e.g. `{ ec2: createEC2Tools() }`, group names can be used as patterns
+ */
+export type ToolGroups = Record<string, Tool[]>
+
+/**
+ * Parse comma separated patterns, e.g. `ec2,aws_cost_*,!aws_cost_get-tags`
+ */
+export const parseToolPatterns = (value?: string) =>
+  (value ?? "")
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+
+/**
+ * Convert glob with `*` wildcards to a regular expression matching whole strings
+ */
+export const globToRegExp = (glob: string, flags?: string) =>
+  new RegExp(
+    `^${glob
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+    flags,
+  )
+
+/**
+ * Keep tools matching patterns
+ *
+ * Pattern is a group name, e.g. `ec2`, or a glob of tool names, e.g. `aws_ec2_describe_*`.
+ * Patterns prefixed with `!` exclude tools. Without include patterns every tool is kept.
+ */
+export const filterTools = (
+  tools: Tool[],
+  patterns: string[],
+  groups: ToolGroups,
+) => {
+  const matchers = patterns.map((pattern) => {
+    const exclude = pattern.startsWith("!")
+    const name = exclude ? pattern.slice(1) : pattern
+    const group = groups[name]
+    const regExp = globToRegExp(name)
+
+    return {
+      exclude,
+      matches: (tool: Tool) =>
+        group ? group.includes(tool) : regExp.test(tool.name),
+    }
+  })
+  const includes = matchers.filter((matcher) => !matcher.exclude)
+  const excludes = matchers.filter((matcher) => matcher.exclude)
+
+  return tools.filter(
+    (tool) =>
+      (includes.length === 0 ||
+        includes.some(({ matches }) => matches(tool))) &&
+      !excludes.some(({ matches }) => matches(tool)),
+  )
+}
+
+/**
+ * Read tool profiles, defaults merged with `MCP_TOOL_PROFILES` environment variable
+ *
+ * @example
+ * ```json
+ * { "network": ["aws_ec2_*_vpcs", "aws_ec2_*_subnets", "aws_ec2_*_security_groups"] }
+ * ```
+ */
+export const getToolProfiles = (): Record<string, string[]> => ({
+  ...DEFAULT_TOOL_PROFILES,
+  ...(process.env.MCP_TOOL_PROFILES &&
+    z
+      .record(z.array(z.string()))
+      .parse(JSON.parse(process.env.MCP_TOOL_PROFILES))),
+})
+
+/**
+ * Read profiles of API Gateway API keys from `MCP_API_KEY_PROFILES` environment variable
+ *
+ * @example
+ * ```json
+ * { "a1b2c3d4e5": "cost-analyst" }
+ * ```
+ */
+export const getApiKeyProfiles = (): Record<string, string> =>
+  process.env.MCP_API_KEY_PROFILES
+    ? z.record(z.string()).parse(JSON.parse(process.env.MCP_API_KEY_PROFILES))
+    : {}
+
+/**
+ * Create function selecting tools available to a request
+ *
+ * The profile of the request API key and the profiles of the `Mcp-Tool-Profile` header
+ * each narrow the tools, the header cannot add tools the API key does not allow.
+ *
+ * @example
+ * ```typescript
+ * const selectTools = createToolSelector(toolGroups)
+ * createMcp({ tools, selectTools })
+ * ```
+ */
+export const createToolSelector =
+  (groups: ToolGroups) =>
+  (
+    tools: Tool[],
+    request: {
+      headers: Record<string, string | undefined>
+      apiKeyId?: string
+    },
+  ) => {
+    const profiles = getToolProfiles()
+    const getPatterns = (profile: string) => {
+      const patterns = profiles[profile]
+      if (!patterns) {
+        throw new InvalidRequestError({
+          message: `Unknown tool profile: ${profile}`,
+          data: { profile, profiles: Object.keys(profiles) },
+        })
+      }
+      return patterns
+    }
+
+    const apiKeyProfile =
+      request.apiKeyId && getApiKeyProfiles()[request.apiKeyId]
+    const headerProfiles = parseToolPatterns(
+      request.headers[TOOL_PROFILE_HEADER],
+    )
+
+    let selected = tools
+    if (apiKeyProfile) {
+      selected = filterTools(selected, getPatterns(apiKeyProfile), groups)
+    }
+    if (headerProfiles.length > 0) {
+      // Tools of any of the header profiles
+      const allowed = new Set(
+        headerProfiles.flatMap((profile) =>
+          filterTools(selected, getPatterns(profile), groups),
+        ),
+      )
+      selected = selected.filter((tool) => allowed.has(tool))
+    }
+
+    return selected
+  }
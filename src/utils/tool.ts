@@ -1,16 +1,118 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import type * as z from "zod"
+// eslint-disable-next-line import/no-unresolved
+import { type ToolAnnotations } from "@modelcontextprotocol/sdk/types.js"
+import { z } from "zod"
+
+import { type AuthPrincipal } from "./bearer-auth"
+import { InvalidParamsError } from "./json-rpc-error"
+
+export type ToolProgress = {
+  /**
+   * Increases with every report, e.g. number of finished steps
+   */
+  progress: number
+  total?: number
+  message?: string
+}
+
+/**
+ * Context of a single tool call
+ */
+export type ToolRunContext = {
+  /**
+   * Aborted when the client cancels the call, pass it to AWS calls as `abortSignal`
+   */
+  signal: AbortSignal
+  /**
+   * Report progress of a long-running call, ignored unless the client sent `_meta.progressToken`
+   */
+  reportProgress(progress: ToolProgress): void
+  /**
+   * Principal authenticated by the bearer token of the request, omitted without bearer auth
+   */
+  principal?: AuthPrincipal
+}
 
 export type Tool<
   Args extends undefined | z.ZodSchema = undefined | z.ZodSchema,
+  Output extends z.ZodSchema = z.ZodSchema,
 > = {
   name: string
+  /**
+   * Human readable name shown by clients, e.g. `Describe EC2 Instances`
+   */
+  title: string
   description: string
+  /**
+   * Behavior hints clients use to decide whether to ask for confirmation
+   */
+  annotations: ToolAnnotations
+  /**
+   * Calls are billed per request or run long, e.g. Cost Explorer and Logs Insights queries.
+   * Truncated responses are continued only from the cached result, the tool is not run again.
+   */
+  costly?: boolean
   args?: Args
-  run: Args extends z.ZodSchema
-    ? (args: z.infer<Args>) => Promise<any>
-    : () => Promise<any>
+  /**
+   * Schema of the result, published as `outputSchema` and checked before the result is returned
+   */
+  output: Output
+  run: (
+    args: Args extends z.ZodSchema ? z.infer<Args> : unknown,
+    context: ToolRunContext,
+  ) => Promise<z.input<Output>>
 }
 
-export const tool = <Args extends undefined | z.ZodSchema>(input: Tool<Args>) =>
-  input
+export const tool = <
+  Args extends undefined | z.ZodSchema,
+  Output extends z.ZodSchema,
+>(
+  input: Tool<Args, Output>,
+) => input
+
+/**
+ * Context of a call which is neither cancelled nor reports progress, e.g. reading a resource
+ */
+export const createToolRunContext = (
+  context: Partial<ToolRunContext> = {},
+): ToolRunContext => ({
+  signal: context.signal ?? new AbortController().signal,
+  reportProgress: context.reportProgress ?? (() => {}),
+  principal: context.principal,
+})
+
+/**
+ * Call tool outside of `tools/call`, e.g. to read a resource, with validated arguments and result
+ *
+ * @param message message of the error thrown for invalid arguments
+ */
+export const callTool = async <Result>(
+  tool: Tool,
+  args: Record<string, unknown>,
+  message = `Invalid arguments for ${tool.name}`,
+): Promise<Result> => {
+  // Region arguments check the regions enabled in the account asynchronously
+  const parsed = await (tool.args ?? z.object({})).safeParseAsync(args)
+  if (!parsed.success) {
+    throw InvalidParamsError.fromIssues(parsed.error.issues, message)
+  }
+
+  const result = await tool.run(parsed.data, createToolRunContext())
+  return tool.output.parse(result) as Result
+}
+
+/**
+ * Annotations of tools which only read from AWS APIs
+ */
+export const READ_ONLY_ANNOTATIONS = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: true,
+} as const satisfies ToolAnnotations
+
+/**
+ * Output schema of an AWS SDK structure returned as is, e.g. a distribution config
+ *
+ * SDK interfaces have no index signature, so the record schema is typed as a plain object.
+ */
+export const awsObject = () => z.record(z.unknown()) as z.ZodType<object>
@@ -1,6 +1,9 @@
 import {
   type JSONRPCResponse,
   type JSONRPCRequest,
+  ListPromptsResultSchema,
+  ListResourceTemplatesResultSchema,
+  ListToolsResultSchema,
 } from "@modelcontextprotocol/sdk/types.js"
 import { app } from "~/dev"
 import { tools } from "~/tools"
@@ -31,7 +34,7 @@ describe("POST /mcp", () => {
       result: {
         protocolVersion: "2025-06-18",
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
         },
         serverInfo: {
           name: "aws-cloudcontrol",
@@ -42,25 +45,38 @@ describe("POST /mcp", () => {
   })
 
   test("should handle tools/list request", async () => {
-    const response = await app.request("http://localhost:3000/mcp", {
-      method: "POST",
-      body: JSON.stringify({
+    const listTools = async (cursor?: string) => {
+      const response = await app.request("http://localhost:3000/mcp", {
+        method: "POST",
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 2,
+          method: "tools/list",
+          params: cursor ? { cursor } : {},
+        } satisfies JSONRPCRequest),
+      })
+      expect(response.status).toBe(200)
+      const body = (await response.json()) as JSONRPCResponse
+      expect(body).toMatchObject({
         jsonrpc: "2.0",
         id: 2,
-        method: "tools/list",
-      } satisfies JSONRPCRequest),
-    })
-    expect(response.status).toBe(200)
-    const body = (await response.json()) as JSONRPCResponse
-    expect(body).toMatchObject({
-      jsonrpc: "2.0",
-      id: 2,
-      result: {},
+        result: {},
+      })
+      return ListToolsResultSchema.parse(body.result)
+    }
+
+    const listedTools = []
+    let cursor: string | undefined
+    do {
+      const result = await listTools(cursor)
+      listedTools.push(...result.tools)
+      cursor = result.nextCursor
+    } while (cursor)
+
+    expect(listedTools.length).toEqual(tools.length)
+    listedTools.forEach((tool) => {
+      expect(tool.outputSchema).toMatchObject({ type: "object" })
     })
-    expect(body.result).toHaveProperty("tools")
-    expect(
-      Array.isArray(body.result.tools) && body.result.tools.length,
-    ).toEqual(tools.length)
   })
 
   test("should return error for invalid method", async () => {
@@ -77,7 +93,11 @@ describe("POST /mcp", () => {
     expect(body).toMatchObject({
       jsonrpc: "2.0",
       id: 3,
-      error: { code: -32602, message: "Internal Server Error" },
+      error: {
+        code: -32601,
+        message: "Method not found: invalid",
+        data: { method: "invalid" },
+      },
     })
   })
 
@@ -97,7 +117,7 @@ describe("POST /mcp", () => {
     expect(body).toMatchObject({
       jsonrpc: "2.0",
       id: 4,
-      error: { code: -32602, message: "Internal Server Error" },
+      error: { code: -32600 },
     })
   })
 
@@ -115,7 +135,239 @@ describe("POST /mcp", () => {
     expect(body).toMatchObject({
       jsonrpc: "2.0",
       id: "invalid",
-      error: { code: -32602, message: "Internal Server Error" },
+      error: { code: -32602, message: "Invalid params for initialize" },
+    })
+  })
+
+  test("should return parse error for invalid JSON", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      body: "{ invalid json",
+    })
+    expect(response.status).toBe(400)
+    const body = await response.json()
+    expect(body).toMatchObject({
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: -32700, message: "Parse error" },
+    })
+  })
+
+  test("should handle resources/templates/list request", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 6,
+        method: "resources/templates/list",
+      } satisfies JSONRPCRequest),
+    })
+    expect(response.status).toBe(200)
+    const body = (await response.json()) as JSONRPCResponse
+    const { resourceTemplates } = ListResourceTemplatesResultSchema.parse(
+      body.result,
+    )
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      "aws://{region}/s3/{bucket}/{key}",
+      "aws://{region}/logs/{logGroup}/{logStream}",
+      "aws://{region}/logs/{logGroup}",
+      "aws://{region}/cloudwatch/alarms/{alarm}",
+      "aws://{region}/ecs/{cluster}/services/{service}",
+      "aws://{region}/rds/{dbInstance}",
+      "aws://{region}/lambda/{function}",
+    ])
+  })
+
+  test("should handle prompts/list request", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 7,
+        method: "prompts/list",
+      } satisfies JSONRPCRequest),
+    })
+    expect(response.status).toBe(200)
+    const body = (await response.json()) as JSONRPCResponse
+    const { prompts } = ListPromptsResultSchema.parse(body.result)
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "investigate-ecs-deployment",
+      "explain-cost-spike",
+      "audit-security-group",
+      "triage-lambda-errors",
+    ])
+  })
+
+  test("should return invalid params for unknown tool", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 5,
+        method: "tools/call",
+        params: { name: "aws_unknown_tool", arguments: {} },
+      } satisfies JSONRPCRequest),
+    })
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body).toMatchObject({
+      jsonrpc: "2.0",
+      id: 5,
+      error: {
+        code: -32602,
+        message: "Unknown tool: aws_unknown_tool",
+        data: { tool: "aws_unknown_tool" },
+      },
+    })
+  })
+})
+
+describe("Streamable HTTP transport", () => {
+  const initialize = () =>
+    app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-06-18",
+          capabilities: {},
+          clientInfo: { name: "test-client", version: "1.0.0" },
+        },
+      } satisfies JSONRPCRequest),
+    })
+
+  test("should issue session id on initialize", async () => {
+    const response = await initialize()
+    expect(response.status).toBe(200)
+    expect(response.headers.get("Mcp-Session-Id")).toBeTruthy()
+  })
+
+  test("should accept requests within a session", async () => {
+    const sessionId = (await initialize()).headers.get("Mcp-Session-Id")!
+
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      headers: {
+        "Mcp-Session-Id": sessionId,
+        "MCP-Protocol-Version": "2025-06-18",
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/list",
+      } satisfies JSONRPCRequest),
+    })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ jsonrpc: "2.0", id: 2 })
+  })
+
+  test("should acknowledge notifications with 202", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      }),
+    })
+    expect(response.status).toBe(202)
+  })
+
+  test("should return 404 for unknown session", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      headers: { "Mcp-Session-Id": "unknown" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "tools/list",
+      } satisfies JSONRPCRequest),
+    })
+    expect(response.status).toBe(404)
+  })
+
+  test("should return 400 for unsupported protocol version header", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      headers: { "MCP-Protocol-Version": "1999-01-01" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 4,
+        method: "tools/list",
+      } satisfies JSONRPCRequest),
+    })
+    expect(response.status).toBe(400)
+  })
+
+  test("should require session for GET stream", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "GET",
+      headers: { Accept: "text/event-stream" },
+    })
+    expect(response.status).toBe(400)
+  })
+
+  test("should end session on DELETE", async () => {
+    const sessionId = (await initialize()).headers.get("Mcp-Session-Id")!
+
+    const deleted = await app.request("http://localhost:3000/mcp", {
+      method: "DELETE",
+      headers: { "Mcp-Session-Id": sessionId },
+    })
+    expect(deleted.status).toBe(204)
+
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      headers: { "Mcp-Session-Id": sessionId },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 5,
+        method: "tools/list",
+      } satisfies JSONRPCRequest),
+    })
+    expect(response.status).toBe(404)
+  })
+})
+
+describe("JSON-RPC batch", () => {
+  test("should return a response for each request in the batch", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      body: JSON.stringify([
+        { jsonrpc: "2.0", id: 1, method: "tools/list" },
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+        { jsonrpc: "2.0", id: 2, method: "invalid" },
+      ]),
+    })
+    expect(response.status).toBe(200)
+    const body = (await response.json()) as JSONRPCResponse[]
+
+    expect(body).toHaveLength(2)
+    expect(body[0]).toMatchObject({ jsonrpc: "2.0", id: 1, result: {} })
+    expect(body[1]).toMatchObject({ jsonrpc: "2.0", id: 2, error: {} })
+  })
+
+  test("should acknowledge batch of notifications with 202", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      body: JSON.stringify([
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+      ]),
+    })
+    expect(response.status).toBe(202)
+  })
+
+  test("should return error for empty batch", async () => {
+    const response = await app.request("http://localhost:3000/mcp", {
+      method: "POST",
+      body: JSON.stringify([]),
+    })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: -32600 },
     })
   })
 })
@@ -55,12 +55,12 @@ describe("S3 Tools Integration Tests", () => {
       }
 
       const result = JSON.parse(text) as {
-        buckets: unknown[]
+        items: unknown[]
         count: number
       }
-      expect(result).toHaveProperty("buckets")
+      expect(result).toHaveProperty("items")
       expect(result).toHaveProperty("count")
-      expect(Array.isArray(result.buckets)).toBe(true)
+      expect(Array.isArray(result.items)).toBe(true)
       expect(typeof result.count).toBe("number")
     })
 
@@ -93,10 +93,10 @@ describe("S3 Tools Integration Tests", () => {
       }
 
       const result = JSON.parse(text) as {
-        buckets: unknown[]
+        items: unknown[]
       }
-      expect(result).toHaveProperty("buckets")
-      expect(Array.isArray(result.buckets)).toBe(true)
+      expect(result).toHaveProperty("items")
+      expect(Array.isArray(result.items)).toBe(true)
     })
   })
 
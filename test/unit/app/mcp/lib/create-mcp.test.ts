@@ -0,0 +1,1516 @@
+import {
+  type JSONRPCError,
+  type JSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js"
+import { z } from "zod"
+
+import { createMcp } from "~/app/mcp/lib/create-mcp"
+import {
+  authorizationPolicySchema,
+  createAuthorizer,
+} from "~/utils/authorization-policy"
+import { completer } from "~/utils/completion"
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  type RateLimitConfig,
+} from "~/utils/rate-limit"
+import { createRedactor } from "~/utils/redaction"
+import { inRegion, prompt, promptRegionArg } from "~/utils/prompt"
+import { resourceTemplate } from "~/utils/resource"
+import { READ_ONLY_ANNOTATIONS, tool } from "~/utils/tool"
+import { ToolError } from "~/utils/tool-error"
+
+const testTool = (name: string) =>
+  tool({
+    name,
+    title: name,
+    description: name,
+    annotations: READ_ONLY_ANNOTATIONS,
+    output: z.object({}),
+    async run() {
+      return {}
+    },
+  })
+
+describe("createMcp", () => {
+  const onError = jest.fn()
+  const mcp = createMcp({
+    tools: [
+      tool({
+        name: "aws_test_get_queue",
+        title: "Get Test Queue",
+        description: "Get queue",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({ name: z.string() }),
+        output: z.object({ queueName: z.string(), messages: z.number() }),
+        async run(args) {
+          return { queueName: args.name, messages: 3 }
+        },
+      }),
+      tool({
+        name: "aws_test_invalid_output",
+        title: "Return Invalid Output",
+        description: "Return result not matching output schema",
+        annotations: READ_ONLY_ANNOTATIONS,
+        output: z.object({ count: z.number() }),
+        // @ts-expect-error result does not match output schema
+        async run() {
+          return { count: "3" }
+        },
+      }),
+    ],
+    onError,
+  })
+
+  const callTool = (name: string, arguments_: Record<string, unknown> = {}) =>
+    mcp.process({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { name, arguments: arguments_ },
+    })
+
+  test("should publish title, annotations and output schema", async () => {
+    const response = await mcp.process({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/list",
+    })
+
+    expect(response).toMatchObject({
+      result: {
+        tools: [
+          {
+            name: "aws_test_get_queue",
+            title: "Get Test Queue",
+            annotations: { readOnlyHint: true, openWorldHint: true },
+            outputSchema: {
+              type: "object",
+              anyOf: [
+                // Results without arrays can be projected to any of their fields
+                expect.objectContaining({
+                  properties: {
+                    queueName: { type: "string" },
+                    messages: { type: "number" },
+                  },
+                }),
+                expect.objectContaining({ required: ["error"] }),
+              ],
+            },
+          },
+          expect.anything(),
+        ],
+      },
+    })
+  })
+
+  test("should return structured content with text fallback", async () => {
+    const response = await callTool("aws_test_get_queue", { name: "orders" })
+
+    expect(response).toMatchObject({
+      result: {
+        structuredContent: { queueName: "orders", messages: 3 },
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ queueName: "orders", messages: 3 }, null, 2),
+          },
+        ],
+      },
+    })
+  })
+
+  test("should return error when result does not match output schema", async () => {
+    const response = await callTool("aws_test_invalid_output")
+
+    expect(response).toMatchObject({
+      result: {
+        isError: true,
+        structuredContent: {
+          error: {
+            message: "Tool result does not match its output schema",
+            tool: "aws_test_invalid_output",
+          },
+        },
+      },
+    })
+    expect(onError).toHaveBeenCalledWith(expect.any(z.ZodError))
+  })
+
+  test("should page tools/list with cursor", async () => {
+    const paged = createMcp({
+      tools: [testTool("a"), testTool("b"), testTool("c")],
+      toolsPageSize: 2,
+    })
+    const listTools = async (cursor?: string) =>
+      (await paged.process({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/list",
+        params: { cursor },
+      })) as JSONRPCResponse | JSONRPCError
+
+    const first = await listTools()
+    expect(first).toMatchObject({
+      result: {
+        tools: [{ name: "a" }, { name: "b" }],
+        nextCursor: expect.any(String),
+      },
+    })
+
+    const second = await listTools(
+      "result" in first ? (first.result.nextCursor as string) : undefined,
+    )
+    expect(second).toMatchObject({ result: { tools: [{ name: "c" }] } })
+    expect(second).not.toHaveProperty("result.nextCursor")
+
+    expect(await listTools("invalid")).toMatchObject({
+      error: { code: -32602 },
+    })
+  })
+
+  test("should notify listeners when registered tools change", () => {
+    const tools = [testTool("a"), testTool("b")]
+    const mcp = createMcp({ tools })
+    const listener = jest.fn()
+    mcp.onToolsListChanged(listener)
+
+    mcp.setTools([...tools])
+    expect(listener).not.toHaveBeenCalled()
+
+    mcp.setTools([tools[0]!])
+    expect(listener).toHaveBeenCalledWith({
+      method: "notifications/tools/list_changed",
+    })
+  })
+})
+
+describe("createMcp resources", () => {
+  const notFound = Object.assign(new Error("Function not found"), {
+    name: "ResourceNotFoundException",
+    $metadata: { httpStatusCode: 404 },
+  })
+  const listQueues = jest.fn(async () => [
+    { uri: "aws://eu-west-1/queues/orders", name: "orders" },
+  ])
+  const mcp = createMcp({
+    tools: [
+      testTool("aws_test_get_queue"),
+      testTool("aws_test_list_queues"),
+      testTool("aws_test_get_topic"),
+      testTool("aws_test_list_topics"),
+    ],
+    selectTools: (tools, { headers }) =>
+      headers["mcp-tool-profile"] === "queues"
+        ? tools.filter((tool) => tool.name === "aws_test_get_queue")
+        : tools,
+    authorizer: createAuthorizer(
+      authorizationPolicySchema.parse({
+        groups: { restricted: { headers: { "x-team": "restricted" } } },
+        rules: [
+          {
+            effect: "deny",
+            groups: "restricted",
+            tools: "aws_test_list_queues",
+            conditions: { region: "eu-west-1" },
+          },
+        ],
+      }),
+    ),
+    resourceTemplates: [
+      resourceTemplate({
+        uriTemplate: "aws://{region}/queues/{queue}",
+        name: "queue",
+        title: "Queue",
+        description: "Queue",
+        toolName: "aws_test_get_queue",
+        async read({ region, queue }) {
+          if (queue === "missing") {
+            throw new ToolError({
+              error: notFound,
+              toolName: "aws_test_get_queue",
+            })
+          }
+          return { mimeType: "text/plain", text: `${region}/${queue}` }
+        },
+        list: {
+          toolName: "aws_test_list_queues",
+          args: () => ({ region: "eu-west-1" }),
+          resources: listQueues,
+        },
+      }),
+      resourceTemplate({
+        uriTemplate: "aws://{region}/topics/{topic}",
+        name: "topic",
+        title: "Topic",
+        description: "Topic",
+        toolName: "aws_test_get_topic",
+        async read() {
+          return { text: "topic" }
+        },
+        list: {
+          toolName: "aws_test_list_topics",
+          args: () => ({}),
+          async resources() {
+            throw new Error("Listing failed")
+          },
+        },
+      }),
+    ],
+  })
+
+  const request = (
+    method: string,
+    params: Record<string, unknown> = {},
+    headers: Record<string, string> = {},
+  ) => mcp.process({ jsonrpc: "2.0", id: 1, method, params }, { headers })
+
+  test("should list templates of tools available in the request", async () => {
+    const response = await request(
+      "resources/templates/list",
+      {},
+      { "mcp-tool-profile": "queues" },
+    )
+
+    expect(response).toMatchObject({
+      result: {
+        resourceTemplates: [{ uriTemplate: "aws://{region}/queues/{queue}" }],
+      },
+    })
+    expect((response as JSONRPCResponse).result.resourceTemplates).toHaveLength(
+      1,
+    )
+  })
+
+  test("should list resources and skip templates failing to list", async () => {
+    expect(await request("resources/list")).toMatchObject({
+      result: {
+        resources: [{ uri: "aws://eu-west-1/queues/orders", name: "orders" }],
+      },
+    })
+  })
+
+  test("should not list resources with a listing tool the request cannot call", async () => {
+    listQueues.mockClear()
+
+    expect(
+      await request("resources/list", {}, { "x-team": "restricted" }),
+    ).toMatchObject({ result: { resources: [] } })
+    expect(
+      await request("resources/list", {}, { "mcp-tool-profile": "queues" }),
+    ).toMatchObject({ result: { resources: [] } })
+    expect(listQueues).not.toHaveBeenCalled()
+  })
+
+  test("should read resource matching a template", async () => {
+    expect(
+      await request("resources/read", { uri: "aws://eu-west-1/queues/orders" }),
+    ).toMatchObject({
+      result: {
+        contents: [
+          {
+            uri: "aws://eu-west-1/queues/orders",
+            mimeType: "text/plain",
+            text: "eu-west-1/orders",
+          },
+        ],
+      },
+    })
+  })
+
+  test("should return resource not found error", async () => {
+    expect(
+      await request("resources/read", { uri: "aws://eu-west-1/unknown/a" }),
+    ).toMatchObject({ error: { code: -32002 } })
+    expect(
+      await request("resources/read", {
+        uri: "aws://eu-west-1/queues/missing",
+      }),
+    ).toMatchObject({
+      error: {
+        code: -32002,
+        data: {
+          uri: "aws://eu-west-1/queues/missing",
+          category: "resource_not_found",
+        },
+      },
+    })
+  })
+
+  test("should notify session of subscribed resource updates", async () => {
+    let queue = "orders"
+    const subscribing = createMcp({
+      tools: [testTool("aws_test_get_queue")],
+      resourceTemplates: [
+        resourceTemplate({
+          uriTemplate: "aws://{region}/queues/{queue}",
+          name: "queue",
+          title: "Queue",
+          description: "Queue",
+          toolName: "aws_test_get_queue",
+          async read() {
+            return { text: queue }
+          },
+        }),
+      ],
+      resourceSubscriptions: { pollIntervalMs: 1000 },
+    })
+    const listener = jest.fn()
+    subscribing.onResourceUpdated(listener)
+
+    const subscribe = (sessionId?: string) =>
+      subscribing.process(
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "resources/subscribe",
+          params: { uri: "aws://eu-west-1/queues/orders" },
+        },
+        { headers: {}, sessionId },
+      )
+
+    expect(await subscribe()).toMatchObject({ error: { code: -32600 } })
+
+    jest.useFakeTimers()
+    try {
+      expect(await subscribe("session-1")).toMatchObject({ result: {} })
+
+      queue = "orders-v2"
+      await jest.advanceTimersByTimeAsync(1000)
+
+      expect(listener).toHaveBeenCalledWith("session-1", {
+        method: "notifications/resources/updated",
+        params: { uri: "aws://eu-west-1/queues/orders" },
+      })
+    } finally {
+      subscribing.closeSession("session-1")
+      jest.useRealTimers()
+    }
+  })
+})
+
+describe("createMcp prompts", () => {
+  const mcp = createMcp({
+    tools: [
+      testTool("aws_test_get_queue"),
+      testTool("aws_test_list_queues"),
+      testTool("aws_test_get_topic"),
+      testTool("aws_test_list_topics"),
+    ],
+    selectTools: (tools, { headers }) =>
+      headers["mcp-tool-profile"] === "queues"
+        ? tools.filter((tool) => tool.name === "aws_test_get_queue")
+        : tools,
+    authorizer: createAuthorizer(
+      authorizationPolicySchema.parse({
+        groups: { restricted: { headers: { "x-team": "restricted" } } },
+        rules: [
+          {
+            effect: "deny",
+            groups: "restricted",
+            tools: "aws_test_list_queues",
+            conditions: { region: "eu-west-1" },
+          },
+        ],
+      }),
+    ),
+    prompts: [
+      prompt({
+        name: "inspect-queue",
+        title: "Inspect Queue",
+        description: "Inspect queue",
+        args: z.object({
+          queue: z.string().describe("Queue name"),
+          region: promptRegionArg,
+        }),
+        toolNames: ["aws_test_get_queue"],
+        text: ({ queue, region }) =>
+          `Call aws_test_get_queue for ${queue}.${inRegion(region)}`,
+      }),
+      prompt({
+        name: "inspect-topic",
+        title: "Inspect Topic",
+        description: "Inspect topic",
+        args: z.object({}),
+        toolNames: ["aws_test_get_queue", "aws_test_get_topic"],
+        text: () => "Call aws_test_get_topic",
+      }),
+    ],
+  })
+
+  const request = (
+    method: string,
+    params: Record<string, unknown> = {},
+    headers: Record<string, string> = {},
+  ) => mcp.process({ jsonrpc: "2.0", id: 1, method, params }, { headers })
+
+  test("should list prompts whose tools are available", async () => {
+    const response = await request(
+      "prompts/list",
+      {},
+      { "mcp-tool-profile": "queues" },
+    )
+
+    expect(response).toMatchObject({
+      result: {
+        prompts: [
+          {
+            name: "inspect-queue",
+            title: "Inspect Queue",
+            arguments: [
+              { name: "queue", description: "Queue name", required: true },
+              { name: "region", required: false },
+            ],
+          },
+        ],
+      },
+    })
+    expect((response as JSONRPCResponse).result.prompts).toHaveLength(1)
+  })
+
+  test("should expand prompt with arguments", async () => {
+    expect(
+      await request("prompts/get", {
+        name: "inspect-queue",
+        arguments: { queue: "orders", region: "eu-west-1" },
+      }),
+    ).toMatchObject({
+      result: {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: 'Call aws_test_get_queue for orders. Pass region "eu-west-1" to every tool call.',
+            },
+          },
+        ],
+      },
+    })
+  })
+
+  test("should return invalid params for missing argument or unknown prompt", async () => {
+    expect(
+      await request("prompts/get", { name: "inspect-queue", arguments: {} }),
+    ).toMatchObject({
+      error: { code: -32602, data: { issues: [{ path: "queue" }] } },
+    })
+    expect(
+      await request(
+        "prompts/get",
+        { name: "inspect-topic" },
+        { "mcp-tool-profile": "queues" },
+      ),
+    ).toMatchObject({ error: { code: -32602 } })
+  })
+})
+
+describe("createMcp progress and cancellation", () => {
+  const mcp = createMcp({
+    tools: [
+      tool({
+        name: "aws_test_wait",
+        title: "Wait",
+        description: "Report progress and wait until cancelled",
+        annotations: READ_ONLY_ANNOTATIONS,
+        output: z.object({}),
+        async run(_, { signal, reportProgress }) {
+          reportProgress({ progress: 1, total: 2, message: "Waiting" })
+          await new Promise((_, reject) =>
+            signal.addEventListener("abort", () => reject(signal.reason)),
+          )
+          return {}
+        },
+      }),
+    ],
+  })
+
+  test("should send progress and abort call on cancellation", async () => {
+    const sendNotification = jest.fn()
+    const context = { headers: {}, sessionId: "session-1", sendNotification }
+
+    const call = mcp.process(
+      {
+        jsonrpc: "2.0",
+        id: 7,
+        method: "tools/call",
+        params: { name: "aws_test_wait", _meta: { progressToken: "p-1" } },
+      },
+      context,
+    )
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(sendNotification).toHaveBeenCalledWith({
+      jsonrpc: "2.0",
+      method: "notifications/progress",
+      params: {
+        progressToken: "p-1",
+        progress: 1,
+        total: 2,
+        message: "Waiting",
+      },
+    })
+
+    // Same request id of another session is not cancelled
+    await mcp.process(
+      {
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 7 },
+      },
+      { headers: {}, sessionId: "session-2" },
+    )
+    await mcp.process(
+      {
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 7, reason: "User cancelled" },
+      },
+      context,
+    )
+
+    expect(await call).toMatchObject({
+      result: {
+        isError: true,
+        structuredContent: { error: { message: "User cancelled" } },
+      },
+    })
+  })
+
+  test("should not send progress without progress token", async () => {
+    const sendNotification = jest.fn()
+
+    void mcp.process(
+      {
+        jsonrpc: "2.0",
+        id: 8,
+        method: "tools/call",
+        params: { name: "aws_test_wait" },
+      },
+      { headers: {}, sessionId: "session-1", sendNotification },
+    )
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(sendNotification).not.toHaveBeenCalled()
+    await mcp.process(
+      {
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 8 },
+      },
+      { headers: {}, sessionId: "session-1" },
+    )
+  })
+})
+
+describe("createMcp completions", () => {
+  const onError = jest.fn()
+  const listQueues = jest.fn(async (region: string) =>
+    region === "us-east-1" ? ["billing"] : ["orders", "orders-dlq", "payments"],
+  )
+  const mcp = createMcp({
+    tools: [
+      testTool("aws_test_get_queue"),
+      testTool("aws_test_list_queues"),
+      testTool("aws_test_list_topics"),
+    ],
+    selectTools: (tools, { headers }) =>
+      headers["mcp-tool-profile"] === "no-listing"
+        ? tools.filter((tool) => tool.name === "aws_test_get_queue")
+        : tools,
+    resourceTemplates: [
+      resourceTemplate({
+        uriTemplate: "aws://{region}/queues/{queue}",
+        name: "queue",
+        title: "Queue",
+        description: "Queue",
+        toolName: "aws_test_get_queue",
+        async read() {
+          return { text: "queue" }
+        },
+      }),
+    ],
+    prompts: [
+      prompt({
+        name: "inspect-queue",
+        title: "Inspect Queue",
+        description: "Inspect queue",
+        args: z.object({ queue: z.string(), region: promptRegionArg }),
+        toolNames: ["aws_test_get_queue"],
+        text: ({ queue }) => `Call aws_test_get_queue for ${queue}`,
+      }),
+      prompt({
+        name: "inspect-topic",
+        title: "Inspect Topic",
+        description: "Inspect topic",
+        args: z.object({ topic: z.string() }),
+        toolNames: ["aws_test_get_queue"],
+        text: ({ topic }) => `Call aws_test_get_queue for ${topic}`,
+      }),
+    ],
+    completers: {
+      queue: completer({ toolName: "aws_test_list_queues", list: listQueues }),
+      topic: completer({
+        toolName: "aws_test_list_topics",
+        async list() {
+          throw new Error("Access denied")
+        },
+      }),
+    },
+    onError,
+  })
+
+  const complete = (
+    params: Record<string, unknown>,
+    headers: Record<string, string> = {},
+  ) =>
+    mcp.process(
+      { jsonrpc: "2.0", id: 1, method: "completion/complete", params },
+      { headers },
+    )
+
+  beforeEach(() => {
+    onError.mockClear()
+  })
+
+  test("should declare completions capability", async () => {
+    expect(
+      await mcp.process({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-06-18",
+          capabilities: {},
+          clientInfo: { name: "test", version: "1.0.0" },
+        },
+      }),
+    ).toMatchObject({ result: { capabilities: { completions: {} } } })
+  })
+
+  test("should complete resource template variable in the default region", async () => {
+    expect(
+      await complete({
+        ref: { type: "ref/resource", uri: "aws://{region}/queues/{queue}" },
+        argument: { name: "queue", value: "ord" },
+      }),
+    ).toMatchObject({
+      result: {
+        completion: { values: ["orders", "orders-dlq"], total: 2 },
+      },
+    })
+  })
+
+  test("should complete prompt argument in the resolved region", async () => {
+    expect(
+      await complete({
+        ref: { type: "ref/prompt", name: "inspect-queue" },
+        argument: { name: "queue", value: "" },
+        context: { arguments: { region: "us-east-1" } },
+      }),
+    ).toMatchObject({ result: { completion: { values: ["billing"] } } })
+    expect(listQueues).toHaveBeenLastCalledWith("us-east-1", {
+      region: "us-east-1",
+    })
+  })
+
+  test("should not complete without the listing tool", async () => {
+    expect(
+      await complete(
+        {
+          ref: { type: "ref/prompt", name: "inspect-queue" },
+          argument: { name: "queue", value: "ord" },
+        },
+        { "mcp-tool-profile": "no-listing" },
+      ),
+    ).toMatchObject({ result: { completion: { values: [] } } })
+  })
+
+  test("should return no values for arguments without completer", async () => {
+    expect(
+      await complete({
+        ref: { type: "ref/resource", uri: "aws://{region}/queues/{queue}" },
+        argument: { name: "region", value: "eu" },
+      }),
+    ).toMatchObject({ result: { completion: { values: [] } } })
+  })
+
+  test("should return no values when listing fails", async () => {
+    expect(
+      await complete({
+        ref: { type: "ref/prompt", name: "inspect-topic" },
+        argument: { name: "topic", value: "" },
+      }),
+    ).toMatchObject({ result: { completion: { values: [] } } })
+    expect(onError).toHaveBeenCalledWith(new Error("Access denied"))
+  })
+
+  test("should reject unknown prompts and resource templates", async () => {
+    expect(
+      await complete({
+        ref: { type: "ref/prompt", name: "missing" },
+        argument: { name: "queue", value: "" },
+      }),
+    ).toMatchObject({ error: { code: -32602 } })
+    expect(
+      await complete({
+        ref: { type: "ref/resource", uri: "aws://{region}/missing/{queue}" },
+        argument: { name: "queue", value: "" },
+      }),
+    ).toMatchObject({ error: { code: -32002 } })
+  })
+})
+
+describe("createMcp response budget", () => {
+  const run = jest.fn(async () => ({
+    items: Array.from({ length: 500 }, (_, index) => ({
+      queueName: `orders-${index}`,
+      messages: index,
+    })),
+  }))
+  const listQueues = {
+    name: "aws_test_list_queues",
+    title: "List Test Queues",
+    description: "List queues",
+    annotations: READ_ONLY_ANNOTATIONS,
+    args: z.object({ prefix: z.string().optional() }),
+    output: z.object({
+      items: z.array(z.object({ queueName: z.string(), messages: z.number() })),
+    }),
+    run,
+  }
+  const mcp = createMcp({
+    tools: [
+      tool(listQueues),
+      tool({ ...listQueues, name: "aws_test_query_queues", costly: true }),
+    ],
+  })
+
+  const callTool = (
+    arguments_: Record<string, unknown>,
+    name = "aws_test_list_queues",
+  ) =>
+    mcp.process({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { name, arguments: arguments_ },
+    }) as Promise<JSONRPCResponse>
+
+  beforeEach(() => {
+    run.mockClear()
+  })
+
+  test("should publish response arguments", async () => {
+    expect(
+      await mcp.process({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    ).toMatchObject({
+      result: {
+        tools: [
+          {
+            inputSchema: {
+              properties: {
+                prefix: { type: "string" },
+                maxResponseTokens: { type: "integer" },
+                fields: { type: "array" },
+                compact: { type: "boolean" },
+                responseCursor: { type: "string" },
+              },
+            },
+          },
+          expect.anything(),
+        ],
+      },
+    })
+  })
+
+  test("should truncate result and continue it with cursor", async () => {
+    const first = await callTool({ prefix: "orders", maxResponseTokens: 1000 })
+    const { truncation } = first.result._meta as {
+      truncation: { responseCursor: string; arrays: { returned: number }[] }
+    }
+    expect(first.result.content).toEqual([
+      { type: "text", text: expect.any(String) },
+      {
+        type: "text",
+        text: expect.stringContaining(truncation.responseCursor),
+      },
+    ])
+
+    const second = await callTool({
+      prefix: "orders",
+      maxResponseTokens: 1000,
+      responseCursor: truncation.responseCursor,
+    })
+    const { items } = second.result.structuredContent as {
+      items: { queueName: string }[]
+    }
+    expect(items[0]).toEqual({
+      queueName: `orders-${truncation.arrays[0]!.returned}`,
+      messages: truncation.arrays[0]!.returned,
+    })
+    // The continued call reads the cached result
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+
+  test("should not run costly tool again for expired cursor", async () => {
+    const first = await callTool(
+      { maxResponseTokens: 1000 },
+      "aws_test_query_queues",
+    )
+    const { truncation } = first.result._meta as {
+      truncation: { responseCursor: string }
+    }
+    const cursor = JSON.parse(
+      Buffer.from(truncation.responseCursor, "base64url").toString(),
+    ) as Record<string, unknown>
+    const expired = Buffer.from(
+      JSON.stringify({ ...cursor, resultId: "expired" }),
+    ).toString("base64url")
+
+    expect(
+      await callTool(
+        { maxResponseTokens: 1000, responseCursor: expired },
+        "aws_test_query_queues",
+      ),
+    ).toMatchObject({
+      result: {
+        isError: true,
+        content: [{ text: expect.stringContaining("Expired responseCursor") }],
+      },
+    })
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+
+  test("should publish output schema matching projected results", async () => {
+    const response = (await mcp.process({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/list",
+    })) as JSONRPCResponse
+    const [{ outputSchema }] = response.result.tools as {
+      outputSchema: { anyOf: { properties: Record<string, unknown> }[] }
+    }[]
+
+    expect(outputSchema.anyOf[0]!.properties.items).toEqual({
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          queueName: { type: "string" },
+          messages: { type: "number" },
+        },
+        additionalProperties: false,
+      },
+    })
+  })
+
+  test("should reject cursor of a call with other arguments", async () => {
+    const first = await callTool({ maxResponseTokens: 1000 })
+    const { truncation } = first.result._meta as {
+      truncation: { responseCursor: string }
+    }
+
+    expect(
+      await callTool({
+        prefix: "orders",
+        responseCursor: truncation.responseCursor,
+      }),
+    ).toMatchObject({
+      result: {
+        isError: true,
+        content: [{ text: expect.stringContaining("Invalid responseCursor") }],
+      },
+    })
+  })
+})
+
+describe("createMcp redaction", () => {
+  const mcp = createMcp({
+    tools: [
+      tool({
+        name: "aws_test_get_function",
+        title: "Get Test Function",
+        description: "Get function",
+        annotations: READ_ONLY_ANNOTATIONS,
+        output: z.object({
+          functionName: z.string(),
+          environment: z.record(z.string()),
+        }),
+        async run() {
+          return {
+            functionName: "orders",
+            environment: { DB_PASSWORD: "hunter2", LOG_LEVEL: "debug" },
+          }
+        },
+      }),
+    ],
+    resourceTemplates: [
+      resourceTemplate({
+        uriTemplate: "aws://{region}/files/{file}",
+        name: "file",
+        title: "File",
+        description: "File",
+        toolName: "aws_test_get_function",
+        async read() {
+          return { mimeType: "text/plain", text: "API_TOKEN=abc\nPORT=80" }
+        },
+      }),
+    ],
+    redactor: createRedactor({
+      keys: ["*PASSWORD*", "*TOKEN*"],
+      allowKeys: [],
+    }),
+  })
+
+  test("should mask secrets in tool results", async () => {
+    const response = (await mcp.process({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { name: "aws_test_get_function" },
+    })) as JSONRPCResponse
+
+    expect(response.result).toMatchObject({
+      structuredContent: {
+        functionName: "orders",
+        environment: { DB_PASSWORD: "[REDACTED]", LOG_LEVEL: "debug" },
+      },
+      _meta: { redacted: 1 },
+    })
+    expect(JSON.stringify(response)).not.toContain("hunter2")
+  })
+
+  test("should mask secrets in resources", async () => {
+    expect(
+      await mcp.process({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "resources/read",
+        params: { uri: "aws://eu-west-1/files/.env" },
+      }),
+    ).toMatchObject({
+      result: {
+        contents: [{ text: "API_TOKEN=[REDACTED]\nPORT=80" }],
+      },
+    })
+  })
+})
+
+describe("createMcp audit log", () => {
+  const onError = jest.fn()
+  const write = jest.fn(async () => {})
+  const mcp = createMcp({
+    tools: [
+      tool({
+        name: "aws_test_get_secret",
+        title: "Get Test Secret",
+        description: "Get secret",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({ name: z.string(), apiToken: z.string().optional() }),
+        output: z.object({ name: z.string() }),
+        async run(args) {
+          if (args.name === "missing") {
+            throw new ToolError({ message: "Secret not found" })
+          }
+          return { name: args.name }
+        },
+      }),
+    ],
+    resourceTemplates: [
+      resourceTemplate({
+        uriTemplate: "aws://secrets/{name}",
+        name: "secret",
+        title: "Secret",
+        description: "Secret",
+        toolName: "aws_test_get_secret",
+        async read({ name }) {
+          return { text: name }
+        },
+      }),
+    ],
+    redactor: createRedactor({ keys: ["*TOKEN*"], allowKeys: [] }),
+    auditSink: { write },
+    onError,
+  })
+
+  const context = {
+    headers: {},
+    sessionId: "session-1",
+    apiKeyId: "key-1",
+    clientInfo: { name: "agent", version: "1.0.0" },
+  }
+
+  beforeEach(() => {
+    write.mockClear()
+    onError.mockClear()
+  })
+
+  test("should write record of successful call with redacted args", async () => {
+    await mcp.process(
+      {
+        jsonrpc: "2.0",
+        id: 3,
+        method: "tools/call",
+        params: {
+          name: "aws_test_get_secret",
+          arguments: { name: "orders", apiToken: "abc" },
+        },
+      },
+      context,
+    )
+
+    expect(write).toHaveBeenCalledTimes(1)
+    expect(write).toHaveBeenCalledWith({
+      timestamp: expect.any(String),
+      requestId: 3,
+      sessionId: "session-1",
+      caller: { apiKeyId: "key-1" },
+      client: { name: "agent", version: "1.0.0" },
+      tool: "aws_test_get_secret",
+      args: { name: "orders", apiToken: "[REDACTED]" },
+      account: undefined,
+      roleArn: undefined,
+      durationMs: expect.any(Number),
+      outcome: "success",
+      awsRequestIds: [],
+      responseBytes: expect.any(Number),
+    })
+  })
+
+  test("should write error of failed call", async () => {
+    await mcp.process(
+      {
+        jsonrpc: "2.0",
+        id: 4,
+        method: "tools/call",
+        params: { name: "aws_test_get_secret", arguments: { name: "missing" } },
+      },
+      context,
+    )
+
+    expect(write).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: "error",
+        error: expect.objectContaining({ message: "Secret not found" }),
+      }),
+    )
+  })
+
+  test("should write denied record of unknown tool", async () => {
+    expect(
+      await mcp.process(
+        {
+          jsonrpc: "2.0",
+          id: 6,
+          method: "tools/call",
+          params: { name: "aws_test_delete_secret", arguments: {} },
+        },
+        context,
+      ),
+    ).toMatchObject({ error: { code: -32602 } })
+    expect(write).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tool: "aws_test_delete_secret",
+        outcome: "denied",
+        error: { message: "Unknown tool: aws_test_delete_secret" },
+      }),
+    )
+  })
+
+  test("should write record of resource read", async () => {
+    await mcp.process(
+      {
+        jsonrpc: "2.0",
+        id: 7,
+        method: "resources/read",
+        params: { uri: "aws://secrets/orders" },
+      },
+      context,
+    )
+
+    expect(write).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestId: 7,
+        tool: "aws_test_get_secret",
+        resource: "aws://secrets/orders",
+        args: { name: "orders" },
+        outcome: "success",
+      }),
+    )
+  })
+
+  test("should not fail call when the record is not written", async () => {
+    write.mockRejectedValueOnce(new Error("Table not found"))
+
+    expect(
+      await mcp.process(
+        {
+          jsonrpc: "2.0",
+          id: 5,
+          method: "tools/call",
+          params: {
+            name: "aws_test_get_secret",
+            arguments: { name: "orders" },
+          },
+        },
+        context,
+      ),
+    ).toMatchObject({ result: { structuredContent: { name: "orders" } } })
+    expect(onError).toHaveBeenCalledWith(new Error("Table not found"))
+  })
+})
+
+describe("createMcp authorization", () => {
+  const run = jest.fn(async () => ({}))
+  const listBuckets = jest.fn(async () => ["orders"])
+  const mcp = createMcp({
+    tools: [
+      tool({
+        name: "aws_test_get_object",
+        title: "Get Test Object",
+        description: "Get object",
+        annotations: READ_ONLY_ANNOTATIONS,
+        args: z.object({ bucket: z.string(), key: z.string() }),
+        output: z.object({}),
+        run,
+      }),
+      testTool("aws_test_list_buckets"),
+    ],
+    resourceTemplates: [
+      resourceTemplate({
+        uriTemplate: "aws://{region}/objects/{bucket}/{key}",
+        name: "object",
+        title: "Object",
+        description: "Object",
+        toolName: "aws_test_get_object",
+        async read() {
+          return { text: "secret" }
+        },
+      }),
+    ],
+    authorizer: createAuthorizer(
+      authorizationPolicySchema.parse({
+        groups: { auditors: { apiKeys: "auditor-key" } },
+        rules: [
+          {
+            id: "no-pii",
+            effect: "deny",
+            tools: "aws_test_get_object",
+            conditions: { bucket: "*-pii-*" },
+          },
+          {
+            id: "no-prod",
+            effect: "deny",
+            tools: "aws_test_*",
+            conditions: { account: "prod" },
+          },
+          { effect: "allow", groups: "auditors", tools: "aws_test_get_*" },
+        ],
+      }),
+    ),
+    completers: {
+      bucket: completer({
+        toolName: "aws_test_list_buckets",
+        list: listBuckets,
+      }),
+    },
+  })
+  const env = process.env
+
+  beforeEach(() => {
+    process.env = {
+      ...env,
+      AWS_ACCOUNTS: JSON.stringify({
+        prod: { roleArn: "arn:aws:iam::123456789012:role/ReadOnly" },
+      }),
+    }
+  })
+
+  afterAll(() => {
+    process.env = env
+  })
+
+  test("should return access denied error without running the tool", async () => {
+    const response = await mcp.process(
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: {
+          name: "aws_test_get_object",
+          arguments: { bucket: "orders-pii-2024", key: "a.csv" },
+        },
+      },
+      { headers: {} },
+    )
+
+    expect(response).toMatchObject({
+      result: {
+        isError: true,
+        structuredContent: {
+          error: {
+            message: expect.stringContaining('rule "no-pii"'),
+            category: "access_denied",
+            code: "PolicyDenied",
+          },
+        },
+      },
+    })
+    expect(run).not.toHaveBeenCalled()
+  })
+
+  test("should deny call in account of the common arguments", async () => {
+    const response = await mcp.process(
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: {
+          name: "aws_test_list_buckets",
+          arguments: { account: "prod" },
+        },
+      },
+      { headers: {} },
+    )
+
+    expect(response).toMatchObject({
+      result: {
+        isError: true,
+        structuredContent: {
+          error: { message: expect.stringContaining('rule "no-prod"') },
+        },
+      },
+    })
+  })
+
+  test("should deny call before assuming role of the account", async () => {
+    delete process.env.AWS_ACCOUNTS
+
+    expect(
+      await mcp.process(
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "tools/call",
+          params: {
+            name: "aws_test_list_buckets",
+            arguments: { account: "prod" },
+          },
+        },
+        { headers: {} },
+      ),
+    ).toMatchObject({
+      result: {
+        structuredContent: {
+          error: { message: expect.stringContaining('rule "no-prod"') },
+        },
+      },
+    })
+  })
+
+  test("should not complete values the request cannot list", async () => {
+    const complete = (args: Record<string, string>) =>
+      mcp.process(
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "completion/complete",
+          params: {
+            ref: {
+              type: "ref/resource",
+              uri: "aws://{region}/objects/{bucket}/{key}",
+            },
+            argument: { name: "bucket", value: "" },
+            context: { arguments: args },
+          },
+        },
+        { headers: {} },
+      )
+
+    expect(await complete({})).toMatchObject({
+      result: { completion: { values: ["orders"] } },
+    })
+    listBuckets.mockClear()
+    expect(await complete({ account: "prod" })).toMatchObject({
+      result: { completion: { values: [] } },
+    })
+    expect(listBuckets).not.toHaveBeenCalled()
+  })
+
+  test("should not list tools the request cannot call", async () => {
+    const response = (await mcp.process(
+      { jsonrpc: "2.0", id: 1, method: "tools/list" },
+      { headers: {}, apiKeyId: "auditor-key" },
+    )) as JSONRPCResponse
+
+    expect(
+      (response.result.tools as Array<{ name: string }>).map(
+        (tool) => tool.name,
+      ),
+    ).toEqual(["aws_test_get_object"])
+  })
+
+  test("should deny resource read with the URI variables", async () => {
+    expect(
+      await mcp.process(
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "resources/read",
+          params: { uri: "aws://eu-west-1/objects/orders-pii-2024/a.csv" },
+        },
+        { headers: {} },
+      ),
+    ).toMatchObject({
+      error: {
+        code: -32600,
+        data: { category: "access_denied" },
+      },
+    })
+  })
+})
+
+describe("createMcp rate limits", () => {
+  const config: RateLimitConfig = {
+    perMinute: 1,
+    tools: {},
+    dailyCostExplorerRequests: 0,
+    dailyLogsInsightsBytes: 0,
+  }
+  const run = jest.fn(async () => ({}))
+  const onError = jest.fn()
+  const createTestMcp = (rateLimiter: ReturnType<typeof createRateLimiter>) =>
+    createMcp({
+      tools: [
+        tool({
+          name: "aws_test_query",
+          title: "Test Query",
+          description: "Query",
+          annotations: READ_ONLY_ANNOTATIONS,
+          args: z.object({ limit: z.number().optional() }),
+          output: z.object({}),
+          run,
+        }),
+      ],
+      resourceTemplates: [
+        resourceTemplate({
+          uriTemplate: "aws://queries/{query}",
+          name: "query",
+          title: "Query",
+          description: "Query",
+          toolName: "aws_test_query",
+          async read({ query }) {
+            return { text: query }
+          },
+        }),
+      ],
+      rateLimiter,
+      onError,
+    })
+  const call = (
+    mcp: ReturnType<typeof createMcp>,
+    apiKeyId: string,
+    args: Record<string, unknown> = {},
+  ) =>
+    mcp.process(
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "aws_test_query", arguments: args },
+      },
+      { headers: {}, apiKeyId },
+    )
+
+  beforeEach(() => {
+    run.mockClear()
+    onError.mockClear()
+  })
+
+  test("should return quota exceeded error without running the tool", async () => {
+    const mcp = createTestMcp(
+      createRateLimiter(config, createMemoryRateLimitStore()),
+    )
+
+    await call(mcp, "key-1")
+    const response = await call(mcp, "key-1")
+
+    expect(response).toMatchObject({
+      result: {
+        isError: true,
+        structuredContent: {
+          error: {
+            category: "throttling",
+            code: "RateLimitExceeded",
+            retryable: true,
+            resetAt: expect.any(String),
+          },
+        },
+      },
+    })
+    expect(run).toHaveBeenCalledTimes(1)
+
+    // Other callers have their own limits
+    expect(await call(mcp, "key-2")).toMatchObject({
+      result: { structuredContent: {} },
+    })
+  })
+
+  test("should not count calls with invalid arguments", async () => {
+    const mcp = createTestMcp(
+      createRateLimiter(config, createMemoryRateLimitStore()),
+    )
+
+    expect(await call(mcp, "key-1", { limit: "ten" })).toMatchObject({
+      result: { isError: true },
+    })
+    expect(await call(mcp, "key-1")).toMatchObject({
+      result: { structuredContent: {} },
+    })
+  })
+
+  test("should limit resource reads as calls of the template tool", async () => {
+    const mcp = createTestMcp(
+      createRateLimiter(config, createMemoryRateLimitStore()),
+    )
+    const read = () =>
+      mcp.process(
+        {
+          jsonrpc: "2.0",
+          id: 2,
+          method: "resources/read",
+          params: { uri: "aws://queries/errors" },
+        },
+        { headers: {}, apiKeyId: "key-1" },
+      )
+
+    expect(await read()).toMatchObject({
+      result: { contents: [{ text: "errors" }] },
+    })
+    expect(await read()).toMatchObject({
+      error: { data: { code: "RateLimitExceeded" } },
+    })
+    expect(await call(mcp, "key-1")).toMatchObject({
+      result: { isError: true },
+    })
+  })
+
+  test("should not fail call when the store fails", async () => {
+    const error = new Error("Table not found")
+    const mcp = createTestMcp(
+      createRateLimiter(config, {
+        take: async () => Promise.reject(error),
+        get: async () => Promise.reject(error),
+        add: async () => Promise.reject(error),
+      }),
+    )
+
+    const response = (await call(mcp, "key-1")) as JSONRPCResponse
+
+    expect(response.result.isError).toBeUndefined()
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(onError).toHaveBeenCalledWith(error)
+  })
+})
@@ -0,0 +1,185 @@
+import { z } from "zod"
+
+import { createMcp } from "~/app/mcp/lib/create-mcp"
+import { createTransport } from "~/app/mcp/lib/create-transport"
+import { createMemorySessionStore } from "~/app/mcp/lib/session-store"
+import { type BearerAuth } from "~/utils/bearer-auth"
+import { READ_ONLY_ANNOTATIONS, tool } from "~/utils/tool"
+
+describe("createTransport bearer auth", () => {
+  const challenge =
+    'Bearer resource_metadata="https://mcp.example.com/.well-known/oauth-protected-resource"'
+  const auth: BearerAuth = {
+    resourceMetadataUrl:
+      "https://mcp.example.com/.well-known/oauth-protected-resource",
+    metadata: () => ({
+      resource: "https://mcp.example.com/mcp",
+      authorization_servers: ["https://auth.example.com"],
+      bearer_methods_supported: ["header"],
+    }),
+    async authenticate(headers) {
+      const subject = headers.authorization?.replace("Bearer ", "")
+      if (subject === "alice" || subject === "bob") {
+        return { principal: { subject, scopes: [], claims: { sub: subject } } }
+      }
+      return {
+        error: {
+          status: 401,
+          message: "Unauthorized: bearer token is required",
+          challenge,
+        },
+      }
+    },
+  }
+
+  const transport = createTransport({
+    mcp: createMcp({
+      tools: [
+        tool({
+          name: "aws_test_whoami",
+          title: "Who Am I",
+          description: "Return principal of the call",
+          annotations: READ_ONLY_ANNOTATIONS,
+          output: z.object({ subject: z.string().optional() }),
+          async run(_, { principal }) {
+            return { subject: principal?.subject }
+          },
+        }),
+      ],
+    }),
+    sessions: createMemorySessionStore(),
+    sse: false,
+    auth,
+  })
+
+  const initialize = (authorization: string) =>
+    transport.handle({
+      method: "POST",
+      headers: { Authorization: authorization },
+      body: {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-06-18",
+          capabilities: {},
+          clientInfo: { name: "test-client", version: "1.0.0" },
+        },
+      },
+    })
+
+  const callWhoami = (authorization: string, sessionId?: string) =>
+    transport.handle({
+      method: "POST",
+      headers: {
+        authorization,
+        ...(sessionId && { "mcp-session-id": sessionId }),
+      },
+      body: {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "aws_test_whoami" },
+      },
+    })
+
+  test("should challenge request without bearer token", async () => {
+    expect(
+      await transport.handle({ method: "POST", headers: {}, body: "{}" }),
+    ).toMatchObject({
+      status: 401,
+      headers: { "WWW-Authenticate": challenge },
+    })
+  })
+
+  test("should pass principal to tools", async () => {
+    const response = await callWhoami("Bearer alice")
+
+    expect(response).toMatchObject({
+      status: 200,
+      body: { result: { structuredContent: { subject: "alice" } } },
+    })
+  })
+
+  test("should not find session of another principal", async () => {
+    const { headers } = await initialize("Bearer alice")
+    const sessionId = headers["Mcp-Session-Id"]!
+
+    expect(await callWhoami("Bearer bob", sessionId)).toMatchObject({
+      status: 404,
+    })
+    expect(
+      await transport.handle({
+        method: "DELETE",
+        headers: { authorization: "Bearer bob", "mcp-session-id": sessionId },
+      }),
+    ).toMatchObject({ status: 404 })
+    expect(await callWhoami("Bearer alice", sessionId)).toMatchObject({
+      status: 200,
+    })
+  })
+
+  test("should return protected resource metadata", () => {
+    expect(transport.protectedResourceMetadata()).toEqual({
+      status: 200,
+      headers: {},
+      body: auth.metadata(),
+    })
+  })
+
+  test("should not find metadata without bearer auth", () => {
+    const transportWithoutAuth = createTransport({
+      mcp: createMcp({ tools: [] }),
+      sessions: createMemorySessionStore(),
+      sse: false,
+    })
+
+    expect(transportWithoutAuth.protectedResourceMetadata()).toMatchObject({
+      status: 404,
+    })
+  })
+})
+
+describe("createTransport sessions", () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test("should close session expired by the store", async () => {
+    const mcp = createMcp({ tools: [] })
+    const closeSession = jest.spyOn(mcp, "closeSession")
+    const transport = createTransport({
+      mcp,
+      sessions: createMemorySessionStore({
+        ttlMs: 60_000,
+        sweepIntervalMs: 10_000,
+      }),
+      sse: false,
+    })
+
+    const { headers } = await transport.handle({
+      method: "POST",
+      headers: {},
+      body: {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-06-18",
+          capabilities: {},
+          clientInfo: { name: "test-client", version: "1.0.0" },
+        },
+      },
+    })
+
+    jest.advanceTimersByTime(60_000)
+    expect(closeSession).not.toHaveBeenCalled()
+
+    jest.advanceTimersByTime(10_000)
+    expect(closeSession).toHaveBeenCalledWith(headers["Mcp-Session-Id"])
+  })
+})
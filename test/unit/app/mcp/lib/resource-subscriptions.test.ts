@@ -0,0 +1,130 @@
+import { createResourceSubscriptions } from "~/app/mcp/lib/resource-subscriptions"
+
+describe("createResourceSubscriptions", () => {
+  const contents = new Map<string, string>()
+  const read = jest.fn(async (uri: string) => {
+    const value = contents.get(uri)
+    if (value === undefined) throw new Error(`Not found: ${uri}`)
+    return value
+  })
+  const onUpdated = jest.fn()
+  const onError = jest.fn()
+
+  const createSubscriptions = () =>
+    createResourceSubscriptions({
+      read,
+      pollIntervalMs: 1000,
+      onUpdated,
+      onError,
+    })
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    contents.clear()
+    contents.set("aws://eu-west-1/cloudwatch/alarms/orders", "OK")
+    read.mockClear()
+    onUpdated.mockClear()
+    onError.mockClear()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test("should notify subscribers when contents change", async () => {
+    const subscriptions = createSubscriptions()
+    await subscriptions.subscribe(
+      "a",
+      "aws://eu-west-1/cloudwatch/alarms/orders",
+    )
+    await subscriptions.subscribe(
+      "b",
+      "aws://eu-west-1/cloudwatch/alarms/orders",
+    )
+
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(onUpdated).not.toHaveBeenCalled()
+
+    contents.set("aws://eu-west-1/cloudwatch/alarms/orders", "ALARM")
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(onUpdated).toHaveBeenCalledTimes(2)
+    expect(onUpdated).toHaveBeenCalledWith(
+      "a",
+      "aws://eu-west-1/cloudwatch/alarms/orders",
+    )
+    expect(onUpdated).toHaveBeenCalledWith(
+      "b",
+      "aws://eu-west-1/cloudwatch/alarms/orders",
+    )
+    // One read per interval regardless of the number of subscribers
+    expect(read).toHaveBeenCalledTimes(3)
+  })
+
+  test("should stop polling when the last session unsubscribes", async () => {
+    const subscriptions = createSubscriptions()
+    await subscriptions.subscribe(
+      "a",
+      "aws://eu-west-1/cloudwatch/alarms/orders",
+    )
+    subscriptions.unsubscribeSession("a")
+
+    await jest.advanceTimersByTimeAsync(5000)
+
+    expect(read).toHaveBeenCalledTimes(1)
+  })
+
+  test("should reject subscription when the first read fails", async () => {
+    const subscriptions = createSubscriptions()
+
+    await expect(
+      subscriptions.subscribe("a", "aws://eu-west-1/cloudwatch/alarms/unknown"),
+    ).rejects.toThrow("Not found")
+
+    await jest.advanceTimersByTimeAsync(5000)
+    expect(read).toHaveBeenCalledTimes(1)
+  })
+
+  test("should report errors of later reads", async () => {
+    const subscriptions = createSubscriptions()
+    await subscriptions.subscribe(
+      "a",
+      "aws://eu-west-1/cloudwatch/alarms/orders",
+    )
+    contents.clear()
+
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error))
+    expect(onUpdated).not.toHaveBeenCalled()
+  })
+
+  test("should limit subscriptions of a session", async () => {
+    contents.set("aws://eu-west-1/cloudwatch/alarms/payments", "OK")
+    const subscriptions = createResourceSubscriptions({
+      read,
+      pollIntervalMs: 1000,
+      maxPerSession: 1,
+      onUpdated,
+    })
+    await subscriptions.subscribe(
+      "a",
+      "aws://eu-west-1/cloudwatch/alarms/orders",
+    )
+    await subscriptions.subscribe(
+      "a",
+      "aws://eu-west-1/cloudwatch/alarms/orders",
+    )
+
+    await expect(
+      subscriptions.subscribe(
+        "a",
+        "aws://eu-west-1/cloudwatch/alarms/payments",
+      ),
+    ).rejects.toThrow("Session is subscribed to 1 resources")
+    await subscriptions.subscribe(
+      "b",
+      "aws://eu-west-1/cloudwatch/alarms/payments",
+    )
+  })
+})
@@ -0,0 +1,53 @@
+import { EC2Client } from "@aws-sdk/client-ec2"
+import { ECSClient } from "@aws-sdk/client-ecs"
+
+import { createCompleters } from "~/completions"
+import { toolGroups } from "~/tools"
+import { clearAwsRegionCache } from "~/utils/aws-region"
+
+describe("createCompleters", () => {
+  const describeRegions = jest.spyOn(EC2Client.prototype, "send")
+  const ecsSend = jest.spyOn(ECSClient.prototype, "send")
+  const completers = createCompleters(toolGroups.ecs)
+
+  beforeEach(() => {
+    clearAwsRegionCache()
+    describeRegions.mockImplementation(async () => ({
+      Regions: [{ RegionName: "eu-west-1" }],
+    }))
+  })
+
+  afterAll(() => {
+    describeRegions.mockRestore()
+    ecsSend.mockRestore()
+  })
+
+  test("should only create completers of the enabled tools", () => {
+    expect(Object.keys(completers)).toEqual(["cluster", "service"])
+  })
+
+  test("should list names of ECS clusters with the tool", async () => {
+    ecsSend.mockImplementation(async () => ({
+      clusterArns: [
+        "arn:aws:ecs:eu-west-1:123456789012:cluster/orders",
+        "arn:aws:ecs:eu-west-1:123456789012:cluster/payments",
+      ],
+    }))
+
+    await expect(completers.cluster!.list("eu-west-1", {})).resolves.toEqual([
+      "orders",
+      "payments",
+    ])
+  })
+
+  test("should list services of the resolved cluster", async () => {
+    ecsSend.mockImplementation(async () => ({
+      serviceArns: ["arn:aws:ecs:eu-west-1:123456789012:service/orders/api"],
+    }))
+
+    await expect(
+      completers.service!.list("eu-west-1", { cluster: "orders" }),
+    ).resolves.toEqual(["api"])
+    await expect(completers.service!.list("eu-west-1", {})).resolves.toEqual([])
+  })
+})
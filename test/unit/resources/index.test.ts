@@ -0,0 +1,50 @@
+import { EC2Client } from "@aws-sdk/client-ec2"
+import { LambdaClient } from "@aws-sdk/client-lambda"
+
+import { createResourceTemplates } from "~/resources"
+import { toolGroups } from "~/tools"
+import { clearAwsRegionCache } from "~/utils/aws-region"
+
+describe("createResourceTemplates", () => {
+  const describeRegions = jest.spyOn(EC2Client.prototype, "send")
+  const lambdaSend = jest.spyOn(LambdaClient.prototype, "send")
+  const [template] = createResourceTemplates(toolGroups.lambda)
+
+  beforeEach(() => {
+    clearAwsRegionCache()
+    describeRegions.mockImplementation(async () => ({
+      Regions: [{ RegionName: "eu-west-1" }],
+    }))
+  })
+
+  afterAll(() => {
+    describeRegions.mockRestore()
+    lambdaSend.mockRestore()
+  })
+
+  test("should read Lambda function with its tool", async () => {
+    lambdaSend.mockImplementation(async () => ({
+      Configuration: { FunctionName: "orders", Runtime: "nodejs20.x" },
+    }))
+
+    const contents = await template!.read(
+      { region: "eu-west-1", function: "orders" },
+      "aws://eu-west-1/lambda/orders",
+    )
+
+    expect(template!.name).toBe("lambda-function")
+    expect(JSON.parse(contents.text)).toEqual({
+      configuration: { functionName: "orders", runtime: "nodejs20.x" },
+    })
+  })
+
+  test("should reject region not enabled in the account", async () => {
+    await expect(
+      template!.read(
+        { region: "ap-south-2", function: "orders" },
+        "aws://ap-south-2/lambda/orders",
+      ),
+    ).rejects.toThrow("Invalid resource URI")
+    expect(lambdaSend).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,57 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import {
+  type AuditRecord,
+  createFileAuditSink,
+  createLoggerAuditSink,
+} from "~/utils/audit-log"
+
+const record: AuditRecord = {
+  timestamp: "2025-01-01T00:00:00.000Z",
+  requestId: 1,
+  caller: { apiKeyId: "key-1" },
+  tool: "aws_ec2_list_instances",
+  args: { region: "eu-west-1" },
+  durationMs: 120,
+  outcome: "success",
+  awsRequestIds: ["request-1"],
+  responseBytes: 42,
+}
+
+describe("createLoggerAuditSink", () => {
+  test("should log record", async () => {
+    const logger = { info: jest.fn() }
+
+    await createLoggerAuditSink(logger).write(record)
+
+    expect(logger.info).toHaveBeenCalledWith("Tool call", { audit: record })
+  })
+})
+
+describe("createFileAuditSink", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "audit-log-"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  test("should append records as JSON lines and create the directory", async () => {
+    const path = join(directory, "logs", "audit.jsonl")
+    const sink = createFileAuditSink(path)
+
+    await sink.write(record)
+    await sink.write({ ...record, requestId: 2, outcome: "error" })
+
+    const lines = (await readFile(path, "utf8")).trim().split("\n")
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      record,
+      { ...record, requestId: 2, outcome: "error" },
+    ])
+  })
+})
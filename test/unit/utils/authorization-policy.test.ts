@@ -0,0 +1,265 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { z } from "zod"
+
+import {
+  AccessDeniedError,
+  authorizationPolicySchema,
+  createAuthorizer,
+  getAuthorizationPolicy,
+} from "~/utils/authorization-policy"
+import { READ_ONLY_ANNOTATIONS, tool } from "~/utils/tool"
+
+const testTool = (name: string) =>
+  tool({
+    name,
+    title: name,
+    description: name,
+    annotations: READ_ONLY_ANNOTATIONS,
+    output: z.object({}),
+    async run() {
+      return {}
+    },
+  })
+
+const policy = authorizationPolicySchema.parse({
+  groups: {
+    finance: { claims: { "cognito:groups": "finance" } },
+    contractors: {
+      apiKeys: "contractor-key",
+      headers: { "X-Team": "contractors" },
+    },
+  },
+  rules: [
+    {
+      id: "no-pii-objects",
+      effect: "deny",
+      tools: "aws_s3_get_object_content",
+      conditions: { bucket: "*-pii-*" },
+    },
+    {
+      id: "finance-cost-only",
+      effect: "allow",
+      groups: "finance",
+      tools: "cost",
+    },
+    {
+      id: "contractors-eu-central-1",
+      effect: "allow",
+      groups: "contractors",
+      conditions: { region: "eu-central-1" },
+    },
+  ],
+})
+
+const authorizer = createAuthorizer(policy, {
+  cost: [testTool("aws_cost_get-cost-and-usage")],
+})
+
+const finance = {
+  headers: {},
+  principal: {
+    subject: "alice",
+    scopes: [],
+    claims: { "cognito:groups": ["finance", "staff"] },
+  },
+}
+const contractor = { headers: {}, apiKeyId: "contractor-key" }
+const anyone = { headers: {} }
+
+describe("createAuthorizer", () => {
+  beforeEach(() => {
+    process.env.DEFAULT_AWS_REGION = "eu-west-1"
+  })
+
+  afterAll(() => {
+    delete process.env.DEFAULT_AWS_REGION
+  })
+
+  test("should deny calls matching deny conditions for everyone", () => {
+    expect(() =>
+      authorizer.authorize({
+        toolName: "aws_s3_get_object_content",
+        args: { bucket: "orders-pii-2024", key: "a.csv" },
+        identity: anyone,
+      }),
+    ).toThrow(
+      new AccessDeniedError({
+        message:
+          'Access denied by rule "no-pii-objects" of the authorization policy: aws_s3_get_object_content with bucket orders-pii-2024 is not allowed',
+        toolName: "aws_s3_get_object_content",
+      }),
+    )
+    expect(() =>
+      authorizer.authorize({
+        toolName: "aws_s3_get_object_content",
+        args: { bucket: "orders", key: "a.csv" },
+        identity: anyone,
+      }),
+    ).not.toThrow()
+  })
+
+  test("should limit group with allow rules to allowed tools", () => {
+    expect(() =>
+      authorizer.authorize({
+        toolName: "aws_cost_get-cost-and-usage",
+        args: {},
+        identity: finance,
+      }),
+    ).not.toThrow()
+    expect(() =>
+      authorizer.authorize({
+        toolName: "aws_ec2_list_instances",
+        args: {},
+        identity: finance,
+      }),
+    ).toThrow("aws_ec2_list_instances is not allowed")
+  })
+
+  test("should limit group to allowed argument values", () => {
+    const call = (
+      args: Record<string, unknown>,
+      identity: object = contractor,
+    ) =>
+      authorizer.authorize({
+        toolName: "aws_ecs_list_clusters",
+        args,
+        identity: { headers: {}, ...identity },
+      })
+
+    expect(() => call({ region: "eu-central-1" })).not.toThrow()
+    expect(() => call({}, { headers: { "x-team": "contractors" } })).toThrow(
+      "region must match eu-central-1",
+    )
+    expect(() => call({ regions: ["eu-central-1", "us-east-1"] })).toThrow(
+      "region must match eu-central-1",
+    )
+  })
+
+  test("should match deny conditions by every argument naming the value", () => {
+    const denyProd = createAuthorizer(
+      authorizationPolicySchema.parse({
+        rules: [{ effect: "deny", conditions: { cluster: "prod-*" } }],
+      }),
+    )
+    const call = (toolName: string, args: Record<string, unknown>) => () =>
+      denyProd.authorize({ toolName, args, identity: anyone })
+
+    expect(call("aws_ecs_list_services", { cluster: "prod-main" })).toThrow(
+      "cluster prod-main",
+    )
+    expect(
+      call("aws_ecs_describe_clusters", { clusterArns: ["prod-main"] }),
+    ).toThrow("cluster prod-main")
+    expect(
+      call("aws_ecs_describe_clusters", { clusters: ["dev", "prod-main"] }),
+    ).toThrow("cluster dev, prod-main")
+    expect(call("aws_ecs_list_services", { cluster: "dev" })).not.toThrow()
+  })
+
+  test("should treat all enabled regions as every region", () => {
+    const denyUs = createAuthorizer(
+      authorizationPolicySchema.parse({
+        rules: [{ effect: "deny", conditions: { region: "us-*" } }],
+      }),
+    )
+
+    expect(() =>
+      denyUs.authorize({
+        toolName: "aws_ec2_describe_instances",
+        args: { regions: "all-enabled" },
+        identity: anyone,
+      }),
+    ).toThrow("region all-enabled")
+    expect(() =>
+      authorizer.authorize({
+        toolName: "aws_ecs_list_clusters",
+        args: { regions: "all-enabled" },
+        identity: contractor,
+      }),
+    ).toThrow("region must match eu-central-1")
+  })
+
+  test("should allow every call not denied to requests without allow rules", () => {
+    expect(() =>
+      authorizer.authorize({
+        toolName: "aws_ec2_list_instances",
+        args: { region: "us-east-1" },
+        identity: anyone,
+      }),
+    ).not.toThrow()
+  })
+
+  test("should list tools the request can call with some arguments", () => {
+    expect(authorizer.canCall("aws_cost_get-cost-and-usage", finance)).toBe(
+      true,
+    )
+    expect(authorizer.canCall("aws_ec2_list_instances", finance)).toBe(false)
+    expect(authorizer.canCall("aws_s3_get_object_content", anyone)).toBe(true)
+    expect(
+      createAuthorizer(
+        authorizationPolicySchema.parse({
+          rules: [{ effect: "deny", tools: "aws_s3_*" }],
+        }),
+      ).canCall("aws_s3_list_buckets", anyone),
+    ).toBe(false)
+  })
+})
+
+describe("getAuthorizationPolicy", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "authorization-policy-"))
+  })
+
+  afterEach(async () => {
+    delete process.env.MCP_AUTHORIZATION_POLICY
+    delete process.env.MCP_AUTHORIZATION_POLICY_FILE
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  test("should return undefined without policy", () => {
+    expect(getAuthorizationPolicy()).toBeUndefined()
+  })
+
+  test("should load YAML policy file", async () => {
+    const path = join(directory, "policy.yaml")
+    await writeFile(
+      path,
+      [
+        "rules:",
+        "  - effect: deny",
+        "    tools: aws_s3_get_object_content",
+        "    conditions:",
+        '      bucket: "*-pii-*"',
+      ].join("\n"),
+    )
+    process.env.MCP_AUTHORIZATION_POLICY_FILE = path
+
+    expect(getAuthorizationPolicy()).toEqual({
+      groups: {},
+      rules: [
+        {
+          effect: "deny",
+          tools: ["aws_s3_get_object_content"],
+          conditions: { bucket: ["*-pii-*"] },
+        },
+      ],
+    })
+  })
+
+  test("should parse inline JSON policy and reject invalid rules", () => {
+    process.env.MCP_AUTHORIZATION_POLICY = JSON.stringify({
+      rules: [{ effect: "allow", groups: ["finance"] }],
+    })
+    expect(getAuthorizationPolicy()?.rules).toHaveLength(1)
+
+    process.env.MCP_AUTHORIZATION_POLICY = JSON.stringify({
+      rules: [{ effect: "permit" }],
+    })
+    expect(() => getAuthorizationPolicy()).toThrow()
+  })
+})
@@ -0,0 +1,105 @@
+import {
+  AwsAccountError,
+  getAssumedRoleCredentials,
+  resolveAwsAccount,
+} from "~/utils/aws-account"
+
+describe("resolveAwsAccount", () => {
+  const env = process.env
+
+  beforeEach(() => {
+    process.env = {
+      ...env,
+      AWS_ACCOUNTS: JSON.stringify({
+        prod: {
+          roleArn: "arn:aws:iam::123456789012:role/ReadOnly",
+          externalId: "prod-external-id",
+        },
+      }),
+      AWS_ALLOWED_ROLE_ARNS: "arn:aws:iam::210987654321:role/Audit",
+      AWS_ASSUME_ROLE_SESSION_NAME: "cloudcontrol",
+    }
+  })
+
+  afterAll(() => {
+    process.env = env
+  })
+
+  test("should use server account by default", () => {
+    expect(resolveAwsAccount({})).toBeUndefined()
+  })
+
+  test("should resolve account alias from registry", () => {
+    expect(resolveAwsAccount({ account: "prod" })).toEqual({
+      roleArn: "arn:aws:iam::123456789012:role/ReadOnly",
+      externalId: "prod-external-id",
+      sessionName: "cloudcontrol",
+    })
+  })
+
+  test("should prefer role ARN over account", () => {
+    expect(
+      resolveAwsAccount({
+        account: "prod",
+        roleArn: "arn:aws:iam::210987654321:role/Audit",
+      })?.roleArn,
+    ).toBe("arn:aws:iam::210987654321:role/Audit")
+  })
+
+  test("should use registry config of role ARN", () => {
+    expect(
+      resolveAwsAccount({ roleArn: "arn:aws:iam::123456789012:role/ReadOnly" })
+        ?.externalId,
+    ).toBe("prod-external-id")
+  })
+
+  test("should reject role ARN not allowed", () => {
+    expect(() =>
+      resolveAwsAccount({ roleArn: "arn:aws:iam::210987654321:role/Admin" }),
+    ).toThrow(
+      new AwsAccountError({
+        message: "Role is not allowed: arn:aws:iam::210987654321:role/Admin",
+        category: "access_denied",
+      }),
+    )
+  })
+
+  test("should build role ARN of account ID with configured role name", () => {
+    process.env.AWS_ASSUME_ROLE_NAME = "CloudControl"
+
+    expect(resolveAwsAccount({ account: "210987654321" })?.roleArn).toBe(
+      "arn:aws:iam::210987654321:role/CloudControl",
+    )
+  })
+
+  test("should build role ARN in partition of the default region", () => {
+    process.env.AWS_ASSUME_ROLE_NAME = "CloudControl"
+    process.env.DEFAULT_AWS_REGION = "cn-north-1"
+
+    expect(resolveAwsAccount({ account: "210987654321" })?.roleArn).toBe(
+      "arn:aws-cn:iam::210987654321:role/CloudControl",
+    )
+  })
+
+  test("should reject unknown account", () => {
+    expect(() => resolveAwsAccount({ account: "staging" })).toThrow(
+      "Unknown AWS account: staging",
+    )
+  })
+})
+
+describe("getAssumedRoleCredentials", () => {
+  test("should share credentials of the same role", () => {
+    const account = { roleArn: "arn:aws:iam::123456789012:role/ReadOnly" }
+
+    expect(getAssumedRoleCredentials(account)).toBe(
+      getAssumedRoleCredentials({ ...account }),
+    )
+    expect(getAssumedRoleCredentials(account)).not.toBe(
+      getAssumedRoleCredentials({ ...account, externalId: "other" }),
+    )
+    expect(getAssumedRoleCredentials(account)).not.toBe(
+      getAssumedRoleCredentials({ ...account, sessionName: "other" }),
+    )
+  })
+})
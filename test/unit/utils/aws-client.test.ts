@@ -0,0 +1,117 @@
+import { S3Client } from "@aws-sdk/client-s3"
+import { SQSClient } from "@aws-sdk/client-sqs"
+
+import {
+  createAwsCallMetrics,
+  recordAwsCall,
+  recordQueryScan,
+  trackAwsCalls,
+} from "~/utils/aws-call-metrics"
+import {
+  clearAwsClients,
+  getAwsClient,
+  getRetryPolicy,
+} from "~/utils/aws-client"
+
+describe("getRetryPolicy", () => {
+  const env = process.env
+
+  beforeEach(() => {
+    process.env = { ...env }
+  })
+
+  afterAll(() => {
+    process.env = env
+  })
+
+  test("should use adaptive retry by default", () => {
+    expect(getRetryPolicy("s3")).toEqual({
+      retryMode: "adaptive",
+      maxAttempts: 5,
+    })
+  })
+
+  test("should apply service specific limits", () => {
+    expect(getRetryPolicy("ce").maxAttempts).toBe(3)
+  })
+
+  test("should allow overrides from environment", () => {
+    process.env.AWS_RETRY_MODE = "standard"
+    process.env.AWS_MAX_ATTEMPTS = "4"
+    process.env.AWS_EC2_MAX_ATTEMPTS = "10"
+
+    expect(getRetryPolicy("s3")).toEqual({
+      retryMode: "standard",
+      maxAttempts: 4,
+    })
+    expect(getRetryPolicy("ec2").maxAttempts).toBe(10)
+  })
+})
+
+describe("getAwsClient", () => {
+  afterEach(() => {
+    clearAwsClients()
+  })
+
+  test("should reuse client of the same service and region", () => {
+    const client = getAwsClient(S3Client, {
+      service: "s3",
+      region: "eu-west-1",
+    })
+
+    expect(getAwsClient(S3Client, { service: "s3", region: "eu-west-1" })).toBe(
+      client,
+    )
+    expect(
+      getAwsClient(S3Client, { service: "s3", region: "us-east-1" }),
+    ).not.toBe(client)
+    expect(
+      getAwsClient(SQSClient, { service: "sqs", region: "eu-west-1" }),
+    ).not.toBe(client)
+  })
+
+  test("should create separate clients for different credentials", () => {
+    const provider = async () => ({ accessKeyId: "a", secretAccessKey: "b" })
+
+    expect(
+      getAwsClient(S3Client, {
+        service: "s3",
+        region: "eu-west-1",
+        credentials: { key: "role-a", provider },
+      }),
+    ).not.toBe(
+      getAwsClient(S3Client, {
+        service: "s3",
+        region: "eu-west-1",
+        credentials: { key: "role-b", provider },
+      }),
+    )
+  })
+})
+
+describe("trackAwsCalls", () => {
+  test("should aggregate attempts of AWS calls", async () => {
+    const metrics = createAwsCallMetrics()
+
+    await trackAwsCalls(metrics, async () => {
+      recordAwsCall({ attempts: 1, totalRetryDelay: 0, requestId: "a" }, "ce")
+      recordAwsCall({ attempts: 3, totalRetryDelay: 250, requestId: "b" }, "ce")
+      recordQueryScan("query-1", 200)
+      recordQueryScan("query-1", 100)
+    })
+
+    expect(metrics).toEqual({
+      calls: 2,
+      attempts: 4,
+      retries: 2,
+      totalRetryDelayMs: 250,
+      requestIds: ["a", "b"],
+      attemptsByService: { ce: 4 },
+      bytesScannedByQuery: { "query-1": 200 },
+    })
+  })
+
+  test("should ignore calls outside of tracked function", () => {
+    expect(() => recordAwsCall({ attempts: 2 })).not.toThrow()
+  })
+})
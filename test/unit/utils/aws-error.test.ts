@@ -0,0 +1,82 @@
+import { classifyAwsError } from "~/utils/aws-error"
+import { ToolError } from "~/utils/tool-error"
+
+const awsError = (
+  name: string,
+  httpStatusCode: number,
+  extra: Record<string, unknown> = {},
+) =>
+  Object.assign(new Error(`${name} message`), {
+    name,
+    $fault: httpStatusCode >= 500 ? "server" : "client",
+    $metadata: { httpStatusCode, requestId: "request-id" },
+    ...extra,
+  })
+
+describe("classifyAwsError", () => {
+  test.each([
+    ["AccessDeniedException", 403, "access_denied", false],
+    ["UnauthorizedOperation", 403, "access_denied", false],
+    ["ThrottlingException", 400, "throttling", true],
+    ["RequestLimitExceeded", 503, "throttling", true],
+    ["LimitExceededException", 400, "quota_exceeded", false],
+    ["ServiceQuotaExceededException", 402, "quota_exceeded", false],
+    ["NoSuchBucket", 404, "resource_not_found", false],
+    ["DBInstanceNotFound", 404, "resource_not_found", false],
+    ["InvalidInstanceID.NotFound", 400, "resource_not_found", false],
+    ["ValidationException", 400, "validation", false],
+    ["ExpiredTokenException", 400, "expired_credentials", false],
+    ["OptInRequired", 401, "region_not_enabled", false],
+    ["InternalFailure", 500, "service_error", true],
+  ])("should classify %s as %s", (name, status, category, retryable) => {
+    expect(classifyAwsError(awsError(name, status))).toMatchObject({
+      category,
+      code: name,
+      httpStatus: status,
+      requestId: "request-id",
+      retryable,
+    })
+  })
+
+  test("should classify DNS failure as region not enabled", () => {
+    const error = Object.assign(new Error("getaddrinfo ENOTFOUND"), {
+      code: "ENOTFOUND",
+    })
+    expect(classifyAwsError(error)).toMatchObject({
+      category: "region_not_enabled",
+      code: "ENOTFOUND",
+    })
+  })
+
+  test("should ignore errors not coming from AWS SDK", () => {
+    expect(classifyAwsError(new Error("boom"))).toBeUndefined()
+  })
+})
+
+describe("ToolError", () => {
+  test("should expose AWS classification as structured content", () => {
+    const error = new ToolError({
+      error: awsError("AccessDeniedException", 403),
+      toolName: "aws_s3_list_buckets",
+    })
+
+    expect(error.toStructuredContent()).toMatchObject({
+      error: {
+        message: "AccessDeniedException message",
+        tool: "aws_s3_list_buckets",
+        category: "access_denied",
+        code: "AccessDeniedException",
+        httpStatus: 403,
+        requestId: "request-id",
+        retryable: false,
+      },
+    })
+  })
+
+  test("should keep classification of wrapped tool errors", () => {
+    const inner = new ToolError({ error: awsError("NoSuchKey", 404) })
+    const error = new ToolError({ error: inner, toolName: "aws_s3_get_object" })
+
+    expect(error.aws?.category).toBe("resource_not_found")
+  })
+})
@@ -0,0 +1,115 @@
+import { EC2Client } from "@aws-sdk/client-ec2"
+
+import {
+  awsRegion,
+  clearAwsRegionCache,
+  getAwsPartition,
+  getDefaultAwsRegion,
+  getEnabledAwsRegions,
+} from "~/utils/aws-region"
+
+describe("getAwsPartition", () => {
+  test.each([
+    ["eu-central-1", "aws"],
+    ["mx-central-1", "aws"],
+    ["cn-northwest-1", "aws-cn"],
+    ["us-gov-west-1", "aws-us-gov"],
+  ])("should resolve partition of %s", (region, partition) => {
+    expect(getAwsPartition(region)).toBe(partition)
+  })
+})
+
+describe("getDefaultAwsRegion", () => {
+  const env = process.env
+
+  afterEach(() => {
+    process.env = env
+  })
+
+  test("should prefer configured default region", () => {
+    process.env = { ...env, DEFAULT_AWS_REGION: "eu-west-1" }
+    expect(getDefaultAwsRegion()).toBe("eu-west-1")
+  })
+
+  test("should fall back to the server region", () => {
+    process.env = { ...env, DEFAULT_AWS_REGION: "", AWS_REGION: "us-east-2" }
+    expect(getDefaultAwsRegion()).toBe("us-east-2")
+  })
+})
+
+describe("region discovery", () => {
+  const send = jest.spyOn(EC2Client.prototype, "send")
+
+  beforeEach(() => {
+    clearAwsRegionCache()
+  })
+
+  afterAll(() => {
+    send.mockRestore()
+  })
+
+  test("should cache enabled regions until refresh", async () => {
+    send.mockImplementation(async () => ({
+      Regions: [{ RegionName: "us-east-1" }, { RegionName: "eu-central-1" }],
+    }))
+
+    await expect(getEnabledAwsRegions()).resolves.toEqual([
+      "eu-central-1",
+      "us-east-1",
+    ])
+    await getEnabledAwsRegions()
+    expect(send).toHaveBeenCalledTimes(1)
+
+    await getEnabledAwsRegions({ refresh: true })
+    expect(send).toHaveBeenCalledTimes(2)
+  })
+
+  test("should reject regions which are not enabled", async () => {
+    send.mockImplementation(async () => ({
+      Regions: [{ RegionName: "eu-central-1" }],
+    }))
+
+    await expect(
+      awsRegion().safeParseAsync("eu-central-1"),
+    ).resolves.toMatchObject({ success: true })
+    await expect(
+      awsRegion().safeParseAsync("ap-southeast-5"),
+    ).resolves.toMatchObject({ success: false })
+    await expect(awsRegion().safeParseAsync("mars-1")).resolves.toMatchObject({
+      success: false,
+    })
+  })
+
+  test("should fall back to known regions when discovery fails", async () => {
+    send.mockImplementation(async () => {
+      throw new Error("Access denied")
+    })
+
+    await expect(
+      awsRegion().safeParseAsync("ap-southeast-5"),
+    ).resolves.toMatchObject({ success: true })
+    await expect(
+      awsRegion().safeParseAsync("cn-north-1"),
+    ).resolves.toMatchObject({ success: false })
+  })
+
+  test("should cache known regions for a minute when discovery fails", async () => {
+    jest.useFakeTimers({ now: Date.now(), doNotFake: ["nextTick"] })
+    try {
+      send.mockClear()
+      send.mockImplementation(async () => {
+        throw new Error("Access denied")
+      })
+
+      await expect(getEnabledAwsRegions()).rejects.toThrow("Access denied")
+      await expect(getEnabledAwsRegions()).resolves.toContain("eu-central-1")
+      expect(send).toHaveBeenCalledTimes(1)
+
+      jest.advanceTimersByTime(61 * 1000)
+      await expect(getEnabledAwsRegions()).rejects.toThrow("Access denied")
+      expect(send).toHaveBeenCalledTimes(2)
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,137 @@
+import { generateKeyPairSync, sign } from "node:crypto"
+
+import { createBearerAuth } from "~/utils/bearer-auth"
+
+const ISSUER = "https://auth.example.com"
+const RESOURCE = "https://mcp.example.com/prod/mcp"
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+})
+
+const signToken = (payload: Record<string, unknown>) => {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url")
+  const unsigned = `${encode({ alg: "RS256", kid: "key-1" })}.${encode({
+    iss: ISSUER,
+    aud: RESOURCE,
+    exp: Math.floor(Date.now() / 1000) + 300,
+    ...payload,
+  })}`
+  return `${unsigned}.${sign("sha256", Buffer.from(unsigned), privateKey).toString("base64url")}`
+}
+
+describe("createBearerAuth", () => {
+  const fetchMock = jest.spyOn(global, "fetch")
+  const auth = createBearerAuth({
+    issuer: ISSUER,
+    resource: RESOURCE,
+    jwksUrl: `${ISSUER}/jwks.json`,
+    scopes: ["mcp:tools"],
+  })
+  const metadataUrl =
+    "https://mcp.example.com/prod/.well-known/oauth-protected-resource"
+
+  beforeEach(() => {
+    fetchMock.mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            keys: [{ ...publicKey.export({ format: "jwk" }), kid: "key-1" }],
+          }),
+        ),
+    )
+  })
+
+  afterAll(() => {
+    fetchMock.mockRestore()
+  })
+
+  test("should publish protected resource metadata under the endpoint path", () => {
+    expect(auth.resourceMetadataUrl).toBe(metadataUrl)
+    expect(auth.metadata()).toEqual({
+      resource: RESOURCE,
+      authorization_servers: [ISSUER],
+      bearer_methods_supported: ["header"],
+      scopes_supported: ["mcp:tools"],
+    })
+  })
+
+  test("should return principal of valid token", async () => {
+    const token = signToken({
+      sub: "user-1",
+      client_id: "client-1",
+      scope: "openid mcp:tools",
+      "cognito:groups": ["on-call"],
+    })
+
+    expect(
+      await auth.authenticate({ authorization: `Bearer ${token}` }),
+    ).toEqual({
+      principal: {
+        subject: "user-1",
+        clientId: "client-1",
+        scopes: ["openid", "mcp:tools"],
+        claims: expect.objectContaining({ "cognito:groups": ["on-call"] }),
+      },
+    })
+  })
+
+  test("should challenge request without token", async () => {
+    expect(await auth.authenticate({})).toEqual({
+      error: {
+        status: 401,
+        message: "Unauthorized: bearer token is required",
+        challenge: `Bearer resource_metadata="${metadataUrl}", scope="mcp:tools"`,
+      },
+    })
+  })
+
+  test("should challenge invalid token", async () => {
+    const token = signToken({ sub: "user-1", aud: "https://other.example.com" })
+
+    expect(
+      await auth.authenticate({ authorization: `Bearer ${token}` }),
+    ).toMatchObject({
+      error: {
+        status: 401,
+        challenge: expect.stringContaining(
+          'error="invalid_token", error_description="Token is not issued for this server"',
+        ),
+      },
+    })
+  })
+
+  test("should report unavailable keys of the authorization server", async () => {
+    fetchMock.mockImplementation(
+      async () => new Response("Bad Gateway", { status: 502 }),
+    )
+    const token = signToken({ sub: "user-1" })
+
+    expect(
+      await createBearerAuth({
+        issuer: ISSUER,
+        resource: RESOURCE,
+        jwksUrl: `${ISSUER}/jwks.json`,
+      }).authenticate({ authorization: `Bearer ${token}` }),
+    ).toEqual({
+      error: {
+        status: 503,
+        message: `Service Unavailable: token cannot be verified, Failed to fetch ${ISSUER}/jwks.json: 502`,
+      },
+    })
+  })
+
+  test("should reject token without required scopes", async () => {
+    const token = signToken({ sub: "user-1", scp: ["openid"] })
+
+    expect(
+      await auth.authenticate({ authorization: `Bearer ${token}` }),
+    ).toMatchObject({
+      error: {
+        status: 403,
+        challenge: expect.stringContaining('error="insufficient_scope"'),
+      },
+    })
+  })
+})
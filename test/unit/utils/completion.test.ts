@@ -0,0 +1,64 @@
+import { completeValues, createListCache } from "~/utils/completion"
+
+describe("completeValues", () => {
+  test("should match values by case-insensitive prefix", () => {
+    expect(
+      completeValues(["orders-api", "Orders-worker", "payments"], "ord"),
+    ).toEqual({
+      values: ["orders-api", "Orders-worker"],
+      total: 2,
+      hasMore: false,
+    })
+  })
+
+  test("should return at most 100 values", () => {
+    const values = Array.from({ length: 150 }, (_, index) => `fn-${index}`)
+
+    expect(completeValues(values, "fn-")).toMatchObject({
+      total: 150,
+      hasMore: true,
+    })
+    expect(completeValues(values, "fn-").values).toHaveLength(100)
+  })
+})
+
+describe("createListCache", () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test("should reuse values until they expire", async () => {
+    const cached = createListCache({ ttlMs: 60_000 })
+    const load = jest.fn().mockResolvedValue(["orders"])
+
+    await cached("clusters:eu-west-1", load)
+    await cached("clusters:eu-west-1", load)
+    expect(load).toHaveBeenCalledTimes(1)
+
+    await cached("clusters:us-east-1", load)
+    expect(load).toHaveBeenCalledTimes(2)
+
+    jest.advanceTimersByTime(60_000)
+    await cached("clusters:eu-west-1", load)
+    expect(load).toHaveBeenCalledTimes(3)
+  })
+
+  test("should not cache failed loads", async () => {
+    const cached = createListCache({ ttlMs: 60_000 })
+    const load = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("Throttled"))
+      .mockResolvedValue(["orders"])
+
+    await expect(cached("clusters:eu-west-1", load)).rejects.toThrow(
+      "Throttled",
+    )
+    await expect(cached("clusters:eu-west-1", load)).resolves.toEqual([
+      "orders",
+    ])
+  })
+})
@@ -0,0 +1,223 @@
+import { generateKeyPairSync, type KeyObject, sign } from "node:crypto"
+
+import { createJwtVerifier, InvalidTokenError } from "~/utils/jwt"
+
+const ISSUER = "https://auth.example.com"
+const AUDIENCE = "https://mcp.example.com/mcp"
+const JWKS_URL = "https://auth.example.com/jwks.json"
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+})
+
+const encode = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url")
+
+const signToken = (
+  payload: unknown,
+  options: { kid?: string; alg?: string; key?: KeyObject } = {},
+) => {
+  const header = encode({
+    alg: options.alg ?? "RS256",
+    kid: options.kid ?? "key-1",
+  })
+  const body = encode(payload)
+  const signature = sign(
+    "sha256",
+    Buffer.from(`${header}.${body}`),
+    options.key ?? privateKey,
+  ).toString("base64url")
+  return `${header}.${body}.${signature}`
+}
+
+const now = () => Math.floor(Date.now() / 1000)
+
+const claims = (overrides: Record<string, unknown> = {}) => ({
+  iss: ISSUER,
+  sub: "user-1",
+  aud: AUDIENCE,
+  exp: now() + 300,
+  ...overrides,
+})
+
+const jwks = (kid = "key-1") => ({
+  keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig" }],
+})
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    headers: { "content-type": "application/json" },
+  })
+
+describe("createJwtVerifier", () => {
+  const fetchMock = jest.spyOn(global, "fetch")
+
+  beforeEach(() => {
+    fetchMock.mockImplementation(async () => jsonResponse(jwks()))
+  })
+
+  afterAll(() => {
+    fetchMock.mockRestore()
+  })
+
+  test("should return payload of valid token and cache keys", async () => {
+    const verifier = createJwtVerifier({
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      jwksUrl: JWKS_URL,
+    })
+
+    expect(await verifier.verify(signToken(claims()))).toMatchObject({
+      sub: "user-1",
+    })
+    await verifier.verify(signToken(claims({ sub: "user-2" })))
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock).toHaveBeenCalledWith(JWKS_URL, expect.anything())
+  })
+
+  test("should discover keys from OpenID configuration of the issuer", async () => {
+    fetchMock.mockImplementation(async (url) =>
+      jsonResponse(
+        String(url).endsWith("/.well-known/openid-configuration")
+          ? { jwks_uri: JWKS_URL }
+          : jwks(),
+      ),
+    )
+    const verifier = createJwtVerifier({ issuer: ISSUER, audience: AUDIENCE })
+
+    await verifier.verify(signToken(claims()))
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${ISSUER}/.well-known/openid-configuration`,
+      expect.anything(),
+    )
+  })
+
+  test("should accept audience in array or Cognito client_id", async () => {
+    const verifier = createJwtVerifier({
+      issuer: ISSUER,
+      audience: "client-1",
+      jwksUrl: JWKS_URL,
+    })
+
+    await verifier.verify(signToken(claims({ aud: ["other", "client-1"] })))
+    await verifier.verify(
+      signToken(claims({ aud: undefined, client_id: "client-1" })),
+    )
+  })
+
+  test.each([
+    ["issuer", claims({ iss: "https://other.example.com" }), /issuer/],
+    ["audience", claims({ aud: "https://other.example.com" }), /not issued/],
+    ["expired", claims({ exp: now() - 120 }), /expired/],
+    ["without expiration", claims({ exp: undefined }), /no expiration/],
+    ["not valid yet", claims({ nbf: now() + 120 }), /not valid yet/],
+  ])("should reject token with invalid %s", async (_, payload, message) => {
+    const verifier = createJwtVerifier({
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      jwksUrl: JWKS_URL,
+    })
+
+    await expect(verifier.verify(signToken(payload))).rejects.toThrow(message)
+  })
+
+  test("should reject token signed by another key", async () => {
+    const other = generateKeyPairSync("rsa", { modulusLength: 2048 })
+    const verifier = createJwtVerifier({
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      jwksUrl: JWKS_URL,
+    })
+
+    await expect(
+      verifier.verify(signToken(claims(), { key: other.privateKey })),
+    ).rejects.toThrow("Invalid token signature")
+  })
+
+  test("should reject symmetric and unsigned tokens", async () => {
+    const verifier = createJwtVerifier({
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      jwksUrl: JWKS_URL,
+    })
+    const unsigned = `${encode({ alg: "none" })}.${encode(claims())}.`
+
+    await expect(
+      verifier.verify(signToken(claims(), { alg: "HS256" })),
+    ).rejects.toThrow("Unsupported algorithm HS256")
+    await expect(verifier.verify(unsigned)).rejects.toThrow(
+      "Unsupported algorithm none",
+    )
+    await expect(verifier.verify("not-a-token")).rejects.toThrow(
+      "Malformed token",
+    )
+  })
+
+  test("should reject header and payload that are not objects", async () => {
+    const verifier = createJwtVerifier({
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      jwksUrl: JWKS_URL,
+    })
+
+    await expect(
+      verifier.verify(`${encode(null)}.${encode(claims())}.`),
+    ).rejects.toThrow(new InvalidTokenError("Malformed token header"))
+    await expect(verifier.verify(signToken(1))).rejects.toThrow(
+      new InvalidTokenError("Malformed token payload"),
+    )
+  })
+
+  test("should skip keys that cannot verify tokens", async () => {
+    fetchMock.mockImplementation(async () =>
+      jsonResponse({
+        keys: [
+          { kty: "oct", kid: "hmac", k: "c2VjcmV0" },
+          { ...jwks("encryption").keys[0], use: "enc" },
+          { ...jwks("pss").keys[0], alg: "PS256" },
+          ...jwks().keys,
+        ],
+      }),
+    )
+    const verifier = createJwtVerifier({
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      jwksUrl: JWKS_URL,
+    })
+
+    expect(await verifier.verify(signToken(claims()))).toMatchObject({
+      sub: "user-1",
+    })
+    await expect(
+      verifier.verify(signToken(claims(), { kid: "encryption" })),
+    ).rejects.toThrow("Unknown signing key encryption")
+    await expect(
+      verifier.verify(signToken(claims(), { kid: "pss" })),
+    ).rejects.toThrow("Signing key pss does not use algorithm RS256")
+  })
+
+  test("should refetch keys for unknown key after cooldown", async () => {
+    jest.useFakeTimers({ now: Date.now(), doNotFake: ["nextTick"] })
+    try {
+      const verifier = createJwtVerifier({
+        issuer: ISSUER,
+        audience: AUDIENCE,
+        jwksUrl: JWKS_URL,
+      })
+      await verifier.verify(signToken(claims()))
+
+      fetchMock.mockImplementation(async () => jsonResponse(jwks("key-2")))
+      await expect(
+        verifier.verify(signToken(claims(), { kid: "key-2" })),
+      ).rejects.toThrow("Unknown signing key key-2")
+
+      jest.advanceTimersByTime(31 * 1000)
+      await verifier.verify(signToken(claims(), { kid: "key-2" }))
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,91 @@
+import { z } from "zod"
+
+import { mapWithConcurrency, multiRegion } from "~/utils/multi-region"
+import { createToolRunContext, READ_ONLY_ANNOTATIONS, tool } from "~/utils/tool"
+
+describe("mapWithConcurrency", () => {
+  test("should keep order and limit running promises", async () => {
+    let running = 0
+    let maxRunning = 0
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      running--
+      return n * 2
+    })
+
+    expect(results).toEqual([2, 4, 6, 8, 10])
+    expect(maxRunning).toBe(2)
+  })
+})
+
+describe("multiRegion", () => {
+  const listQueues = multiRegion(
+    tool({
+      name: "aws_test_list_queues",
+      title: "List Test Queues",
+      description: "List queues",
+      annotations: READ_ONLY_ANNOTATIONS,
+      args: z.object({
+        region: z.string().optional().default("eu-central-1"),
+      }),
+      output: z.object({ queues: z.array(z.string()), count: z.number() }),
+      async run(args) {
+        if (args.region === "us-west-1") {
+          throw Object.assign(new Error("Not authorized"), {
+            name: "AuthFailure",
+            $metadata: { httpStatusCode: 401 },
+          })
+        }
+        return { queues: [`queue-${args.region}`], count: 1 }
+      },
+    }),
+  )
+
+  test("should run single region without regions argument", async () => {
+    await expect(
+      listQueues.run({ region: "eu-west-1" }, createToolRunContext()),
+    ).resolves.toEqual({
+      queues: ["queue-eu-west-1"],
+      count: 1,
+    })
+  })
+
+  test("should merge results and report failed regions", async () => {
+    const result = await listQueues.run(
+      {
+        region: "eu-central-1",
+        regions: ["eu-west-1", "us-east-1", "us-west-1"],
+      },
+      createToolRunContext(),
+    )
+
+    expect(result).toEqual({
+      regions: ["eu-west-1", "us-east-1", "us-west-1"],
+      results: [
+        { region: "eu-west-1", queues: ["queue-eu-west-1"], count: 1 },
+        { region: "us-east-1", queues: ["queue-us-east-1"], count: 1 },
+      ],
+      errors: [
+        expect.objectContaining({
+          region: "us-west-1",
+          message: "Not authorized",
+          category: "access_denied",
+        }),
+      ],
+      count: 2,
+    })
+    expect(listQueues.output.safeParse(result).success).toBe(true)
+  })
+
+  test("should fail when every region fails", async () => {
+    await expect(
+      listQueues.run(
+        { region: "eu-central-1", regions: ["us-west-1"] },
+        createToolRunContext(),
+      ),
+    ).rejects.toThrow("Not authorized")
+  })
+})
@@ -0,0 +1,97 @@
+import { createPaginator, paginate } from "~/utils/pagination"
+
+type Page = { Items: number[]; NextToken?: string }
+
+describe("paginate", () => {
+  // Three pages of three items, the token is the index of the next page
+  const pages = [
+    [1, 2, 3],
+    [4, 5, 6],
+    [7, 8, 9],
+  ]
+  const fetchPage = jest.fn(
+    async (token?: string, _pageSize?: number): Promise<Page> => {
+      const index = Number(token ?? 0)
+      return {
+        Items: pages[index]!,
+        NextToken: index + 1 < pages.length ? String(index + 1) : undefined,
+      }
+    },
+  )
+
+  const list = (args: Parameters<typeof paginate>[0]) =>
+    paginate(args, {
+      pages: createPaginator(fetchPage, (page) => page.NextToken),
+      items: (page: Page) => page.Items,
+      nextToken: (page) => page.NextToken,
+      pageSize: { min: 2, max: 100 },
+    })
+
+  beforeEach(() => {
+    fetchPage.mockClear()
+  })
+
+  test("should fetch a single page without fetchAll", async () => {
+    const result = await list({})
+
+    expect(result).toMatchObject({
+      items: [1, 2, 3],
+      count: 3,
+      truncated: true,
+    })
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+
+    const next = await list({ cursor: result.nextCursor })
+    expect(next.items).toEqual([4, 5, 6])
+  })
+
+  test("should fetch all pages with fetchAll", async () => {
+    const result = await list({ fetchAll: true })
+
+    expect(result).toEqual({
+      items: [1, 2, 3, 4, 5, 6, 7, 8, 9],
+      count: 9,
+      nextCursor: undefined,
+      truncated: false,
+    })
+    expect(fetchPage).toHaveBeenCalledTimes(3)
+  })
+
+  test("should stop at maxPages", async () => {
+    const result = await list({ fetchAll: true, maxPages: 2 })
+
+    expect(result.items).toEqual([1, 2, 3, 4, 5, 6])
+    expect(result.truncated).toBe(true)
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+  })
+
+  test("should continue in the middle of a page after maxItems", async () => {
+    const result = await list({ fetchAll: true, maxItems: 4 })
+
+    expect(result.items).toEqual([1, 2, 3, 4])
+    expect(fetchPage).toHaveBeenCalledWith(undefined, 4)
+
+    const next = await list({ fetchAll: true, cursor: result.nextCursor })
+    expect(next.items).toEqual([5, 6, 7, 8, 9])
+  })
+
+  test("should skip items in a page of the size the cursor was created with", async () => {
+    const result = await list({ fetchAll: true, maxItems: 4 })
+    fetchPage.mockClear()
+
+    await list({ cursor: result.nextCursor, maxItems: 10 })
+    expect(fetchPage).toHaveBeenCalledWith("1", 4)
+  })
+
+  test("should clamp page size to the operation limits", async () => {
+    await list({ maxItems: 1 })
+
+    expect(fetchPage).toHaveBeenCalledWith(undefined, 2)
+  })
+
+  test("should reject invalid cursor", async () => {
+    await expect(list({ cursor: "not-a-cursor" })).rejects.toThrow(
+      "Invalid cursor",
+    )
+  })
+})
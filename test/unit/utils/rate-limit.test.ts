@@ -0,0 +1,201 @@
+import { createAwsCallMetrics } from "~/utils/aws-call-metrics"
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getRateLimitConfig,
+  QuotaExceededError,
+  type RateLimitConfig,
+  takeToken,
+} from "~/utils/rate-limit"
+
+const GB = 1024 ** 3
+
+const config: RateLimitConfig = {
+  perMinute: 0,
+  tools: {},
+  dailyCostExplorerRequests: 0,
+  dailyLogsInsightsBytes: 0,
+}
+
+const alice = { principal: { subject: "alice", scopes: [], claims: {} } }
+
+describe("takeToken", () => {
+  const limit = { perMinute: 60, burst: 2 }
+
+  test("should start with full bucket and refill it over time", () => {
+    const first = takeToken(undefined, limit, 0)
+    const second = takeToken(first.bucket, limit, 0)
+    const third = takeToken(second.bucket, limit, 0)
+
+    expect([first.allowed, second.allowed, third.allowed]).toEqual([
+      true,
+      true,
+      false,
+    ])
+    expect(third.retryAfterMs).toBe(1000)
+    expect(takeToken(second.bucket, limit, 1000).allowed).toBe(true)
+  })
+
+  test("should not refill bucket over burst", () => {
+    expect(
+      takeToken({ tokens: 0, updatedAt: 0 }, limit, 60_000).bucket,
+    ).toEqual({ tokens: 1, updatedAt: 60_000 })
+  })
+})
+
+describe("createRateLimiter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2025-01-01T12:00:00.000Z") })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test("should limit calls of a caller to a tool per minute", async () => {
+    const limiter = createRateLimiter(
+      {
+        ...config,
+        perMinute: 60,
+        tools: { "aws_cost_*": { perMinute: 1 } },
+      },
+      createMemoryRateLimitStore(),
+    )
+    const consume = (toolName: string) =>
+      limiter.consume({ toolName, caller: alice })
+
+    await consume("aws_cost_get-cost-and-usage")
+    await expect(consume("aws_cost_get-cost-and-usage")).rejects.toThrow(
+      new QuotaExceededError({
+        message:
+          "Rate limit exceeded: 1 calls of aws_cost_get-cost-and-usage a minute",
+        toolName: "aws_cost_get-cost-and-usage",
+        code: "RateLimitExceeded",
+        resetAt: new Date("2025-01-01T12:01:00.000Z"),
+      }),
+    )
+    await consume("aws_ec2_list_instances")
+
+    jest.advanceTimersByTime(60_000)
+    await consume("aws_cost_get-cost-and-usage")
+  })
+
+  test("should return structured error with reset time", async () => {
+    const limiter = createRateLimiter(
+      { ...config, tools: { "aws_ec2_*": { dailyCalls: 1 } } },
+      createMemoryRateLimitStore(),
+    )
+
+    await limiter.consume({ toolName: "aws_ec2_list_instances", caller: {} })
+    const error = await limiter
+      .consume({ toolName: "aws_ec2_list_instances", caller: {} })
+      .catch((error: unknown) => error)
+
+    expect((error as QuotaExceededError).toStructuredContent()).toEqual({
+      error: {
+        message:
+          "Daily quota exceeded: 1 calls of aws_ec2_list_instances a day",
+        tool: "aws_ec2_list_instances",
+        category: "throttling",
+        code: "QuotaExceeded",
+        retryable: true,
+        resetAt: "2025-01-02T00:00:00.000Z",
+        remediation: expect.any(String),
+      },
+    })
+  })
+
+  test("should reject Cost Explorer tools once the daily requests are used up", async () => {
+    const limiter = createRateLimiter(
+      { ...config, dailyCostExplorerRequests: 3 },
+      createMemoryRateLimitStore(),
+    )
+    const toolName = "aws_cost_get-cost-and-usage"
+    // Retried attempts are billed like operations
+    const awsCalls = {
+      ...createAwsCallMetrics(),
+      calls: 2,
+      attemptsByService: { ce: 3 },
+    }
+
+    await limiter.consume({ toolName, caller: alice })
+    await limiter.record({ toolName, caller: alice, awsCalls })
+
+    await expect(limiter.consume({ toolName, caller: alice })).rejects.toThrow(
+      "3 Cost Explorer API requests a day",
+    )
+    await limiter.consume({ toolName: "aws_ec2_list_instances", caller: alice })
+    await limiter.consume({ toolName, caller: { apiKeyId: "key-1" } })
+
+    jest.advanceTimersByTime(12 * 60 * 60 * 1000)
+    await limiter.consume({ toolName, caller: alice })
+  })
+
+  test("should count bytes scanned by a Logs Insights query once", async () => {
+    const limiter = createRateLimiter(
+      { ...config, dailyLogsInsightsBytes: 2 * GB },
+      createMemoryRateLimitStore(),
+    )
+    const record = (queryId: string, bytesScanned: number) =>
+      limiter.record({
+        toolName: "aws_cloudwatchlogs_get_query_results",
+        caller: alice,
+        awsCalls: {
+          ...createAwsCallMetrics(),
+          bytesScannedByQuery: { [queryId]: bytesScanned },
+        },
+      })
+    const consume = () =>
+      limiter.consume({ toolName: "aws_cloudwatchlogs_query", caller: alice })
+
+    // Running and stopped queries count the bytes scanned so far
+    await record("query-1", GB / 2)
+    await record("query-1", GB)
+    await record("query-1", GB)
+    await consume()
+
+    await record("query-2", GB)
+    await expect(consume()).rejects.toThrow(
+      "2 GB scanned by Logs Insights queries a day",
+    )
+    // Results of started queries can still be fetched
+    await limiter.consume({
+      toolName: "aws_cloudwatchlogs_get_query_results",
+      caller: alice,
+    })
+  })
+})
+
+describe("getRateLimitConfig", () => {
+  afterEach(() => {
+    delete process.env.MCP_RATE_LIMIT_PER_MINUTE
+    delete process.env.MCP_TOOL_RATE_LIMITS
+    delete process.env.MCP_DAILY_LOGS_INSIGHTS_GB
+  })
+
+  test("should return defaults", () => {
+    expect(getRateLimitConfig()).toEqual({
+      perMinute: 60,
+      burst: undefined,
+      tools: {},
+      dailyCostExplorerRequests: 500,
+      dailyLogsInsightsBytes: 100 * GB,
+    })
+  })
+
+  test("should read limits and disable them with 0", () => {
+    process.env.MCP_RATE_LIMIT_PER_MINUTE = "0"
+    process.env.MCP_DAILY_LOGS_INSIGHTS_GB = "0.5"
+    process.env.MCP_TOOL_RATE_LIMITS = JSON.stringify({
+      "aws_cloudwatchlogs_*query*": { perMinute: 6, dailyCalls: 200 },
+    })
+
+    expect(getRateLimitConfig()).toMatchObject({
+      perMinute: 0,
+      tools: {
+        "aws_cloudwatchlogs_*query*": { perMinute: 6, dailyCalls: 200 },
+      },
+      dailyLogsInsightsBytes: 0.5 * GB,
+    })
+  })
+})
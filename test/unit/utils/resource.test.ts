@@ -0,0 +1,47 @@
+import { expandUriTemplate, matchUriTemplate } from "~/utils/resource"
+
+describe("matchUriTemplate", () => {
+  const uriTemplate = "aws://{region}/logs/{logGroup}/{logStream}"
+
+  test("should return percent-decoded variables", () => {
+    expect(
+      matchUriTemplate(
+        uriTemplate,
+        "aws://eu-west-1/logs/%2Faws%2Flambda%2Forders/2024%2F01%2F01%2F%5B%24LATEST%5Dabc",
+      ),
+    ).toEqual({
+      region: "eu-west-1",
+      logGroup: "/aws/lambda/orders",
+      logStream: "2024/01/01/[$LATEST]abc",
+    })
+  })
+
+  test("should not match variables spanning /", () => {
+    expect(
+      matchUriTemplate(uriTemplate, "aws://eu-west-1/logs/aws/lambda/orders"),
+    ).toBeUndefined()
+  })
+
+  test("should not match other templates", () => {
+    expect(
+      matchUriTemplate(uriTemplate, "aws://eu-west-1/lambda/orders"),
+    ).toBeUndefined()
+  })
+})
+
+describe("expandUriTemplate", () => {
+  test("should percent-encode variables", () => {
+    const uri = expandUriTemplate("aws://{region}/s3/{bucket}/{key}", {
+      region: "eu-west-1",
+      bucket: "reports",
+      key: "2024/summary.csv",
+    })
+
+    expect(uri).toBe("aws://eu-west-1/s3/reports/2024%2Fsummary.csv")
+    expect(matchUriTemplate("aws://{region}/s3/{bucket}/{key}", uri)).toEqual({
+      region: "eu-west-1",
+      bucket: "reports",
+      key: "2024/summary.csv",
+    })
+  })
+})
@@ -0,0 +1,241 @@
+import {
+  budgetResponse,
+  createResultCache,
+  decodeResponseCursor,
+  describeTruncation,
+  getResponseCallKey,
+  toProjectableSchema,
+} from "~/utils/response-budget"
+
+const instances = Array.from({ length: 200 }, (_, index) => ({
+  instanceId: `i-${String(index).padStart(17, "0")}`,
+  state: { name: "running", code: 16 },
+  tags: [{ key: "Name", value: `web-${index}` }],
+}))
+
+describe("budgetResponse", () => {
+  const callKey = getResponseCallKey("aws_ec2_describe_instances", {
+    region: "eu-west-1",
+  })
+
+  test("should return indented JSON within the budget", () => {
+    const result = { items: instances.slice(0, 2), count: 2 }
+
+    expect(
+      budgetResponse(result, { callKey, maxResponseTokens: 25_000 }),
+    ).toEqual({ data: result, text: JSON.stringify(result, null, 2) })
+  })
+
+  test("should return compact JSON", () => {
+    const result = { items: instances.slice(0, 2), count: 2 }
+
+    expect(
+      budgetResponse(result, {
+        callKey,
+        maxResponseTokens: 25_000,
+        compact: true,
+      }).text,
+    ).toBe(JSON.stringify(result))
+  })
+
+  test("should keep only fields of array items", () => {
+    const { data } = budgetResponse(
+      { items: instances.slice(0, 2), count: 2 },
+      {
+        callKey,
+        maxResponseTokens: 25_000,
+        fields: ["instanceId", "state.name"],
+      },
+    )
+
+    expect(data).toEqual({
+      items: [
+        { instanceId: "i-00000000000000000", state: { name: "running" } },
+        { instanceId: "i-00000000000000001", state: { name: "running" } },
+      ],
+      count: 2,
+    })
+  })
+
+  test("should truncate top-level arrays and continue with cursor", () => {
+    const result = { items: instances, count: instances.length }
+
+    const first = budgetResponse(result, {
+      callKey,
+      maxResponseTokens: 2000,
+      resultId: "result-1",
+    })
+    const firstItems = (first.data as typeof result).items
+    expect(Buffer.byteLength(first.text)).toBeLessThanOrEqual(8000)
+    expect(first.truncation).toMatchObject({
+      arrays: [{ path: "items", offset: 0, total: 200 }],
+      strings: 0,
+      responseCursor: expect.any(String),
+    })
+    expect(first.truncation!.arrays[0]!.returned).toBe(firstItems.length)
+
+    const cursor = decodeResponseCursor(
+      first.truncation!.responseCursor!,
+      callKey,
+    )
+    expect(cursor).toEqual({
+      offsets: { items: firstItems.length },
+      resultId: "result-1",
+    })
+
+    const second = budgetResponse(result, {
+      callKey,
+      maxResponseTokens: 2000,
+      offsets: cursor!.offsets,
+    })
+    expect((second.data as typeof result).items[0]).toEqual(
+      instances[firstItems.length],
+    )
+    expect(second.truncation!.arrays[0]!.offset).toBe(firstItems.length)
+  })
+
+  test("should describe the last slice of a continued response", () => {
+    const result = { items: instances.slice(0, 10), count: 10 }
+
+    const { data, truncation } = budgetResponse(result, {
+      callKey,
+      maxResponseTokens: 2000,
+      offsets: { items: 8 },
+    })
+
+    expect((data as typeof result).items).toHaveLength(2)
+    expect(truncation).toEqual({
+      arrays: [{ path: "items", offset: 8, returned: 2, total: 10 }],
+      strings: 0,
+    })
+    expect(describeTruncation(truncation!, 2000)).toBe(
+      "Response continued from responseCursor, the remaining items are returned. items: items 9 to 10 of 10 returned.",
+    )
+  })
+
+  test("should cut long strings which cannot be continued", () => {
+    const { text, truncation } = budgetResponse(
+      { content: "x".repeat(100_000) },
+      { callKey, maxResponseTokens: 1000 },
+    )
+
+    expect(Buffer.byteLength(text)).toBeLessThanOrEqual(4000)
+    expect(text).toContain("characters truncated]")
+    expect(truncation).toEqual({ arrays: [], strings: 1 })
+    expect(describeTruncation(truncation!, 1000)).toContain("Narrow the result")
+  })
+})
+
+describe("decodeResponseCursor", () => {
+  test("should reject cursors of other calls", () => {
+    const { truncation } = budgetResponse(
+      { items: instances },
+      {
+        callKey: getResponseCallKey("aws_ec2_describe_instances", {
+          region: "eu-west-1",
+        }),
+        maxResponseTokens: 2000,
+      },
+    )
+
+    expect(
+      decodeResponseCursor(
+        truncation!.responseCursor!,
+        getResponseCallKey("aws_ec2_describe_instances", {
+          region: "us-east-1",
+        }),
+      ),
+    ).toBeUndefined()
+    expect(decodeResponseCursor("not-a-cursor", "key")).toBeUndefined()
+  })
+
+  test("should ignore argument order and response arguments in call key", () => {
+    expect(
+      getResponseCallKey("aws_ec2_describe_instances", {
+        region: "eu-west-1",
+        maxItems: 10,
+      }),
+    ).toBe(
+      getResponseCallKey("aws_ec2_describe_instances", {
+        maxItems: 10,
+        region: "eu-west-1",
+        responseCursor: "cursor",
+        compact: true,
+      }),
+    )
+  })
+})
+
+describe("toProjectableSchema", () => {
+  const item = {
+    type: "object",
+    properties: {
+      queueUrl: { type: "string" },
+      attributes: {
+        type: "object",
+        properties: { required: { type: "boolean" } },
+        required: ["required"],
+      },
+    },
+    required: ["queueUrl", "attributes"],
+  }
+
+  test("should make properties of items of top-level arrays optional", () => {
+    expect(
+      toProjectableSchema({
+        type: "object",
+        properties: {
+          items: { type: "array", items: item },
+          count: { type: "number" },
+        },
+        required: ["items", "count"],
+      }),
+    ).toEqual({
+      type: "object",
+      properties: {
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              queueUrl: { type: "string" },
+              attributes: {
+                type: "object",
+                properties: { required: { type: "boolean" } },
+              },
+            },
+          },
+        },
+        count: { type: "number" },
+      },
+      required: ["items", "count"],
+    })
+  })
+
+  test("should make properties of results without arrays optional", () => {
+    expect(toProjectableSchema(item)).not.toHaveProperty("required")
+  })
+})
+
+describe("createResultCache", () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test("should keep results until they expire or newer ones replace them", () => {
+    const results = createResultCache({ ttlMs: 60_000, maxEntries: 2 })
+    results.set("a", { items: [1] })
+    results.set("b", { items: [2] })
+
+    expect(results.get("a")).toEqual({ items: [1] })
+    results.set("c", { items: [3] })
+    expect(results.get("a")).toBeUndefined()
+
+    jest.advanceTimersByTime(60_000)
+    expect(results.get("c")).toBeUndefined()
+  })
+})
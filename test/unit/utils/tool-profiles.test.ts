@@ -0,0 +1,121 @@
+import { z } from "zod"
+
+import { InvalidRequestError } from "~/utils/json-rpc-error"
+import { READ_ONLY_ANNOTATIONS, type Tool, tool } from "~/utils/tool"
+import {
+  createToolSelector,
+  filterTools,
+  parseToolPatterns,
+} from "~/utils/tool-profiles"
+
+const testTool = (name: string): Tool =>
+  tool({
+    name,
+    title: name,
+    description: name,
+    annotations: READ_ONLY_ANNOTATIONS,
+    output: z.object({}),
+    async run() {
+      return {}
+    },
+  })
+
+const groups = {
+  cost: [
+    testTool("aws_cost_get_cost_and_usage"),
+    testTool("aws_cost_get_tags"),
+  ],
+  ecs: [testTool("aws_ecs_list_clusters")],
+  lambda: [testTool("aws_lambda_list_functions")],
+  ec2: [
+    testTool("aws_ec2_describe_instances"),
+    testTool("aws_ec2_describe_vpcs"),
+  ],
+}
+const tools = Object.values(groups).flat()
+const names = (tools: Tool[]) => tools.map((tool) => tool.name)
+
+describe("filterTools", () => {
+  test("should keep every tool without patterns", () => {
+    expect(filterTools(tools, parseToolPatterns(""), groups)).toEqual(tools)
+  })
+
+  test("should keep tools of groups and globs", () => {
+    const filtered = filterTools(
+      tools,
+      parseToolPatterns("cost, aws_ec2_*_vpcs"),
+      groups,
+    )
+
+    expect(names(filtered)).toEqual([
+      "aws_cost_get_cost_and_usage",
+      "aws_cost_get_tags",
+      "aws_ec2_describe_vpcs",
+    ])
+  })
+
+  test("should exclude tools prefixed with !", () => {
+    const filtered = filterTools(
+      tools,
+      parseToolPatterns("!ec2,!aws_cost_get_tags"),
+      groups,
+    )
+
+    expect(names(filtered)).toEqual([
+      "aws_cost_get_cost_and_usage",
+      "aws_ecs_list_clusters",
+      "aws_lambda_list_functions",
+    ])
+  })
+})
+
+describe("createToolSelector", () => {
+  const env = process.env
+  const selectTools = createToolSelector(groups)
+
+  beforeEach(() => {
+    process.env = {
+      ...env,
+      MCP_TOOL_PROFILES: JSON.stringify({ network: ["aws_ec2_*_vpcs"] }),
+      MCP_API_KEY_PROFILES: JSON.stringify({ "finance-key": "cost-analyst" }),
+    }
+  })
+
+  afterAll(() => {
+    process.env = env
+  })
+
+  test("should keep every tool without profiles", () => {
+    expect(selectTools(tools, { headers: {} })).toEqual(tools)
+  })
+
+  test("should keep tools of any header profile", () => {
+    const selected = selectTools(tools, {
+      headers: { "mcp-tool-profile": "on-call,network" },
+    })
+
+    expect(names(selected)).toEqual([
+      "aws_ecs_list_clusters",
+      "aws_lambda_list_functions",
+      "aws_ec2_describe_vpcs",
+    ])
+  })
+
+  test("should not extend tools of the API key profile with header", () => {
+    const selected = selectTools(tools, {
+      headers: { "mcp-tool-profile": "on-call" },
+      apiKeyId: "finance-key",
+    })
+
+    expect(selected).toEqual([])
+    expect(
+      names(selectTools(tools, { headers: {}, apiKeyId: "finance-key" })),
+    ).toEqual(["aws_cost_get_cost_and_usage", "aws_cost_get_tags"])
+  })
+
+  test("should throw on unknown profile", () => {
+    expect(() =>
+      selectTools(tools, { headers: { "mcp-tool-profile": "admin" } }),
+    ).toThrow(InvalidRequestError)
+  })
+})